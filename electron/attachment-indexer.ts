@@ -0,0 +1,137 @@
+// Background text extraction for attachment search. Files are parsed in a utility process
+// (text-extraction/worker.ts), one at a time, so large PDFs and Word files never block the main
+// process; this side only queues blobs and stores each outcome (text, or why there is none), so
+// every file is read once. New attachments are queued as they are added; a full scan for blobs
+// without text runs at startup and after imports and restores.
+import { utilityProcess, type UtilityProcess } from 'electron';
+import { join } from 'path';
+import {
+  getBlobsWithoutText,
+  getBlobWithoutText,
+  saveAttachmentText,
+  type PendingTextBlob,
+} from './db/attachments';
+import { getAttachmentsRoot } from './file-handler';
+import type { TextRequest, TextResult } from './text-extraction';
+
+// A file taking longer than this is given up on (the process is restarted)
+const EXTRACTION_TIMEOUT_MS = 2 * 60 * 1000;
+
+const queue = new Map<string, PendingTextBlob>();
+let draining = false;
+let stopped = false;
+let extractor: UtilityProcess | null = null;
+let onIndexed: (count: number) => void = () => {};
+
+function startExtractor(): UtilityProcess {
+  if (!extractor) {
+    const child = utilityProcess.fork(join(__dirname, 'text-extraction', 'worker.js'), [], {
+      serviceName: 'TaskVault text extraction',
+    });
+    child.on('exit', () => {
+      if (extractor === child) extractor = null;
+    });
+    extractor = child;
+  }
+  return extractor;
+}
+
+function stopExtractor() {
+  extractor?.kill();
+  extractor = null;
+}
+
+// Send one file to the utility process; a crash or timeout counts as FAILED
+function extract(request: TextRequest): Promise<TextResult> {
+  const child = startExtractor();
+  return new Promise((resolve) => {
+    const finish = (result: TextResult) => {
+      clearTimeout(timer);
+      child.off('message', handleMessage);
+      child.off('exit', handleExit);
+      resolve(result);
+    };
+    const handleMessage = (result: TextResult) => {
+      if (result.hash === request.hash) finish(result);
+    };
+    const handleExit = () => {
+      console.error(`Text extraction process exited while reading ${request.fileName}`);
+      finish({ hash: request.hash, status: 'FAILED', content: '' });
+    };
+    const timer = setTimeout(() => {
+      console.error(`Text extraction timed out on ${request.fileName}`);
+      child.off('exit', handleExit);
+      stopExtractor();
+      finish({ hash: request.hash, status: 'FAILED', content: '' });
+    }, EXTRACTION_TIMEOUT_MS);
+    child.on('message', handleMessage);
+    child.on('exit', handleExit);
+    child.postMessage(request);
+  });
+}
+
+async function drainQueue() {
+  if (draining) return;
+  draining = true;
+  let indexed = 0;
+  try {
+    while (queue.size > 0) {
+      const [hash, blob] = queue.entries().next().value as [string, PendingTextBlob];
+      queue.delete(hash);
+      const result = await extract({
+        hash,
+        absolutePath: join(getAttachmentsRoot(), blob.file),
+        fileName: blob.original_name,
+        mime: blob.mime,
+      });
+      // Quitting kills the process mid-file; that isn't the file's fault
+      if (stopped) break;
+      try {
+        // False when the blob was deleted while it was being read
+        if (saveAttachmentText(hash, result.status, result.content) && result.content !== '') {
+          indexed++;
+        }
+      } catch (error) {
+        // E.g. the database is closing; the blob stays pending for the next scan
+        console.error(`Failed to store text of attachment ${blob.original_name}:`, error);
+      }
+    }
+  } finally {
+    draining = false;
+    // Nothing left to read: don't keep the process around
+    stopExtractor();
+  }
+  if (indexed > 0) onIndexed(indexed);
+}
+
+function enqueue(blobs: PendingTextBlob[]) {
+  for (const blob of blobs) {
+    queue.set(blob.hash, blob);
+  }
+  if (queue.size > 0) {
+    drainQueue().catch((error) => console.error('Attachment text extraction failed:', error));
+  }
+}
+
+// Start with every blob still waiting for extraction. `indexed` is called after the queue runs
+// dry, when at least one file added text to search.
+export function startAttachmentIndexer(indexed: (count: number) => void) {
+  onIndexed = indexed;
+  queueAllPendingAttachments();
+}
+
+// Queue newly added attachments (paths as stored in their entries)
+export function queueAttachmentText(paths: string[]) {
+  enqueue(paths.map(getBlobWithoutText).filter((blob): blob is PendingTextBlob => blob !== null));
+}
+
+// Queue every blob without text, after bulk changes (imports, restores) add files
+export function queueAllPendingAttachments() {
+  enqueue(getBlobsWithoutText());
+}
+
+export function stopAttachmentIndexer() {
+  stopped = true;
+  queue.clear();
+  stopExtractor();
+}
@@ -0,0 +1,100 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AttachmentPathError,
+  normalizeAttachmentPath,
+  resolveAttachmentPath,
+  type AttachmentPathErrorCode,
+} from './attachment-paths';
+import { createTestVault, type TestVault } from './test-utils';
+
+function assertRejects(run: () => unknown, code: AttachmentPathErrorCode) {
+  assert.throws(run, (error: unknown) => {
+    assert.ok(error instanceof AttachmentPathError, `expected an AttachmentPathError, got ${error}`);
+    assert.equal(error.code, code);
+    return true;
+  });
+}
+
+describe('normalizeAttachmentPath', () => {
+  it('accepts task-relative paths and turns backslashes into slashes', () => {
+    assert.equal(normalizeAttachmentPath('task-1/report.pdf'), 'task-1/report.pdf');
+    assert.equal(normalizeAttachmentPath('task-1\\report.pdf'), 'task-1/report.pdf');
+  });
+
+  it('rejects ".." traversal with either separator', () => {
+    assertRejects(() => normalizeAttachmentPath('../secret.txt'), 'OUTSIDE_VAULT');
+    assertRejects(() => normalizeAttachmentPath('task-1/../../secret.txt'), 'OUTSIDE_VAULT');
+    assertRejects(() => normalizeAttachmentPath('task-1\\..\\..\\secret.txt'), 'OUTSIDE_VAULT');
+    assertRejects(() => normalizeAttachmentPath('task-1/..\\secret.txt'), 'OUTSIDE_VAULT');
+  });
+
+  it('rejects absolute POSIX paths', () => {
+    assertRejects(() => normalizeAttachmentPath('/etc/passwd'), 'OUTSIDE_VAULT');
+  });
+
+  it('rejects drive-letter paths, rooted or not', () => {
+    assertRejects(() => normalizeAttachmentPath('C:\\Windows\\win.ini'), 'OUTSIDE_VAULT');
+    assertRejects(() => normalizeAttachmentPath('c:/Windows/win.ini'), 'OUTSIDE_VAULT');
+    assertRejects(() => normalizeAttachmentPath('C:win.ini'), 'OUTSIDE_VAULT');
+  });
+
+  it('rejects UNC paths', () => {
+    assertRejects(() => normalizeAttachmentPath('\\\\server\\share\\file.txt'), 'OUTSIDE_VAULT');
+    assertRejects(() => normalizeAttachmentPath('//server/share/file.txt'), 'OUTSIDE_VAULT');
+    assertRejects(() => normalizeAttachmentPath('\\rooted\\file.txt'), 'OUTSIDE_VAULT');
+  });
+
+  it('rejects empty and "." segments', () => {
+    assertRejects(() => normalizeAttachmentPath('task-1//report.pdf'), 'INVALID_PATH');
+    assertRejects(() => normalizeAttachmentPath('task-1\\\\report.pdf'), 'INVALID_PATH');
+    assertRejects(() => normalizeAttachmentPath('task-1/report.pdf/'), 'INVALID_PATH');
+    assertRejects(() => normalizeAttachmentPath('task-1/./report.pdf'), 'INVALID_PATH');
+  });
+
+  it('rejects empty, non-string and NUL-containing input', () => {
+    assertRejects(() => normalizeAttachmentPath(''), 'INVALID_PATH');
+    assertRejects(() => normalizeAttachmentPath('   '), 'INVALID_PATH');
+    assertRejects(() => normalizeAttachmentPath(undefined), 'INVALID_PATH');
+    assertRejects(() => normalizeAttachmentPath(42), 'INVALID_PATH');
+    assertRejects(() => normalizeAttachmentPath('task-1/report.pdf\0.png'), 'INVALID_PATH');
+  });
+});
+
+describe('resolveAttachmentPath', () => {
+  let vault: TestVault;
+
+  beforeEach(() => {
+    vault = createTestVault();
+    vault.addTask('task-1');
+  });
+
+  afterEach(() => {
+    vault.close();
+  });
+
+  it('resolves a stored attachment to its file', () => {
+    vault.addEntry('entry-1', 'task-1', 'FILE', 'task-1/report.pdf');
+    const file = vault.writeAttachmentFile('task-1/report.pdf', 'pdf');
+    assert.deepEqual(resolveAttachmentPath('task-1\\report.pdf'), { path: 'task-1/report.pdf', absolutePath: file });
+  });
+
+  it('checks syntax before looking anything up', () => {
+    assertRejects(() => resolveAttachmentPath('../task-1/report.pdf'), 'OUTSIDE_VAULT');
+    assertRejects(() => resolveAttachmentPath('/task-1/report.pdf'), 'OUTSIDE_VAULT');
+    assertRejects(() => resolveAttachmentPath('task-1//report.pdf'), 'INVALID_PATH');
+  });
+
+  it('rejects paths no IMAGE or FILE entry refers to', () => {
+    vault.writeAttachmentFile('task-1/report.pdf', 'pdf');
+    assertRejects(() => resolveAttachmentPath('task-1/report.pdf'), 'UNKNOWN_ATTACHMENT');
+    vault.addEntry('note-1', 'task-1', 'NOTE', 'task-1/report.pdf');
+    assertRejects(() => resolveAttachmentPath('task-1/report.pdf'), 'UNKNOWN_ATTACHMENT');
+  });
+
+  it('reports a known attachment whose file is gone, unless existence is optional', () => {
+    vault.addEntry('entry-1', 'task-1', 'FILE', 'task-1/report.pdf');
+    assertRejects(() => resolveAttachmentPath('task-1/report.pdf'), 'MISSING_FILE');
+    assert.equal(resolveAttachmentPath('task-1/report.pdf', { mustExist: false }).path, 'task-1/report.pdf');
+  });
+});
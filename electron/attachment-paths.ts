@@ -0,0 +1,94 @@
+// Central check for attachment paths coming from the renderer or an imported file. A path is
+// accepted only if it is a plain "<taskId>/<name>" path that an IMAGE or FILE timeline entry
+// refers to, and resolves to a file inside the attachments folder.
+import { isAbsolute, join, relative, win32 } from 'path';
+import { existsSync } from 'fs';
+import { getSqlite } from './db/client';
+import { resolveAttachmentFile } from './db/attachments';
+import { getAttachmentsRoot } from './file-handler';
+
+export type AttachmentPathErrorCode =
+  // Not a string, empty, or containing characters no stored path has
+  | 'INVALID_PATH'
+  // Absolute, or climbing out of the attachments folder with ".."
+  | 'OUTSIDE_VAULT'
+  // Well-formed, but no timeline entry refers to it
+  | 'UNKNOWN_ATTACHMENT'
+  // Known, but the file is gone from disk
+  | 'MISSING_FILE';
+
+export class AttachmentPathError extends Error {
+  code: AttachmentPathErrorCode;
+  path: string;
+
+  constructor(code: AttachmentPathErrorCode, path: string, message: string) {
+    super(message);
+    // The main process compiles to ES5, where subclasses of Error lose their prototype and
+    // `instanceof AttachmentPathError` would be false
+    Object.setPrototypeOf(this, AttachmentPathError.prototype);
+    this.name = 'AttachmentPathError';
+    this.code = code;
+    this.path = path;
+  }
+}
+
+export interface ResolvedAttachment {
+  // Normalized "<taskId>/<name>" path, as stored in the entry's content
+  path: string;
+  absolutePath: string;
+}
+
+// Syntax-only check: returns the path with Windows separators turned into "/", or throws.
+// Doesn't touch the database, so it also suits paths whose entry was just deleted.
+export function normalizeAttachmentPath(input: unknown): string {
+  if (typeof input !== 'string' || input.trim() === '') {
+    throw new AttachmentPathError('INVALID_PATH', String(input), 'Attachment path must be a non-empty string');
+  }
+  if (input.includes('\0')) {
+    throw new AttachmentPathError('INVALID_PATH', input, 'Attachment path contains a null character');
+  }
+  // Both flavours, whatever the platform: "C:\x", "\\server\share" and "/x" are all absolute
+  if (isAbsolute(input) || win32.isAbsolute(input) || /^[a-zA-Z]:/.test(input)) {
+    throw new AttachmentPathError('OUTSIDE_VAULT', input, `Attachment path must be relative: ${input}`);
+  }
+  const segments = input.replace(/\\/g, '/').split('/');
+  if (segments.some((segment) => segment === '..')) {
+    throw new AttachmentPathError('OUTSIDE_VAULT', input, `Attachment path leaves the attachments folder: ${input}`);
+  }
+  if (segments.some((segment) => segment === '' || segment === '.')) {
+    throw new AttachmentPathError('INVALID_PATH', input, `Attachment path has an empty or "." segment: ${input}`);
+  }
+  return segments.join('/');
+}
+
+function isInside(root: string, target: string): boolean {
+  const offset = relative(root, target);
+  return offset !== '' && !offset.startsWith('..') && !isAbsolute(offset);
+}
+
+// Absolute file for a stored path: its blob, or the pre-blob location. Throws if that would
+// fall outside the attachments folder.
+export function attachmentFileFor(path: string): string {
+  const root = getAttachmentsRoot();
+  const absolutePath = resolveAttachmentFile(path) ?? join(root, path);
+  if (!isInside(root, absolutePath)) {
+    throw new AttachmentPathError('OUTSIDE_VAULT', path, `Attachment path leaves the attachments folder: ${path}`);
+  }
+  return absolutePath;
+}
+
+// Full check for paths from the renderer. `mustExist` (the default) also requires the file on disk.
+export function resolveAttachmentPath(input: unknown, options: { mustExist?: boolean } = {}): ResolvedAttachment {
+  const path = normalizeAttachmentPath(input);
+  const known = getSqlite()
+    .prepare(`SELECT 1 FROM timeline_entries WHERE content = ? AND type IN ('IMAGE', 'FILE') LIMIT 1`)
+    .get(path);
+  if (!known) {
+    throw new AttachmentPathError('UNKNOWN_ATTACHMENT', path, `No attachment is stored at ${path}`);
+  }
+  const absolutePath = attachmentFileFor(path);
+  if (options.mustExist !== false && !existsSync(absolutePath)) {
+    throw new AttachmentPathError('MISSING_FILE', path, `The file for ${path} is missing from the vault`);
+  }
+  return { path, absolutePath };
+}
@@ -0,0 +1,97 @@
+// In-app previews of non-image attachments. PDFs are shown by Chromium's own viewer straight
+// from the attachment protocol; text and CSV files are read here, within a size cap per kind,
+// so the renderer never has to load a large file to find out it can't show it.
+import { extname } from 'path';
+import { readFileSync, statSync } from 'fs';
+import { getAttachmentInfo } from './db/attachments';
+import { resolveAttachmentPath } from './attachment-paths';
+import { parseCsv } from './csv';
+
+export type PreviewLanguage = 'plain' | 'json' | 'log' | 'markdown' | 'code';
+
+export type AttachmentPreview =
+  | { kind: 'pdf'; size: number }
+  | { kind: 'text'; language: PreviewLanguage; text: string; size: number }
+  // First row is the header; `totalRows` counts the data rows in the file
+  | { kind: 'csv'; rows: string[][]; totalRows: number; size: number }
+  // Previewable type, but over its cap
+  | { kind: 'too-large'; size: number; limit: number }
+  | { kind: 'unsupported'; size: number };
+
+export const PREVIEW_LIMITS = {
+  pdf: 50 * 1024 * 1024,
+  text: 1024 * 1024,
+  csv: 2 * 1024 * 1024,
+};
+// Rows beyond this are left out of the table (the file still opens externally in full)
+const MAX_CSV_ROWS = 2000;
+
+const TEXT_LANGUAGES: Record<string, PreviewLanguage> = {
+  '.txt': 'plain',
+  '.text': 'plain',
+  '.json': 'json',
+  '.log': 'log',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+};
+const CODE_EXTENSIONS = [
+  '.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.py', '.rb', '.php', '.java', '.kt', '.cs', '.go', '.rs',
+  '.c', '.h', '.cpp', '.hpp', '.swift', '.sh', '.bash', '.ps1', '.bat', '.cmd', '.sql', '.html', '.htm',
+  '.xml', '.css', '.scss', '.yaml', '.yml', '.toml', '.ini', '.cfg', '.conf', '.env',
+];
+
+function languageFor(fileName: string, mime: string): PreviewLanguage | null {
+  const extension = extname(fileName).toLowerCase();
+  if (TEXT_LANGUAGES[extension]) return TEXT_LANGUAGES[extension];
+  if (CODE_EXTENSIONS.includes(extension)) return 'code';
+  if (mime === 'application/json') return 'json';
+  if (mime.startsWith('text/')) return 'plain';
+  return null;
+}
+
+// Binary files renamed to .txt and the like: a NUL in the first few KB gives them away
+function looksBinary(data: Buffer): boolean {
+  return data.subarray(0, 8192).includes(0);
+}
+
+function decodeText(data: Buffer): string {
+  const text = data.toString('utf8');
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+// What the renderer can show for `relativePath`. Throws AttachmentPathError for unknown or
+// missing files.
+export function getAttachmentPreview(relativePath: string): AttachmentPreview {
+  const { path, absolutePath } = resolveAttachmentPath(relativePath);
+  const info = getAttachmentInfo(path);
+  const fileName = info?.original_name ?? path;
+  const mime = info?.mime ?? 'application/octet-stream';
+  const size = info?.size ?? statSync(absolutePath).size;
+
+  const isCsv = mime === 'text/csv' || extname(fileName).toLowerCase() === '.csv';
+  const kind = mime === 'application/pdf' ? 'pdf' : isCsv ? 'csv' : languageFor(fileName, mime) ? 'text' : null;
+  if (!kind) {
+    return { kind: 'unsupported', size };
+  }
+  if (size > PREVIEW_LIMITS[kind]) {
+    return { kind: 'too-large', size, limit: PREVIEW_LIMITS[kind] };
+  }
+  if (kind === 'pdf') {
+    return { kind, size };
+  }
+
+  const data = readFileSync(absolutePath);
+  if (looksBinary(data)) {
+    return { kind: 'unsupported', size };
+  }
+  const text = decodeText(data);
+  if (kind === 'csv') {
+    try {
+      const rows = parseCsv(text);
+      return { kind, rows: rows.slice(0, MAX_CSV_ROWS + 1), totalRows: Math.max(0, rows.length - 1), size };
+    } catch {
+      // Malformed quoting: still worth reading as text
+    }
+  }
+  return { kind: 'text', language: languageFor(fileName, mime) ?? 'plain', text, size };
+}
@@ -0,0 +1,84 @@
+// taskvault-attachment:// serves stored attachments to the renderer without sending them over IPC.
+// taskvault-attachment://file/<taskId>/<name> streams the file itself and
+// taskvault-attachment://thumb/<taskId>/<name> a cached, downsized copy of an image.
+import { net, nativeImage, protocol } from 'electron';
+import { join } from 'path';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { pathToFileURL } from 'url';
+import { getAttachmentInfo } from './db/attachments';
+import { resolveAttachmentPath, type ResolvedAttachment } from './attachment-paths';
+import { getThumbnailsRoot } from './file-handler';
+
+export const ATTACHMENT_SCHEME = 'taskvault-attachment';
+// Longest side in pixels: enough for the timeline's image previews on high-DPI screens
+const THUMBNAIL_SIZE = 640;
+
+// Must run before the app is ready
+export function registerAttachmentScheme() {
+  protocol.registerSchemesAsPrivileged([
+    { scheme: ATTACHMENT_SCHEME, privileges: { standard: true, secure: true, supportFetchAPI: true, stream: true } },
+  ]);
+}
+
+// Thumbnails are cached by blob hash, so each distinct image is scaled once and never goes stale.
+// Returns null when the image is already small or nativeImage can't decode it (e.g. GIF), in
+// which case the original is served.
+function thumbnailFor(hash: string, source: string): string | null {
+  const target = join(getThumbnailsRoot(), `${hash}.png`);
+  if (existsSync(target)) {
+    return target;
+  }
+  const image = nativeImage.createFromPath(source);
+  if (image.isEmpty()) {
+    return null;
+  }
+  const { width, height } = image.getSize();
+  const scale = THUMBNAIL_SIZE / Math.max(width, height);
+  if (scale >= 1) {
+    return null;
+  }
+  const thumbnail = image.resize({
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+    quality: 'good',
+  });
+  mkdirSync(getThumbnailsRoot(), { recursive: true });
+  writeFileSync(target, thumbnail.toPNG());
+  return target;
+}
+
+// Only paths of stored attachments are served (see attachment-paths.ts), so a URL can't
+// reach any other file
+export function handleAttachmentProtocol() {
+  protocol.handle(ATTACHMENT_SCHEME, async (request) => {
+    const url = new URL(request.url);
+    let resolved: ResolvedAttachment;
+    try {
+      resolved = resolveAttachmentPath(decodeURIComponent(url.pathname.replace(/^\//, '')));
+    } catch (error) {
+      return new Response(error instanceof Error ? error.message : 'Not found', { status: 404 });
+    }
+    const { path, absolutePath: file } = resolved;
+    const info = getAttachmentInfo(path);
+    if (!info || (url.host !== 'file' && url.host !== 'thumb')) {
+      return new Response('Not found', { status: 404 });
+    }
+
+    let served = file;
+    let mime = info.mime;
+    if (url.host === 'thumb' && mime.startsWith('image/')) {
+      try {
+        const thumbnail = thumbnailFor(info.hash, file);
+        if (thumbnail) {
+          served = thumbnail;
+          mime = 'image/png';
+        }
+      } catch (error) {
+        console.error(`Failed to create thumbnail for ${path}:`, error);
+      }
+    }
+
+    const response = await net.fetch(pathToFileURL(served).toString());
+    return new Response(response.body, { status: response.status, headers: { 'Content-Type': mime } });
+  });
+}
@@ -0,0 +1,95 @@
+// Minimal RFC 4180 CSV reading and writing for spreadsheet round trips
+const DELIMITERS = [',', ';', '\t'];
+
+// Spreadsheets run cells starting with these as formulas; a leading quote keeps them text
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+// Spreadsheets in many locales save with ';' (or tabs); pick whichever splits the header row most
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    let count = 0;
+    let quoted = false;
+    for (const char of firstLine) {
+      if (char === '"') quoted = !quoted;
+      else if (char === delimiter && !quoted) count++;
+    }
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// Parse CSV text into rows of cells. Handles quoted cells with embedded delimiters,
+// newlines and doubled quotes, a UTF-8 BOM, and CRLF or LF line endings. Blank lines are dropped.
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let i = 0;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      i++;
+      continue;
+    }
+    if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\r' && input[i + 1] === '\n') {
+      endRow();
+      i++;
+    } else if (char === '\n' || char === '\r') {
+      endRow();
+    } else {
+      cell += char;
+    }
+    i++;
+  }
+  if (quoted) {
+    throw new Error('Invalid CSV: a quoted cell is never closed');
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows.map((cells) => cells.map((value) => (/^'[=+\-@]/.test(value) ? value.slice(1) : value)));
+}
+
+function formatCell(value: string | number | null): string {
+  if (value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Comma-separated with CRLF line endings and a BOM, so Excel detects UTF-8
+export function formatCsv(rows: (string | number | null)[][]): string {
+  return '\ufeff' + rows.map((row) => row.map(formatCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,76 @@
+// Archive retention: how long archived tasks are kept, and last-chance exports before cleanup
+import { app } from 'electron';
+import { join } from 'path';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { getSqlite } from './client';
+import { getSetting, setSetting } from './settings';
+import { fileTimestamp } from './backups';
+import { collectTaskPayload } from './trash';
+
+export interface ArchiveSettings {
+  // Days an archived task is kept before cleanup moves it to the trash; null keeps it forever
+  retentionDays: number | null;
+}
+
+const SETTINGS_KEY = 'archive';
+const DEFAULT_SETTINGS: ArchiveSettings = { retentionDays: 30 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BUNDLE_FORMAT = 'taskvault-task';
+const BUNDLE_VERSION = 1;
+
+export async function getArchiveSettings(): Promise<ArchiveSettings> {
+  return { ...DEFAULT_SETTINGS, ...(await getSetting<Partial<ArchiveSettings>>(SETTINGS_KEY, {})) };
+}
+
+// Retention applies to already archived tasks too, counted from when each was archived
+export async function updateArchiveSettings(patch: Partial<ArchiveSettings>): Promise<ArchiveSettings> {
+  const next = { ...(await getArchiveSettings()), ...patch };
+  const days = next.retentionDays;
+  if (days !== null && (!Number.isInteger(days) || days < 1 || days > 3650)) {
+    throw new Error(`Invalid retentionDays: ${days}. Must be a whole number from 1 to 3650, or null to keep forever`);
+  }
+  await setSetting(SETTINGS_KEY, next);
+  getSqlite()
+    .prepare(`
+      UPDATE tasks
+      SET delete_after_at = CASE WHEN ? IS NULL THEN NULL ELSE COALESCE(archived_at, ?) + ? END
+      WHERE status = 'ARCHIVED'
+    `)
+    .run(days, Date.now(), (days ?? 0) * DAY_MS);
+  return next;
+}
+
+// When a task archived at `archivedAt` becomes due for cleanup, or null if never
+export async function getArchiveDeleteAfter(archivedAt: number): Promise<number | null> {
+  const { retentionDays } = await getArchiveSettings();
+  return retentionDays === null ? null : archivedAt + retentionDays * DAY_MS;
+}
+
+export function getArchiveExportDir(): string {
+  const dir = join(app.getPath('userData'), 'taskvault', 'archive-exports');
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  return dir;
+}
+
+// Write a self-contained JSON copy of a task and its rows, e.g. before cleanup removes it.
+// Attachments are listed by relative path rather than embedded. Returns the file path.
+export async function exportTaskBundle(taskId: string): Promise<string | null> {
+  const payload = collectTaskPayload(taskId);
+  if (!payload) {
+    return null;
+  }
+  const bundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exported_at: Date.now(),
+    ...payload,
+    attachments: payload.timeline
+      .filter((entry) => entry.type === 'IMAGE' || entry.type === 'FILE')
+      .map((entry) => entry.content),
+  };
+  const path = join(getArchiveExportDir(), `task-${fileTimestamp()}-${taskId}.json`);
+  writeFileSync(path, JSON.stringify(bundle, null, 2));
+  return path;
+}
@@ -0,0 +1,66 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'fs';
+import { getAttachmentInfo, migrateLegacyAttachments, releaseAttachment, resolveAttachmentFile } from './attachments';
+import { createTestVault, type TestVault } from '../test-utils';
+
+describe('migrateLegacyAttachments', () => {
+  let vault: TestVault;
+
+  beforeEach(() => {
+    vault = createTestVault();
+    vault.addTask('task-1');
+  });
+
+  afterEach(() => {
+    vault.close();
+  });
+
+  const entryContent = (id: string) =>
+    (vault.sqlite.prepare(`SELECT content FROM timeline_entries WHERE id = ?`).get(id) as { content: string }).content;
+
+  it('moves a legacy file into a blob and removes the original', () => {
+    vault.addEntry('entry-1', 'task-1', 'FILE', 'task-1/report.pdf');
+    const legacy = vault.writeAttachmentFile('task-1/report.pdf', 'pdf');
+    assert.equal(migrateLegacyAttachments(), 1);
+    assert.equal(existsSync(legacy), false);
+    const blob = resolveAttachmentFile(entryContent('entry-1'));
+    assert.ok(blob && existsSync(blob));
+    assert.equal(migrateLegacyAttachments(), 0);
+  });
+
+  it('scans a vault only once', () => {
+    vault.writeAttachmentFile('.DS_Store', 'finder');
+    assert.equal(migrateLegacyAttachments(), 0);
+
+    // Files appearing later are left alone; a restored older snapshot has no record of the scan
+    vault.addEntry('entry-1', 'task-1', 'FILE', 'task-1/report.pdf');
+    const legacy = vault.writeAttachmentFile('task-1/report.pdf', 'pdf');
+    assert.equal(migrateLegacyAttachments(), 0);
+    assert.equal(existsSync(legacy), true);
+    vault.sqlite.prepare(`DELETE FROM settings`).run();
+    assert.equal(migrateLegacyAttachments(), 1);
+    assert.equal(existsSync(legacy), false);
+  });
+
+  it('gives each entry sharing a legacy file its own reference to the blob', () => {
+    vault.addEntry('entry-1', 'task-1', 'FILE', 'task-1/report.pdf');
+    vault.addEntry('entry-2', 'task-1', 'FILE', 'task-1/report.pdf');
+    vault.writeAttachmentFile('task-1/report.pdf', 'pdf');
+    assert.equal(migrateLegacyAttachments(), 2);
+
+    const first = entryContent('entry-1');
+    const second = entryContent('entry-2');
+    assert.notEqual(first, second);
+    assert.equal(getAttachmentInfo(first)?.ref_count, 2);
+    assert.equal(getAttachmentInfo(second)?.hash, getAttachmentInfo(first)?.hash);
+
+    // Purging one entry's file must leave the blob for the other
+    const blob = resolveAttachmentFile(second);
+    releaseAttachment(first);
+    assert.ok(blob && existsSync(blob));
+    assert.equal(getAttachmentInfo(second)?.ref_count, 1);
+    releaseAttachment(second);
+    assert.equal(existsSync(blob), false);
+  });
+});
@@ -0,0 +1,421 @@
+// Content-addressed attachment storage. Each distinct file is stored once under blobs/, named
+// by its SHA-256 hash; timeline entries keep a readable per-task path ("<taskId>/<name>") that
+// the attachments table maps to a blob. Blobs are reference counted and deleted with their
+// last reference.
+import { createHash } from 'crypto';
+import { nativeImage } from 'electron';
+import { join, dirname, extname } from 'path';
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, rmdirSync, statSync, writeFileSync } from 'fs';
+import { getSqlite } from './client';
+import { getAttachmentsRoot, getSharedCopiesRoot, getThumbnailsRoot, getTrashRoot } from '../file-handler';
+
+export interface AttachmentInfo {
+  path: string;
+  hash: string;
+  original_name: string;
+  mime: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+  caption: string;
+  ref_count: number;
+  created_at: number;
+}
+
+// Longest caption kept; anything past it is cut off
+export const MAX_CAPTION_LENGTH = 500;
+
+const BLOBS_DIR = 'blobs';
+const ATTACHMENT_TYPES = ['IMAGE', 'FILE'];
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.html': 'text/html',
+  '.zip': 'application/zip',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+export function mimeTypeFor(fileName: string): string {
+  return MIME_TYPES[extname(fileName).toLowerCase()] ?? 'application/octet-stream';
+}
+
+// Leading bytes of the formats worth telling apart from their extension
+const SIGNATURES: { mime: string; bytes: number[]; offset?: number }[] = [
+  { mime: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mime: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mime: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mime: 'image/webp', bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+  { mime: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { mime: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+];
+
+// The type the content says it is, so a renamed or extensionless file still gets the right
+// one. Office files are zips inside, so a zip keeps its extension's type when it has one.
+export function detectMimeType(data: Buffer, fileName: string): string {
+  const byExtension = mimeTypeFor(fileName);
+  const signature = SIGNATURES.find(({ bytes, offset = 0 }) =>
+    data.length >= offset + bytes.length && bytes.every((byte, i) => data[offset + i] === byte));
+  if (!signature) {
+    return byExtension;
+  }
+  if (signature.mime === 'application/zip' && byExtension !== 'application/octet-stream') {
+    return byExtension;
+  }
+  return signature.mime;
+}
+
+// Pixel size of PNG and JPEG images; null for other types or anything nativeImage can't decode
+function imageDimensions(data: Buffer, mime: string): { width: number; height: number } | null {
+  if (mime !== 'image/png' && mime !== 'image/jpeg') {
+    return null;
+  }
+  const image = nativeImage.createFromBuffer(data);
+  return image.isEmpty() ? null : image.getSize();
+}
+
+function normalizeCaption(caption: string): string {
+  return caption.replace(/\s+/g, ' ').trim().slice(0, MAX_CAPTION_LENGTH);
+}
+
+// Same rule attachment paths have always used, so existing paths map to themselves
+function safeFileName(fileName: string): string {
+  const safe = fileName.replace(/[^a-zA-Z0-9._-]/g, '_');
+  return !safe || /^\.+$/.test(safe) ? 'file' : safe;
+}
+
+// "<taskId>/<name>", with "-2", "-3"... before the extension while the path is taken
+function uniquePath(taskId: string, fileName: string): string {
+  const safe = safeFileName(fileName);
+  const extension = extname(safe);
+  const stem = safe.slice(0, safe.length - extension.length);
+  const taken = getSqlite().prepare(`SELECT 1 FROM attachments WHERE path = ?`);
+  let path = `${taskId}/${safe}`;
+  for (let n = 2; taken.get(path); n++) {
+    path = `${taskId}/${stem}-${n}${extension}`;
+  }
+  return path;
+}
+
+// The extension is kept so the blob still opens in the right app
+function blobFileFor(hash: string, fileName: string): string {
+  const extension = extname(fileName).toLowerCase().replace(/[^a-z0-9.]/g, '');
+  return `${BLOBS_DIR}/${hash.slice(0, 2)}/${hash}${extension}`;
+}
+
+// Store `data` for a task and return the path to keep in the timeline entry. Identical content
+// is stored once; `fileName` picks the path (made unique within the task) and defaults to the
+// original name.
+export function addAttachment(
+  taskId: string,
+  data: Buffer,
+  originalName: string,
+  fileName = originalName,
+  caption = ''
+): string {
+  const sqlite = getSqlite();
+  const hash = createHash('sha256').update(data).digest('hex');
+  const existing = sqlite.prepare(`SELECT file FROM attachment_blobs WHERE hash = ?`).get(hash) as
+    { file: string } | undefined;
+  const file = existing?.file ?? blobFileFor(hash, originalName);
+
+  // Written before the rows exist, and via a temporary name, so a crash never leaves a
+  // reference to a half-written blob
+  const absolute = join(getAttachmentsRoot(), file);
+  if (!existsSync(absolute)) {
+    mkdirSync(dirname(absolute), { recursive: true });
+    writeFileSync(`${absolute}.partial`, data);
+    renameSync(`${absolute}.partial`, absolute);
+  }
+
+  return sqlite.transaction(() => {
+    const path = uniquePath(taskId, fileName);
+    const now = Date.now();
+    if (existing) {
+      sqlite.prepare(`UPDATE attachment_blobs SET ref_count = ref_count + 1 WHERE hash = ?`).run(hash);
+    } else {
+      const mime = detectMimeType(data, originalName);
+      const size = imageDimensions(data, mime);
+      sqlite.prepare(`
+        INSERT INTO attachment_blobs (hash, file, mime, size, width, height, ref_count, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, 1, ?)
+      `).run(hash, file, mime, data.length, size?.width ?? null, size?.height ?? null, now);
+    }
+    sqlite
+      .prepare(`INSERT INTO attachments (path, hash, original_name, caption, created_at) VALUES (?, ?, ?, ?, ?)`)
+      .run(path, hash, originalName, normalizeCaption(caption), now);
+    return path;
+  })();
+}
+
+// Drop the reference held by `path`; the blob (and its thumbnail) is deleted once nothing else uses it.
+// Returns false if the path isn't a stored attachment.
+export function releaseAttachment(path: string): boolean {
+  const sqlite = getSqlite();
+  const orphan = sqlite.transaction(() => {
+    const row = sqlite.prepare(`SELECT hash FROM attachments WHERE path = ?`).get(path) as { hash: string } | undefined;
+    if (!row) {
+      return undefined;
+    }
+    sqlite.prepare(`DELETE FROM attachments WHERE path = ?`).run(path);
+    sqlite.prepare(`UPDATE attachment_blobs SET ref_count = ref_count - 1 WHERE hash = ?`).run(row.hash);
+    const blob = sqlite.prepare(`SELECT file, ref_count FROM attachment_blobs WHERE hash = ?`).get(row.hash) as
+      { file: string; ref_count: number } | undefined;
+    if (blob && blob.ref_count <= 0) {
+      sqlite.prepare(`DELETE FROM attachment_blobs WHERE hash = ?`).run(row.hash);
+      return { hash: row.hash, file: blob.file };
+    }
+    return null;
+  })();
+
+  if (orphan) {
+    try {
+      rmSync(join(getAttachmentsRoot(), orphan.file), { force: true });
+      rmSync(join(getThumbnailsRoot(), `${orphan.hash}.png`), { force: true });
+      rmSync(join(getSharedCopiesRoot(), orphan.hash), { recursive: true, force: true });
+    } catch (error) {
+      // The rows are gone; a leftover file only costs space
+      console.error(`Failed to delete attachment blob ${orphan.file}:`, error);
+    }
+  }
+  return orphan !== undefined;
+}
+
+const SELECT_INFO = `
+  SELECT a.path, a.hash, a.original_name, a.caption, a.created_at, b.mime, b.size, b.width, b.height, b.ref_count
+  FROM attachments a JOIN attachment_blobs b ON b.hash = a.hash
+`;
+
+export function getAttachmentInfo(path: string): AttachmentInfo | null {
+  const row = getSqlite().prepare(`${SELECT_INFO} WHERE a.path = ?`).get(path) as AttachmentInfo | undefined;
+  return row ?? null;
+}
+
+// Metadata for every attachment a task's timeline refers to, keyed by path
+export function getTaskAttachments(taskId: string): Record<string, AttachmentInfo> {
+  const rows = getSqlite().prepare(`
+    ${SELECT_INFO}
+    WHERE a.path IN (SELECT content FROM timeline_entries WHERE task_id = ? AND type IN ('IMAGE', 'FILE'))
+  `).all(taskId) as AttachmentInfo[];
+  const byPath: Record<string, AttachmentInfo> = {};
+  for (const row of rows) {
+    byPath[row.path] = row;
+  }
+  return byPath;
+}
+
+// Set the caption of one attachment path (other paths sharing its blob keep theirs); blank clears it.
+// Returns the stored caption.
+export function setAttachmentCaption(path: string, caption: string): string {
+  const stored = normalizeCaption(caption);
+  const result = getSqlite().prepare(`UPDATE attachments SET caption = ? WHERE path = ?`).run(stored, path);
+  if (result.changes === 0) {
+    throw new Error(`No attachment is stored at ${path}`);
+  }
+  return stored;
+}
+
+// Absolute path of the blob behind `path`, or null if it isn't a stored attachment
+export function resolveAttachmentFile(path: string): string | null {
+  const row = getSqlite().prepare(`
+    SELECT b.file FROM attachments a JOIN attachment_blobs b ON b.hash = a.hash WHERE a.path = ?
+  `).get(path) as { file: string } | undefined;
+  return row ? join(getAttachmentsRoot(), row.file) : null;
+}
+
+// Images stored before dimensions were kept get measured, and their type re-detected from
+// content. Runs on every start; only images still without dimensions are read.
+export function backfillAttachmentMetadata(): number {
+  const sqlite = getSqlite();
+  const blobs = sqlite.prepare(`
+    SELECT b.hash, b.file, b.mime, MIN(a.original_name) AS original_name
+    FROM attachment_blobs b JOIN attachments a ON a.hash = b.hash
+    WHERE b.width IS NULL AND b.mime IN ('image/png', 'image/jpeg')
+    GROUP BY b.hash
+  `).all() as { hash: string; file: string; mime: string; original_name: string }[];
+  const update = sqlite.prepare(`UPDATE attachment_blobs SET mime = ?, width = ?, height = ? WHERE hash = ?`);
+  let updated = 0;
+  for (const blob of blobs) {
+    try {
+      const absolute = join(getAttachmentsRoot(), blob.file);
+      if (!isFile(absolute)) continue;
+      const data = readFileSync(absolute);
+      const mime = detectMimeType(data, blob.original_name);
+      const size = imageDimensions(data, mime);
+      if (mime !== blob.mime || size) {
+        update.run(mime, size?.width ?? null, size?.height ?? null, blob.hash);
+        updated++;
+      }
+    } catch (error) {
+      console.error(`Failed to read metadata of attachment blob ${blob.file}:`, error);
+    }
+  }
+  return updated;
+}
+
+export type AttachmentTextStatus = 'DONE' | 'UNSUPPORTED' | 'TOO_LARGE' | 'FAILED';
+
+export interface PendingTextBlob {
+  hash: string;
+  file: string;
+  mime: string;
+  size: number;
+  original_name: string;
+}
+
+const SELECT_PENDING_TEXT = `
+  SELECT b.hash, b.file, b.mime, b.size, MIN(a.original_name) AS original_name
+  FROM attachment_blobs b JOIN attachments a ON a.hash = b.hash
+  WHERE NOT EXISTS (SELECT 1 FROM attachment_text t WHERE t.hash = b.hash)
+`;
+
+// Blobs whose text hasn't been extracted yet, smallest first so quick files get searchable soonest
+export function getBlobsWithoutText(): PendingTextBlob[] {
+  return getSqlite().prepare(`${SELECT_PENDING_TEXT} GROUP BY b.hash ORDER BY b.size`).all() as PendingTextBlob[];
+}
+
+// The blob behind `path`, if its text hasn't been extracted yet
+export function getBlobWithoutText(path: string): PendingTextBlob | null {
+  const row = getSqlite().prepare(`
+    ${SELECT_PENDING_TEXT} AND b.hash = (SELECT hash FROM attachments WHERE path = ?)
+    GROUP BY b.hash
+  `).get(path) as PendingTextBlob | undefined;
+  return row ?? null;
+}
+
+// Record the outcome for a blob; triggers add DONE text to the search index for every entry using it.
+// Returns false if the blob was deleted in the meantime.
+export function saveAttachmentText(hash: string, status: AttachmentTextStatus, content = ''): boolean {
+  const sqlite = getSqlite();
+  return sqlite.transaction(() => {
+    if (!sqlite.prepare(`SELECT 1 FROM attachment_blobs WHERE hash = ?`).get(hash)) return false;
+    sqlite.prepare(`
+      INSERT INTO attachment_text (hash, status, content, extracted_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT(hash) DO UPDATE SET status = excluded.status, content = excluded.content, extracted_at = excluded.extracted_at
+    `).run(hash, status, content, Date.now());
+    return true;
+  })();
+}
+
+function isFile(path: string): boolean {
+  return existsSync(path) && statSync(path).isFile();
+}
+
+// Remove empty folders left behind under `root`, keeping `root` itself
+function removeEmptyFolders(root: string) {
+  if (!existsSync(root)) return;
+  for (const name of readdirSync(root)) {
+    const path = join(root, name);
+    if (statSync(path).isDirectory()) {
+      removeEmptyFolders(path);
+      if (readdirSync(path).length === 0) rmdirSync(path);
+    }
+  }
+}
+
+type Row = Record<string, unknown>;
+
+// Set once a vault has been through the migration below. It lives in the database, so restoring
+// a snapshot from before blob storage brings the migration back.
+const LEGACY_MIGRATED_SETTING = 'legacy_attachments_migrated';
+
+// Vaults from before blob storage keep files at attachments/<taskId>/<name>, and trashed ones
+// under trash/<trashId>/<taskId>/<name>. Move every file an entry still points at into a blob;
+// if its path is taken (older versions overwrote same-named files), the entry is repointed.
+// Runs on every start and after snapshot restores, but scans each vault only once: files that
+// fail to move are logged and still resolve at their old location.
+export function migrateLegacyAttachments(): number {
+  const sqlite = getSqlite();
+  if (sqlite.prepare(`SELECT 1 FROM settings WHERE key = ?`).get(LEGACY_MIGRATED_SETTING)) {
+    return 0;
+  }
+  const markMigrated = () =>
+    sqlite.prepare(`INSERT OR REPLACE INTO settings (key, value) VALUES (?, 'true')`).run(LEGACY_MIGRATED_SETTING);
+  const root = getAttachmentsRoot();
+  const trashRoot = getTrashRoot();
+  // Only folders count: legacy files sit in <taskId>/ folders, and stray files such as
+  // .DS_Store don't need a scan
+  const hasFolders = (dir: string, skip?: string) =>
+    existsSync(dir) && readdirSync(dir).some((name) => name !== skip && statSync(join(dir, name)).isDirectory());
+  if (!hasFolders(root, BLOBS_DIR) && !hasFolders(trashRoot)) {
+    markMigrated();
+    return 0;
+  }
+
+  const known = sqlite.prepare(`SELECT 1 FROM attachments WHERE path = ?`);
+  // Several entries can point at one legacy file (older versions copied entries along with
+  // tasks). Each gets its own path and reference to the blob, so sources are only deleted
+  // once every entry has been seen.
+  const moved = new Set<string>();
+  let migrated = 0;
+  // Returns the entry's new path, or null when there is nothing to move
+  const migrate = (entry: Row, source: string): string | null => {
+    const content = String(entry.content);
+    if (!moved.has(source) && (known.get(content) || !isFile(source))) {
+      return null;
+    }
+    const name = content.split('/').pop() || content;
+    const path = addAttachment(String(entry.task_id), readFileSync(source), name);
+    moved.add(source);
+    migrated++;
+    return path;
+  };
+
+  const entries = sqlite
+    .prepare(`SELECT id, task_id, content FROM timeline_entries WHERE type IN ('IMAGE', 'FILE')`)
+    .all() as Row[];
+  for (const entry of entries) {
+    try {
+      const path = migrate(entry, join(root, String(entry.content)));
+      if (path && path !== entry.content) {
+        sqlite.prepare(`UPDATE timeline_entries SET content = ? WHERE id = ?`).run(path, entry.id);
+      }
+    } catch (error) {
+      console.error(`Failed to migrate attachment ${entry.content}:`, error);
+    }
+  }
+
+  const trashed = sqlite.prepare(`SELECT id, payload FROM trash_items`).all() as { id: string; payload: string }[];
+  for (const item of trashed) {
+    const payload = JSON.parse(item.payload) as { timeline?: Row[]; entry?: Row };
+    const rows = (payload.timeline ?? (payload.entry ? [payload.entry] : []))
+      .filter((row) => ATTACHMENT_TYPES.includes(String(row.type)));
+    let changed = false;
+    for (const row of rows) {
+      try {
+        const path = migrate(row, join(trashRoot, item.id, String(row.content)));
+        if (path && path !== row.content) {
+          row.content = path;
+          changed = true;
+        }
+      } catch (error) {
+        console.error(`Failed to migrate trashed attachment ${row.content}:`, error);
+      }
+    }
+    if (changed) {
+      sqlite.prepare(`UPDATE trash_items SET payload = ? WHERE id = ?`).run(JSON.stringify(payload), item.id);
+    }
+  }
+
+  Array.from(moved).forEach((source) => rmSync(source, { force: true }));
+  removeEmptyFolders(root);
+  removeEmptyFolders(trashRoot);
+  markMigrated();
+  if (migrated > 0) {
+    console.log(`Moved ${migrated} attachments into blob storage`);
+  }
+  return migrated;
+}
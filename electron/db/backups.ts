@@ -0,0 +1,27 @@
+// Database backup files
+import Database from 'better-sqlite3';
+import { app } from 'electron';
+import { join } from 'path';
+import { existsSync, mkdirSync } from 'fs';
+
+export function getBackupDir(): string {
+  const dir = join(app.getPath('userData'), 'taskvault', 'backups');
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  return dir;
+}
+
+// Filesystem-safe local timestamp, e.g. 2026-03-01T09-30-00
+export function fileTimestamp(date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+}
+
+// Write a consistent copy of the open database (VACUUM INTO works mid-session, unlike copying
+// the file) and return its path. `label` becomes part of the file name.
+export function createBackup(sqlite: Database.Database, label: string): string {
+  const path = join(getBackupDir(), `taskvault-${label}-${fileTimestamp()}.db`);
+  sqlite.prepare('VACUUM INTO ?').run(path);
+  return path;
+}
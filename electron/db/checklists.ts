@@ -0,0 +1,127 @@
+// Checklist item queries: ordered, checkable sub-steps inside a task
+import { eq, and, asc, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from './client';
+import { checklistItems, type ChecklistItem } from './schema';
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+function normalizeTitle(title: string): string {
+  const trimmed = title.trim();
+  if (!trimmed) {
+    throw new Error('Checklist item title is required');
+  }
+  return trimmed;
+}
+
+async function getChecklistItem(id: string): Promise<ChecklistItem | null> {
+  const db = getDatabase();
+  const items = await db.select().from(checklistItems).where(eq(checklistItems.id, id)).limit(1);
+  return items[0] || null;
+}
+
+export async function getChecklistItems(taskId: string): Promise<ChecklistItem[]> {
+  const db = getDatabase();
+  return db
+    .select()
+    .from(checklistItems)
+    .where(eq(checklistItems.task_id, taskId))
+    .orderBy(asc(checklistItems.position), asc(checklistItems.created_at));
+}
+
+export async function getChecklistProgress(taskId: string): Promise<ChecklistProgress> {
+  const db = getDatabase();
+  const result = await db
+    .select({
+      done: sql<number>`COUNT(${checklistItems.checked_at})`,
+      total: sql<number>`COUNT(*)`,
+    })
+    .from(checklistItems)
+    .where(eq(checklistItems.task_id, taskId));
+  return { done: result[0]?.done || 0, total: result[0]?.total || 0 };
+}
+
+export async function addChecklistItem(taskId: string, title: string): Promise<ChecklistItem> {
+  const db = getDatabase();
+  const normalized = normalizeTitle(title);
+
+  // New items go to the bottom of the list
+  const last = await db
+    .select({ maxPosition: sql<number | null>`MAX(${checklistItems.position})` })
+    .from(checklistItems)
+    .where(eq(checklistItems.task_id, taskId));
+
+  const newItem = {
+    id: uuidv4(),
+    task_id: taskId,
+    title: normalized,
+    position: (last[0]?.maxPosition ?? -1) + 1,
+    created_at: Date.now(),
+    checked_at: null,
+    xp_awarded: false,
+  };
+
+  await db.insert(checklistItems).values(newItem);
+  return newItem;
+}
+
+export async function renameChecklistItem(id: string, title: string): Promise<ChecklistItem | null> {
+  const db = getDatabase();
+  const normalized = normalizeTitle(title);
+  await db.update(checklistItems).set({ title: normalized }).where(eq(checklistItems.id, id));
+  return getChecklistItem(id);
+}
+
+// Returns the updated item plus whether this check should award XP (first check only)
+export async function setChecklistItemChecked(
+  id: string,
+  checked: boolean
+): Promise<{ item: ChecklistItem; awardXp: boolean } | null> {
+  const db = getDatabase();
+  const existing = await getChecklistItem(id);
+  if (!existing) {
+    return null;
+  }
+  if ((existing.checked_at !== null) === checked) {
+    return { item: existing, awardXp: false };
+  }
+
+  const awardXp = checked && !existing.xp_awarded;
+  await db
+    .update(checklistItems)
+    .set({
+      checked_at: checked ? Date.now() : null,
+      ...(awardXp ? { xp_awarded: true } : {}),
+    })
+    .where(eq(checklistItems.id, id));
+
+  const item = await getChecklistItem(id);
+  return item ? { item, awardXp } : null;
+}
+
+// Rewrite positions to match the given order; ids not belonging to the task are ignored
+export async function reorderChecklistItems(taskId: string, orderedIds: string[]): Promise<ChecklistItem[]> {
+  const db = getDatabase();
+  db.transaction((tx) => {
+    orderedIds.forEach((id: string, index: number) => {
+      tx.update(checklistItems)
+        .set({ position: index })
+        .where(and(eq(checklistItems.id, id), eq(checklistItems.task_id, taskId)))
+        .run();
+    });
+  });
+  return getChecklistItems(taskId);
+}
+
+export async function deleteChecklistItem(id: string): Promise<ChecklistItem | null> {
+  const db = getDatabase();
+  const existing = await getChecklistItem(id);
+  if (!existing) {
+    return null;
+  }
+  await db.delete(checklistItems).where(eq(checklistItems.id, id));
+  return existing;
+}
@@ -0,0 +1,67 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as archive from './archive';
+import { addTaskDependency, syncBlockedStatus, syncDependents } from './dependencies';
+import { cleanupExpiredTasks, updateTask } from './queries';
+import { restoreTrashItem, trashTask } from './trash';
+import { createTestVault, type TestVault } from '../test-utils';
+
+describe('automatic BLOCKED status', () => {
+  let vault: TestVault;
+
+  beforeEach(() => {
+    vault = createTestVault();
+    vault.addTask('blocker');
+    vault.addTask('task');
+  });
+
+  afterEach(() => {
+    vault.close();
+  });
+
+  const statusOf = (id: string) =>
+    (vault.sqlite.prepare(`SELECT status FROM tasks WHERE id = ?`).get(id) as { status: string }).status;
+
+  it('blocks a task while a blocker is open and reopens it once the blocker is done', async () => {
+    await addTaskDependency('task', 'blocker');
+    assert.equal(await syncBlockedStatus('task'), true);
+    assert.equal(statusOf('task'), 'BLOCKED');
+
+    await updateTask({ id: 'blocker', status: 'DONE' });
+    assert.deepEqual(await syncDependents('blocker'), ['task']);
+    assert.equal(statusOf('task'), 'OPEN');
+  });
+
+  it('leaves a task set to BLOCKED by hand alone', async () => {
+    await updateTask({ id: 'task', status: 'BLOCKED' });
+    assert.equal(await syncBlockedStatus('task'), false);
+    assert.equal(statusOf('task'), 'BLOCKED');
+
+    // Blocking it automatically later doesn't make the hand-set status automatic
+    await addTaskDependency('task', 'blocker');
+    await updateTask({ id: 'blocker', status: 'DONE' });
+    assert.deepEqual(await syncDependents('blocker'), []);
+    assert.equal(statusOf('task'), 'BLOCKED');
+  });
+
+  it('keeps a hand-set BLOCKED status through trash and restore', async () => {
+    await updateTask({ id: 'task', status: 'BLOCKED' });
+    const result = await trashTask('task');
+    assert.ok(result);
+    const restored = await restoreTrashItem(result.trashId);
+    assert.equal(restored.taskId, 'task');
+    assert.equal(await syncBlockedStatus('task'), false);
+    assert.equal(statusOf('task'), 'BLOCKED');
+  });
+
+  it('keeps a hand-set BLOCKED status when cleanup trashes an archived blocker', async () => {
+    mock.method(archive, 'exportTaskBundle', async () => 'bundle.json');
+    await addTaskDependency('task', 'blocker');
+    await updateTask({ id: 'task', status: 'BLOCKED' });
+    vault.sqlite.prepare(`UPDATE tasks SET status = 'ARCHIVED', delete_after_at = 1 WHERE id = 'blocker'`).run();
+
+    assert.deepEqual(await cleanupExpiredTasks(), ['blocker']);
+    assert.equal(await syncBlockedStatus('task'), false);
+    assert.equal(statusOf('task'), 'BLOCKED');
+  });
+});
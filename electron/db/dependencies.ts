@@ -0,0 +1,193 @@
+// Task dependency queries ("blocked by" relations) and automatic BLOCKED status
+import { eq, and, desc, inArray, notInArray, sql } from 'drizzle-orm';
+import { getDatabase } from './client';
+import { tasks, taskDependencies, timelineEntries } from './schema';
+import { updateTask, type StatusChange } from './queries';
+
+export interface DependencyTask {
+  id: string;
+  title: string;
+  status: 'OPEN' | 'WAITING' | 'BLOCKED' | 'DONE' | 'ARCHIVED';
+  priority: 'LOW' | 'NORMAL' | 'HIGH';
+}
+
+export interface TaskDependencies {
+  // Tasks this task is waiting on
+  blockedBy: DependencyTask[];
+  // Tasks waiting on this task
+  blocking: DependencyTask[];
+}
+
+// A blocker counts as resolved once it is DONE (or ARCHIVED)
+const RESOLVED_STATUSES: ('DONE' | 'ARCHIVED')[] = ['DONE', 'ARCHIVED'];
+// Start of the reason on STATUS entries written when a task is blocked automatically
+const BLOCKED_REASON_PREFIX = 'Blocked by ';
+
+const dependencyTaskFields = {
+  id: tasks.id,
+  title: tasks.title,
+  status: tasks.status,
+  priority: tasks.priority,
+};
+
+export async function getTaskDependencies(taskId: string): Promise<TaskDependencies> {
+  const db = getDatabase();
+
+  const blockedBy = await db
+    .select(dependencyTaskFields)
+    .from(taskDependencies)
+    .innerJoin(tasks, eq(tasks.id, taskDependencies.blocked_by_id))
+    .where(eq(taskDependencies.task_id, taskId))
+    .orderBy(taskDependencies.created_at);
+
+  const blocking = await db
+    .select(dependencyTaskFields)
+    .from(taskDependencies)
+    .innerJoin(tasks, eq(tasks.id, taskDependencies.task_id))
+    .where(eq(taskDependencies.blocked_by_id, taskId))
+    .orderBy(taskDependencies.created_at);
+
+  return { blockedBy, blocking };
+}
+
+export async function getDependentTaskIds(taskId: string): Promise<string[]> {
+  const db = getDatabase();
+  const rows = await db
+    .select({ id: taskDependencies.task_id })
+    .from(taskDependencies)
+    .where(eq(taskDependencies.blocked_by_id, taskId));
+  return rows.map((row: { id: string }) => row.id);
+}
+
+// True if `taskId` is already (transitively) upstream of `blockedById`,
+// in which case making taskId wait on blockedById would close a loop
+async function wouldCreateCycle(taskId: string, blockedById: string): Promise<boolean> {
+  const db = getDatabase();
+  const rows = db.all<{ found: number }>(sql`
+    WITH RECURSIVE upstream(id) AS (
+      SELECT blocked_by_id FROM task_dependencies WHERE task_id = ${blockedById}
+      UNION
+      SELECT d.blocked_by_id FROM task_dependencies d JOIN upstream u ON d.task_id = u.id
+    )
+    SELECT 1 AS found FROM upstream WHERE id = ${taskId} LIMIT 1
+  `);
+  return rows.length > 0;
+}
+
+export async function addTaskDependency(taskId: string, blockedById: string) {
+  const db = getDatabase();
+  if (taskId === blockedById) {
+    throw new Error('A task cannot be blocked by itself');
+  }
+
+  const found = await db
+    .select({ id: tasks.id, title: tasks.title })
+    .from(tasks)
+    .where(inArray(tasks.id, [taskId, blockedById]));
+  const task = found.find((t: { id: string }) => t.id === taskId);
+  const blocker = found.find((t: { id: string }) => t.id === blockedById);
+  if (!task || !blocker) {
+    throw new Error(`Task not found: ${!task ? taskId : blockedById}`);
+  }
+
+  if (await wouldCreateCycle(taskId, blockedById)) {
+    throw new Error(`Cannot add dependency: "${blocker.title}" already depends on "${task.title}"`);
+  }
+
+  await db
+    .insert(taskDependencies)
+    .values({ task_id: taskId, blocked_by_id: blockedById, created_at: Date.now() })
+    .onConflictDoNothing();
+}
+
+export async function removeTaskDependency(taskId: string, blockedById: string): Promise<boolean> {
+  const db = getDatabase();
+  const existing = await db
+    .select()
+    .from(taskDependencies)
+    .where(and(eq(taskDependencies.task_id, taskId), eq(taskDependencies.blocked_by_id, blockedById)))
+    .limit(1);
+  if (existing.length === 0) {
+    return false;
+  }
+  await db
+    .delete(taskDependencies)
+    .where(and(eq(taskDependencies.task_id, taskId), eq(taskDependencies.blocked_by_id, blockedById)));
+  return true;
+}
+
+// Titles of the tasks blocking `taskId` that aren't DONE or ARCHIVED yet
+export async function getOpenBlockerTitles(taskId: string): Promise<string[]> {
+  const db = getDatabase();
+  const rows = await db
+    .select({ title: tasks.title })
+    .from(taskDependencies)
+    .innerJoin(tasks, eq(tasks.id, taskDependencies.blocked_by_id))
+    .where(and(eq(taskDependencies.task_id, taskId), notInArray(tasks.status, RESOLVED_STATUSES)));
+  return rows.map((row: { title: string }) => row.title);
+}
+
+// True if the task's latest status change is an automatic move to BLOCKED, rather than the
+// user setting BLOCKED by hand
+async function isBlockedByDependencies(taskId: string): Promise<boolean> {
+  const db = getDatabase();
+  const entries = await db
+    .select({ content: timelineEntries.content })
+    .from(timelineEntries)
+    .where(and(eq(timelineEntries.task_id, taskId), eq(timelineEntries.type, 'STATUS')))
+    .orderBy(desc(timelineEntries.created_at));
+  for (const { content } of entries) {
+    let change: Partial<StatusChange> | null = null;
+    try {
+      change = JSON.parse(content);
+    } catch {
+      // Plain-text entries from older versions
+    }
+    if (change?.field === 'status') {
+      return change.to === 'BLOCKED' && (change.reason ?? '').startsWith(BLOCKED_REASON_PREFIX);
+    }
+  }
+  return false;
+}
+
+// Move a task to BLOCKED while any blocker is unresolved, and back to OPEN once none are.
+// Completed tasks are left alone, and so are tasks the user set to BLOCKED by hand. Automatic
+// transitions don't count as touching the task. Returns true if the status changed.
+export async function syncBlockedStatus(taskId: string, unblockReason: string = 'No open blockers left'): Promise<boolean> {
+  const db = getDatabase();
+  const current = await db.select({ status: tasks.status }).from(tasks).where(eq(tasks.id, taskId)).limit(1);
+  if (current.length === 0) {
+    return false;
+  }
+  const status = current[0].status;
+
+  const openBlockers = await getOpenBlockerTitles(taskId);
+
+  if (openBlockers.length > 0 && (status === 'OPEN' || status === 'WAITING')) {
+    const names = openBlockers.map((title) => `"${title}"`).join(', ');
+    await updateTask({ id: taskId, status: 'BLOCKED', reason: `${BLOCKED_REASON_PREFIX}${names}`, updateTouched: false });
+    return true;
+  }
+  if (openBlockers.length === 0 && status === 'BLOCKED' && (await isBlockedByDependencies(taskId))) {
+    await updateTask({ id: taskId, status: 'OPEN', reason: unblockReason, updateTouched: false });
+    return true;
+  }
+  return false;
+}
+
+// Re-evaluate every task waiting on `taskId` (after its status changed). Returns ids that changed.
+export async function syncDependents(taskId: string): Promise<string[]> {
+  const db = getDatabase();
+  const blocker = await db.select({ title: tasks.title, status: tasks.status }).from(tasks).where(eq(tasks.id, taskId)).limit(1);
+  const unblockReason = blocker.length > 0
+    ? `Last blocker "${blocker[0].title}" is ${blocker[0].status}`
+    : undefined;
+
+  const changed: string[] = [];
+  for (const dependentId of await getDependentTaskIds(taskId)) {
+    if (await syncBlockedStatus(dependentId, unblockReason)) {
+      changed.push(dependentId);
+    }
+  }
+  return changed;
+}
@@ -0,0 +1,250 @@
+// Migration 1: the schema as it stood before versioned migrations.
+// Vaults created before this point have some subset of these tables and columns, so every
+// step is idempotent; from here on, migrations can assume the previous version exactly.
+import type Database from 'better-sqlite3';
+import type { Migration } from './index';
+
+const VALID_STATUSES = ['OPEN', 'WAITING', 'BLOCKED', 'DONE', 'ARCHIVED'];
+
+const TASKS_TABLE = `
+  CREATE TABLE IF NOT EXISTS tasks (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'OPEN',
+    priority TEXT NOT NULL DEFAULT 'NORMAL',
+    created_at INTEGER NOT NULL,
+    last_touched_at INTEGER NOT NULL,
+    archived_at INTEGER,
+    delete_after_at INTEGER,
+    pinned_summary TEXT NOT NULL DEFAULT '',
+    project_id TEXT REFERENCES projects(id) ON DELETE SET NULL,
+    due_at INTEGER,
+    start_at INTEGER,
+    recurrence_rule TEXT,
+    recurrence_series_id TEXT,
+    recurrence_parent_id TEXT REFERENCES tasks(id) ON DELETE SET NULL
+  )
+`;
+
+function tableExists(db: Database.Database, name: string): boolean {
+  return db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(name) !== undefined;
+}
+
+function columnNames(db: Database.Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name);
+}
+
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string) {
+  if (!columnNames(db, table).includes(column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// Early vaults constrained status to the original three values. Rebuild the table without
+// the CHECK (keeping every column it has) and map anything unknown to OPEN.
+function migrateLegacyTaskStatuses(db: Database.Database) {
+  if (!tableExists(db, 'tasks')) return;
+
+  const { sql } = db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'tasks'`).get() as { sql: string };
+  if (/\bCHECK\b/i.test(sql)) {
+    const existing = columnNames(db, 'tasks');
+    db.exec(TASKS_TABLE.replace('IF NOT EXISTS tasks', 'tasks_new'));
+    const shared = columnNames(db, 'tasks_new').filter((c) => existing.includes(c)).join(', ');
+    db.exec(`INSERT INTO tasks_new (${shared}) SELECT ${shared} FROM tasks`);
+    db.exec(`DROP TABLE tasks`);
+    db.exec(`ALTER TABLE tasks_new RENAME TO tasks`);
+  }
+
+  db.prepare(`UPDATE tasks SET status = 'OPEN' WHERE status NOT IN (${VALID_STATUSES.map(() => '?').join(', ')})`)
+    .run(...VALID_STATUSES);
+}
+
+function up(db: Database.Database) {
+  migrateLegacyTaskStatuses(db);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS projects (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      created_at INTEGER NOT NULL
+    );
+
+    ${TASKS_TABLE};
+
+    CREATE TABLE IF NOT EXISTS timeline_entries (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      content TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS gamification (
+      key TEXT PRIMARY KEY,
+      xp INTEGER NOT NULL DEFAULT 0,
+      level INTEGER NOT NULL DEFAULT 1,
+      streak INTEGER NOT NULL DEFAULT 0,
+      last_active_date INTEGER NOT NULL DEFAULT 0
+    );
+
+    CREATE TABLE IF NOT EXISTS tags (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS task_tags (
+      task_id TEXT NOT NULL,
+      tag_id TEXT NOT NULL,
+      PRIMARY KEY (task_id, tag_id),
+      FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+      FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS saved_searches (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      query TEXT NOT NULL,
+      sort TEXT NOT NULL DEFAULT 'default',
+      icon TEXT NOT NULL DEFAULT 'list',
+      position INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS checklist_items (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL,
+      title TEXT NOT NULL,
+      position INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      checked_at INTEGER,
+      xp_awarded INTEGER NOT NULL DEFAULT 0,
+      FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS task_dependencies (
+      task_id TEXT NOT NULL,
+      blocked_by_id TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (task_id, blocked_by_id),
+      FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+      FOREIGN KEY (blocked_by_id) REFERENCES tasks(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS reminders (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL,
+      remind_at INTEGER NOT NULL,
+      note TEXT NOT NULL DEFAULT '',
+      created_at INTEGER NOT NULL,
+      fired_at INTEGER,
+      snooze_count INTEGER NOT NULL DEFAULT 0,
+      FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+    );
+  `);
+
+  // Columns that older vaults gained one at a time
+  addColumnIfMissing(db, 'tasks', 'project_id', 'TEXT REFERENCES projects(id) ON DELETE SET NULL');
+  addColumnIfMissing(db, 'tasks', 'due_at', 'INTEGER');
+  addColumnIfMissing(db, 'tasks', 'start_at', 'INTEGER');
+  addColumnIfMissing(db, 'tasks', 'recurrence_rule', 'TEXT');
+  addColumnIfMissing(db, 'tasks', 'recurrence_series_id', 'TEXT');
+  addColumnIfMissing(db, 'tasks', 'recurrence_parent_id', 'TEXT REFERENCES tasks(id) ON DELETE SET NULL');
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_timeline_task_id ON timeline_entries(task_id);
+    CREATE INDEX IF NOT EXISTS idx_timeline_type ON timeline_entries(type);
+    CREATE INDEX IF NOT EXISTS idx_timeline_created_at ON timeline_entries(created_at);
+    CREATE INDEX IF NOT EXISTS idx_tasks_last_touched ON tasks(last_touched_at);
+    CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks(priority);
+    CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
+    CREATE INDEX IF NOT EXISTS idx_tasks_project_id ON tasks(project_id);
+    CREATE INDEX IF NOT EXISTS idx_tasks_due_at ON tasks(due_at);
+    CREATE INDEX IF NOT EXISTS idx_tasks_recurrence_series ON tasks(recurrence_series_id);
+    CREATE INDEX IF NOT EXISTS idx_tasks_recurrence_parent ON tasks(recurrence_parent_id);
+    CREATE INDEX IF NOT EXISTS idx_task_tags_tag_id ON task_tags(tag_id);
+    CREATE INDEX IF NOT EXISTS idx_reminders_pending ON reminders(fired_at, remind_at);
+    CREATE INDEX IF NOT EXISTS idx_reminders_task_id ON reminders(task_id);
+    CREATE INDEX IF NOT EXISTS idx_checklist_items_task_id ON checklist_items(task_id, position);
+    CREATE INDEX IF NOT EXISTS idx_task_dependencies_blocked_by ON task_dependencies(blocked_by_id);
+
+    INSERT OR IGNORE INTO gamification (key, xp, level, streak, last_active_date)
+    VALUES ('user_stats', 0, 1, 0, 0);
+  `);
+
+  // Full-text index over task titles, pinned summaries, notes, attachment names and tags.
+  // Rows are kept in sync by triggers, so query code never writes to it directly.
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+      task_id UNINDEXED,
+      entry_id UNINDEXED,
+      kind UNINDEXED,
+      content,
+      tokenize = 'unicode61 remove_diacritics 2'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS search_tasks_ai AFTER INSERT ON tasks BEGIN
+      INSERT INTO search_index (task_id, entry_id, kind, content) VALUES (new.id, NULL, 'TITLE', new.title);
+      INSERT INTO search_index (task_id, entry_id, kind, content) VALUES (new.id, NULL, 'SUMMARY', new.pinned_summary);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS search_tasks_au AFTER UPDATE OF title, pinned_summary ON tasks BEGIN
+      DELETE FROM search_index WHERE task_id = old.id AND entry_id IS NULL;
+      INSERT INTO search_index (task_id, entry_id, kind, content) VALUES (new.id, NULL, 'TITLE', new.title);
+      INSERT INTO search_index (task_id, entry_id, kind, content) VALUES (new.id, NULL, 'SUMMARY', new.pinned_summary);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS search_tasks_ad AFTER DELETE ON tasks BEGIN
+      DELETE FROM search_index WHERE task_id = old.id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS search_entries_ai AFTER INSERT ON timeline_entries
+    WHEN new.type IN ('NOTE', 'IMAGE', 'FILE') BEGIN
+      INSERT INTO search_index (task_id, entry_id, kind, content)
+      VALUES (
+        new.task_id,
+        new.id,
+        CASE new.type WHEN 'NOTE' THEN 'NOTE' ELSE 'ATTACHMENT' END,
+        CASE new.type WHEN 'NOTE' THEN new.content ELSE substr(new.content, instr(new.content, '/') + 1) END
+      );
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS search_entries_au AFTER UPDATE OF content ON timeline_entries
+    WHEN new.type IN ('NOTE', 'IMAGE', 'FILE') BEGIN
+      DELETE FROM search_index WHERE entry_id = old.id;
+      INSERT INTO search_index (task_id, entry_id, kind, content)
+      VALUES (
+        new.task_id,
+        new.id,
+        CASE new.type WHEN 'NOTE' THEN 'NOTE' ELSE 'ATTACHMENT' END,
+        CASE new.type WHEN 'NOTE' THEN new.content ELSE substr(new.content, instr(new.content, '/') + 1) END
+      );
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS search_entries_ad AFTER DELETE ON timeline_entries BEGIN
+      DELETE FROM search_index WHERE entry_id = old.id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS search_task_tags_ai AFTER INSERT ON task_tags BEGIN
+      INSERT INTO search_index (task_id, entry_id, kind, content)
+      SELECT new.task_id, 'tag:' || new.tag_id, 'TAG', name FROM tags WHERE id = new.tag_id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS search_task_tags_ad AFTER DELETE ON task_tags BEGIN
+      DELETE FROM search_index WHERE task_id = old.task_id AND entry_id = 'tag:' || old.tag_id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS search_tags_au AFTER UPDATE OF name ON tags BEGIN
+      DELETE FROM search_index WHERE entry_id = 'tag:' || old.id;
+      INSERT INTO search_index (task_id, entry_id, kind, content)
+      SELECT task_id, 'tag:' || new.id, 'TAG', new.name FROM task_tags WHERE tag_id = new.id;
+    END;
+  `);
+}
+
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial-schema',
+  up,
+};
@@ -0,0 +1,18 @@
+// Migration 2: key/value app settings (values are JSON)
+import type Database from 'better-sqlite3';
+import type { Migration } from './index';
+
+function up(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+  `);
+}
+
+export const settingsTable: Migration = {
+  version: 2,
+  name: 'settings',
+  up,
+};
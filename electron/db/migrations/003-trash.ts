@@ -0,0 +1,24 @@
+// Migration 3: trash bin for deleted tasks and timeline entries
+import type Database from 'better-sqlite3';
+import type { Migration } from './index';
+
+function up(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE trash_items (
+      id TEXT PRIMARY KEY,
+      kind TEXT NOT NULL CHECK (kind IN ('TASK', 'ENTRY')),
+      task_id TEXT NOT NULL,
+      title TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      attachment_count INTEGER NOT NULL DEFAULT 0,
+      deleted_at INTEGER NOT NULL
+    );
+    CREATE INDEX idx_trash_items_deleted_at ON trash_items(deleted_at);
+  `);
+}
+
+export const trashItems: Migration = {
+  version: 3,
+  name: 'trash',
+  up,
+};
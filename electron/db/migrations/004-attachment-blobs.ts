@@ -0,0 +1,31 @@
+// Migration 4: content-addressed attachment storage. Files live once per SHA-256 hash in
+// attachment_blobs; attachments maps each timeline entry's path to its blob. Existing files
+// are moved into blobs at startup by migrateLegacyAttachments (attachments.ts).
+import type Database from 'better-sqlite3';
+import type { Migration } from './index';
+
+function up(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE attachment_blobs (
+      hash TEXT PRIMARY KEY,
+      file TEXT NOT NULL,
+      mime TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      ref_count INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL
+    );
+    CREATE TABLE attachments (
+      path TEXT PRIMARY KEY,
+      hash TEXT NOT NULL REFERENCES attachment_blobs(hash),
+      original_name TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+    CREATE INDEX idx_attachments_hash ON attachments(hash);
+  `);
+}
+
+export const attachmentBlobs: Migration = {
+  version: 4,
+  name: 'attachment-blobs',
+  up,
+};
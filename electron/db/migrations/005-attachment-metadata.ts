@@ -0,0 +1,71 @@
+// Migration 5: image dimensions per blob and an optional caption per attachment. The search
+// index now uses each attachment's original name rather than its sanitized path, and indexes
+// captions as CAPTION rows. Dimensions of existing images are filled in at startup by
+// backfillAttachmentMetadata (attachments.ts).
+import type Database from 'better-sqlite3';
+import type { Migration } from './index';
+
+// ATTACHMENT and CAPTION rows for the entries pointing at an attachment path. Shared by the
+// timeline and attachments triggers, since either row may be written first.
+const indexAttachment = (entries: string) => `
+  INSERT INTO search_index (task_id, entry_id, kind, content)
+  SELECT te.task_id, te.id, 'ATTACHMENT', COALESCE(a.original_name, substr(te.content, instr(te.content, '/') + 1))
+  FROM timeline_entries te LEFT JOIN attachments a ON a.path = te.content
+  WHERE ${entries};
+  INSERT INTO search_index (task_id, entry_id, kind, content)
+  SELECT te.task_id, te.id, 'CAPTION', a.caption
+  FROM timeline_entries te JOIN attachments a ON a.path = te.content
+  WHERE ${entries} AND a.caption != '';
+`;
+
+function up(db: Database.Database) {
+  db.exec(`
+    ALTER TABLE attachment_blobs ADD COLUMN width INTEGER;
+    ALTER TABLE attachment_blobs ADD COLUMN height INTEGER;
+    ALTER TABLE attachments ADD COLUMN caption TEXT NOT NULL DEFAULT '';
+
+    DROP TRIGGER IF EXISTS search_entries_ai;
+    DROP TRIGGER IF EXISTS search_entries_au;
+
+    CREATE TRIGGER search_entries_ai AFTER INSERT ON timeline_entries
+    WHEN new.type IN ('NOTE', 'IMAGE', 'FILE') BEGIN
+      INSERT INTO search_index (task_id, entry_id, kind, content)
+      SELECT new.task_id, new.id, 'NOTE', new.content WHERE new.type = 'NOTE';
+      ${indexAttachment(`te.id = new.id AND te.type IN ('IMAGE', 'FILE')`)}
+    END;
+
+    CREATE TRIGGER search_entries_au AFTER UPDATE OF content ON timeline_entries
+    WHEN new.type IN ('NOTE', 'IMAGE', 'FILE') BEGIN
+      DELETE FROM search_index WHERE entry_id = old.id;
+      INSERT INTO search_index (task_id, entry_id, kind, content)
+      SELECT new.task_id, new.id, 'NOTE', new.content WHERE new.type = 'NOTE';
+      ${indexAttachment(`te.id = new.id AND te.type IN ('IMAGE', 'FILE')`)}
+    END;
+
+    CREATE TRIGGER search_attachments_ai AFTER INSERT ON attachments BEGIN
+      DELETE FROM search_index WHERE entry_id IN (
+        SELECT id FROM timeline_entries WHERE content = new.path AND type IN ('IMAGE', 'FILE')
+      );
+      ${indexAttachment(`te.content = new.path AND te.type IN ('IMAGE', 'FILE')`)}
+    END;
+
+    CREATE TRIGGER search_attachments_au AFTER UPDATE OF original_name, caption ON attachments BEGIN
+      DELETE FROM search_index WHERE entry_id IN (
+        SELECT id FROM timeline_entries WHERE content = new.path AND type IN ('IMAGE', 'FILE')
+      );
+      ${indexAttachment(`te.content = new.path AND te.type IN ('IMAGE', 'FILE')`)}
+    END;
+  `);
+
+  // Re-index existing attachments by original name, and drop the old path-based rows
+  db.exec(`
+    DELETE FROM search_index WHERE kind = 'ATTACHMENT';
+    ${indexAttachment(`te.type IN ('IMAGE', 'FILE')`)}
+  `);
+}
+
+export const attachmentMetadata: Migration = {
+  version: 5,
+  name: 'attachment-metadata',
+  up,
+};
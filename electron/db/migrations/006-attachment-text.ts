@@ -0,0 +1,78 @@
+// Migration 6: plain text extracted from attachment files (attachment-indexer.ts), one row per
+// blob, so identical files are read once. Every IMAGE/FILE entry whose blob has text gets a
+// CONTENT row in the search index, with entry_id "text:<entryId>" so the name and caption
+// triggers, which delete by entry id, leave it alone.
+import type Database from 'better-sqlite3';
+import type { Migration } from './index';
+
+const indexText = (entries: string) => `
+  INSERT INTO search_index (task_id, entry_id, kind, content)
+  SELECT te.task_id, 'text:' || te.id, 'CONTENT', t.content
+  FROM timeline_entries te
+  JOIN attachments a ON a.path = te.content
+  JOIN attachment_text t ON t.hash = a.hash
+  WHERE ${entries} AND t.content != '';
+`;
+
+function up(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE attachment_text (
+      hash TEXT PRIMARY KEY REFERENCES attachment_blobs(hash) ON DELETE CASCADE,
+      -- DONE, UNSUPPORTED, TOO_LARGE or FAILED; only DONE rows have content
+      status TEXT NOT NULL,
+      content TEXT NOT NULL DEFAULT '',
+      extracted_at INTEGER NOT NULL
+    );
+
+    CREATE TRIGGER search_entries_text_ai AFTER INSERT ON timeline_entries
+    WHEN new.type IN ('IMAGE', 'FILE') BEGIN
+      ${indexText(`te.id = new.id`)}
+    END;
+
+    CREATE TRIGGER search_entries_text_au AFTER UPDATE OF content ON timeline_entries
+    WHEN new.type IN ('IMAGE', 'FILE') BEGIN
+      DELETE FROM search_index WHERE entry_id = 'text:' || old.id;
+      ${indexText(`te.id = new.id`)}
+    END;
+
+    CREATE TRIGGER search_entries_text_ad AFTER DELETE ON timeline_entries BEGIN
+      DELETE FROM search_index WHERE entry_id = 'text:' || old.id;
+    END;
+
+    CREATE TRIGGER search_attachments_text_ai AFTER INSERT ON attachments BEGIN
+      DELETE FROM search_index WHERE entry_id IN (
+        SELECT 'text:' || id FROM timeline_entries WHERE content = new.path AND type IN ('IMAGE', 'FILE')
+      );
+      ${indexText(`te.content = new.path AND te.type IN ('IMAGE', 'FILE')`)}
+    END;
+
+    CREATE TRIGGER search_attachments_text_ad AFTER DELETE ON attachments BEGIN
+      DELETE FROM search_index WHERE entry_id IN (
+        SELECT 'text:' || id FROM timeline_entries WHERE content = old.path AND type IN ('IMAGE', 'FILE')
+      );
+    END;
+
+    CREATE TRIGGER search_attachment_text_ai AFTER INSERT ON attachment_text BEGIN
+      ${indexText(`a.hash = new.hash AND te.type IN ('IMAGE', 'FILE')`)}
+    END;
+
+    CREATE TRIGGER search_attachment_text_au AFTER UPDATE ON attachment_text BEGIN
+      DELETE FROM search_index WHERE entry_id IN (
+        SELECT 'text:' || te.id FROM timeline_entries te JOIN attachments a ON a.path = te.content WHERE a.hash = old.hash
+      );
+      ${indexText(`a.hash = new.hash AND te.type IN ('IMAGE', 'FILE')`)}
+    END;
+
+    CREATE TRIGGER search_attachment_text_ad AFTER DELETE ON attachment_text BEGIN
+      DELETE FROM search_index WHERE entry_id IN (
+        SELECT 'text:' || te.id FROM timeline_entries te JOIN attachments a ON a.path = te.content WHERE a.hash = old.hash
+      );
+    END;
+  `);
+}
+
+export const attachmentText: Migration = {
+  version: 6,
+  name: 'attachment-text',
+  up,
+};
@@ -0,0 +1,27 @@
+// Ordered list of schema migrations. Append new ones with the next version number;
+// never edit a migration that has shipped.
+import type Database from 'better-sqlite3';
+import { initialSchema } from './001-initial-schema';
+import { settingsTable } from './002-settings';
+import { trashItems } from './003-trash';
+import { attachmentBlobs } from './004-attachment-blobs';
+import { attachmentMetadata } from './005-attachment-metadata';
+import { attachmentText } from './006-attachment-text';
+
+export interface Migration {
+  version: number;
+  name: string;
+  // Runs inside a transaction with foreign key enforcement off; throw to roll back
+  up: (db: Database.Database) => void;
+}
+
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  settingsTable,
+  trashItems,
+  attachmentBlobs,
+  attachmentMetadata,
+  attachmentText,
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
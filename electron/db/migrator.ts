@@ -0,0 +1,84 @@
+// Versioned schema migrations: applied versions are recorded in schema_migrations
+import Database from 'better-sqlite3';
+import { MIGRATIONS, LATEST_SCHEMA_VERSION } from './migrations';
+import { createBackup } from './backups';
+
+export class DatabaseVersionError extends Error {
+  databaseVersion: number;
+  appVersion: number;
+
+  constructor(databaseVersion: number, appVersion: number) {
+    super(
+      `This vault uses schema version ${databaseVersion}, but this version of TaskVault only supports up to ${appVersion}. ` +
+      'Please update TaskVault to open it.'
+    );
+    this.name = 'DatabaseVersionError';
+    this.databaseVersion = databaseVersion;
+    this.appVersion = appVersion;
+  }
+}
+
+export function getSchemaVersion(sqlite: Database.Database): number {
+  const row = sqlite.prepare(`SELECT MAX(version) AS version FROM schema_migrations`).get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+function hasUserTables(sqlite: Database.Database): boolean {
+  const row = sqlite.prepare(`
+    SELECT COUNT(*) AS count FROM sqlite_master
+    WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name <> 'schema_migrations'
+  `).get() as { count: number };
+  return row.count > 0;
+}
+
+// Bring the database up to LATEST_SCHEMA_VERSION. Existing vaults are backed up first (unless
+// `backup` is false, e.g. for throwaway copies), each migration commits on its own, and a
+// database from a newer app is refused untouched.
+export function runMigrations(sqlite: Database.Database, options: { backup?: boolean } = {}) {
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    );
+  `);
+
+  const current = getSchemaVersion(sqlite);
+  if (current > LATEST_SCHEMA_VERSION) {
+    throw new DatabaseVersionError(current, LATEST_SCHEMA_VERSION);
+  }
+
+  const pending = MIGRATIONS.filter((m) => m.version > current);
+  if (pending.length === 0) {
+    return;
+  }
+
+  if (options.backup !== false && hasUserTables(sqlite)) {
+    const backupPath = createBackup(sqlite, `pre-migration-v${current}-to-v${LATEST_SCHEMA_VERSION}`);
+    console.log(`Backed up database to ${backupPath} before migrating`);
+  }
+
+  const countViolations = () => (sqlite.pragma('foreign_key_check') as unknown[]).length;
+
+  // Table rebuilds need foreign keys off, and the pragma is ignored inside a transaction
+  sqlite.pragma('foreign_keys = OFF');
+  try {
+    for (const migration of pending) {
+      sqlite.transaction(() => {
+        // Only fail on violations the migration introduced; old orphans shouldn't brick the vault
+        const before = countViolations();
+        migration.up(sqlite);
+        const after = countViolations();
+        if (after > before) {
+          throw new Error(`Migration ${migration.version} (${migration.name}) introduced ${after - before} foreign key violations`);
+        }
+        sqlite
+          .prepare(`INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)`)
+          .run(migration.version, migration.name, Date.now());
+      })();
+      console.log(`Applied migration ${migration.version} (${migration.name})`);
+    }
+  } finally {
+    sqlite.pragma('foreign_keys = ON');
+  }
+}
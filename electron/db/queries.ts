@@ -1,12 +1,14 @@
 // Database query functions with business logic
-import { eq, desc, and, or, like, sql } from 'drizzle-orm';
+import { eq, and, inArray, sql, type SQL } from 'drizzle-orm';
 import { getDatabase } from './client';
-import { tasks, timelineEntries, gamification } from './schema';
+import { tasks, timelineEntries, gamification, savedSearches, projects, tags, taskTags, checklistItems, type SavedSearch } from './schema';
 import { v4 as uuidv4 } from 'uuid';
-import { rmSync, existsSync } from 'fs';
-import { join } from 'path';
-import { app } from 'electron';
-import { deleteAttachment } from '../file-handler';
+import { setTaskTags } from './tags';
+import { parseSearchQuery, buildFilterCondition, SearchQueryError, type ParsedSearchQuery } from './search-query';
+import { parseRecurrenceRule, formatRecurrenceRule } from './recurrence-rule';
+import { trashTask, purgeExpiredTrash } from './trash';
+import { getArchiveDeleteAfter, exportTaskBundle } from './archive';
+import { getTaskAttachments } from './attachments';
 
 export interface TaskWithIdleAge {
   id: string;
@@ -18,21 +20,79 @@ export interface TaskWithIdleAge {
   archived_at: number | null;
   delete_after_at: number | null;
   pinned_summary: string;
+  project_id: string | null;
+  due_at: number | null;
+  start_at: number | null;
   idleAge: number;
   daysOld: number;
   attachmentCount: number;
   imageCount: number;
   fileCount: number;
+  checklistDone: number;
+  checklistTotal: number;
   lastEntryAt: number | null;
 }
 
+// Structured payload stored in STATUS timeline entries (JSON-encoded in `content`)
+export interface StatusChange {
+  field: 'status' | 'priority';
+  from: string;
+  to: string;
+  reason: string | null;
+}
+
+// Payload of the STATUS entry written when a checklist item is checked
+export interface ChecklistChange {
+  field: 'checklist';
+  item: string;
+  done: number;
+  total: number;
+}
+
 export interface TaskWithMeta extends TaskWithIdleAge {
   latestEntryContent: string | null;
   latestEntryType: 'NOTE' | 'IMAGE' | 'FILE' | 'STATUS' | 'GAMIFY' | null;
   latestEntryDate: number | null;
+  projectName: string | null;
+  tags: string[];
 }
 
-export async function getTasks(): Promise<TaskWithMeta[]> {
+// Control characters wrapping highlighted terms in search snippets (never occur in user text)
+export const SNIPPET_MARK_START = '\u0002';
+export const SNIPPET_MARK_END = '\u0003';
+
+export type SearchMatchKind = 'TITLE' | 'SUMMARY' | 'NOTE' | 'ATTACHMENT' | 'CAPTION' | 'TAG' | 'CONTENT';
+
+export interface SearchResult extends TaskWithMeta {
+  // Null when the query had no free-text terms (filters only)
+  rank: number | null;
+  match: {
+    kind: SearchMatchKind;
+    snippet: string;
+    // For CONTENT matches: the name of the file whose text matched
+    attachmentName?: string;
+  } | null;
+}
+
+export const TASK_STATUSES = ['OPEN', 'WAITING', 'BLOCKED', 'DONE', 'ARCHIVED'] as const;
+export const TASK_PRIORITIES = ['LOW', 'NORMAL', 'HIGH'] as const;
+
+export const TASK_SORT_MODES = ['default', 'idle', 'created', 'touched', 'title', 'deadline'] as const;
+export type TaskSortMode = typeof TASK_SORT_MODES[number];
+
+export interface SavedSearchWithCount extends SavedSearch {
+  // Null when the stored query no longer parses
+  count: number | null;
+}
+
+export interface SearchResponse {
+  tasks: SearchResult[];
+  // Set when the query could not be parsed; position is a character offset into the query
+  error: { message: string; position: number } | null;
+}
+
+// Shared select for task rows plus attachment counts and latest entry metadata
+async function selectTasksWithMeta(where?: SQL): Promise<TaskWithMeta[]> {
   const db = getDatabase();
   const now = Date.now();
   
@@ -49,9 +109,32 @@ export async function getTasks(): Promise<TaskWithMeta[]> {
       archived_at: tasks.archived_at,
       delete_after_at: tasks.delete_after_at,
       pinned_summary: tasks.pinned_summary,
+      project_id: tasks.project_id,
+      due_at: tasks.due_at,
+      start_at: tasks.start_at,
+      recurrence_rule: tasks.recurrence_rule,
+      recurrence_series_id: tasks.recurrence_series_id,
+      recurrence_parent_id: tasks.recurrence_parent_id,
+      projectName: sql<string | null>`(
+        SELECT ${projects.name} FROM ${projects} WHERE ${projects.id} = ${tasks.project_id}
+      )`.as('projectName'),
+      // Unit separator keeps tag names intact when joined
+      tagNames: sql<string | null>`(
+        SELECT group_concat(${tags.name}, char(31)) FROM ${taskTags}
+        JOIN ${tags} ON ${tags.id} = ${taskTags.tag_id}
+        WHERE ${taskTags.task_id} = ${tasks.id}
+      )`.as('tagNames'),
       attachmentCount: sql<number>`COUNT(CASE WHEN ${timelineEntries.type} IN ('IMAGE', 'FILE') THEN 1 END)`.as('attachmentCount'),
       imageCount: sql<number>`COUNT(CASE WHEN ${timelineEntries.type} = 'IMAGE' THEN 1 END)`.as('imageCount'),
       fileCount: sql<number>`COUNT(CASE WHEN ${timelineEntries.type} = 'FILE' THEN 1 END)`.as('fileCount'),
+      checklistDone: sql<number>`(
+        SELECT COUNT(${checklistItems.checked_at}) FROM ${checklistItems}
+        WHERE ${checklistItems.task_id} = ${tasks.id}
+      )`.as('checklistDone'),
+      checklistTotal: sql<number>`(
+        SELECT COUNT(*) FROM ${checklistItems}
+        WHERE ${checklistItems.task_id} = ${tasks.id}
+      )`.as('checklistTotal'),
       lastEntryAt: sql<number | null>`MAX(${timelineEntries.created_at})`.as('lastEntryAt'),
       latestEntryContent: sql<string | null>`(
         SELECT content FROM ${timelineEntries} 
@@ -74,36 +157,36 @@ export async function getTasks(): Promise<TaskWithMeta[]> {
     })
     .from(tasks)
     .leftJoin(timelineEntries, eq(tasks.id, timelineEntries.task_id))
+    .where(where)
     .groupBy(tasks.id);
 
   type TaskWithCounts = typeof tasksWithCounts[0];
-  const tasksWithMetadata: TaskWithMeta[] = tasksWithCounts.map((task: TaskWithCounts) => {
+  return tasksWithCounts.map(({ tagNames, ...task }: TaskWithCounts) => {
     const idleAge = Math.floor((now - task.last_touched_at) / 86400000);
     const daysOld = Math.floor((now - task.created_at) / 86400000);
     
     return {
       ...task,
+      projectName: task.projectName || null,
+      tags: tagNames ? tagNames.split('\u001f').sort((a: string, b: string) => a.localeCompare(b)) : [],
       idleAge,
       daysOld,
       attachmentCount: task.attachmentCount || 0,
       imageCount: task.imageCount || 0,
       fileCount: task.fileCount || 0,
+      checklistDone: task.checklistDone || 0,
+      checklistTotal: task.checklistTotal || 0,
       lastEntryAt: task.lastEntryAt || null,
       latestEntryContent: task.latestEntryContent || null,
       latestEntryType: task.latestEntryType || null,
       latestEntryDate: task.latestEntryDate || null,
     };
   });
+}
 
-  // Sort: Priority DESC (HIGH first), then Idle Age DESC
-  const priorityOrder: Record<'HIGH' | 'NORMAL' | 'LOW', number> = { HIGH: 3, NORMAL: 2, LOW: 1 };
-  tasksWithMetadata.sort((a: TaskWithMeta, b: TaskWithMeta) => {
-    const priorityDiff = priorityOrder[b.priority] - priorityOrder[a.priority];
-    if (priorityDiff !== 0) return priorityDiff;
-    return b.idleAge - a.idleAge;
-  });
-
-  return tasksWithMetadata;
+export async function getTasks(sort: TaskSortMode = 'default'): Promise<TaskWithMeta[]> {
+  const tasksWithMetadata = await selectTasksWithMeta();
+  return sortTasks(tasksWithMetadata, sort);
 }
 
 export async function getTaskById(id: string) {
@@ -123,12 +206,41 @@ export async function getTaskById(id: string) {
   return {
     task: taskResults[0],
     timeline: entries,
+    attachments: getTaskAttachments(id),
   };
 }
 
-export async function createTask(payload: { title: string; priority: string }) {
+// Dates are optional, but a task can't start after it's due
+function validateTaskDates(startAt: number | null, dueAt: number | null) {
+  for (const value of [startAt, dueAt]) {
+    if (value !== null && !Number.isFinite(value)) {
+      throw new Error(`Invalid date: ${value}. Must be a timestamp in milliseconds or null`);
+    }
+  }
+  if (startAt !== null && dueAt !== null && startAt > dueAt) {
+    throw new Error('Invalid dates: start date must be on or before the due date');
+  }
+}
+
+// Validate and canonicalize a recurrence rule; blank clears it
+function normalizeRecurrenceRule(rule: string | null): string | null {
+  if (rule === null || !rule.trim()) return null;
+  return formatRecurrenceRule(parseRecurrenceRule(rule));
+}
+
+export async function createTask(payload: {
+  title: string;
+  priority: string;
+  project_id?: string | null;
+  tags?: string[];
+  due_at?: number | null;
+  start_at?: number | null;
+  recurrence_rule?: string | null;
+}) {
   const db = getDatabase();
   const now = Date.now();
+  validateTaskDates(payload.start_at ?? null, payload.due_at ?? null);
+  const recurrenceRule = normalizeRecurrenceRule(payload.recurrence_rule ?? null);
   
   const newTask = {
     id: uuidv4(),
@@ -138,9 +250,18 @@ export async function createTask(payload: { title: string; priority: string }) {
     created_at: now,
     last_touched_at: now,
     pinned_summary: '',
+    project_id: payload.project_id ?? null,
+    due_at: payload.due_at ?? null,
+    start_at: payload.start_at ?? null,
+    recurrence_rule: recurrenceRule,
   };
 
   await db.insert(tasks).values(newTask);
+
+  if (payload.tags && payload.tags.length > 0) {
+    await setTaskTags(newTask.id, payload.tags);
+  }
+
   return newTask;
 }
 
@@ -150,13 +271,23 @@ export async function updateTask(payload: {
   status?: string;
   priority?: string;
   pinned_summary?: string;
+  project_id?: string | null;
+  tags?: string[];
+  due_at?: number | null;
+  start_at?: number | null;
+  recurrence_rule?: string | null;
   updateTouched?: boolean;
+  reason?: string;
 }) {
   const db = getDatabase();
   const updateData: Partial<typeof tasks.$inferInsert> = {};
+
+  // Snapshot current values so status/priority transitions can be recorded
+  const existing = await db.select().from(tasks).where(eq(tasks.id, payload.id)).limit(1);
+  const previous = existing[0];
   
-  const validStatuses = ['OPEN', 'WAITING', 'BLOCKED', 'DONE', 'ARCHIVED'];
-  const validPriorities = ['LOW', 'NORMAL', 'HIGH'];
+  const validStatuses: readonly string[] = TASK_STATUSES;
+  const validPriorities: readonly string[] = TASK_PRIORITIES;
   
   if (payload.title !== undefined) {
     updateData.title = payload.title;
@@ -174,7 +305,11 @@ export async function updateTask(payload: {
     if (payload.status === 'ARCHIVED') {
       const now = Date.now();
       updateData.archived_at = now;
-      updateData.delete_after_at = now + (30 * 24 * 60 * 60 * 1000);
+      updateData.delete_after_at = await getArchiveDeleteAfter(now);
+    } else if (previous?.status === 'ARCHIVED') {
+      // Un-archiving cancels the scheduled cleanup
+      updateData.archived_at = null;
+      updateData.delete_after_at = null;
     }
     // Status change is meaningful, update touched if not explicitly set
     if (payload.updateTouched === undefined) {
@@ -199,12 +334,65 @@ export async function updateTask(payload: {
       updateData.last_touched_at = Date.now();
     }
   }
+  if (payload.project_id !== undefined) {
+    updateData.project_id = payload.project_id;
+    if (payload.updateTouched === undefined) {
+      updateData.last_touched_at = Date.now();
+    }
+  }
+  if (payload.due_at !== undefined || payload.start_at !== undefined) {
+    validateTaskDates(
+      payload.start_at !== undefined ? payload.start_at : previous?.start_at ?? null,
+      payload.due_at !== undefined ? payload.due_at : previous?.due_at ?? null
+    );
+    if (payload.due_at !== undefined) updateData.due_at = payload.due_at;
+    if (payload.start_at !== undefined) updateData.start_at = payload.start_at;
+    if (payload.updateTouched === undefined) {
+      updateData.last_touched_at = Date.now();
+    }
+  }
+  if (payload.recurrence_rule !== undefined) {
+    updateData.recurrence_rule = normalizeRecurrenceRule(payload.recurrence_rule);
+    if (payload.updateTouched === undefined) {
+      updateData.last_touched_at = Date.now();
+    }
+  }
+  if (payload.tags !== undefined) {
+    await setTaskTags(payload.id, payload.tags);
+    if (payload.updateTouched === undefined) {
+      updateData.last_touched_at = Date.now();
+    }
+  }
   // Explicit updateTouched flag overrides automatic behavior
   if (payload.updateTouched === true) {
     updateData.last_touched_at = Date.now();
   }
 
-  await db.update(tasks).set(updateData).where(eq(tasks.id, payload.id));
+  if (Object.keys(updateData).length > 0) {
+    await db.update(tasks).set(updateData).where(eq(tasks.id, payload.id));
+  }
+
+  if (previous) {
+    const changes: StatusChange[] = [];
+    const reason = payload.reason?.trim() || null;
+    if (updateData.status !== undefined && updateData.status !== previous.status) {
+      changes.push({ field: 'status', from: previous.status, to: updateData.status, reason });
+    }
+    if (updateData.priority !== undefined && updateData.priority !== previous.priority) {
+      changes.push({ field: 'priority', from: previous.priority, to: updateData.priority, reason });
+    }
+    // Insert directly rather than via addTimelineEntry to avoid re-entering updateTask
+    const now = Date.now();
+    for (const change of changes) {
+      await db.insert(timelineEntries).values({
+        id: uuidv4(),
+        task_id: payload.id,
+        type: 'STATUS',
+        content: JSON.stringify(change),
+        created_at: now,
+      });
+    }
+  }
   
   const updated = await db.select().from(tasks).where(eq(tasks.id, payload.id)).limit(1);
   return updated[0];
@@ -215,6 +403,8 @@ export async function addTimelineEntry(payload: {
   type: 'NOTE' | 'IMAGE' | 'FILE' | 'STATUS' | 'GAMIFY';
   content: string;
   updateTouched?: boolean;
+  // Original time when importing from another app; defaults to now
+  createdAt?: number;
 }) {
   const db = getDatabase();
   const now = Date.now();
@@ -224,7 +414,7 @@ export async function addTimelineEntry(payload: {
     task_id: payload.taskId,
     type: payload.type,
     content: payload.content,
-    created_at: now,
+    created_at: payload.createdAt ?? now,
   };
 
   await db.insert(timelineEntries).values(entry);
@@ -252,152 +442,259 @@ export async function updateTimelineEntry(entryId: string, content: string) {
   return updated[0] || null;
 }
 
-export async function deleteTimelineEntry(entryId: string) {
-  const db = getDatabase();
-  const entry = await db
-    .select()
-    .from(timelineEntries)
-    .where(eq(timelineEntries.id, entryId))
-    .limit(1);
-  
-  if (entry.length === 0) {
-    return false;
+// Default ordering: Priority DESC (HIGH first), then Idle Age DESC
+function sortByPriorityAndIdle<T extends TaskWithMeta>(list: T[]): T[] {
+  const priorityOrder: Record<'HIGH' | 'NORMAL' | 'LOW', number> = { HIGH: 3, NORMAL: 2, LOW: 1 };
+  return list.sort((a: T, b: T) => {
+    const priorityDiff = priorityOrder[b.priority] - priorityOrder[a.priority];
+    if (priorityDiff !== 0) return priorityDiff;
+    return b.idleAge - a.idleAge;
+  });
+}
+
+// Deadline ordering: open tasks with a due date first (earliest, i.e. most overdue, first),
+// then everything else in the default priority/idle order
+function sortByDeadline<T extends TaskWithMeta>(list: T[]): T[] {
+  const deadline = (task: T) => (
+    task.due_at !== null && task.status !== 'DONE' && task.status !== 'ARCHIVED' ? task.due_at : null
+  );
+  // Array.sort is stable, so tasks due the same day keep their priority/idle order
+  const dated = sortByPriorityAndIdle(list.filter((task: T) => deadline(task) !== null))
+    .sort((a: T, b: T) => deadline(a)! - deadline(b)!);
+  const undated = sortByPriorityAndIdle(list.filter((task: T) => deadline(task) === null));
+  return [...dated, ...undated];
+}
+
+function sortTasks<T extends TaskWithMeta>(list: T[], sort: TaskSortMode): T[] {
+  switch (sort) {
+    case 'idle':
+      return list.sort((a: T, b: T) => a.last_touched_at - b.last_touched_at);
+    case 'created':
+      return list.sort((a: T, b: T) => b.created_at - a.created_at);
+    case 'touched':
+      return list.sort((a: T, b: T) => b.last_touched_at - a.last_touched_at);
+    case 'title':
+      return list.sort((a: T, b: T) => a.title.localeCompare(b.title));
+    case 'deadline':
+      return sortByDeadline(list);
+    default:
+      return sortByPriorityAndIdle(list);
   }
-  
-  const timelineEntry = entry[0];
-  
-  // Delete physical file if entry is an IMAGE or FILE
-  if (timelineEntry.type === 'IMAGE' || timelineEntry.type === 'FILE') {
-    try {
-      await deleteAttachment(timelineEntry.content);
-    } catch (error) {
-      // Log error but continue with database deletion
-      // File might already be deleted or locked, but we still want to remove the DB entry
-      console.error(`Failed to delete attachment file for entry ${entryId}:`, error);
-    }
+}
+
+// Explicit sort modes; 'default' keeps relevance for text searches and priority/idle otherwise
+function sortSearchResults(list: SearchResult[], sort: TaskSortMode): SearchResult[] {
+  if (sort === 'default' && list.length > 0 && list[0].rank !== null) {
+    return list.sort((a: SearchResult, b: SearchResult) => a.rank! - b.rank!);
   }
-  
-  await db.delete(timelineEntries).where(eq(timelineEntries.id, entryId));
-  return true;
+  return sortTasks(list, sort);
 }
 
-export async function searchTasks(query: string): Promise<TaskWithMeta[]> {
+export async function searchTasks(query: string, sort: TaskSortMode = 'default'): Promise<SearchResponse> {
   const db = getDatabase();
-  const now = Date.now();
-  
-  const searchPattern = `%${query}%`;
-  const queryLower = query.toLowerCase();
-  
-  // Search in task titles
-  const titleMatchingTasks = await db
-    .select()
-    .from(tasks)
-    .where(like(tasks.title, searchPattern));
-  
-  type TaskRow = typeof titleMatchingTasks[0];
-  const matchingTaskIds = new Set<string>(titleMatchingTasks.map((t: TaskRow) => t.id));
-  
-  // Search in timeline notes using EXISTS subquery (scalable, doesn't load all entries)
-  const noteMatchingTasks = await db
-    .select({ id: tasks.id })
-    .from(tasks)
-    .where(
-      sql`EXISTS (
-        SELECT 1 FROM ${timelineEntries} 
-        WHERE ${timelineEntries.task_id} = ${tasks.id} 
-        AND ${timelineEntries.type} = 'NOTE' 
-        AND LOWER(${timelineEntries.content}) LIKE ${`%${queryLower}%`}
-      )`
-    );
-  type TaskIdRow = { id: string };
-  noteMatchingTasks.forEach((t: TaskIdRow) => matchingTaskIds.add(t.id));
-  
-  // Search in attachment filenames using EXISTS subquery
-  const attachmentMatchingTasks = await db
-    .select({ id: tasks.id })
-    .from(tasks)
-    .where(
-      sql`EXISTS (
-        SELECT 1 FROM ${timelineEntries} 
-        WHERE ${timelineEntries.task_id} = ${tasks.id} 
-        AND ${timelineEntries.type} IN ('IMAGE', 'FILE')
-        AND LOWER(${timelineEntries.content}) LIKE ${`%${queryLower}%`}
-      )`
-    );
-  attachmentMatchingTasks.forEach((t: TaskIdRow) => matchingTaskIds.add(t.id));
 
-  if (matchingTaskIds.size === 0) {
-    return [];
+  let parsed: ParsedSearchQuery;
+  try {
+    parsed = parseSearchQuery(query);
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return { tasks: [], error: { message: error.message, position: error.position } };
+    }
+    throw error;
   }
 
-  // Use LEFT JOIN with GROUP BY to efficiently count attachments and get last entry time
-  // Use correlated subqueries for latest entry metadata
-  const tasksWithCounts = await db
-    .select({
-      id: tasks.id,
-      title: tasks.title,
-      status: tasks.status,
-      priority: tasks.priority,
-      created_at: tasks.created_at,
-      last_touched_at: tasks.last_touched_at,
-      archived_at: tasks.archived_at,
-      delete_after_at: tasks.delete_after_at,
-      pinned_summary: tasks.pinned_summary,
-      attachmentCount: sql<number>`COUNT(CASE WHEN ${timelineEntries.type} IN ('IMAGE', 'FILE') THEN 1 END)`.as('attachmentCount'),
-      imageCount: sql<number>`COUNT(CASE WHEN ${timelineEntries.type} = 'IMAGE' THEN 1 END)`.as('imageCount'),
-      fileCount: sql<number>`COUNT(CASE WHEN ${timelineEntries.type} = 'FILE' THEN 1 END)`.as('fileCount'),
-      lastEntryAt: sql<number | null>`MAX(${timelineEntries.created_at})`.as('lastEntryAt'),
-      latestEntryContent: sql<string | null>`(
-        SELECT content FROM ${timelineEntries} 
-        WHERE ${timelineEntries.task_id} = ${tasks.id} 
-        ORDER BY ${timelineEntries.created_at} DESC 
-        LIMIT 1
-      )`.as('latestEntryContent'),
-      latestEntryType: sql<'NOTE' | 'IMAGE' | 'FILE' | 'STATUS' | 'GAMIFY' | null>`(
-        SELECT type FROM ${timelineEntries} 
-        WHERE ${timelineEntries.task_id} = ${tasks.id} 
-        ORDER BY ${timelineEntries.created_at} DESC 
-        LIMIT 1
-      )`.as('latestEntryType'),
-      latestEntryDate: sql<number | null>`(
-        SELECT created_at FROM ${timelineEntries} 
-        WHERE ${timelineEntries.task_id} = ${tasks.id} 
-        ORDER BY ${timelineEntries.created_at} DESC 
-        LIMIT 1
-      )`.as('latestEntryDate'),
-    })
-    .from(tasks)
-    .leftJoin(timelineEntries, eq(tasks.id, timelineEntries.task_id))
-    .where(or(...Array.from(matchingTaskIds).map((id: string) => eq(tasks.id, id))))
-    .groupBy(tasks.id);
+  const filterCondition = buildFilterCondition(parsed);
 
-  type TaskWithCountsSearch = typeof tasksWithCounts[0];
-  const tasksWithMetadata: TaskWithMeta[] = tasksWithCounts.map((task: TaskWithCountsSearch) => {
-    const idleAge = Math.floor((now - task.last_touched_at) / 86400000);
-    const daysOld = Math.floor((now - task.created_at) / 86400000);
-    
+  // Filters only: no ranking, keep the Dashboard's default ordering
+  if (!parsed.matchExpression) {
+    const filtered = await selectTasksWithMeta(filterCondition);
+    const results: SearchResult[] = filtered.map((task: TaskWithMeta) => ({ ...task, rank: null, match: null }));
+    return { tasks: sortSearchResults(results, sort), error: null };
+  }
+
+  // Title hits outrank summary hits, which outrank note/attachment hits; text found inside
+  // attached files ranks lowest. bm25() is negative (lower is better), so weights multiply it
+  // further down.
+  type MatchRow = { task_id: string; kind: SearchMatchKind; snippet: string; score: number; attachment_name: string | null };
+  const matchRows = db.all<MatchRow>(sql`
+    SELECT
+      task_id,
+      kind,
+      snippet(search_index, 3, ${SNIPPET_MARK_START}, ${SNIPPET_MARK_END}, '…', 12) AS snippet,
+      bm25(search_index) * CASE kind WHEN 'TITLE' THEN 4.0 WHEN 'SUMMARY' THEN 2.0 WHEN 'CONTENT' THEN 0.5 ELSE 1.0 END AS score,
+      CASE WHEN kind = 'CONTENT' THEN (
+        SELECT COALESCE(a.original_name, substr(te.content, instr(te.content, '/') + 1))
+        FROM timeline_entries te LEFT JOIN attachments a ON a.path = te.content
+        WHERE te.id = substr(entry_id, 6)
+      ) END AS attachment_name
+    FROM search_index
+    WHERE search_index MATCH ${parsed.matchExpression}
+    ORDER BY score
+  `);
+
+  // Keep the best-scoring match per task
+  const bestMatches = new Map<string, MatchRow>();
+  for (const row of matchRows) {
+    if (!bestMatches.has(row.task_id)) {
+      bestMatches.set(row.task_id, row);
+    }
+  }
+
+  if (bestMatches.size === 0) {
+    return { tasks: [], error: null };
+  }
+
+  const matchingTasks = await selectTasksWithMeta(
+    and(inArray(tasks.id, Array.from(bestMatches.keys())), filterCondition)
+  );
+
+  const results: SearchResult[] = matchingTasks.map((task: TaskWithMeta) => {
+    const match = bestMatches.get(task.id)!;
     return {
       ...task,
-      idleAge,
-      daysOld,
-      attachmentCount: task.attachmentCount || 0,
-      imageCount: task.imageCount || 0,
-      fileCount: task.fileCount || 0,
-      lastEntryAt: task.lastEntryAt || null,
-      latestEntryContent: task.latestEntryContent || null,
-      latestEntryType: task.latestEntryType || null,
-      latestEntryDate: task.latestEntryDate || null,
+      rank: match.score,
+      match: {
+        kind: match.kind,
+        snippet: match.snippet,
+        ...(match.attachment_name ? { attachmentName: match.attachment_name } : {}),
+      },
     };
   });
 
-  const priorityOrder: Record<'HIGH' | 'NORMAL' | 'LOW', number> = { HIGH: 3, NORMAL: 2, LOW: 1 };
-  tasksWithMetadata.sort((a: TaskWithMeta, b: TaskWithMeta) => {
-    const priorityDiff = priorityOrder[b.priority] - priorityOrder[a.priority];
-    if (priorityDiff !== 0) return priorityDiff;
-    return b.idleAge - a.idleAge;
-  });
+  return { tasks: sortSearchResults(results, sort), error: null };
+}
+
+// Lightweight match count for smart list badges (no per-task metadata)
+export async function countSearchMatches(query: string): Promise<number | null> {
+  const db = getDatabase();
+
+  let parsed: ParsedSearchQuery;
+  try {
+    parsed = parseSearchQuery(query);
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return null;
+    }
+    throw error;
+  }
 
-  return tasksWithMetadata;
+  const conditions: (SQL | undefined)[] = [buildFilterCondition(parsed)];
+  if (parsed.matchExpression) {
+    conditions.push(sql`${tasks.id} IN (SELECT task_id FROM search_index WHERE search_index MATCH ${parsed.matchExpression})`);
+  }
+
+  const result = await db
+    .select({ count: sql<number>`COUNT(*)` })
+    .from(tasks)
+    .where(and(...conditions));
+  return result[0]?.count ?? 0;
+}
+
+export async function getSavedSearches(): Promise<SavedSearchWithCount[]> {
+  const db = getDatabase();
+  const rows = await db.select().from(savedSearches).orderBy(savedSearches.position, savedSearches.created_at);
+
+  const withCounts: SavedSearchWithCount[] = [];
+  for (const row of rows) {
+    withCounts.push({ ...row, count: await countSearchMatches(row.query) });
+  }
+  return withCounts;
+}
+
+function validateSavedSearchQuery(query: string) {
+  try {
+    parseSearchQuery(query);
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      throw new Error(`Invalid search query: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+export async function createSavedSearch(payload: {
+  name: string;
+  query: string;
+  sort?: string;
+  icon?: string;
+}) {
+  const db = getDatabase();
+
+  if (!payload.name.trim()) {
+    throw new Error('Saved search name is required');
+  }
+  validateSavedSearchQuery(payload.query);
+  const sort = payload.sort ?? 'default';
+  if (!TASK_SORT_MODES.includes(sort as TaskSortMode)) {
+    throw new Error(`Invalid sort: ${sort}. Must be one of: ${TASK_SORT_MODES.join(', ')}`);
+  }
+
+  const last = await db
+    .select({ maxPosition: sql<number | null>`MAX(${savedSearches.position})` })
+    .from(savedSearches);
+
+  const newSearch = {
+    id: uuidv4(),
+    name: payload.name.trim(),
+    query: payload.query.trim(),
+    sort: sort as TaskSortMode,
+    icon: payload.icon ?? 'list',
+    position: (last[0]?.maxPosition ?? -1) + 1,
+    created_at: Date.now(),
+  };
+
+  await db.insert(savedSearches).values(newSearch);
+  return newSearch;
+}
+
+export async function updateSavedSearch(payload: {
+  id: string;
+  name?: string;
+  query?: string;
+  sort?: string;
+  icon?: string;
+  position?: number;
+}) {
+  const db = getDatabase();
+  const updateData: Partial<typeof savedSearches.$inferInsert> = {};
+
+  if (payload.name !== undefined) {
+    if (!payload.name.trim()) {
+      throw new Error('Saved search name is required');
+    }
+    updateData.name = payload.name.trim();
+  }
+  if (payload.query !== undefined) {
+    validateSavedSearchQuery(payload.query);
+    updateData.query = payload.query.trim();
+  }
+  if (payload.sort !== undefined) {
+    if (!TASK_SORT_MODES.includes(payload.sort as TaskSortMode)) {
+      throw new Error(`Invalid sort: ${payload.sort}. Must be one of: ${TASK_SORT_MODES.join(', ')}`);
+    }
+    updateData.sort = payload.sort as TaskSortMode;
+  }
+  if (payload.icon !== undefined) {
+    updateData.icon = payload.icon;
+  }
+  if (payload.position !== undefined) {
+    updateData.position = payload.position;
+  }
+
+  await db.update(savedSearches).set(updateData).where(eq(savedSearches.id, payload.id));
+
+  const updated = await db.select().from(savedSearches).where(eq(savedSearches.id, payload.id)).limit(1);
+  return updated[0] || null;
+}
+
+export async function deleteSavedSearch(id: string): Promise<boolean> {
+  const db = getDatabase();
+  const existing = await db.select().from(savedSearches).where(eq(savedSearches.id, id)).limit(1);
+  if (existing.length === 0) {
+    return false;
+  }
+  await db.delete(savedSearches).where(eq(savedSearches.id, id));
+  return true;
 }
 
 export async function getGamification() {
@@ -423,12 +720,14 @@ export async function updateGamificationStats(payload: {
     .where(eq(gamification.key, 'user_stats'));
 }
 
-export async function cleanupExpiredTasks() {
+// Expired archived tasks go to the trash (after a last-chance JSON export), and trash past
+// its retention is purged. Returns the ids of the tasks moved to the trash.
+export async function cleanupExpiredTasks(): Promise<string[]> {
   const db = getDatabase();
   const now = Date.now();
   
   const expiredTasks = await db
-    .select()
+    .select({ id: tasks.id })
     .from(tasks)
     .where(
       and(
@@ -437,55 +736,21 @@ export async function cleanupExpiredTasks() {
       )
     );
 
-  const userDataPath = app.getPath('userData');
-  const attachmentsDir = join(userDataPath, 'taskvault', 'attachments');
-
+  const trashed: string[] = [];
   for (const task of expiredTasks) {
-    // Delete timeline entries (cascade should handle this, but explicit is safer)
-    await db.delete(timelineEntries).where(eq(timelineEntries.task_id, task.id));
-    
-    // Delete task
-    await db.delete(tasks).where(eq(tasks.id, task.id));
-    
-    // Delete attachment folder
-    const taskAttachmentsDir = join(attachmentsDir, task.id);
     try {
-      if (existsSync(taskAttachmentsDir)) {
-        rmSync(taskAttachmentsDir, { recursive: true, force: true });
-      }
+      const bundlePath = await exportTaskBundle(task.id);
+      console.log(`Exported expired archived task to ${bundlePath}`);
     } catch (error) {
-      console.error(`Failed to delete attachments for task ${task.id}:`, error);
+      // Keep the task until the export succeeds
+      console.error(`Failed to export archived task ${task.id}, skipping cleanup:`, error);
+      continue;
     }
-  }
-}
-
-export async function deleteTask(taskId: string): Promise<{ success: boolean; wasIncomplete?: boolean }> {
-  const db = getDatabase();
-  
-  // Get task to verify it exists and check status
-  const task = await db.select().from(tasks).where(eq(tasks.id, taskId)).limit(1);
-  if (task.length === 0) {
-    return { success: false };
-  }
-
-  const wasIncomplete = task[0].status !== 'DONE';
-
-  // Delete timeline entries (cascade should handle this, but explicit is safer)
-  await db.delete(timelineEntries).where(eq(timelineEntries.task_id, taskId));
-  
-  // Delete task
-  await db.delete(tasks).where(eq(tasks.id, taskId));
-  
-  // Delete attachment folder
-  const userDataPath = app.getPath('userData');
-  const taskAttachmentsDir = join(userDataPath, 'taskvault', 'attachments', taskId);
-  try {
-    if (existsSync(taskAttachmentsDir)) {
-      rmSync(taskAttachmentsDir, { recursive: true, force: true });
+    // Archived blockers already count as resolved, so dependents need no resync
+    if (await trashTask(task.id)) {
+      trashed.push(task.id);
     }
-  } catch (error) {
-    console.error(`Failed to delete attachments for task ${taskId}:`, error);
   }
-  
-  return { success: true, wasIncomplete };
+  await purgeExpiredTrash();
+  return trashed;
 }
@@ -0,0 +1,194 @@
+// Recurrence rules: a small RRULE subset stored as text on tasks
+// Examples: FREQ=DAILY  FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH  FREQ=MONTHLY;BYMONTHDAY=-1
+// Kept free of database and Node imports so the renderer can use it too.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  // 0 = Sunday ... 6 = Saturday; WEEKLY only
+  byWeekday: number[];
+  // 1-31, or -1 for the last day of the month; MONTHLY only
+  byMonthDay: number | null;
+}
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MAX_INTERVAL = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Parse an RRULE-style string. Bare "daily", "weekly" and "monthly" are accepted as shorthand.
+export function parseRecurrenceRule(input: string): RecurrenceRule {
+  const text = input.trim().replace(/^RRULE:/i, '');
+  const shorthand = text.toUpperCase();
+  if ((RECURRENCE_FREQUENCIES as string[]).includes(shorthand)) {
+    return { freq: shorthand as RecurrenceFrequency, interval: 1, byWeekday: [], byMonthDay: null };
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of text.split(';')) {
+    if (!part.trim()) continue;
+    const [key, value] = part.split('=').map((s) => s.trim().toUpperCase());
+    if (!key || value === undefined || value === '') {
+      throw new Error(`Invalid recurrence: "${part}". Expected KEY=VALUE`);
+    }
+    parts.set(key, value);
+  }
+
+  const freq = parts.get('FREQ');
+  if (!freq || !(RECURRENCE_FREQUENCIES as string[]).includes(freq)) {
+    throw new Error(`Invalid recurrence: FREQ=${freq ?? ''}. Must be one of: ${RECURRENCE_FREQUENCIES.join(', ')}`);
+  }
+  const rule: RecurrenceRule = { freq: freq as RecurrenceFrequency, interval: 1, byWeekday: [], byMonthDay: null };
+
+  for (const [key, value] of Array.from(parts.entries())) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL': {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) {
+          throw new Error(`Invalid recurrence: INTERVAL=${value}. Must be a whole number from 1 to ${MAX_INTERVAL}`);
+        }
+        rule.interval = interval;
+        break;
+      }
+      case 'BYDAY': {
+        if (rule.freq !== 'WEEKLY') {
+          throw new Error('Invalid recurrence: BYDAY is only supported with FREQ=WEEKLY');
+        }
+        const days = value.split(',').map((code) => {
+          const day = WEEKDAY_CODES.indexOf(code);
+          if (day === -1) {
+            throw new Error(`Invalid recurrence: BYDAY=${value}. Must be one of: ${WEEKDAY_CODES.join(', ')}`);
+          }
+          return day;
+        });
+        rule.byWeekday = Array.from(new Set(days)).sort((a, b) => a - b);
+        break;
+      }
+      case 'BYMONTHDAY': {
+        if (rule.freq !== 'MONTHLY') {
+          throw new Error('Invalid recurrence: BYMONTHDAY is only supported with FREQ=MONTHLY');
+        }
+        const day = Number(value);
+        if (!Number.isInteger(day) || day === 0 || day < -1 || day > 31) {
+          throw new Error(`Invalid recurrence: BYMONTHDAY=${value}. Must be 1-31, or -1 for the last day`);
+        }
+        rule.byMonthDay = day;
+        break;
+      }
+      default:
+        throw new Error(`Invalid recurrence: unsupported part ${key}. Supported: FREQ, INTERVAL, BYDAY, BYMONTHDAY`);
+    }
+  }
+
+  return rule;
+}
+
+// Canonical string form, so equal rules compare equal
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === 'WEEKLY' && rule.byWeekday.length > 0) {
+    parts.push(`BYDAY=${rule.byWeekday.map((day) => WEEKDAY_CODES[day]).join(',')}`);
+  }
+  if (rule.freq === 'MONTHLY' && rule.byMonthDay !== null) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  }
+  return parts.join(';');
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+}
+
+// Human-readable summary, e.g. "Every 2 weeks on Mon, Thu"
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  if (rule.freq === 'WEEKLY' && rule.byWeekday.length > 0) {
+    // Monday-first, matching how weeks are stepped
+    const ordered = [...rule.byWeekday].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+    text += ` on ${ordered.map((day) => WEEKDAY_NAMES[day]).join(', ')}`;
+  }
+  if (rule.freq === 'MONTHLY' && rule.byMonthDay !== null) {
+    text += rule.byMonthDay === -1 ? ' on the last day' : ` on the ${ordinal(rule.byMonthDay)}`;
+  }
+  return text;
+}
+
+function addDays(dayStart: number, days: number): number {
+  const date = new Date(dayStart);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+// Day of month for a MONTHLY rule, clamped to shorter months
+function monthDayFor(rule: RecurrenceRule, year: number, month: number, fallback: number): number {
+  const last = daysInMonth(year, month);
+  if (rule.byMonthDay === -1) return last;
+  return Math.min(rule.byMonthDay ?? fallback, last);
+}
+
+// The first occurrence strictly after `anchor` (a local midnight)
+function stepOccurrence(rule: RecurrenceRule, anchor: number): number {
+  const date = new Date(anchor);
+
+  if (rule.freq === 'DAILY') {
+    return addDays(anchor, rule.interval);
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    if (rule.byWeekday.length === 0) {
+      return addDays(anchor, 7 * rule.interval);
+    }
+    // Weeks start on Monday; offsets are days since Monday
+    const offsets = rule.byWeekday.map((day) => (day + 6) % 7).sort((a, b) => a - b);
+    const anchorOffset = (date.getDay() + 6) % 7;
+    const weekStart = addDays(anchor, -anchorOffset);
+    const laterThisWeek = offsets.find((offset) => offset > anchorOffset);
+    if (laterThisWeek !== undefined) {
+      return addDays(weekStart, laterThisWeek);
+    }
+    return addDays(weekStart, 7 * rule.interval + offsets[0]);
+  }
+
+  // MONTHLY
+  const anchorDay = date.getDate();
+  const sameMonthDay = monthDayFor(rule, date.getFullYear(), date.getMonth(), anchorDay);
+  if (rule.byMonthDay !== null && sameMonthDay > anchorDay) {
+    return new Date(date.getFullYear(), date.getMonth(), sameMonthDay).getTime();
+  }
+  const target = new Date(date.getFullYear(), date.getMonth() + rule.interval, 1);
+  const day = monthDayFor(rule, target.getFullYear(), target.getMonth(), anchorDay);
+  return new Date(target.getFullYear(), target.getMonth(), day).getTime();
+}
+
+// Next occurrence after `anchor`, skipping forward past any that would fall on or before `notAfter`
+// (so completing an overdue task doesn't create another overdue one). Both are local midnights.
+export function getNextOccurrence(rule: RecurrenceRule, anchor: number, notAfter: number = anchor): number {
+  let next = stepOccurrence(rule, anchor);
+  // Bounded: even daily rules catch up on years of downtime well within this
+  for (let i = 0; i < 10000 && next <= notAfter; i++) {
+    next = stepOccurrence(rule, next);
+  }
+  return next;
+}
+
+// Whole days between two local midnights, robust to DST shifts
+export function daysBetween(from: number, to: number): number {
+  return Math.round((to - from) / DAY_MS);
+}
+
+export function shiftByDays(dayStart: number, days: number): number {
+  return addDays(dayStart, days);
+}
@@ -0,0 +1,114 @@
+// Recurring tasks: generating the next occurrence and reading a series' history
+import { eq, asc, sql } from 'drizzle-orm';
+import { getDatabase } from './client';
+import { tasks, timelineEntries } from './schema';
+import { createTask } from './queries';
+import { getChecklistItems, addChecklistItem } from './checklists';
+import { parseRecurrenceRule, getNextOccurrence, daysBetween, shiftByDays } from './recurrence-rule';
+
+export interface RecurrenceOccurrence {
+  id: string;
+  title: string;
+  status: 'OPEN' | 'WAITING' | 'BLOCKED' | 'DONE' | 'ARCHIVED';
+  due_at: number | null;
+  created_at: number;
+  // When the occurrence was last marked DONE, from its STATUS timeline entries
+  completed_at: number | null;
+}
+
+function todayStart(): number {
+  return new Date().setHours(0, 0, 0, 0);
+}
+
+// Create the occurrence following a completed recurring task. The title, priority, project,
+// tags, pinned summary and (unchecked) checklist carry over; dates move to the next slot.
+// Returns null if the task doesn't recur or its next occurrence already exists.
+export async function spawnNextOccurrence(taskId: string) {
+  const db = getDatabase();
+  const found = await db.select().from(tasks).where(eq(tasks.id, taskId)).limit(1);
+  const task = found[0];
+  if (!task || !task.recurrence_rule || task.status !== 'DONE') {
+    return null;
+  }
+
+  // Reopening and re-completing an occurrence must not create a second successor
+  const existing = await db
+    .select({ id: tasks.id })
+    .from(tasks)
+    .where(eq(tasks.recurrence_parent_id, taskId))
+    .limit(1);
+  if (existing.length > 0) {
+    return null;
+  }
+
+  const rule = parseRecurrenceRule(task.recurrence_rule);
+  const today = todayStart();
+  const anchor = task.due_at ?? task.start_at ?? today;
+  const next = getNextOccurrence(rule, anchor, today);
+  const shift = daysBetween(anchor, next);
+
+  const tagRows = db.all<{ name: string }>(sql`
+    SELECT tags.name FROM task_tags JOIN tags ON tags.id = task_tags.tag_id
+    WHERE task_tags.task_id = ${taskId}
+  `);
+
+  const created = await createTask({
+    title: task.title,
+    priority: task.priority,
+    project_id: task.project_id,
+    tags: tagRows.map((row: { name: string }) => row.name),
+    due_at: task.due_at !== null ? shiftByDays(task.due_at, shift) : (task.start_at === null ? next : null),
+    start_at: task.start_at !== null ? shiftByDays(task.start_at, shift) : null,
+    recurrence_rule: task.recurrence_rule,
+  });
+
+  const seriesId = task.recurrence_series_id ?? task.id;
+  await db
+    .update(tasks)
+    .set({ pinned_summary: task.pinned_summary, recurrence_series_id: seriesId, recurrence_parent_id: task.id })
+    .where(eq(tasks.id, created.id));
+  if (task.recurrence_series_id === null) {
+    await db.update(tasks).set({ recurrence_series_id: seriesId }).where(eq(tasks.id, task.id));
+  }
+
+  for (const item of await getChecklistItems(taskId)) {
+    await addChecklistItem(created.id, item.title);
+  }
+
+  const updated = await db.select().from(tasks).where(eq(tasks.id, created.id)).limit(1);
+  return updated[0];
+}
+
+// Every occurrence in the task's series, oldest first
+export async function getRecurrenceHistory(taskId: string): Promise<RecurrenceOccurrence[]> {
+  const db = getDatabase();
+  const found = await db
+    .select({ seriesId: tasks.recurrence_series_id })
+    .from(tasks)
+    .where(eq(tasks.id, taskId))
+    .limit(1);
+  const seriesId = found[0]?.seriesId;
+  if (!seriesId) {
+    return [];
+  }
+
+  // Older STATUS entries may be plain text, so check json_valid before extracting
+  return db
+    .select({
+      id: tasks.id,
+      title: tasks.title,
+      status: tasks.status,
+      due_at: tasks.due_at,
+      created_at: tasks.created_at,
+      completed_at: sql<number | null>`(
+        SELECT MAX(${timelineEntries.created_at}) FROM ${timelineEntries}
+        WHERE ${timelineEntries.task_id} = ${tasks.id}
+          AND ${timelineEntries.type} = 'STATUS'
+          AND CASE WHEN json_valid(${timelineEntries.content})
+            THEN json_extract(${timelineEntries.content}, '$.to') = 'DONE' END
+      )`.as('completed_at'),
+    })
+    .from(tasks)
+    .where(eq(tasks.recurrence_series_id, seriesId))
+    .orderBy(asc(tasks.created_at));
+}
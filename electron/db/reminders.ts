@@ -0,0 +1,102 @@
+// Reminder queries: one-shot reminders per task with snooze support
+import { eq, and, asc, isNull, lte, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from './client';
+import { reminders, tasks, type Reminder } from './schema';
+
+export interface DueReminder extends Reminder {
+  taskTitle: string;
+  taskStatus: 'OPEN' | 'WAITING' | 'BLOCKED' | 'DONE' | 'ARCHIVED';
+}
+
+function validateRemindAt(remindAt: number) {
+  if (!Number.isFinite(remindAt)) {
+    throw new Error(`Invalid reminder time: ${remindAt}. Must be a timestamp in milliseconds`);
+  }
+}
+
+export async function getRemindersForTask(taskId: string): Promise<Reminder[]> {
+  const db = getDatabase();
+  return db
+    .select()
+    .from(reminders)
+    .where(eq(reminders.task_id, taskId))
+    .orderBy(asc(reminders.remind_at));
+}
+
+export async function createReminder(payload: { taskId: string; remindAt: number; note?: string }) {
+  const db = getDatabase();
+  validateRemindAt(payload.remindAt);
+
+  const task = await db.select({ id: tasks.id }).from(tasks).where(eq(tasks.id, payload.taskId)).limit(1);
+  if (task.length === 0) {
+    throw new Error(`Task not found: ${payload.taskId}`);
+  }
+
+  const newReminder = {
+    id: uuidv4(),
+    task_id: payload.taskId,
+    remind_at: payload.remindAt,
+    note: payload.note?.trim() ?? '',
+    created_at: Date.now(),
+    fired_at: null,
+    snooze_count: 0,
+  };
+
+  await db.insert(reminders).values(newReminder);
+  return newReminder;
+}
+
+// Push a reminder to a later time and make it pending again (works for fired reminders too)
+export async function snoozeReminder(id: string, remindAt: number): Promise<Reminder | null> {
+  const db = getDatabase();
+  validateRemindAt(remindAt);
+
+  await db
+    .update(reminders)
+    .set({
+      remind_at: remindAt,
+      fired_at: null,
+      snooze_count: sql`${reminders.snooze_count} + 1`,
+    })
+    .where(eq(reminders.id, id));
+
+  const updated = await db.select().from(reminders).where(eq(reminders.id, id)).limit(1);
+  return updated[0] || null;
+}
+
+export async function deleteReminder(id: string): Promise<Reminder | null> {
+  const db = getDatabase();
+  const existing = await db.select().from(reminders).where(eq(reminders.id, id)).limit(1);
+  if (existing.length === 0) {
+    return null;
+  }
+  await db.delete(reminders).where(eq(reminders.id, id));
+  return existing[0];
+}
+
+// Pending reminders whose time has come, oldest first
+export async function getDueReminders(now: number = Date.now()): Promise<DueReminder[]> {
+  const db = getDatabase();
+  return db
+    .select({
+      id: reminders.id,
+      task_id: reminders.task_id,
+      remind_at: reminders.remind_at,
+      note: reminders.note,
+      created_at: reminders.created_at,
+      fired_at: reminders.fired_at,
+      snooze_count: reminders.snooze_count,
+      taskTitle: tasks.title,
+      taskStatus: tasks.status,
+    })
+    .from(reminders)
+    .innerJoin(tasks, eq(reminders.task_id, tasks.id))
+    .where(and(isNull(reminders.fired_at), lte(reminders.remind_at, now)))
+    .orderBy(asc(reminders.remind_at));
+}
+
+export async function markReminderFired(id: string, firedAt: number = Date.now()) {
+  const db = getDatabase();
+  await db.update(reminders).set({ fired_at: firedAt }).where(eq(reminders.id, id));
+}
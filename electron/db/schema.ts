@@ -1,5 +1,11 @@
 ﻿// Database schema definitions using Drizzle ORM
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, primaryKey } from 'drizzle-orm/sqlite-core';
+
+export const projects = sqliteTable('projects', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  created_at: integer('created_at').notNull(),
+});
 
 export const tasks = sqliteTable('tasks', {
   id: text('id').primaryKey(),
@@ -11,8 +17,30 @@ export const tasks = sqliteTable('tasks', {
   archived_at: integer('archived_at'),
   delete_after_at: integer('delete_after_at'),
   pinned_summary: text('pinned_summary').notNull().default(''),
+  project_id: text('project_id').references(() => projects.id, { onDelete: 'set null' }),
+  // Local midnight of the chosen day; date-only, no time component
+  due_at: integer('due_at'),
+  start_at: integer('start_at'),
+  // RRULE subset, see recurrence-rule.ts
+  recurrence_rule: text('recurrence_rule'),
+  // First occurrence of the series, and the occurrence this one was generated from
+  recurrence_series_id: text('recurrence_series_id'),
+  recurrence_parent_id: text('recurrence_parent_id'),
 });
 
+export const tags = sqliteTable('tags', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  created_at: integer('created_at').notNull(),
+});
+
+export const taskTags = sqliteTable('task_tags', {
+  task_id: text('task_id').notNull().references(() => tasks.id, { onDelete: 'cascade' }),
+  tag_id: text('tag_id').notNull().references(() => tags.id, { onDelete: 'cascade' }),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.task_id, table.tag_id] }),
+}));
+
 export const timelineEntries = sqliteTable('timeline_entries', {
   id: text('id').primaryKey(),
   task_id: text('task_id').notNull().references(() => tasks.id, { onDelete: 'cascade' }),
@@ -29,8 +57,109 @@ export const gamification = sqliteTable('gamification', {
   last_active_date: integer('last_active_date').notNull().default(0),
 });
 
+export const savedSearches = sqliteTable('saved_searches', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  query: text('query').notNull(),
+  sort: text('sort', { enum: ['default', 'idle', 'created', 'touched', 'title', 'deadline'] }).notNull().default('default'),
+  icon: text('icon').notNull().default('list'),
+  position: integer('position').notNull().default(0),
+  created_at: integer('created_at').notNull(),
+});
+
+export const checklistItems = sqliteTable('checklist_items', {
+  id: text('id').primaryKey(),
+  task_id: text('task_id').notNull().references(() => tasks.id, { onDelete: 'cascade' }),
+  title: text('title').notNull(),
+  position: integer('position').notNull().default(0),
+  created_at: integer('created_at').notNull(),
+  // Null while unchecked
+  checked_at: integer('checked_at'),
+  // XP is granted only the first time an item is checked, so toggling can't farm it
+  xp_awarded: integer('xp_awarded', { mode: 'boolean' }).notNull().default(false),
+});
+
+// task_id cannot proceed until blocked_by_id is done
+export const taskDependencies = sqliteTable('task_dependencies', {
+  task_id: text('task_id').notNull().references(() => tasks.id, { onDelete: 'cascade' }),
+  blocked_by_id: text('blocked_by_id').notNull().references(() => tasks.id, { onDelete: 'cascade' }),
+  created_at: integer('created_at').notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.task_id, table.blocked_by_id] }),
+}));
+
+export const reminders = sqliteTable('reminders', {
+  id: text('id').primaryKey(),
+  task_id: text('task_id').notNull().references(() => tasks.id, { onDelete: 'cascade' }),
+  remind_at: integer('remind_at').notNull(),
+  note: text('note').notNull().default(''),
+  created_at: integer('created_at').notNull(),
+  // Null until delivered; snoozing clears it again
+  fired_at: integer('fired_at'),
+  snooze_count: integer('snooze_count').notNull().default(0),
+});
+
+// Key/value app settings; values are JSON-encoded
+export const settings = sqliteTable('settings', {
+  key: text('key').primaryKey(),
+  value: text('value').notNull(),
+});
+
+// Deleted tasks and timeline entries; payload holds the raw rows needed to restore them
+export const trashItems = sqliteTable('trash_items', {
+  id: text('id').primaryKey(),
+  kind: text('kind', { enum: ['TASK', 'ENTRY'] }).notNull(),
+  task_id: text('task_id').notNull(),
+  title: text('title').notNull(),
+  payload: text('payload').notNull(),
+  attachment_count: integer('attachment_count').notNull().default(0),
+  deleted_at: integer('deleted_at').notNull(),
+});
+
+// One stored file per distinct content; `file` is relative to the attachments root
+export const attachmentBlobs = sqliteTable('attachment_blobs', {
+  hash: text('hash').primaryKey(),
+  file: text('file').notNull(),
+  mime: text('mime').notNull(),
+  size: integer('size').notNull(),
+  // Pixel size of images nativeImage can decode; null for everything else
+  width: integer('width'),
+  height: integer('height'),
+  // Rows in attachments pointing here; the blob is deleted when this reaches zero
+  ref_count: integer('ref_count').notNull().default(0),
+  created_at: integer('created_at').notNull(),
+});
+
+// Maps the path kept in an IMAGE/FILE entry's content ("<taskId>/<name>") to its blob.
+// Trashed entries keep their row, so restoring them needs no file work.
+export const attachments = sqliteTable('attachments', {
+  path: text('path').primaryKey(),
+  hash: text('hash').notNull().references(() => attachmentBlobs.hash),
+  original_name: text('original_name').notNull(),
+  // Set by the user; searchable, and kept per reference rather than per blob
+  caption: text('caption').notNull().default(''),
+  created_at: integer('created_at').notNull(),
+});
+
+// Plain text extracted from a blob for search; written by the background indexer
+export const attachmentText = sqliteTable('attachment_text', {
+  hash: text('hash').primaryKey().references(() => attachmentBlobs.hash, { onDelete: 'cascade' }),
+  status: text('status', { enum: ['DONE', 'UNSUPPORTED', 'TOO_LARGE', 'FAILED'] }).notNull(),
+  content: text('content').notNull().default(''),
+  extracted_at: integer('extracted_at').notNull(),
+});
+
 export type Task = typeof tasks.$inferSelect;
 export type NewTask = typeof tasks.$inferInsert;
 export type TimelineEntry = typeof timelineEntries.$inferSelect;
 export type NewTimelineEntry = typeof timelineEntries.$inferInsert;
 export type Gamification = typeof gamification.$inferSelect;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type Tag = typeof tags.$inferSelect;
+export type Project = typeof projects.$inferSelect;
+export type Reminder = typeof reminders.$inferSelect;
+export type ChecklistItem = typeof checklistItems.$inferSelect;
+export type TrashItem = typeof trashItems.$inferSelect;
+export type AttachmentBlob = typeof attachmentBlobs.$inferSelect;
+export type Attachment = typeof attachments.$inferSelect;
+export type AttachmentText = typeof attachmentText.$inferSelect;
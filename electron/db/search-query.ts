@@ -0,0 +1,301 @@
+// Search query language for the Dashboard search box
+// Example: status:blocked priority:high idle:>7 has:image tag:work project:home due:overdue created:<2026-01-01 "exact phrase" -excluded
+import { and, inArray, not, sql, type AnyColumn, type SQL } from 'drizzle-orm';
+import { tasks, timelineEntries, tags, taskTags, projects } from './schema';
+
+const DAY_MS = 86400000;
+
+export class SearchQueryError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'SearchQueryError';
+    this.position = position;
+  }
+}
+
+export interface ParsedSearchQuery {
+  // FTS5 MATCH expression for the free-text part, null when the query is filters only
+  matchExpression: string | null;
+  // FTS5 expressions whose matching tasks are excluded (`-term`, `-"phrase"`)
+  excludeExpressions: string[];
+  // SQL conditions on `tasks` from key:value filters
+  filters: SQL[];
+}
+
+interface QueryToken {
+  key: string | null;
+  value: string;
+  negated: boolean;
+  quoted: boolean;
+  position: number;
+}
+
+type Comparator = '<' | '<=' | '>' | '>=' | '=';
+
+const STATUS_VALUES = ['OPEN', 'WAITING', 'BLOCKED', 'DONE', 'ARCHIVED'];
+const STATUS_ALIASES: Record<string, string[]> = {
+  ACTIVE: ['OPEN', 'WAITING', 'BLOCKED'],
+  COMPLETED: ['DONE', 'ARCHIVED'],
+};
+const PRIORITY_VALUES = ['LOW', 'NORMAL', 'HIGH'];
+
+function tokenize(input: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const position = i;
+    let negated = false;
+    if (input[i] === '-') {
+      negated = true;
+      i++;
+    }
+
+    // key:value where key is a bare word directly followed by a colon
+    let key: string | null = null;
+    const keyMatch = /^([a-zA-Z]+):/.exec(input.slice(i));
+    if (keyMatch) {
+      key = keyMatch[1].toLowerCase();
+      i += keyMatch[0].length;
+    }
+
+    let value = '';
+    let quoted = false;
+    if (input[i] === '"') {
+      const close = input.indexOf('"', i + 1);
+      if (close === -1) {
+        throw new SearchQueryError('Unclosed quote', i);
+      }
+      value = input.slice(i + 1, close);
+      quoted = true;
+      i = close + 1;
+    } else {
+      const start = i;
+      while (i < input.length && !/\s/.test(input[i])) {
+        i++;
+      }
+      value = input.slice(start, i).replace(/"/g, '');
+    }
+
+    if (key !== null && value === '') {
+      throw new SearchQueryError(`Missing value for "${key}:"`, position);
+    }
+    if (key === null && value.trim() === '') {
+      if (negated) {
+        throw new SearchQueryError('Expected a term after "-"', position);
+      }
+      continue;
+    }
+
+    tokens.push({ key, value, negated, quoted, position });
+  }
+
+  return tokens;
+}
+
+function parseComparison(token: QueryToken): { comparator: Comparator; operand: string } {
+  const match = /^(>=|<=|>|<|=)?(.+)$/.exec(token.value);
+  if (!match) {
+    throw new SearchQueryError(`Invalid value for "${token.key}:"`, token.position);
+  }
+  return { comparator: (match[1] as Comparator | undefined) ?? '=', operand: match[2] };
+}
+
+function parseEnumList(token: QueryToken, allowed: string[], aliases: Record<string, string[]> = {}): string[] {
+  const values: string[] = [];
+  for (const raw of token.value.split(',')) {
+    const upper = raw.trim().toUpperCase();
+    if (aliases[upper]) {
+      values.push(...aliases[upper]);
+    } else if (allowed.includes(upper)) {
+      values.push(upper);
+    } else {
+      const options = [...allowed, ...Object.keys(aliases)].map((v: string) => v.toLowerCase()).join(', ');
+      throw new SearchQueryError(`Unknown ${token.key} "${raw}". Expected one of: ${options}`, token.position);
+    }
+  }
+  return values;
+}
+
+// Whole days elapsed since a timestamp column, matching idleAge/daysOld in queries.ts
+function daysSinceCondition(column: AnyColumn, token: QueryToken, now: number): SQL {
+  const { comparator, operand } = parseComparison(token);
+  if (!/^\d+$/.test(operand)) {
+    throw new SearchQueryError(`"${token.key}:" expects a number of days`, token.position);
+  }
+  const days = Number(operand);
+  const elapsed = sql`CAST((${now} - ${column}) / ${DAY_MS} AS INTEGER)`;
+  switch (comparator) {
+    case '<': return sql`${elapsed} < ${days}`;
+    case '<=': return sql`${elapsed} <= ${days}`;
+    case '>': return sql`${elapsed} > ${days}`;
+    case '>=': return sql`${elapsed} >= ${days}`;
+    default: return sql`${elapsed} = ${days}`;
+  }
+}
+
+// Dates are YYYY-MM-DD in local time; comparisons are against whole days
+function dateCondition(column: AnyColumn, token: QueryToken): SQL {
+  const { comparator, operand } = parseComparison(token);
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(operand);
+  const dayStart = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime() : NaN;
+  if (Number.isNaN(dayStart)) {
+    throw new SearchQueryError(`"${token.key}:" expects a date like 2026-01-31`, token.position);
+  }
+  const nextDayStart = new Date(dayStart).setDate(new Date(dayStart).getDate() + 1);
+  switch (comparator) {
+    case '<': return sql`${column} < ${dayStart}`;
+    case '<=': return sql`${column} < ${nextDayStart}`;
+    case '>': return sql`${column} >= ${nextDayStart}`;
+    case '>=': return sql`${column} >= ${dayStart}`;
+    default: return sql`(${column} >= ${dayStart} AND ${column} < ${nextDayStart})`;
+  }
+}
+
+function entryExists(types: string[]): SQL {
+  return sql`EXISTS (
+    SELECT 1 FROM ${timelineEntries}
+    WHERE ${timelineEntries.task_id} = ${tasks.id}
+    AND ${inArray(timelineEntries.type, types as ('NOTE' | 'IMAGE' | 'FILE' | 'STATUS' | 'GAMIFY')[])}
+  )`;
+}
+
+function hasCondition(token: QueryToken): SQL {
+  switch (token.value.toLowerCase()) {
+    case 'image': return entryExists(['IMAGE']);
+    case 'file': return entryExists(['FILE']);
+    case 'attachment': return entryExists(['IMAGE', 'FILE']);
+    case 'note': return entryExists(['NOTE']);
+    case 'summary': return sql`${tasks.pinned_summary} <> ''`;
+    case 'tags': return sql`EXISTS (SELECT 1 FROM ${taskTags} WHERE ${taskTags.task_id} = ${tasks.id})`;
+    case 'project': return sql`${tasks.project_id} IS NOT NULL`;
+    case 'due': return sql`${tasks.due_at} IS NOT NULL`;
+    case 'repeat': return sql`${tasks.recurrence_rule} IS NOT NULL`;
+    default:
+      throw new SearchQueryError(
+        `Unknown has:${token.value}. Expected one of: image, file, attachment, note, summary, tags, project, due, repeat`,
+        token.position
+      );
+  }
+}
+
+// due:overdue / due:today / due:none, otherwise a date comparison like due:<=2026-02-01
+function dueCondition(token: QueryToken, now: number): SQL {
+  const todayStart = new Date(now).setHours(0, 0, 0, 0);
+  const tomorrowStart = new Date(todayStart).setDate(new Date(todayStart).getDate() + 1);
+  switch (token.value.toLowerCase()) {
+    case 'overdue':
+      return sql`(${tasks.due_at} < ${todayStart} AND ${tasks.status} NOT IN ('DONE', 'ARCHIVED'))`;
+    case 'today':
+      return sql`(${tasks.due_at} >= ${todayStart} AND ${tasks.due_at} < ${tomorrowStart})`;
+    case 'none':
+      return sql`${tasks.due_at} IS NULL`;
+    default:
+      return dateCondition(tasks.due_at, token);
+  }
+}
+
+function parseNameList(token: QueryToken): string[] {
+  const names = token.value.split(',').map((name: string) => name.trim().toLowerCase()).filter(Boolean);
+  if (names.length === 0) {
+    throw new SearchQueryError(`Missing value for "${token.key}:"`, token.position);
+  }
+  return names;
+}
+
+// tag:a,b matches tasks carrying any of the listed tags (case-insensitive)
+function tagCondition(token: QueryToken): SQL {
+  const names = parseNameList(token);
+  return sql`EXISTS (
+    SELECT 1 FROM ${taskTags}
+    JOIN ${tags} ON ${tags.id} = ${taskTags.tag_id}
+    WHERE ${taskTags.task_id} = ${tasks.id}
+    AND lower(${tags.name}) IN (${sql.join(names.map((name: string) => sql`${name}`), sql`, `)})
+  )`;
+}
+
+// project:none matches tasks without a project
+function projectCondition(token: QueryToken): SQL {
+  const names = parseNameList(token);
+  if (names.length === 1 && names[0] === 'none') {
+    return sql`${tasks.project_id} IS NULL`;
+  }
+  return sql`${tasks.project_id} IN (
+    SELECT ${projects.id} FROM ${projects}
+    WHERE lower(${projects.name}) IN (${sql.join(names.map((name: string) => sql`${name}`), sql`, `)})
+  )`;
+}
+
+function filterCondition(token: QueryToken, now: number): SQL {
+  switch (token.key) {
+    case 'status':
+      return inArray(tasks.status, parseEnumList(token, STATUS_VALUES, STATUS_ALIASES) as ('OPEN' | 'WAITING' | 'BLOCKED' | 'DONE' | 'ARCHIVED')[]);
+    case 'priority':
+      return inArray(tasks.priority, parseEnumList(token, PRIORITY_VALUES) as ('LOW' | 'NORMAL' | 'HIGH')[]);
+    case 'idle':
+      return daysSinceCondition(tasks.last_touched_at, token, now);
+    case 'age':
+      return daysSinceCondition(tasks.created_at, token, now);
+    case 'created':
+      return dateCondition(tasks.created_at, token);
+    case 'touched':
+      return dateCondition(tasks.last_touched_at, token);
+    case 'due':
+      return dueCondition(token, now);
+    case 'start':
+      return dateCondition(tasks.start_at, token);
+    case 'has':
+      return hasCondition(token);
+    case 'tag':
+      return tagCondition(token);
+    case 'project':
+      return projectCondition(token);
+    default:
+      throw new SearchQueryError(`Unknown filter "${token.key}:"`, token.position);
+  }
+}
+
+function toFtsTerm(token: QueryToken): string {
+  const escaped = token.value.replace(/"/g, '""');
+  // Quoted text is an exact phrase; bare words also match as prefixes
+  return token.quoted ? `"${escaped}"` : `"${escaped}"*`;
+}
+
+export function parseSearchQuery(input: string, now: number = Date.now()): ParsedSearchQuery {
+  const terms: string[] = [];
+  const excludeExpressions: string[] = [];
+  const filters: SQL[] = [];
+
+  for (const token of tokenize(input)) {
+    if (token.key !== null) {
+      const condition = filterCondition(token, now);
+      filters.push(token.negated ? not(sql`(${condition})`) : condition);
+    } else if (token.negated) {
+      excludeExpressions.push(toFtsTerm(token));
+    } else {
+      terms.push(toFtsTerm(token));
+    }
+  }
+
+  return {
+    matchExpression: terms.length > 0 ? terms.join(' ') : null,
+    excludeExpressions,
+    filters,
+  };
+}
+
+// Combine parsed filters and exclusions into a single WHERE condition on `tasks`
+export function buildFilterCondition(parsed: ParsedSearchQuery): SQL | undefined {
+  const conditions: SQL[] = [...parsed.filters];
+  for (const expression of parsed.excludeExpressions) {
+    conditions.push(sql`${tasks.id} NOT IN (SELECT task_id FROM search_index WHERE search_index MATCH ${expression})`);
+  }
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
@@ -0,0 +1,26 @@
+// App settings stored as JSON values in the settings table
+import { eq } from 'drizzle-orm';
+import { getDatabase } from './client';
+import { settings } from './schema';
+
+export async function getSetting<T>(key: string, fallback: T): Promise<T> {
+  const db = getDatabase();
+  const rows = await db.select().from(settings).where(eq(settings.key, key)).limit(1);
+  if (rows.length === 0) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(rows[0].value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export async function setSetting<T>(key: string, value: T): Promise<void> {
+  const db = getDatabase();
+  const json = JSON.stringify(value);
+  await db
+    .insert(settings)
+    .values({ key, value: json })
+    .onConflictDoUpdate({ target: settings.key, set: { value: json } });
+}
@@ -0,0 +1,451 @@
+// Scheduled snapshots of the database plus attachments, with retention and restore
+import Database from 'better-sqlite3';
+import { app } from 'electron';
+import { join } from 'path';
+import { existsSync, mkdirSync, rmSync, copyFileSync, cpSync, readdirSync, readFileSync } from 'fs';
+import { copyFile, link, mkdir, readdir, rename, rm, stat, utimes, writeFile } from 'fs/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { getSqlite, getDatabasePath, closeDatabase, initDatabase } from './client';
+import { getBackupDir, fileTimestamp } from './backups';
+import { runMigrations, getSchemaVersion, DatabaseVersionError } from './migrator';
+import { LATEST_SCHEMA_VERSION } from './migrations';
+import { getSetting, setSetting } from './settings';
+import { addAttachment, migrateLegacyAttachments, backfillAttachmentMetadata } from './attachments';
+import { getAttachmentsRoot } from '../file-handler';
+
+export interface BackupSettings {
+  enabled: boolean;
+  // Null means the default folder under userData
+  folder: string | null;
+  keepDaily: number;
+  keepWeekly: number;
+}
+
+export type SnapshotReason = 'scheduled' | 'manual' | 'pre-restore' | 'pre-import';
+
+export interface SnapshotInfo {
+  id: string;
+  createdAt: number;
+  reason: SnapshotReason;
+  schemaVersion: number;
+  taskCount: number;
+  attachmentCount: number;
+  sizeBytes: number;
+}
+
+export interface SnapshotTask {
+  id: string;
+  title: string;
+  status: string;
+  created_at: number;
+  last_touched_at: number;
+}
+
+const DEFAULT_SETTINGS: BackupSettings = {
+  enabled: true,
+  folder: null,
+  keepDaily: 7,
+  keepWeekly: 4,
+};
+
+const SETTINGS_KEY = 'backup';
+const SNAPSHOT_PREFIX = 'snapshot-';
+const PARTIAL_SUFFIX = '.partial';
+const DB_FILE = 'taskvault.db';
+const MANIFEST_FILE = 'manifest.json';
+const SNAPSHOT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+let snapshotInProgress: Promise<SnapshotInfo> | null = null;
+
+export async function getBackupSettings(): Promise<BackupSettings> {
+  return { ...DEFAULT_SETTINGS, ...(await getSetting<Partial<BackupSettings>>(SETTINGS_KEY, {})) };
+}
+
+export async function updateBackupSettings(patch: Partial<BackupSettings>): Promise<BackupSettings> {
+  const next = { ...(await getBackupSettings()), ...patch };
+  for (const key of ['keepDaily', 'keepWeekly'] as const) {
+    if (!Number.isInteger(next[key]) || next[key] < 0 || next[key] > 365) {
+      throw new Error(`Invalid ${key}: ${next[key]}. Must be a whole number from 0 to 365`);
+    }
+  }
+  if (next.keepDaily === 0 && next.keepWeekly === 0) {
+    throw new Error('Invalid retention: keep at least one daily or weekly snapshot');
+  }
+  if (next.folder !== null && !next.folder.trim()) {
+    next.folder = null;
+  }
+  await setSetting(SETTINGS_KEY, next);
+  return next;
+}
+
+async function getSnapshotFolder(): Promise<string> {
+  const { folder } = await getBackupSettings();
+  if (!folder) {
+    return getBackupDir();
+  }
+  if (!existsSync(folder)) {
+    mkdirSync(folder, { recursive: true });
+  }
+  return folder;
+}
+
+export async function listSnapshots(): Promise<SnapshotInfo[]> {
+  const folder = await getSnapshotFolder();
+  const snapshots: SnapshotInfo[] = [];
+  for (const entry of readdirSync(folder, { withFileTypes: true })) {
+    if (!entry.isDirectory() || !entry.name.startsWith(SNAPSHOT_PREFIX) || entry.name.endsWith(PARTIAL_SUFFIX)) {
+      continue;
+    }
+    try {
+      const manifest = JSON.parse(readFileSync(join(folder, entry.name, MANIFEST_FILE), 'utf-8'));
+      snapshots.push({ ...manifest, id: entry.name });
+    } catch (error) {
+      console.warn(`Skipping unreadable snapshot ${entry.name}:`, error);
+    }
+  }
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+async function findSnapshot(id: string): Promise<{ info: SnapshotInfo; dir: string }> {
+  const snapshots = await listSnapshots();
+  const info = snapshots.find((s) => s.id === id);
+  if (!info) {
+    throw new Error(`Snapshot not found: ${id}`);
+  }
+  return { info, dir: join(await getSnapshotFolder(), id) };
+}
+
+// Copy a directory tree. Files unchanged since the previous snapshot are hard-linked to it
+// instead of copied, so daily snapshots only cost the space of new attachments.
+async function copyTree(source: string, target: string, previous: string | null): Promise<{ files: number; bytes: number }> {
+  const totals = { files: 0, bytes: 0 };
+  if (!existsSync(source)) {
+    return totals;
+  }
+  await mkdir(target, { recursive: true });
+
+  for (const entry of await readdir(source, { withFileTypes: true })) {
+    const from = join(source, entry.name);
+    const to = join(target, entry.name);
+    const prior = previous ? join(previous, entry.name) : null;
+
+    if (entry.isDirectory()) {
+      const sub = await copyTree(from, to, prior);
+      totals.files += sub.files;
+      totals.bytes += sub.bytes;
+      continue;
+    }
+    if (!entry.isFile()) {
+      continue;
+    }
+
+    const info = await stat(from);
+    let linked = false;
+    if (prior && existsSync(prior)) {
+      const priorInfo = await stat(prior);
+      if (priorInfo.size === info.size && priorInfo.mtimeMs === info.mtimeMs) {
+        // Some filesystems (e.g. FAT drives) don't support hard links; fall back to copying
+        linked = await link(prior, to).then(() => true, () => false);
+      }
+    }
+    if (!linked) {
+      await copyFile(from, to);
+      await utimes(to, info.atime, info.mtime);
+    }
+    totals.files += 1;
+    totals.bytes += info.size;
+  }
+  return totals;
+}
+
+async function writeSnapshot(reason: SnapshotReason): Promise<SnapshotInfo> {
+  const folder = await getSnapshotFolder();
+  const previous = (await listSnapshots())[0];
+
+  // Leftovers from an interrupted snapshot
+  for (const entry of readdirSync(folder)) {
+    if (entry.startsWith(SNAPSHOT_PREFIX) && entry.endsWith(PARTIAL_SUFFIX)) {
+      await rm(join(folder, entry), { recursive: true, force: true });
+    }
+  }
+
+  let id = `${SNAPSHOT_PREFIX}${fileTimestamp()}`;
+  for (let n = 2; existsSync(join(folder, id)); n++) {
+    id = `${SNAPSHOT_PREFIX}${fileTimestamp()}-${n}`;
+  }
+  const partial = join(folder, id + PARTIAL_SUFFIX);
+  await mkdir(partial, { recursive: true });
+
+  try {
+    // SQLite's online backup API: consistent even while the app keeps writing
+    const dbPath = join(partial, DB_FILE);
+    await getSqlite().backup(dbPath);
+
+    const attachments = await copyTree(
+      getAttachmentsRoot(),
+      join(partial, 'attachments'),
+      previous ? join(folder, previous.id, 'attachments') : null
+    );
+
+    const copy = new Database(dbPath, { readonly: true });
+    let taskCount: number;
+    let schemaVersion: number;
+    try {
+      taskCount = (copy.prepare(`SELECT COUNT(*) AS count FROM tasks`).get() as { count: number }).count;
+      schemaVersion = getSchemaVersion(copy);
+    } finally {
+      copy.close();
+    }
+
+    const info: SnapshotInfo = {
+      id,
+      createdAt: Date.now(),
+      reason,
+      schemaVersion,
+      taskCount,
+      attachmentCount: attachments.files,
+      sizeBytes: (await stat(dbPath)).size + attachments.bytes,
+    };
+    const { id: _id, ...manifest } = info;
+    await writeFile(join(partial, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+    await rename(partial, join(folder, id));
+    return info;
+  } catch (error) {
+    await rm(partial, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+export async function createSnapshot(reason: SnapshotReason): Promise<SnapshotInfo> {
+  // Scheduled and manual snapshots share the folder; never run two at once
+  if (snapshotInProgress) {
+    return snapshotInProgress;
+  }
+  snapshotInProgress = writeSnapshot(reason);
+  try {
+    return await snapshotInProgress;
+  } finally {
+    snapshotInProgress = null;
+  }
+}
+
+function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+// Weeks start on Monday
+function weekKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return dayKey(date.getTime());
+}
+
+// Keep the newest snapshot of each of the last `keepDaily` days that have one, and of each of
+// the last `keepWeekly` weeks; delete the rest. The newest snapshot is always kept.
+export async function pruneSnapshots(): Promise<string[]> {
+  const { keepDaily, keepWeekly } = await getBackupSettings();
+  const snapshots = await listSnapshots();
+  const keep = new Set<string>();
+  if (snapshots.length > 0) {
+    keep.add(snapshots[0].id);
+  }
+
+  const buckets: [(t: number) => string, number][] = [[dayKey, keepDaily], [weekKey, keepWeekly]];
+  for (const [bucketOf, limit] of buckets) {
+    const seen = new Set<string>();
+    for (const snapshot of snapshots) {
+      const bucket = bucketOf(snapshot.createdAt);
+      if (seen.has(bucket)) continue;
+      if (seen.size >= limit) break;
+      seen.add(bucket);
+      keep.add(snapshot.id);
+    }
+  }
+
+  const folder = await getSnapshotFolder();
+  const removed: string[] = [];
+  for (const snapshot of snapshots) {
+    if (!keep.has(snapshot.id)) {
+      await rm(join(folder, snapshot.id), { recursive: true, force: true });
+      removed.push(snapshot.id);
+    }
+  }
+  return removed;
+}
+
+export async function isSnapshotDue(): Promise<boolean> {
+  const { enabled } = await getBackupSettings();
+  if (!enabled) {
+    return false;
+  }
+  const latest = (await listSnapshots())[0];
+  return !latest || Date.now() - latest.createdAt >= SNAPSHOT_INTERVAL_MS;
+}
+
+// Replace the live database and attachments with a snapshot. The current state is
+// snapshotted first, so a restore can itself be undone.
+export async function restoreSnapshot(id: string): Promise<void> {
+  const { info, dir } = await findSnapshot(id);
+  if (info.schemaVersion > LATEST_SCHEMA_VERSION) {
+    throw new DatabaseVersionError(info.schemaVersion, LATEST_SCHEMA_VERSION);
+  }
+
+  await createSnapshot('pre-restore');
+
+  // Everything between closing and reopening is synchronous, so no query can slip in
+  closeDatabase();
+  const dbPath = getDatabasePath();
+  for (const suffix of ['-wal', '-shm', '-journal']) {
+    rmSync(dbPath + suffix, { force: true });
+  }
+  copyFileSync(join(dir, DB_FILE), dbPath);
+
+  // Copy rather than link: live attachments may be overwritten in place later
+  const attachmentsRoot = getAttachmentsRoot();
+  rmSync(attachmentsRoot, { recursive: true, force: true });
+  const snapshotAttachments = join(dir, 'attachments');
+  if (existsSync(snapshotAttachments)) {
+    cpSync(snapshotAttachments, attachmentsRoot, { recursive: true });
+  } else {
+    mkdirSync(attachmentsRoot, { recursive: true });
+  }
+
+  // Older snapshots are migrated on open, including their attachment files
+  await initDatabase();
+  migrateLegacyAttachments();
+  backfillAttachmentMetadata();
+}
+
+// Tasks present in the snapshot but missing from the live database
+export async function getDeletedTasksInSnapshot(id: string): Promise<SnapshotTask[]> {
+  const { dir } = await findSnapshot(id);
+  const live = new Set(
+    (getSqlite().prepare(`SELECT id FROM tasks`).all() as { id: string }[]).map((row) => row.id)
+  );
+
+  const copy = new Database(join(dir, DB_FILE), { readonly: true, fileMustExist: true });
+  try {
+    const rows = copy
+      .prepare(`SELECT id, title, status, created_at, last_touched_at FROM tasks ORDER BY last_touched_at DESC`)
+      .all() as SnapshotTask[];
+    return rows.filter((row) => !live.has(row.id));
+  } finally {
+    copy.close();
+  }
+}
+
+// Bring one deleted task back from a snapshot with its timeline, checklist, reminders, tags,
+// project and attachments. Dependencies are restored only where the other task still exists.
+export async function restoreTaskFromSnapshot(id: string, taskId: string): Promise<void> {
+  const { dir } = await findSnapshot(id);
+  const sqlite = getSqlite();
+  if (sqlite.prepare(`SELECT 1 FROM tasks WHERE id = ?`).get(taskId)) {
+    throw new Error('This task already exists and cannot be restored over');
+  }
+
+  // Work on a migrated temporary copy so its schema matches the live database
+  const tempPath = join(app.getPath('temp'), `taskvault-restore-${Date.now()}.db`);
+  copyFileSync(join(dir, DB_FILE), tempPath);
+  const temp = new Database(tempPath);
+  try {
+    runMigrations(temp, { backup: false });
+  } finally {
+    temp.close();
+  }
+
+  const columnsOf = (table: string) =>
+    (sqlite.prepare(`PRAGMA main.table_info(${table})`).all() as { name: string }[]).map((c) => c.name).join(', ');
+  const copyRows = (table: string, where: string, ...params: unknown[]) => {
+    const columns = columnsOf(table);
+    sqlite
+      .prepare(`INSERT OR IGNORE INTO main.${table} (${columns}) SELECT ${columns} FROM snapshot.${table} WHERE ${where}`)
+      .run(...params);
+  };
+
+  // Where each attachment's file is inside the snapshot: a blob, or the old per-task layout
+  let files: { id: string; content: string; original_name: string | null; caption: string | null; file: string | null }[] = [];
+  sqlite.prepare(`ATTACH DATABASE ? AS snapshot`).run(tempPath);
+  try {
+    sqlite.transaction(() => {
+      const task = sqlite.prepare(`SELECT project_id, recurrence_parent_id FROM snapshot.tasks WHERE id = ?`).get(taskId) as
+        { project_id: string | null; recurrence_parent_id: string | null } | undefined;
+      if (!task) {
+        throw new Error(`Task not found in snapshot: ${taskId}`);
+      }
+
+      // Links are fixed up after the insert, so check foreign keys at commit instead
+      sqlite.pragma('defer_foreign_keys = ON');
+      copyRows('tasks', 'id = ?', taskId);
+
+      // Reuse the project by id or name, or bring it back too
+      let projectId: string | null = null;
+      if (task.project_id) {
+        const project = sqlite.prepare(`SELECT id, name, created_at FROM snapshot.projects WHERE id = ?`).get(task.project_id) as
+          { id: string; name: string; created_at: number } | undefined;
+        if (project) {
+          const existing = sqlite.prepare(`SELECT id FROM main.projects WHERE id = ? OR name = ? COLLATE NOCASE`)
+            .get(project.id, project.name) as { id: string } | undefined;
+          if (existing) {
+            projectId = existing.id;
+          } else {
+            sqlite.prepare(`INSERT INTO main.projects (id, name, created_at) VALUES (?, ?, ?)`)
+              .run(project.id, project.name, project.created_at);
+            projectId = project.id;
+          }
+        }
+      }
+      const parentExists = task.recurrence_parent_id !== null &&
+        sqlite.prepare(`SELECT 1 FROM main.tasks WHERE id = ?`).get(task.recurrence_parent_id) !== undefined;
+      sqlite.prepare(`UPDATE main.tasks SET project_id = ?, recurrence_parent_id = ? WHERE id = ?`)
+        .run(projectId, parentExists ? task.recurrence_parent_id : null, taskId);
+
+      copyRows('timeline_entries', 'task_id = ?', taskId);
+      copyRows('checklist_items', 'task_id = ?', taskId);
+      copyRows('reminders', 'task_id = ?', taskId);
+
+      // Tags are matched by name, since ids may differ after merges
+      const tagNames = sqlite.prepare(`
+        SELECT t.name FROM snapshot.task_tags tt JOIN snapshot.tags t ON t.id = tt.tag_id WHERE tt.task_id = ?
+      `).all(taskId) as { name: string }[];
+      for (const { name } of tagNames) {
+        let tag = sqlite.prepare(`SELECT id FROM main.tags WHERE name = ? COLLATE NOCASE`).get(name) as { id: string } | undefined;
+        if (!tag) {
+          tag = { id: uuidv4() };
+          sqlite.prepare(`INSERT INTO main.tags (id, name, created_at) VALUES (?, ?, ?)`).run(tag.id, name, Date.now());
+        }
+        sqlite.prepare(`INSERT OR IGNORE INTO main.task_tags (task_id, tag_id) VALUES (?, ?)`).run(taskId, tag.id);
+      }
+
+      copyRows(
+        'task_dependencies',
+        `(task_id = ? AND blocked_by_id IN (SELECT id FROM main.tasks)) OR (blocked_by_id = ? AND task_id IN (SELECT id FROM main.tasks))`,
+        taskId,
+        taskId
+      );
+
+      files = sqlite.prepare(`
+        SELECT te.id, te.content, a.original_name, a.caption, b.file
+        FROM snapshot.timeline_entries te
+        LEFT JOIN snapshot.attachments a ON a.path = te.content
+        LEFT JOIN snapshot.attachment_blobs b ON b.hash = a.hash
+        WHERE te.task_id = ? AND te.type IN ('IMAGE', 'FILE')
+      `).all(taskId) as typeof files;
+    })();
+  } finally {
+    sqlite.exec(`DETACH DATABASE snapshot`);
+    rmSync(tempPath, { force: true });
+  }
+
+  // Stored again as live blobs; a path still held by the trash gets a new name
+  for (const entry of files) {
+    const source = join(dir, 'attachments', entry.file ?? entry.content);
+    if (!existsSync(source)) continue;
+    const name = entry.content.split('/').pop() || entry.content;
+    const path = addAttachment(taskId, readFileSync(source), entry.original_name ?? name, name, entry.caption ?? '');
+    if (path !== entry.content) {
+      sqlite.prepare(`UPDATE timeline_entries SET content = ? WHERE id = ?`).run(path, entry.id);
+    }
+  }
+}
@@ -0,0 +1,239 @@
+// Tag and project queries: create, rename, merge, delete and per-task assignment
+import { eq, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from './client';
+import { tasks, tags, taskTags, projects } from './schema';
+
+export interface TagWithCount {
+  id: string;
+  name: string;
+  created_at: number;
+  taskCount: number;
+}
+
+export interface ProjectWithCount {
+  id: string;
+  name: string;
+  created_at: number;
+  taskCount: number;
+}
+
+// Trim, collapse whitespace and enforce the naming rules shared by tags and projects
+export function normalizeName(name: string, kind: 'Tag' | 'Project'): string {
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  if (!trimmed) {
+    throw new Error(`${kind} name is required`);
+  }
+  if (trimmed.length > 50) {
+    throw new Error(`${kind} name must be 50 characters or fewer`);
+  }
+  // Commas separate values in search filters (tag:a,b)
+  if (trimmed.includes(',')) {
+    throw new Error(`${kind} name cannot contain commas`);
+  }
+  return trimmed;
+}
+
+// ---- Tags ----
+
+export async function getTags(): Promise<TagWithCount[]> {
+  const db = getDatabase();
+  return db
+    .select({
+      id: tags.id,
+      name: tags.name,
+      created_at: tags.created_at,
+      taskCount: sql<number>`COUNT(${taskTags.task_id})`.as('taskCount'),
+    })
+    .from(tags)
+    .leftJoin(taskTags, eq(tags.id, taskTags.tag_id))
+    .groupBy(tags.id)
+    .orderBy(sql`${tags.name} COLLATE NOCASE`);
+}
+
+async function findTagByName(name: string) {
+  const db = getDatabase();
+  const existing = await db
+    .select()
+    .from(tags)
+    .where(sql`${tags.name} = ${name} COLLATE NOCASE`)
+    .limit(1);
+  return existing[0] || null;
+}
+
+export async function createTag(name: string) {
+  const db = getDatabase();
+  const normalized = normalizeName(name, 'Tag');
+
+  // Tag names are unique case-insensitively; reuse an existing tag instead of failing
+  const existing = await findTagByName(normalized);
+  if (existing) {
+    return existing;
+  }
+
+  const newTag = { id: uuidv4(), name: normalized, created_at: Date.now() };
+  await db.insert(tags).values(newTag);
+  return newTag;
+}
+
+export async function renameTag(id: string, name: string) {
+  const db = getDatabase();
+  const normalized = normalizeName(name, 'Tag');
+
+  const conflict = await findTagByName(normalized);
+  if (conflict && conflict.id !== id) {
+    throw new Error(`A tag named "${conflict.name}" already exists. Merge the tags instead.`);
+  }
+
+  await db.update(tags).set({ name: normalized }).where(eq(tags.id, id));
+  const updated = await db.select().from(tags).where(eq(tags.id, id)).limit(1);
+  return updated[0] || null;
+}
+
+// Move every task from sourceId onto targetId, then drop the source tag
+export async function mergeTags(sourceId: string, targetId: string): Promise<boolean> {
+  const db = getDatabase();
+  if (sourceId === targetId) {
+    throw new Error('Cannot merge a tag into itself');
+  }
+
+  const target = await db.select().from(tags).where(eq(tags.id, targetId)).limit(1);
+  const source = await db.select().from(tags).where(eq(tags.id, sourceId)).limit(1);
+  if (target.length === 0 || source.length === 0) {
+    return false;
+  }
+
+  db.transaction((tx) => {
+    tx.run(sql`
+      INSERT OR IGNORE INTO ${taskTags} (task_id, tag_id)
+      SELECT task_id, ${targetId} FROM ${taskTags} WHERE tag_id = ${sourceId}
+    `);
+    tx.delete(tags).where(eq(tags.id, sourceId)).run();
+  });
+  return true;
+}
+
+export async function deleteTag(id: string): Promise<boolean> {
+  const db = getDatabase();
+  const existing = await db.select().from(tags).where(eq(tags.id, id)).limit(1);
+  if (existing.length === 0) {
+    return false;
+  }
+  // Delete assignments (cascade should handle this, but explicit is safer)
+  await db.delete(taskTags).where(eq(taskTags.tag_id, id));
+  await db.delete(tags).where(eq(tags.id, id));
+  return true;
+}
+
+// Replace a task's tags with the given names, creating any tags that don't exist yet
+export async function setTaskTags(taskId: string, names: string[]) {
+  const db = getDatabase();
+
+  const tagIds = new Set<string>();
+  for (const name of names) {
+    if (!name.trim()) continue;
+    const tag = await createTag(name);
+    tagIds.add(tag.id);
+  }
+
+  const current = await db.select().from(taskTags).where(eq(taskTags.task_id, taskId));
+  const currentIds = new Set(current.map((row: { tag_id: string }) => row.tag_id));
+
+  for (const tagId of Array.from(currentIds)) {
+    if (!tagIds.has(tagId)) {
+      await db.delete(taskTags).where(sql`${taskTags.task_id} = ${taskId} AND ${taskTags.tag_id} = ${tagId}`);
+    }
+  }
+  for (const tagId of Array.from(tagIds)) {
+    if (!currentIds.has(tagId)) {
+      await db.insert(taskTags).values({ task_id: taskId, tag_id: tagId });
+    }
+  }
+}
+
+// ---- Projects ----
+
+export async function getProjects(): Promise<ProjectWithCount[]> {
+  const db = getDatabase();
+  return db
+    .select({
+      id: projects.id,
+      name: projects.name,
+      created_at: projects.created_at,
+      taskCount: sql<number>`COUNT(${tasks.id})`.as('taskCount'),
+    })
+    .from(projects)
+    .leftJoin(tasks, eq(projects.id, tasks.project_id))
+    .groupBy(projects.id)
+    .orderBy(sql`${projects.name} COLLATE NOCASE`);
+}
+
+async function findProjectByName(name: string) {
+  const db = getDatabase();
+  const existing = await db
+    .select()
+    .from(projects)
+    .where(sql`${projects.name} = ${name} COLLATE NOCASE`)
+    .limit(1);
+  return existing[0] || null;
+}
+
+export async function createProject(name: string) {
+  const db = getDatabase();
+  const normalized = normalizeName(name, 'Project');
+
+  const existing = await findProjectByName(normalized);
+  if (existing) {
+    return existing;
+  }
+
+  const newProject = { id: uuidv4(), name: normalized, created_at: Date.now() };
+  await db.insert(projects).values(newProject);
+  return newProject;
+}
+
+export async function renameProject(id: string, name: string) {
+  const db = getDatabase();
+  const normalized = normalizeName(name, 'Project');
+
+  const conflict = await findProjectByName(normalized);
+  if (conflict && conflict.id !== id) {
+    throw new Error(`A project named "${conflict.name}" already exists. Merge the projects instead.`);
+  }
+
+  await db.update(projects).set({ name: normalized }).where(eq(projects.id, id));
+  const updated = await db.select().from(projects).where(eq(projects.id, id)).limit(1);
+  return updated[0] || null;
+}
+
+// Reassign every task from sourceId to targetId, then drop the source project
+export async function mergeProjects(sourceId: string, targetId: string): Promise<boolean> {
+  const db = getDatabase();
+  if (sourceId === targetId) {
+    throw new Error('Cannot merge a project into itself');
+  }
+
+  const target = await db.select().from(projects).where(eq(projects.id, targetId)).limit(1);
+  const source = await db.select().from(projects).where(eq(projects.id, sourceId)).limit(1);
+  if (target.length === 0 || source.length === 0) {
+    return false;
+  }
+
+  db.transaction((tx) => {
+    tx.update(tasks).set({ project_id: targetId }).where(eq(tasks.project_id, sourceId)).run();
+    tx.delete(projects).where(eq(projects.id, sourceId)).run();
+  });
+  return true;
+}
+
+export async function deleteProject(id: string): Promise<boolean> {
+  const db = getDatabase();
+  const existing = await db.select().from(projects).where(eq(projects.id, id)).limit(1);
+  if (existing.length === 0) {
+    return false;
+  }
+  // Detach tasks (ON DELETE SET NULL should handle this, but explicit is safer)
+  await db.update(tasks).set({ project_id: null }).where(eq(tasks.project_id, id));
+  await db.delete(projects).where(eq(projects.id, id));
+  return true;
+}
@@ -0,0 +1,300 @@
+// Trash bin: deleted tasks and timeline entries are kept here until restored or purged
+import { v4 as uuidv4 } from 'uuid';
+import { getSqlite } from './client';
+import { getSetting, setSetting } from './settings';
+import { releaseAttachment } from './attachments';
+
+export interface TrashSettings {
+  // Trashed items older than this are purged by the cleanup job
+  retentionDays: number;
+}
+
+export interface TrashItemInfo {
+  id: string;
+  kind: 'TASK' | 'ENTRY';
+  task_id: string;
+  title: string;
+  attachment_count: number;
+  deleted_at: number;
+  purge_at: number;
+}
+
+export interface TrashResult {
+  trashId: string;
+  taskId: string;
+  // True only for trashed tasks that weren't done (entries never are)
+  wasIncomplete: boolean;
+}
+
+export interface RestoreResult {
+  kind: 'TASK' | 'ENTRY';
+  taskId: string;
+  wasIncomplete: boolean;
+}
+
+type Row = Record<string, unknown>;
+
+// Everything needed to recreate a task; project and tags are kept by name
+export interface TaskPayload {
+  task: Row;
+  timeline: Row[];
+  checklist: Row[];
+  reminders: Row[];
+  dependencies: Row[];
+  projectName: string | null;
+  tags: string[];
+  recurrenceChildren: string[];
+}
+
+interface EntryPayload {
+  entry: Row;
+  taskTitle: string;
+}
+
+const SETTINGS_KEY = 'trash';
+const DEFAULT_SETTINGS: TrashSettings = { retentionDays: 30 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ATTACHMENT_TYPES = ['IMAGE', 'FILE'];
+
+export async function getTrashSettings(): Promise<TrashSettings> {
+  return { ...DEFAULT_SETTINGS, ...(await getSetting<Partial<TrashSettings>>(SETTINGS_KEY, {})) };
+}
+
+export async function updateTrashSettings(patch: Partial<TrashSettings>): Promise<TrashSettings> {
+  const next = { ...(await getTrashSettings()), ...patch };
+  if (!Number.isInteger(next.retentionDays) || next.retentionDays < 1 || next.retentionDays > 365) {
+    throw new Error(`Invalid retentionDays: ${next.retentionDays}. Must be a whole number from 1 to 365`);
+  }
+  await setSetting(SETTINGS_KEY, next);
+  return next;
+}
+
+function summarizeEntry(entry: Row): string {
+  const content = String(entry.content);
+  if (ATTACHMENT_TYPES.includes(String(entry.type))) {
+    return content.split('/').pop() || content;
+  }
+  const line = content.trim().split('\n')[0];
+  return line.length > 80 ? `${line.slice(0, 77)}...` : line || `${entry.type} entry`;
+}
+
+// Attachment paths referenced by a trash item's payload. Trashed entries keep their blob
+// references, so nothing moves on disk until the item is purged.
+function attachmentPaths(kind: 'TASK' | 'ENTRY', payload: string): string[] {
+  const parsed = JSON.parse(payload) as TaskPayload | EntryPayload;
+  const rows = kind === 'TASK' ? (parsed as TaskPayload).timeline : [(parsed as EntryPayload).entry];
+  return rows.filter((row) => ATTACHMENT_TYPES.includes(String(row.type))).map((row) => String(row.content));
+}
+
+// Insert a row captured earlier, skipping columns the table no longer has
+function insertRow(table: string, row: Row) {
+  const sqlite = getSqlite();
+  const live = (sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name);
+  const columns = live.filter((name) => name in row);
+  sqlite
+    .prepare(`INSERT OR IGNORE INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`)
+    .run(...columns.map((name) => row[name]));
+}
+
+function insertTrashItem(kind: 'TASK' | 'ENTRY', taskId: string, title: string, payload: TaskPayload | EntryPayload, attachmentCount: number): string {
+  const id = uuidv4();
+  getSqlite()
+    .prepare(`INSERT INTO trash_items (id, kind, task_id, title, payload, attachment_count, deleted_at) VALUES (?, ?, ?, ?, ?, ?, ?)`)
+    .run(id, kind, taskId, title, JSON.stringify(payload), attachmentCount, Date.now());
+  return id;
+}
+
+// Raw rows of a task and everything attached to it, or null if it doesn't exist
+export function collectTaskPayload(taskId: string): TaskPayload | null {
+  const sqlite = getSqlite();
+  const task = sqlite.prepare(`SELECT * FROM tasks WHERE id = ?`).get(taskId) as Row | undefined;
+  if (!task) {
+    return null;
+  }
+  const project = task.project_id
+    ? sqlite.prepare(`SELECT name FROM projects WHERE id = ?`).get(task.project_id) as { name: string } | undefined
+    : undefined;
+  return {
+    task,
+    timeline: sqlite.prepare(`SELECT * FROM timeline_entries WHERE task_id = ? ORDER BY created_at`).all(taskId) as Row[],
+    checklist: sqlite.prepare(`SELECT * FROM checklist_items WHERE task_id = ?`).all(taskId) as Row[],
+    reminders: sqlite.prepare(`SELECT * FROM reminders WHERE task_id = ?`).all(taskId) as Row[],
+    dependencies: sqlite
+      .prepare(`SELECT * FROM task_dependencies WHERE task_id = ? OR blocked_by_id = ?`)
+      .all(taskId, taskId) as Row[],
+    projectName: project?.name ?? null,
+    tags: (sqlite.prepare(`
+      SELECT t.name FROM task_tags tt JOIN tags t ON t.id = tt.tag_id WHERE tt.task_id = ?
+    `).all(taskId) as { name: string }[]).map((t) => t.name),
+    recurrenceChildren: (sqlite.prepare(`SELECT id FROM tasks WHERE recurrence_parent_id = ?`)
+      .all(taskId) as { id: string }[]).map((t) => t.id),
+  };
+}
+
+export async function trashTask(taskId: string): Promise<TrashResult | null> {
+  const sqlite = getSqlite();
+  const trashed = sqlite.transaction(() => {
+    const payload = collectTaskPayload(taskId);
+    if (!payload) {
+      return null;
+    }
+    const attachmentCount = payload.timeline.filter((e) => ATTACHMENT_TYPES.includes(String(e.type))).length;
+    const id = insertTrashItem('TASK', taskId, String(payload.task.title), payload, attachmentCount);
+    // Timeline, checklist, reminders, tags and dependencies cascade away with the task
+    sqlite.prepare(`DELETE FROM tasks WHERE id = ?`).run(taskId);
+    return { id, status: payload.task.status };
+  })();
+  if (!trashed) {
+    return null;
+  }
+  return { trashId: trashed.id, taskId, wasIncomplete: trashed.status !== 'DONE' };
+}
+
+export async function trashTimelineEntry(entryId: string): Promise<TrashResult | null> {
+  const sqlite = getSqlite();
+  const entry = sqlite.prepare(`SELECT * FROM timeline_entries WHERE id = ?`).get(entryId) as Row | undefined;
+  if (!entry) {
+    return null;
+  }
+  const taskId = String(entry.task_id);
+  const task = sqlite.prepare(`SELECT title FROM tasks WHERE id = ?`).get(taskId) as { title: string };
+
+  const isAttachment = ATTACHMENT_TYPES.includes(String(entry.type));
+  const trashId = sqlite.transaction(() => {
+    const id = insertTrashItem('ENTRY', taskId, summarizeEntry(entry), { entry, taskTitle: task.title }, isAttachment ? 1 : 0);
+    sqlite.prepare(`DELETE FROM timeline_entries WHERE id = ?`).run(entryId);
+    return id;
+  })();
+  return { trashId, taskId, wasIncomplete: false };
+}
+
+export async function getTrashItems(): Promise<TrashItemInfo[]> {
+  const { retentionDays } = await getTrashSettings();
+  const rows = getSqlite()
+    .prepare(`SELECT id, kind, task_id, title, attachment_count, deleted_at FROM trash_items ORDER BY deleted_at DESC`)
+    .all() as Omit<TrashItemInfo, 'purge_at'>[];
+  return rows.map((row) => ({ ...row, purge_at: row.deleted_at + retentionDays * DAY_MS }));
+}
+
+function restoreTaskRows(sqlite: ReturnType<typeof getSqlite>, taskId: string, payload: TaskPayload) {
+  const task = { ...payload.task };
+
+  // Reuse the project by id or name, or bring it back too
+  if (task.project_id) {
+    const existing = sqlite.prepare(`SELECT id FROM projects WHERE id = ? OR name = ? COLLATE NOCASE`)
+      .get(task.project_id, payload.projectName ?? '') as { id: string } | undefined;
+    if (existing) {
+      task.project_id = existing.id;
+    } else if (payload.projectName) {
+      sqlite.prepare(`INSERT INTO projects (id, name, created_at) VALUES (?, ?, ?)`)
+        .run(task.project_id, payload.projectName, Date.now());
+    } else {
+      task.project_id = null;
+    }
+  }
+  if (task.recurrence_parent_id &&
+    !sqlite.prepare(`SELECT 1 FROM tasks WHERE id = ?`).get(task.recurrence_parent_id)) {
+    task.recurrence_parent_id = null;
+  }
+  insertRow('tasks', task);
+
+  for (const row of payload.timeline) insertRow('timeline_entries', row);
+  for (const row of payload.checklist) insertRow('checklist_items', row);
+  for (const row of payload.reminders) insertRow('reminders', row);
+
+  // Tags are matched by name, since ids may have changed through merges
+  for (const name of payload.tags) {
+    let tag = sqlite.prepare(`SELECT id FROM tags WHERE name = ? COLLATE NOCASE`).get(name) as { id: string } | undefined;
+    if (!tag) {
+      tag = { id: uuidv4() };
+      sqlite.prepare(`INSERT INTO tags (id, name, created_at) VALUES (?, ?, ?)`).run(tag.id, name, Date.now());
+    }
+    sqlite.prepare(`INSERT OR IGNORE INTO task_tags (task_id, tag_id) VALUES (?, ?)`).run(taskId, tag.id);
+  }
+
+  // Only relink tasks that still exist
+  const exists = sqlite.prepare(`SELECT 1 FROM tasks WHERE id = ?`);
+  for (const row of payload.dependencies) {
+    const other = row.task_id === taskId ? row.blocked_by_id : row.task_id;
+    if (exists.get(other)) {
+      insertRow('task_dependencies', row);
+    }
+  }
+  for (const childId of payload.recurrenceChildren) {
+    sqlite.prepare(`UPDATE tasks SET recurrence_parent_id = ? WHERE id = ? AND recurrence_parent_id IS NULL`)
+      .run(taskId, childId);
+  }
+}
+
+export async function restoreTrashItem(id: string): Promise<RestoreResult> {
+  const sqlite = getSqlite();
+  const item = sqlite.prepare(`SELECT * FROM trash_items WHERE id = ?`).get(id) as
+    { kind: 'TASK' | 'ENTRY'; task_id: string; payload: string } | undefined;
+  if (!item) {
+    throw new Error(`Trash item not found: ${id}`);
+  }
+  const taskId = item.task_id;
+
+  if (item.kind === 'TASK') {
+    const payload = JSON.parse(item.payload) as TaskPayload;
+    if (sqlite.prepare(`SELECT 1 FROM tasks WHERE id = ?`).get(taskId)) {
+      throw new Error('This task already exists and cannot be restored over');
+    }
+    sqlite.transaction(() => {
+      restoreTaskRows(sqlite, taskId, payload);
+      sqlite.prepare(`DELETE FROM trash_items WHERE id = ?`).run(id);
+    })();
+    return { kind: 'TASK', taskId, wasIncomplete: payload.task.status !== 'DONE' };
+  }
+
+  const payload = JSON.parse(item.payload) as EntryPayload;
+  if (!sqlite.prepare(`SELECT 1 FROM tasks WHERE id = ?`).get(taskId)) {
+    throw new Error(`Restore the task "${payload.taskTitle}" first; this entry belongs to it`);
+  }
+  sqlite.transaction(() => {
+    insertRow('timeline_entries', payload.entry);
+    sqlite.prepare(`DELETE FROM trash_items WHERE id = ?`).run(id);
+  })();
+  return { kind: 'ENTRY', taskId, wasIncomplete: false };
+}
+
+// Permanently delete trash items and drop their attachment references; returns how many were removed
+function purgeItems(ids: string[]): number {
+  const sqlite = getSqlite();
+  const select = sqlite.prepare(`SELECT kind, payload FROM trash_items WHERE id = ?`);
+  const remove = sqlite.prepare(`DELETE FROM trash_items WHERE id = ?`);
+  const paths = sqlite.transaction(() => {
+    const result: string[] = [];
+    for (const id of ids) {
+      const item = select.get(id) as { kind: 'TASK' | 'ENTRY'; payload: string } | undefined;
+      if (item) result.push(...attachmentPaths(item.kind, item.payload));
+      remove.run(id);
+    }
+    return result;
+  })();
+  for (const path of paths) {
+    try {
+      releaseAttachment(path);
+    } catch (error) {
+      console.error(`Failed to release attachment ${path}:`, error);
+    }
+  }
+  return ids.length;
+}
+
+export async function purgeTrashItem(id: string): Promise<boolean> {
+  const exists = getSqlite().prepare(`SELECT 1 FROM trash_items WHERE id = ?`).get(id);
+  return exists ? purgeItems([id]) > 0 : false;
+}
+
+export async function emptyTrash(): Promise<number> {
+  const rows = getSqlite().prepare(`SELECT id FROM trash_items`).all() as { id: string }[];
+  return purgeItems(rows.map((r) => r.id));
+}
+
+export async function purgeExpiredTrash(): Promise<number> {
+  const { retentionDays } = await getTrashSettings();
+  const cutoff = Date.now() - retentionDays * DAY_MS;
+  const rows = getSqlite().prepare(`SELECT id FROM trash_items WHERE deleted_at <= ?`).all(cutoff) as { id: string }[];
+  return purgeItems(rows.map((r) => r.id));
+}
@@ -0,0 +1,479 @@
+// Whole-vault export to a zip bundle, and import of such bundles (merge or replace)
+import type Database from 'better-sqlite3';
+import { app } from 'electron';
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { getSqlite } from './client';
+import { getSchemaVersion } from './migrator';
+import { LATEST_SCHEMA_VERSION } from './migrations';
+import { createSnapshot } from './snapshots';
+import { addAttachment, releaseAttachment } from './attachments';
+import { getAttachmentAbsolutePath } from '../file-handler';
+import { writeZip, readZip, isSafeEntryName, type ZipArchive, type ZipSource } from '../zip';
+
+export const VAULT_EXPORT_FORMAT = 'taskvault-export';
+export const VAULT_EXPORT_VERSION = 1;
+
+// Exported tables in insert order (referenced tables first). Each is stored as <table>.json,
+// an array of rows exactly as they are in the database.
+const TABLES = [
+  'projects',
+  'tags',
+  'tasks',
+  'timeline_entries',
+  'checklist_items',
+  'reminders',
+  'task_tags',
+  'task_dependencies',
+  'saved_searches',
+  'gamification',
+] as const;
+
+type Table = typeof TABLES[number];
+type Row = Record<string, unknown>;
+type VaultData = Record<Table, Row[]>;
+
+export type VaultImportMode = 'merge' | 'replace';
+
+export interface VaultManifest {
+  format: string;
+  version: number;
+  exported_at: number;
+  app_version: string;
+  schema_version: number;
+  counts: Record<Table, number>;
+  attachment_count: number;
+}
+
+export interface VaultImportReport {
+  mode: VaultImportMode;
+  inserted: Record<Table, number>;
+  // Rows given a new id because the id was already taken (merge only)
+  remapped: number;
+  // Rows matched to existing ones (projects and tags by name, saved searches by name, gamification)
+  skipped: number;
+  attachments: number;
+}
+
+const ATTACHMENTS_PREFIX = 'attachments/';
+// Optional: original file names of the attachments, keyed by entry path
+const ATTACHMENT_NAMES_FILE = 'attachment_names.json';
+// Optional: captions of the attachments that have one, keyed by entry path
+const ATTACHMENT_CAPTIONS_FILE = 'attachment_captions.json';
+const VALID_VALUES: Partial<Record<Table, Record<string, string[]>>> = {
+  tasks: {
+    status: ['OPEN', 'WAITING', 'BLOCKED', 'DONE', 'ARCHIVED'],
+    priority: ['LOW', 'NORMAL', 'HIGH'],
+  },
+  timeline_entries: {
+    type: ['NOTE', 'IMAGE', 'FILE', 'STATUS', 'GAMIFY'],
+  },
+};
+// Columns that must point at a row of another table in the same bundle
+const REFERENCES: [Table, string, Table][] = [
+  ['tasks', 'project_id', 'projects'],
+  ['timeline_entries', 'task_id', 'tasks'],
+  ['checklist_items', 'task_id', 'tasks'],
+  ['reminders', 'task_id', 'tasks'],
+  ['task_tags', 'task_id', 'tasks'],
+  ['task_tags', 'tag_id', 'tags'],
+  ['task_dependencies', 'task_id', 'tasks'],
+  ['task_dependencies', 'blocked_by_id', 'tasks'],
+];
+
+function isAttachmentEntry(row: Row): boolean {
+  return row.type === 'IMAGE' || row.type === 'FILE';
+}
+
+export async function exportVault(path: string): Promise<VaultManifest> {
+  const sqlite = getSqlite();
+  // One read transaction, so every table comes from the same moment
+  const data = sqlite.transaction(() => {
+    const result = {} as VaultData;
+    for (const table of TABLES) {
+      result[table] = sqlite.prepare(`SELECT * FROM ${table}`).all() as Row[];
+    }
+    return result;
+  })();
+
+  // Files are written under each entry's path rather than as blobs, so the bundle layout
+  // doesn't depend on how this vault stores them
+  const attachments = Array.from(new Set(data.timeline_entries.filter(isAttachmentEntry).map((row) => String(row.content))))
+    .filter((path) => existsSync(getAttachmentAbsolutePath(path)));
+  const exported = new Set(attachments);
+  const names = sqlite.prepare(`SELECT path, original_name, caption FROM attachments`).all() as
+    { path: string; original_name: string; caption: string }[];
+  const originalNames: Record<string, string> = {};
+  const captions: Record<string, string> = {};
+  for (const { path, original_name, caption } of names) {
+    if (!exported.has(path)) continue;
+    originalNames[path] = original_name;
+    if (caption) captions[path] = caption;
+  }
+  const counts = {} as Record<Table, number>;
+  for (const table of TABLES) {
+    counts[table] = data[table].length;
+  }
+  const manifest: VaultManifest = {
+    format: VAULT_EXPORT_FORMAT,
+    version: VAULT_EXPORT_VERSION,
+    exported_at: Date.now(),
+    app_version: app.getVersion(),
+    schema_version: getSchemaVersion(sqlite),
+    counts,
+    attachment_count: attachments.length,
+  };
+
+  const json = (value: unknown) => Buffer.from(JSON.stringify(value, null, 2), 'utf8');
+  const sources: ZipSource[] = [
+    { name: 'manifest.json', read: () => json(manifest) },
+    ...TABLES.map((table) => ({ name: `${table}.json`, read: () => json(data[table]) })),
+    { name: ATTACHMENT_NAMES_FILE, read: () => json(originalNames) },
+    { name: ATTACHMENT_CAPTIONS_FILE, read: () => json(captions) },
+    ...attachments.map((path) => ({
+      name: `${ATTACHMENTS_PREFIX}${path}`,
+      read: () => readFile(getAttachmentAbsolutePath(path)),
+    })),
+  ];
+  await writeZip(path, sources);
+  return manifest;
+}
+
+async function readJson(archive: ZipArchive, name: string): Promise<unknown> {
+  if (!archive.names.includes(name)) {
+    throw new Error(`Invalid export: ${name} is missing`);
+  }
+  const data = await archive.read(name);
+  try {
+    return JSON.parse(data.toString('utf8'));
+  } catch {
+    throw new Error(`Invalid export: ${name} is not valid JSON`);
+  }
+}
+
+async function readManifest(archive: ZipArchive): Promise<VaultManifest> {
+  const manifest = (await readJson(archive, 'manifest.json')) as Partial<VaultManifest> | null;
+  if (!manifest || manifest.format !== VAULT_EXPORT_FORMAT) {
+    throw new Error('Invalid export: this is not a TaskVault export');
+  }
+  if (!Number.isInteger(manifest.version) || manifest.version! > VAULT_EXPORT_VERSION) {
+    throw new Error(`This export uses format version ${manifest.version}; please update TaskVault to import it`);
+  }
+  if (!Number.isInteger(manifest.schema_version) || manifest.schema_version! > LATEST_SCHEMA_VERSION) {
+    throw new Error(`This export comes from a newer TaskVault (schema version ${manifest.schema_version}); please update TaskVault to import it`);
+  }
+  return manifest as VaultManifest;
+}
+
+// Columns every row must have: the primary key and NOT NULL columns without a default
+function requiredColumns(table: Table): string[] {
+  const columns = getSqlite().prepare(`PRAGMA table_info(${table})`).all() as
+    { name: string; notnull: number; dflt_value: unknown; pk: number }[];
+  return columns.filter((c) => c.pk > 0 || (c.notnull && c.dflt_value === null)).map((c) => c.name);
+}
+
+// Original attachment names or captions by path; older bundles don't have them
+async function readAttachmentStrings(archive: ZipArchive, file: string): Promise<Map<string, string>> {
+  const values = new Map<string, string>();
+  if (!archive.names.includes(file)) {
+    return values;
+  }
+  const parsed = await readJson(archive, file);
+  if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+    for (const [path, value] of Object.entries(parsed as Record<string, unknown>)) {
+      if (typeof value === 'string' && value) values.set(path, value);
+    }
+  }
+  return values;
+}
+
+async function readAndValidate(archive: ZipArchive): Promise<{ manifest: VaultManifest; data: VaultData }> {
+  const manifest = await readManifest(archive);
+  const data = {} as VaultData;
+  const problems: string[] = [];
+
+  for (const table of TABLES) {
+    const rows = await readJson(archive, `${table}.json`);
+    if (!Array.isArray(rows) || rows.some((row) => typeof row !== 'object' || row === null || Array.isArray(row))) {
+      throw new Error(`Invalid export: ${table}.json must be a list of rows`);
+    }
+    data[table] = rows as Row[];
+
+    const required = requiredColumns(table);
+    const allowed = VALID_VALUES[table] ?? {};
+    data[table].forEach((row, index) => {
+      const missing = required.filter((column) => row[column] === undefined || row[column] === null);
+      if (missing.length > 0) {
+        problems.push(`${table} row ${index + 1} is missing ${missing.join(', ')}`);
+      }
+      for (const [column, values] of Object.entries(allowed)) {
+        if (row[column] !== undefined && !values.includes(String(row[column]))) {
+          problems.push(`${table} row ${index + 1} has invalid ${column} "${row[column]}"`);
+        }
+      }
+    });
+    if ('id' in (data[table][0] ?? {})) {
+      const ids = new Set(data[table].map((row) => row.id));
+      if (ids.size !== data[table].length) {
+        problems.push(`${table} has duplicate ids`);
+      }
+    }
+  }
+
+  for (const [table, column, target] of REFERENCES) {
+    const ids = new Set(data[target].map((row) => row.id));
+    for (const row of data[table]) {
+      if (row[column] !== null && row[column] !== undefined && !ids.has(row[column])) {
+        problems.push(`${table}.${column} points to a missing ${target} row (${row[column]})`);
+      }
+    }
+  }
+
+  const attachments = archive.names.filter((name) => name.startsWith(ATTACHMENTS_PREFIX));
+  for (const name of attachments) {
+    if (!isSafeEntryName(name)) {
+      problems.push(`Unsafe attachment path: ${name}`);
+    }
+  }
+  for (const row of data.timeline_entries.filter(isAttachmentEntry)) {
+    if (!isSafeEntryName(String(row.content))) {
+      problems.push(`Unsafe attachment path in timeline entry ${row.id}: ${row.content}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    const more = problems.length > 5 ? ` (and ${problems.length - 5} more)` : '';
+    throw new Error(`Invalid export: ${problems.slice(0, 5).join('; ')}${more}`);
+  }
+  return { manifest, data };
+}
+
+// Validate a bundle without importing it, for the import preview
+export async function inspectVaultExport(path: string): Promise<VaultManifest> {
+  const archive = await readZip(path);
+  try {
+    return (await readAndValidate(archive)).manifest;
+  } finally {
+    await archive.close();
+  }
+}
+
+// Insert rows with whichever of their columns the live table has; missing ones get defaults
+function createInserter(table: Table) {
+  const sqlite = getSqlite();
+  const live = (sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name);
+  const statements = new Map<string, Database.Statement<unknown[]>>();
+  return (row: Row, orIgnore = false): boolean => {
+    const columns = live.filter((name) => row[name] !== undefined);
+    const key = `${orIgnore}:${columns.join(',')}`;
+    let statement = statements.get(key);
+    if (!statement) {
+      statement = sqlite.prepare(
+        `INSERT ${orIgnore ? 'OR IGNORE ' : ''}INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+      );
+      statements.set(key, statement);
+    }
+    return statement.run(...columns.map((name) => row[name])).changes > 0;
+  };
+}
+
+function emptyCounts(): Record<Table, number> {
+  const counts = {} as Record<Table, number>;
+  for (const table of TABLES) counts[table] = 0;
+  return counts;
+}
+
+function replaceData(data: VaultData, report: VaultImportReport) {
+  const sqlite = getSqlite();
+  for (const table of [...TABLES].reverse()) {
+    sqlite.prepare(`DELETE FROM ${table}`).run();
+  }
+  for (const table of TABLES) {
+    const insert = createInserter(table);
+    for (const row of data[table]) {
+      if (insert(row)) report.inserted[table]++;
+    }
+  }
+}
+
+// An imported IMAGE/FILE entry whose file still has to be stored; `source` is its path in the bundle
+interface PendingAttachment {
+  id: string;
+  taskId: string;
+  content: string;
+  source: string;
+}
+
+function pendingAttachment(row: Row, source: unknown): PendingAttachment {
+  return { id: String(row.id), taskId: String(row.task_id), content: String(row.content), source: String(source) };
+}
+
+// Insert alongside existing data. Returns the imported attachment entries, whose files are
+// stored once the rows are in.
+function mergeData(data: VaultData, report: VaultImportReport): PendingAttachment[] {
+  const sqlite = getSqlite();
+  const idMaps = new Map<Table, Map<string, string>>(TABLES.map((table) => [table, new Map()]));
+  const mapId = (table: Table, id: unknown) =>
+    id === null || id === undefined ? id : idMaps.get(table)!.get(String(id)) ?? id;
+  const attachments: PendingAttachment[] = [];
+  const idTaken = (table: Table, id: unknown) =>
+    sqlite.prepare(`SELECT 1 FROM ${table} WHERE id = ?`).get(id) !== undefined;
+
+  // Keep each row's id unless it's taken, in which case it gets a fresh one
+  const assignIds = (table: Table) => {
+    for (const row of data[table]) {
+      const id = String(row.id);
+      if (idTaken(table, id)) {
+        idMaps.get(table)!.set(id, uuidv4());
+        report.remapped++;
+      }
+    }
+  };
+
+  // Projects and tags have unique names, so reuse an existing one with the same name
+  for (const table of ['projects', 'tags'] as const) {
+    const insert = createInserter(table);
+    for (const row of data[table]) {
+      const existing = sqlite.prepare(`SELECT id FROM ${table} WHERE name = ? COLLATE NOCASE`).get(row.name) as
+        { id: string } | undefined;
+      if (existing) {
+        idMaps.get(table)!.set(String(row.id), existing.id);
+        report.skipped++;
+        continue;
+      }
+      let id = String(row.id);
+      if (idTaken(table, id)) {
+        id = uuidv4();
+        idMaps.get(table)!.set(String(row.id), id);
+        report.remapped++;
+      }
+      if (insert({ ...row, id })) report.inserted[table]++;
+    }
+  }
+
+  // Task ids are settled first, since recurrence links may point forward in the list
+  assignIds('tasks');
+  const insertTask = createInserter('tasks');
+  for (const row of data.tasks) {
+    const inserted = insertTask({
+      ...row,
+      id: mapId('tasks', row.id),
+      project_id: mapId('projects', row.project_id),
+      recurrence_series_id: mapId('tasks', row.recurrence_series_id),
+      recurrence_parent_id: mapId('tasks', row.recurrence_parent_id),
+    });
+    if (inserted) report.inserted.tasks++;
+  }
+
+  for (const table of ['timeline_entries', 'checklist_items', 'reminders'] as const) {
+    assignIds(table);
+    const insert = createInserter(table);
+    for (const row of data[table]) {
+      const taskId = mapId('tasks', row.task_id);
+      const copy: Row = { ...row, id: mapId(table, row.id), task_id: taskId };
+      // Attachment paths start with the task id, which may have changed
+      if (table === 'timeline_entries' && isAttachmentEntry(row) && taskId !== row.task_id) {
+        copy.content = String(row.content).replace(`${row.task_id}/`, `${taskId}/`);
+      }
+      if (insert(copy)) {
+        report.inserted[table]++;
+        if (table === 'timeline_entries' && isAttachmentEntry(row)) {
+          attachments.push(pendingAttachment(copy, row.content));
+        }
+      }
+    }
+  }
+
+  const insertTaskTag = createInserter('task_tags');
+  for (const row of data.task_tags) {
+    if (insertTaskTag({ task_id: mapId('tasks', row.task_id), tag_id: mapId('tags', row.tag_id) }, true)) {
+      report.inserted.task_tags++;
+    }
+  }
+  const insertDependency = createInserter('task_dependencies');
+  for (const row of data.task_dependencies) {
+    const copy = { ...row, task_id: mapId('tasks', row.task_id), blocked_by_id: mapId('tasks', row.blocked_by_id) };
+    if (insertDependency(copy, true)) report.inserted.task_dependencies++;
+  }
+
+  // Smart lists are matched by name so repeated imports don't duplicate them
+  const insertSearch = createInserter('saved_searches');
+  for (const row of data.saved_searches) {
+    if (sqlite.prepare(`SELECT 1 FROM saved_searches WHERE name = ?`).get(row.name)) {
+      report.skipped++;
+      continue;
+    }
+    const id = idTaken('saved_searches', row.id) ? uuidv4() : row.id;
+    if (insertSearch({ ...row, id })) report.inserted.saved_searches++;
+  }
+
+  // XP and streaks stay with the vault being merged into
+  report.skipped += data.gamification.length;
+  return attachments;
+}
+
+// Store each entry's file from the bundle and point the entry at its stored path. Files
+// identical to ones already in the vault are stored once.
+async function writeAttachments(
+  archive: ZipArchive,
+  pending: PendingAttachment[],
+  originalNames: Map<string, string>,
+  captions: Map<string, string>
+): Promise<number> {
+  const available = new Set(archive.names);
+  const repoint = getSqlite().prepare(`UPDATE timeline_entries SET content = ? WHERE id = ?`);
+  let written = 0;
+  for (const entry of pending) {
+    const name = `${ATTACHMENTS_PREFIX}${entry.source}`;
+    if (!available.has(name)) continue;
+    const fileName = entry.content.split('/').pop() || entry.content;
+    const originalName = originalNames.get(entry.source) ?? fileName;
+    const data = await archive.read(name);
+    const path = addAttachment(entry.taskId, data, originalName, fileName, captions.get(entry.source));
+    if (path !== entry.content) {
+      repoint.run(path, entry.id);
+    }
+    written++;
+  }
+  return written;
+}
+
+// Import a bundle, after a snapshot of the current vault so either mode can be undone.
+// "replace" swaps out all exported tables and their attachments (settings and trash are kept);
+// "merge" adds everything alongside the existing data, remapping ids that clash.
+export async function importVault(path: string, mode: VaultImportMode): Promise<VaultImportReport> {
+  const archive = await readZip(path);
+  try {
+    const { data } = await readAndValidate(archive);
+    const originalNames = await readAttachmentStrings(archive, ATTACHMENT_NAMES_FILE);
+    const captions = await readAttachmentStrings(archive, ATTACHMENT_CAPTIONS_FILE);
+    const report: VaultImportReport = { mode, inserted: emptyCounts(), remapped: 0, skipped: 0, attachments: 0 };
+    const sqlite = getSqlite();
+
+    await createSnapshot('pre-import');
+    if (mode === 'replace') {
+      const replaced = sqlite.prepare(`SELECT content FROM timeline_entries WHERE type IN ('IMAGE', 'FILE')`).all() as
+        { content: string }[];
+      sqlite.transaction(() => {
+        sqlite.pragma('defer_foreign_keys = ON');
+        replaceData(data, report);
+      })();
+      // Trashed items keep their files; only the replaced entries let go of theirs
+      for (const { content } of replaced) {
+        releaseAttachment(content);
+      }
+      const pending = data.timeline_entries.filter(isAttachmentEntry).map((row) => pendingAttachment(row, row.content));
+      report.attachments = await writeAttachments(archive, pending, originalNames, captions);
+    } else {
+      const pending = sqlite.transaction(() => {
+        sqlite.pragma('defer_foreign_keys = ON');
+        return mergeData(data, report);
+      })();
+      report.attachments = await writeAttachments(archive, pending, originalNames, captions);
+    }
+    return report;
+  } finally {
+    await archive.close();
+  }
+}
@@ -0,0 +1,302 @@
+// Task dossiers for handovers: a self-contained HTML report (images inlined), optionally printed to PDF
+import { app, BrowserWindow } from 'electron';
+import { join } from 'path';
+import { existsSync, readFileSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { getTasks, getTaskById, type TaskWithMeta, type StatusChange, type ChecklistChange } from './db/queries';
+import { getChecklistItems } from './db/checklists';
+import { getAttachmentAbsolutePath } from './file-handler';
+import type { TimelineEntry } from './db/schema';
+import type { AttachmentInfo } from './db/attachments';
+
+export interface DossierExportResult {
+  path: string;
+  format: 'html' | 'pdf';
+  tasks: number;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+// Bigger images are listed as attachments instead of being embedded
+const MAX_INLINE_IMAGE_BYTES = 10 * 1024 * 1024;
+
+const STYLES = `
+  body { font: 13px/1.5 -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #1f2937; margin: 0 auto; max-width: 800px; padding: 32px; }
+  h1 { font-size: 22px; margin: 0 0 8px; }
+  h2 { font-size: 15px; margin: 24px 0 8px; padding-bottom: 4px; border-bottom: 1px solid #e5e7eb; }
+  .muted { color: #6b7280; }
+  .cover { margin-bottom: 24px; }
+  article + article { break-before: page; margin-top: 48px; }
+  dl.meta { display: grid; grid-template-columns: max-content 1fr; gap: 2px 16px; margin: 0; }
+  dl.meta dt { color: #6b7280; }
+  dl.meta dd { margin: 0; }
+  .summary { background: #f3f4f6; border-left: 3px solid #6366f1; padding: 8px 12px; white-space: pre-wrap; }
+  ul.checklist { list-style: none; padding: 0; margin: 0; }
+  ul.checklist li.done { color: #6b7280; text-decoration: line-through; }
+  table { border-collapse: collapse; width: 100%; }
+  td, th { text-align: left; vertical-align: top; padding: 4px 8px 4px 0; border-bottom: 1px solid #f3f4f6; }
+  td.when { white-space: nowrap; color: #6b7280; width: 1%; }
+  .note { margin-bottom: 12px; break-inside: avoid; }
+  .note .body { white-space: pre-wrap; }
+  figure { margin: 0 0 16px; break-inside: avoid; }
+  figure img { max-width: 100%; max-height: 600px; border: 1px solid #e5e7eb; }
+  figcaption { font-size: 11px; color: #6b7280; }
+`;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function formatDay(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatMinute(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${formatDay(timestamp)} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// Same rounding as the renderer's formatBytes
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+}
+
+function parseStatusChange(content: string): StatusChange | null {
+  try {
+    const change = JSON.parse(content) as StatusChange | ChecklistChange;
+    return change.field === 'status' || change.field === 'priority' ? change : null;
+  } catch {
+    return null;
+  }
+}
+
+function fileName(relativePath: string): string {
+  return relativePath.split('/').pop() || relativePath;
+}
+
+// Inline image as a data URL, or null when it is missing, not an image or too big to embed
+function imageDataUrl(relativePath: string): string | null {
+  const type = IMAGE_TYPES[relativePath.split('.').pop()?.toLowerCase() || ''];
+  const path = getAttachmentAbsolutePath(relativePath);
+  if (!type || !existsSync(path) || statSync(path).size > MAX_INLINE_IMAGE_BYTES) {
+    return null;
+  }
+  return `data:${type};base64,${readFileSync(path).toString('base64')}`;
+}
+
+async function renderTask(
+  task: TaskWithMeta,
+  recurrenceRule: string | null,
+  timeline: TimelineEntry[],
+  attachmentInfo: Record<string, AttachmentInfo>
+): Promise<string> {
+  const meta: [string, string][] = [
+    ['Status', task.status],
+    ['Priority', task.priority],
+  ];
+  if (task.projectName) meta.push(['Project', task.projectName]);
+  if (task.tags.length > 0) meta.push(['Tags', task.tags.join(', ')]);
+  meta.push(['Created', formatMinute(task.created_at)], ['Last touched', formatMinute(task.last_touched_at)]);
+  if (task.start_at !== null) meta.push(['Start', formatDay(task.start_at)]);
+  if (task.due_at !== null) meta.push(['Due', formatDay(task.due_at)]);
+  if (task.archived_at !== null) meta.push(['Archived', formatDay(task.archived_at)]);
+  if (recurrenceRule) meta.push(['Repeats', recurrenceRule]);
+
+  const parts = [
+    `<article id="task-${escapeHtml(task.id)}">`,
+    `<h1>${escapeHtml(task.title)}</h1>`,
+    '<dl class="meta">',
+    ...meta.map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`),
+    '</dl>',
+  ];
+
+  parts.push('<h2>Summary</h2>');
+  parts.push(task.pinned_summary.trim()
+    ? `<div class="summary">${escapeHtml(task.pinned_summary.trim())}</div>`
+    : '<p class="muted">No summary</p>');
+
+  const checklist = await getChecklistItems(task.id);
+  if (checklist.length > 0) {
+    parts.push(`<h2>Checklist (${task.checklistDone}/${task.checklistTotal})</h2>`, '<ul class="checklist">');
+    for (const item of checklist) {
+      const done = item.checked_at !== null;
+      parts.push(`<li${done ? ' class="done"' : ''}>${done ? '&#9745;' : '&#9744;'} ${escapeHtml(item.title)}</li>`);
+    }
+    parts.push('</ul>');
+  }
+
+  const changes = timeline
+    .map((entry) => ({ entry, change: entry.type === 'STATUS' ? parseStatusChange(entry.content) : null }))
+    .filter((row): row is { entry: TimelineEntry; change: StatusChange } => row.change !== null);
+  parts.push('<h2>Status history</h2>');
+  if (changes.length === 0) {
+    parts.push('<p class="muted">No status or priority changes</p>');
+  } else {
+    parts.push('<table>');
+    for (const { entry, change } of changes) {
+      const label = change.field === 'status' ? 'Status' : 'Priority';
+      parts.push(
+        `<tr><td class="when">${formatMinute(entry.created_at)}</td>` +
+        `<td>${label}: ${escapeHtml(change.from)} &rarr; ${escapeHtml(change.to)}</td>` +
+        `<td class="muted">${change.reason ? escapeHtml(change.reason) : ''}</td></tr>`
+      );
+    }
+    parts.push('</table>');
+  }
+
+  const notes = timeline.filter((entry) => entry.type === 'NOTE');
+  parts.push('<h2>Notes</h2>');
+  if (notes.length === 0) {
+    parts.push('<p class="muted">No notes</p>');
+  }
+  for (const note of notes) {
+    parts.push(
+      `<div class="note"><div class="muted">${formatMinute(note.created_at)}</div>` +
+      `<div class="body">${escapeHtml(note.content)}</div></div>`
+    );
+  }
+
+  const attachments = timeline.filter((entry) => entry.type === 'IMAGE' || entry.type === 'FILE');
+  const nameOf = (entry: TimelineEntry) => attachmentInfo[entry.content]?.original_name ?? fileName(entry.content);
+  const captionOf = (entry: TimelineEntry) => attachmentInfo[entry.content]?.caption ?? '';
+  const images = attachments
+    .map((entry) => ({ entry, src: imageDataUrl(entry.content) }))
+    .filter((image): image is { entry: TimelineEntry; src: string } => image.src !== null);
+  if (images.length > 0) {
+    parts.push('<h2>Images</h2>');
+    for (const { entry, src } of images) {
+      parts.push(
+        `<figure><img src="${src}" alt="${escapeHtml(captionOf(entry) || nameOf(entry))}">` +
+        `<figcaption>${captionOf(entry) ? `${escapeHtml(captionOf(entry))}<br>` : ''}` +
+        `${escapeHtml(nameOf(entry))} &middot; ${formatMinute(entry.created_at)}</figcaption></figure>`
+      );
+    }
+  }
+
+  parts.push('<h2>Attachments</h2>');
+  if (attachments.length === 0) {
+    parts.push('<p class="muted">No attachments</p>');
+  } else {
+    parts.push('<table>');
+    for (const entry of attachments) {
+      const path = getAttachmentAbsolutePath(entry.content);
+      const size = existsSync(path) ? formatBytes(statSync(path).size) : 'missing';
+      parts.push(
+        `<tr><td class="when">${formatMinute(entry.created_at)}</td>` +
+        `<td>${escapeHtml(nameOf(entry))}${captionOf(entry) ? ` <span class="muted">&mdash; ${escapeHtml(captionOf(entry))}</span>` : ''}</td>` +
+        `<td class="muted">${size}</td></tr>`
+      );
+    }
+    parts.push('</table>');
+  }
+
+  parts.push('</article>');
+  return parts.join('\n');
+}
+
+// One HTML document covering the given tasks in the given order, with a contents list when
+// there's more than one. Images are embedded, so the file can be mailed or archived as-is.
+export async function renderDossierHtml(taskIds: string[]): Promise<{ html: string; tasks: number }> {
+  const byId = new Map((await getTasks()).map((task) => [task.id, task]));
+  const selected = taskIds
+    .map((id) => byId.get(id))
+    .filter((task): task is TaskWithMeta => task !== undefined);
+  if (selected.length === 0) {
+    throw new Error('No tasks to include in the dossier');
+  }
+
+  const articles: string[] = [];
+  for (const task of selected) {
+    const detail = await getTaskById(task.id);
+    if (!detail) continue;
+    articles.push(await renderTask(task, detail.task.recurrence_rule, detail.timeline, detail.attachments));
+  }
+
+  const title = selected.length === 1 ? selected[0].title : `${selected.length} tasks`;
+  const contents = selected.length > 1
+    ? [
+      '<nav><h2>Contents</h2><ol>',
+      ...selected.map((task) => `<li><a href="#task-${escapeHtml(task.id)}">${escapeHtml(task.title)}</a> <span class="muted">${task.status}</span></li>`),
+      '</ol></nav>',
+    ].join('\n')
+    : '';
+
+  const html = [
+    '<!DOCTYPE html>',
+    '<html lang="en"><head><meta charset="utf-8">',
+    `<title>Dossier: ${escapeHtml(title)}</title>`,
+    `<style>${STYLES}</style>`,
+    '</head><body>',
+    `<header class="cover muted">TaskVault dossier &middot; ${escapeHtml(title)} &middot; generated ${formatMinute(Date.now())}</header>`,
+    contents,
+    ...articles,
+    '</body></html>',
+  ].join('\n');
+  return { html, tasks: articles.length };
+}
+
+// Print through a hidden, script-free window. The HTML goes via a temp file because
+// large data: URLs (embedded images) are too long for loadURL.
+async function printHtmlToPdf(html: string): Promise<Buffer> {
+  const tempPath = join(app.getPath('temp'), `taskvault-dossier-${Date.now()}.html`);
+  writeFileSync(tempPath, html, 'utf8');
+  const window = new BrowserWindow({
+    show: false,
+    webPreferences: {
+      javascript: false,
+      sandbox: true,
+      contextIsolation: true,
+      nodeIntegration: false,
+    },
+  });
+  try {
+    await window.loadFile(tempPath);
+    return await window.webContents.printToPDF({
+      pageSize: 'A4',
+      printBackground: true,
+      displayHeaderFooter: true,
+      headerTemplate: '<span></span>',
+      footerTemplate: '<div style="font-size:8px;width:100%;text-align:center;color:#6b7280"><span class="pageNumber"></span> / <span class="totalPages"></span></div>',
+    });
+  } finally {
+    window.destroy();
+    try {
+      unlinkSync(tempPath);
+    } catch (error) {
+      console.error('Failed to remove temporary dossier file:', error);
+    }
+  }
+}
+
+// The file extension picks the format: .html/.htm writes the HTML, anything else a PDF
+export async function exportDossier(path: string, taskIds: string[]): Promise<DossierExportResult> {
+  const { html, tasks } = await renderDossierHtml(taskIds);
+  if (/\.html?$/i.test(path)) {
+    writeFileSync(path, html, 'utf8');
+    return { path, format: 'html', tasks };
+  }
+  writeFileSync(path, await printHtmlToPdf(html));
+  return { path, format: 'pdf', tasks };
+}
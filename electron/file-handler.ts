@@ -1,80 +1,124 @@
 // File handling utilities for attachments
 import { app, shell, clipboard } from 'electron';
 import { join } from 'path';
-import { existsSync, mkdirSync, writeFileSync, readFileSync, unlinkSync } from 'fs';
+import { readFileSync, rmSync } from 'fs';
+import { chmod, copyFile, mkdtemp, mkdir, rm, stat } from 'fs/promises';
+import { addAttachment, getAttachmentInfo, releaseAttachment } from './db/attachments';
+import { attachmentFileFor, normalizeAttachmentPath, resolveAttachmentPath } from './attachment-paths';
 
-export function getAttachmentAbsolutePath(relativePath: string): string {
+export function getAttachmentsRoot(): string {
   const userDataPath = app.getPath('userData');
-  const attachmentsDir = join(userDataPath, 'taskvault', 'attachments');
-  return join(attachmentsDir, relativePath);
+  return join(userDataPath, 'taskvault', 'attachments');
 }
 
-export async function processFileAttachment(taskId: string, filePath: string): Promise<string> {
+// Downsized copies of image attachments, named by blob hash; safe to delete at any time
+export function getThumbnailsRoot(): string {
   const userDataPath = app.getPath('userData');
-  const attachmentsDir = join(userDataPath, 'taskvault', 'attachments', taskId);
-  
-  if (!existsSync(attachmentsDir)) {
-    mkdirSync(attachmentsDir, { recursive: true });
-  }
+  return join(userDataPath, 'taskvault', 'thumbnails');
+}
+
+// Where older versions moved the attachments of trashed items; only read when migrating them
+export function getTrashRoot(): string {
+  const userDataPath = app.getPath('userData');
+  return join(userDataPath, 'taskvault', 'trash');
+}
+
+// Named copies of blobs for "Reveal in folder" and "Copy path", as shared/<hash>/<original name>.
+// Kept until the blob is deleted, so copied paths keep working.
+export function getSharedCopiesRoot(): string {
+  const userDataPath = app.getPath('userData');
+  return join(userDataPath, 'taskvault', 'shared');
+}
+
+// Throwaway copies of attachments opened in other apps. Cleared at startup.
+export function getOpenedCopiesRoot(): string {
+  return join(app.getPath('temp'), 'taskvault-opened');
+}
+
+// Absolute path of the file behind an entry's attachment path. Paths not yet moved into
+// blob storage still resolve to their old location. Throws AttachmentPathError for paths
+// that would leave the attachments folder; renderer input goes through resolveAttachmentPath.
+export function getAttachmentAbsolutePath(relativePath: string): string {
+  return attachmentFileFor(normalizeAttachmentPath(relativePath));
+}
 
+export async function processFileAttachment(taskId: string, filePath: string): Promise<string> {
   const filename = filePath.split(/[/\\]/).pop() || 'file';
-  const safeFilename = filename.replace(/[^a-zA-Z0-9._-]/g, '_');
-  const relativePath = `${taskId}/${safeFilename}`;
-  const absolutePath = getAttachmentAbsolutePath(relativePath);
+  return addAttachment(taskId, readFileSync(filePath), filename);
+}
 
-  const sourceBuffer = readFileSync(filePath);
-  writeFileSync(absolutePath, sourceBuffer);
+// Dropped images keep their file name; clipboard images are named after the time of pasting
+export async function processImagePaste(taskId: string, imageBuffer: Buffer, fileName?: string): Promise<string> {
+  return addAttachment(taskId, imageBuffer, fileName?.trim() || `paste_${Date.now()}.png`);
+}
 
-  return relativePath;
+// A file name that is safe on every platform, from a name that came from another system
+function safeFileName(name: string): string {
+  const base = (name.split(/[/\\]/).pop() ?? '').replace(/[<>:"|?*\u0000-\u001f]/g, '_').trim();
+  return base === '' || base === '.' || base === '..' ? 'attachment' : base;
 }
 
-export async function processImagePaste(taskId: string, imageBuffer: Buffer): Promise<string> {
-  const userDataPath = app.getPath('userData');
-  const attachmentsDir = join(userDataPath, 'taskvault', 'attachments', taskId);
-  
-  if (!existsSync(attachmentsDir)) {
-    mkdirSync(attachmentsDir, { recursive: true });
-  }
+// Blobs are shared between tasks and named by hash, so other apps never get the blob itself:
+// edits there would change every task using it and break its hash. They get read-only copies
+// under the original file name instead.
+
+// A fresh copy in its own temp folder, for opening
+async function createOpenedCopy(relativePath: string): Promise<string> {
+  const { path, absolutePath } = resolveAttachmentPath(relativePath);
+  const name = safeFileName(getAttachmentInfo(path)?.original_name ?? path);
+  const root = getOpenedCopiesRoot();
+  await mkdir(root, { recursive: true });
+  const copy = join(await mkdtemp(join(root, 'open-')), name);
+  await copyFile(absolutePath, copy);
+  await chmod(copy, 0o444);
+  return copy;
+}
 
-  const timestamp = Date.now();
-  const relativePath = `${taskId}/paste_${timestamp}.png`;
-  const absolutePath = getAttachmentAbsolutePath(relativePath);
+// The one lasting copy of the attachment's blob under its original name, made on first use.
+// Files not yet moved into blob storage are handed out as they are.
+async function getSharedCopy(relativePath: string): Promise<string> {
+  const { path, absolutePath } = resolveAttachmentPath(relativePath);
+  const info = getAttachmentInfo(path);
+  if (!info) {
+    return absolutePath;
+  }
+  const folder = join(getSharedCopiesRoot(), info.hash);
+  const copy = join(folder, safeFileName(info.original_name));
+  const existing = await stat(copy).catch(() => null);
+  if (existing?.size !== info.size) {
+    // Missing, or changed by another app despite being read-only
+    await mkdir(folder, { recursive: true });
+    await rm(copy, { force: true });
+    await copyFile(absolutePath, copy);
+    await chmod(copy, 0o444);
+  }
+  return copy;
+}
 
-  writeFileSync(absolutePath, imageBuffer);
-  return relativePath;
+// Remove copies left from earlier sessions, when no other app should still have them open
+export function clearOpenedCopies() {
+  try {
+    rmSync(getOpenedCopiesRoot(), { recursive: true, force: true });
+  } catch (error) {
+    console.error('Failed to clear opened attachment copies:', error);
+  }
 }
 
+// The functions below take paths from the renderer; each throws AttachmentPathError unless the
+// path belongs to a stored attachment
 export async function openAttachment(relativePath: string): Promise<void> {
-  const absolutePath = getAttachmentAbsolutePath(relativePath);
-  if (existsSync(absolutePath)) {
-    await shell.openPath(absolutePath);
-  } else {
-    console.error('Attachment not found:', absolutePath);
-  }
+  await shell.openPath(await createOpenedCopy(relativePath));
 }
 
 export async function revealAttachment(relativePath: string): Promise<void> {
-  const absolutePath = getAttachmentAbsolutePath(relativePath);
-  if (existsSync(absolutePath)) {
-    await shell.showItemInFolder(absolutePath);
-  } else {
-    console.error('Attachment not found:', absolutePath);
-  }
+  shell.showItemInFolder(await getSharedCopy(relativePath));
 }
 
 export async function copyAttachmentPath(relativePath: string): Promise<void> {
-  const absolutePath = getAttachmentAbsolutePath(relativePath);
-  clipboard.writeText(absolutePath);
+  clipboard.writeText(await getSharedCopy(relativePath));
 }
 
+// Drop this path's reference to its blob; the file goes once nothing else uses it
 export async function deleteAttachment(relativePath: string): Promise<void> {
-  const absolutePath = getAttachmentAbsolutePath(relativePath);
-  if (existsSync(absolutePath)) {
-    try {
-      unlinkSync(absolutePath);
-    } catch (error) {
-      console.error(`Failed to delete attachment ${relativePath}:`, error);
-      throw error;
-    }
-  }
+  releaseAttachment(normalizeAttachmentPath(relativePath));
 }
@@ -3,7 +3,7 @@ import { getGamification, updateGamificationStats } from './db/queries';
 import { getTaskById } from './db/queries';
 import type { TimelineEntry } from './db/schema';
 
-export async function updateGamification(action: 'create_task' | 'add_content' | 'complete_task' | 'delete_incomplete_task') {
+export async function updateGamification(action: 'create_task' | 'add_content' | 'check_item' | 'complete_task' | 'delete_incomplete_task' | 'restore_incomplete_task') {
   const stats = await getGamification();
   if (!stats) return;
 
@@ -22,12 +22,18 @@ export async function updateGamification(action: 'create_task' | 'add_content' |
     case 'add_content':
       xp += 2;
       break;
+    case 'check_item':
+      xp += 3;
+      break;
     case 'complete_task':
       xp += 20;
       break;
     case 'delete_incomplete_task':
       xp = Math.max(0, xp - 5); // Subtract 5 XP, but don't go below 0
       break;
+    case 'restore_incomplete_task':
+      xp += 5; // Give back the deletion penalty
+      break;
   }
 
   // Streak logic
@@ -0,0 +1,229 @@
+// Importers for other apps' export files (Trello, Todoist, todo.txt). Each parser turns a
+// file into ImportedTasks; this module previews them and creates the tasks.
+import { basename, dirname, extname } from 'path';
+import { readFileSync, statSync } from 'fs';
+import { createTask, updateTask, addTimelineEntry } from '../db/queries';
+import { createProject, normalizeName } from '../db/tags';
+import { addChecklistItem, setChecklistItemChecked } from '../db/checklists';
+import { createSnapshot } from '../db/snapshots';
+import { processFileAttachment } from '../file-handler';
+import type { ImportedTask, ImportSkip, ParsedImport } from './shared';
+import { parseTrello, isTrelloBoard } from './trello';
+import { parseTodoistCsv, parseTodoistJson, isTodoistCsv, isTodoistJson } from './todoist';
+import { parseTodoTxt } from './todo-txt';
+
+export type AppImportFormat = 'trello' | 'todoist-csv' | 'todoist-json' | 'todo-txt';
+
+export interface AppImportPreview {
+  path: string;
+  fileName: string;
+  format: AppImportFormat;
+  formatLabel: string;
+  taskCount: number;
+  noteCount: number;
+  checklistItemCount: number;
+  attachmentCount: number;
+  projects: string[];
+  tags: string[];
+  skipped: ImportSkip[];
+}
+
+export interface AppImportReport {
+  format: AppImportFormat;
+  formatLabel: string;
+  tasksImported: number;
+  notesImported: number;
+  checklistItemsImported: number;
+  attachmentsCopied: number;
+  skipped: ImportSkip[];
+}
+
+const FORMAT_LABELS: Record<AppImportFormat, string> = {
+  trello: 'Trello board',
+  'todoist-csv': 'Todoist CSV',
+  'todoist-json': 'Todoist JSON',
+  'todo-txt': 'todo.txt',
+};
+
+const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif'];
+
+function parseJsonFile(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Error('Not a valid JSON file');
+  }
+}
+
+function detectAndParse(path: string): { format: AppImportFormat; parsed: ParsedImport } {
+  if (statSync(path).size > MAX_IMPORT_BYTES) {
+    throw new Error('Import file is too large (over 50 MB)');
+  }
+  const content = readFileSync(path, 'utf8');
+  const baseDir = dirname(path);
+  const extension = extname(path).toLowerCase();
+
+  if (extension === '.json') {
+    const data = parseJsonFile(content);
+    if (isTrelloBoard(data)) {
+      return { format: 'trello', parsed: parseTrello(data, baseDir) };
+    }
+    if (isTodoistJson(data)) {
+      return { format: 'todoist-json', parsed: parseTodoistJson(data, baseDir) };
+    }
+    throw new Error('Unrecognised JSON export. Expected a Trello board or a Todoist backup');
+  }
+  if (extension === '.csv') {
+    if (!isTodoistCsv(content)) {
+      throw new Error('This CSV is not a Todoist export. Use "Import Tasks from CSV" for other spreadsheets');
+    }
+    // Todoist names each project's file "<project> [<id>].csv"
+    const project = basename(path, extname(path)).replace(/\s*\[\d+\]$/, '');
+    return { format: 'todoist-csv', parsed: parseTodoistCsv(content, project, baseDir) };
+  }
+  if (extension === '.txt') {
+    return { format: 'todo-txt', parsed: parseTodoTxt(content) };
+  }
+  throw new Error(`Unsupported file type: ${extension || 'none'}. Choose a .json, .csv or .txt export`);
+}
+
+function distinct(names: string[]): string[] {
+  const seen: string[] = [];
+  const result: string[] = [];
+  for (const name of names) {
+    if (!seen.includes(name.toLowerCase())) {
+      seen.push(name.toLowerCase());
+      result.push(name);
+    }
+  }
+  return result;
+}
+
+// Dry run: detect the format and parse the file without writing anything
+export function inspectAppImport(path: string): AppImportPreview {
+  const { format, parsed } = detectAndParse(path);
+  const count = (pick: (task: ImportedTask) => unknown[]) =>
+    parsed.tasks.reduce((sum, task) => sum + pick(task).length, 0);
+  return {
+    path,
+    fileName: basename(path),
+    format,
+    formatLabel: FORMAT_LABELS[format],
+    taskCount: parsed.tasks.length,
+    noteCount: count((task) => task.notes),
+    checklistItemCount: count((task) => task.checklist),
+    attachmentCount: count((task) => task.attachments),
+    projects: distinct(parsed.tasks.map((task) => task.project).filter((name): name is string => name !== null)),
+    tags: distinct(parsed.tasks.reduce<string[]>((all, task) => all.concat(task.tags), [])),
+    skipped: parsed.skipped,
+  };
+}
+
+// Tag and project names can't hold commas here; other apps allow them
+function cleanName(name: string, kind: 'Tag' | 'Project', task: string, skipped: ImportSkip[]): string | null {
+  try {
+    return normalizeName(name.replace(/,/g, ' '), kind);
+  } catch (error) {
+    skipped.push({ item: `${kind} "${name}" on "${task}"`, reason: error instanceof Error ? error.message : String(error) });
+    return null;
+  }
+}
+
+async function importTask(task: ImportedTask, formatLabel: string, report: AppImportReport) {
+  const skipped = report.skipped;
+  const projectName = task.project ? cleanName(task.project, 'Project', task.title, skipped) : null;
+  const project = projectName ? await createProject(projectName) : null;
+  const tags = task.tags
+    .map((tag) => cleanName(tag, 'Tag', task.title, skipped))
+    .filter((tag): tag is string => tag !== null);
+
+  const created = await createTask({
+    title: task.title,
+    priority: task.priority,
+    project_id: project?.id ?? null,
+    tags,
+    start_at: task.start_at,
+    due_at: task.due_at,
+  });
+  if (task.status !== 'OPEN' || task.summary) {
+    await updateTask({
+      id: created.id,
+      status: task.status !== 'OPEN' ? task.status : undefined,
+      pinned_summary: task.summary || undefined,
+      reason: `Imported from ${formatLabel}`,
+      updateTouched: false,
+    });
+  }
+  report.tasksImported++;
+
+  for (const note of task.notes) {
+    await addTimelineEntry({
+      taskId: created.id,
+      type: 'NOTE',
+      content: note.content,
+      createdAt: note.created_at ?? undefined,
+      updateTouched: false,
+    });
+    report.notesImported++;
+  }
+  for (const item of task.checklist) {
+    try {
+      const added = await addChecklistItem(created.id, item.title);
+      if (item.done) {
+        await setChecklistItemChecked(added.id, true);
+      }
+      report.checklistItemsImported++;
+    } catch (error) {
+      skipped.push({
+        item: `Checklist item "${item.title}" on "${task.title}"`,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  for (const path of task.attachments) {
+    try {
+      const relativePath = await processFileAttachment(created.id, path);
+      await addTimelineEntry({
+        taskId: created.id,
+        type: IMAGE_EXTENSIONS.includes(extname(path).toLowerCase()) ? 'IMAGE' : 'FILE',
+        content: relativePath,
+        updateTouched: false,
+      });
+      report.attachmentsCopied++;
+    } catch (error) {
+      skipped.push({
+        item: `Attachment "${basename(path)}" on "${task.title}"`,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+// Create every parsed task. A task that fails is reported and the rest still import;
+// a snapshot is taken first so the whole import can be rolled back from Backups.
+export async function importFromApp(path: string): Promise<AppImportReport> {
+  const { format, parsed } = detectAndParse(path);
+  if (parsed.tasks.length === 0) {
+    throw new Error('No tasks found in this export');
+  }
+  const report: AppImportReport = {
+    format,
+    formatLabel: FORMAT_LABELS[format],
+    tasksImported: 0,
+    notesImported: 0,
+    checklistItemsImported: 0,
+    attachmentsCopied: 0,
+    skipped: [...parsed.skipped],
+  };
+
+  await createSnapshot('pre-import');
+  for (const task of parsed.tasks) {
+    try {
+      await importTask(task, report.formatLabel, report);
+    } catch (error) {
+      report.skipped.push({ item: `Task "${task.title}"`, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return report;
+}
@@ -0,0 +1,79 @@
+// Types and helpers shared by the importers
+import { isAbsolute, relative, resolve } from 'path';
+import { existsSync, statSync } from 'fs';
+import { fileURLToPath } from 'url';
+
+export interface ImportedTask {
+  title: string;
+  status: 'OPEN' | 'DONE' | 'ARCHIVED';
+  priority: 'LOW' | 'NORMAL' | 'HIGH';
+  project: string | null;
+  tags: string[];
+  start_at: number | null;
+  due_at: number | null;
+  summary: string;
+  notes: { content: string; created_at: number | null }[];
+  checklist: { title: string; done: boolean }[];
+  // Absolute paths of local files to copy in
+  attachments: string[];
+}
+
+// Something in the export that was left out or only partly imported, and why
+export interface ImportSkip {
+  item: string;
+  reason: string;
+}
+
+export interface ParsedImport {
+  tasks: ImportedTask[];
+  skipped: ImportSkip[];
+}
+
+export function emptyTask(title: string): ImportedTask {
+  return {
+    title,
+    status: 'OPEN',
+    priority: 'NORMAL',
+    project: null,
+    tags: [],
+    start_at: null,
+    due_at: null,
+    summary: '',
+    notes: [],
+    checklist: [],
+    attachments: [],
+  };
+}
+
+// Our dates are local midnight, date-only. Accepts YYYY-MM-DD (taken as a calendar day, whatever
+// follows) or any other string Date.parse understands; null when it can't be read.
+export function parseDay(value: string): number | null {
+  const day = /^(\d{4})-(\d{2})-(\d{2})/.exec(value.trim());
+  if (day) {
+    const date = new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3]));
+    return date.getMonth() === Number(day[2]) - 1 ? date.getTime() : null;
+  }
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) return null;
+  const date = new Date(parsed);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+// Attachments are only copied when the export points at a file inside the export's own folder,
+// by relative path, absolute path or file:// URL, so a crafted export can't pull in other files.
+// Returns null for remote links and anything outside.
+export function resolveLocalAttachment(reference: string, baseDir: string): string | null {
+  let path: string;
+  if (reference.startsWith('file://')) {
+    path = fileURLToPath(reference);
+  } else if (/^[a-z][a-z0-9+.-]*:\/\//i.test(reference)) {
+    return null;
+  } else {
+    path = resolve(baseDir, reference);
+  }
+  const inside = relative(baseDir, path);
+  if (!inside || inside.startsWith('..') || isAbsolute(inside)) {
+    return null;
+  }
+  return existsSync(path) && statSync(path).isFile() ? path : null;
+}
@@ -0,0 +1,92 @@
+// todo.txt (http://todotxt.org): one task per line, e.g.
+// "x 2024-03-02 2024-03-01 (A) Call Mom +Family @phone due:2024-03-05"
+import { emptyTask, parseDay, type ParsedImport } from './shared';
+
+const DONE_PREFIX = /^x\s+(?:\d{4}-\d{2}-\d{2}\s+){0,2}/;
+const PRIORITY_PREFIX = /^\(([A-Z])\)\s+(?:\d{4}-\d{2}-\d{2}\s+)?/;
+const CREATED_PREFIX = /^\d{4}-\d{2}-\d{2}\s+/;
+// Extension keys we understand; others (and URLs) stay in the title
+const KEY_VALUE = /^(due|t|pri|rec):(\S+)$/;
+
+// (A) is HIGH, (B) NORMAL, (C) and below LOW; no priority is NORMAL
+function mapPriority(letter: string) {
+  if (letter === 'A') return 'HIGH' as const;
+  if (letter === 'B') return 'NORMAL' as const;
+  return 'LOW' as const;
+}
+
+// The first +project becomes the task's project; further +projects and @contexts become tags.
+// due: and t: (threshold) set the due and start dates.
+export function parseTodoTxt(content: string): ParsedImport {
+  const result: ParsedImport = { tasks: [], skipped: [] };
+  const lines = content.replace(/^\ufeff/, '').split(/\r?\n/);
+
+  lines.forEach((rawLine, index) => {
+    let line = rawLine.trim();
+    if (!line) return;
+    const lineLabel = `Line ${index + 1}`;
+
+    const done = DONE_PREFIX.exec(line);
+    if (done) line = line.slice(done[0].length);
+    let priority: string | null = null;
+    const prefixed = PRIORITY_PREFIX.exec(line);
+    if (prefixed) {
+      priority = prefixed[1];
+      line = line.slice(prefixed[0].length);
+    } else {
+      line = line.replace(CREATED_PREFIX, '');
+    }
+
+    const words: string[] = [];
+    const projects: string[] = [];
+    const tags: string[] = [];
+    let due: string | null = null;
+    let start: string | null = null;
+    let rule: string | null = null;
+    for (const word of line.split(/\s+/)) {
+      const keyValue = KEY_VALUE.exec(word);
+      if (word.length > 1 && word.startsWith('+')) {
+        projects.push(word.slice(1));
+      } else if (word.length > 1 && word.startsWith('@')) {
+        tags.push(word.slice(1));
+      } else if (keyValue) {
+        const [, key, value] = keyValue;
+        if (key === 'due') due = value;
+        else if (key === 't') start = value;
+        else if (key === 'pri' && /^[A-Z]$/.test(value)) priority = value;
+        else if (key === 'rec') rule = value;
+      } else {
+        words.push(word);
+      }
+    }
+
+    const title = words.join(' ').trim();
+    if (!title) {
+      result.skipped.push({ item: lineLabel, reason: 'Task has no text besides projects, contexts or tags' });
+      return;
+    }
+    const task = emptyTask(title);
+    task.status = done ? 'DONE' : 'OPEN';
+    if (priority) task.priority = mapPriority(priority);
+    task.project = projects[0] ?? null;
+    task.tags = [...projects.slice(1), ...tags];
+
+    if (due) {
+      task.due_at = parseDay(due);
+      if (task.due_at === null) result.skipped.push({ item: `Due date of "${title}"`, reason: `"${due}" is not a date` });
+    }
+    if (start) {
+      task.start_at = parseDay(start);
+      if (task.start_at === null) result.skipped.push({ item: `Start date of "${title}"`, reason: `"${start}" is not a date` });
+    }
+    if (task.start_at !== null && task.due_at !== null && task.start_at > task.due_at) {
+      result.skipped.push({ item: `Start date of "${title}"`, reason: 'Start date is after the due date' });
+      task.start_at = null;
+    }
+    if (rule) {
+      result.skipped.push({ item: `Repeat rule of "${title}"`, reason: `rec:${rule} is not converted; set it up again under Repeat` });
+    }
+    result.tasks.push(task);
+  });
+  return result;
+}
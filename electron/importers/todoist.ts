@@ -0,0 +1,243 @@
+// Todoist exports: the per-project CSV (Export as a template / backups) and JSON task dumps
+import { parseCsv } from '../csv';
+import { emptyTask, parseDay, resolveLocalAttachment, type ImportedTask, type ParsedImport } from './shared';
+
+interface TodoistDue {
+  date?: string;
+  string?: string;
+  is_recurring?: boolean;
+}
+
+interface TodoistAttachment {
+  file_name?: string;
+  file_url?: string;
+}
+
+interface TodoistItem {
+  id: string | number;
+  content: string;
+  description?: string;
+  project_id?: string | number | null;
+  section_id?: string | number | null;
+  parent_id?: string | number | null;
+  child_order?: number;
+  priority?: number;
+  labels?: string[];
+  due?: TodoistDue | null;
+  checked?: boolean;
+  is_completed?: boolean;
+  is_deleted?: boolean;
+}
+
+interface TodoistNote {
+  item_id?: string | number;
+  task_id?: string | number;
+  content?: string;
+  posted_at?: string;
+  file_attachment?: TodoistAttachment | null;
+  is_deleted?: boolean;
+}
+
+interface TodoistBackup {
+  projects?: { id: string | number; name: string }[];
+  sections?: { id: string | number; name: string }[];
+  items?: TodoistItem[];
+  tasks?: TodoistItem[];
+  notes?: TodoistNote[];
+  comments?: TodoistNote[];
+}
+
+const CSV_COLUMNS = ['TYPE', 'CONTENT'];
+// Labels are written inline in a CSV task's content, e.g. "Buy milk @errands"
+const INLINE_LABEL = /(^|\s)@([^\s@]+)/g;
+// Note attachments in CSV exports: [[file {"file_name": ..., "file_url": ...}]]
+const INLINE_FILE = /\[\[file (\{.*?\})\]\]/g;
+
+export function isTodoistCsv(content: string): boolean {
+  const [header] = parseCsv(content.split(/\r?\n/, 1)[0] || '');
+  return !!header && CSV_COLUMNS.every((column) => header.includes(column));
+}
+
+export function isTodoistJson(data: unknown): data is TodoistBackup | TodoistItem[] {
+  const items = Array.isArray(data) ? data : (data as TodoistBackup | null)?.items ?? (data as TodoistBackup | null)?.tasks;
+  return Array.isArray(items) && items.every((item) => item && typeof item === 'object' && typeof item.content === 'string');
+}
+
+// Todoist's p1 (most urgent) to p4 (the default): p1 and p2 are HIGH, the rest NORMAL.
+// The CSV writes p1 as 1; the JSON API writes it as 4.
+function mapPriority(level: number): ImportedTask['priority'] {
+  return level <= 2 ? 'HIGH' : 'NORMAL';
+}
+
+function setDue(task: ImportedTask, due: TodoistDue | string | null | undefined, result: ParsedImport) {
+  if (!due) return;
+  const text = typeof due === 'string' ? due : due.date || '';
+  const recurring = typeof due === 'string' ? /^every\b/i.test(due.trim()) : due.is_recurring;
+  const day = text ? parseDay(text) : null;
+  if (day === null) {
+    result.skipped.push({ item: `Due date of "${task.title}"`, reason: `"${text}" is not a date we can read` });
+  } else {
+    task.due_at = day;
+  }
+  if (recurring) {
+    const rule = typeof due === 'string' ? due : due.string || text;
+    result.skipped.push({ item: `Repeat rule of "${task.title}"`, reason: `"${rule}" is not converted; set it up again under Repeat` });
+  }
+}
+
+function addAttachment(
+  task: ImportedTask,
+  attachment: TodoistAttachment,
+  baseDir: string,
+  result: ParsedImport
+) {
+  const name = attachment.file_name || attachment.file_url || 'attachment';
+  // Files downloaded next to the export are picked up by name
+  const local = (attachment.file_url && resolveLocalAttachment(attachment.file_url, baseDir)) ||
+    (attachment.file_name && resolveLocalAttachment(attachment.file_name, baseDir)) || null;
+  if (local) {
+    task.attachments.push(local);
+  } else {
+    task.notes.push({ content: `Attachment: ${name}${attachment.file_url ? ` (${attachment.file_url})` : ''}`, created_at: null });
+    result.skipped.push({ item: `Attachment "${name}" on "${task.title}"`, reason: 'Not included in the export; kept as a link in a note' });
+  }
+}
+
+// One file per project. Sections become tags, indented tasks become checklist items of the
+// task above them, and note rows become timeline notes. Completed tasks aren't in these exports.
+export function parseTodoistCsv(content: string, project: string, baseDir: string): ParsedImport {
+  const result: ParsedImport = { tasks: [], skipped: [] };
+  const [header, ...rows] = parseCsv(content);
+  const column = (name: string) => header.indexOf(name);
+  const cell = (row: string[], name: string) => (column(name) >= 0 ? (row[column(name)] ?? '').trim() : '');
+
+  let section: string | null = null;
+  let current: ImportedTask | null = null;
+  for (const row of rows) {
+    const type = cell(row, 'TYPE').toLowerCase();
+    const text = cell(row, 'CONTENT');
+    if (type === 'section') {
+      section = text || null;
+      current = null;
+    } else if (type === 'task') {
+      const indent = Number(cell(row, 'INDENT')) || 1;
+      const tags: string[] = [];
+      const title = text.replace(INLINE_LABEL, (_match, space: string, label: string) => {
+        tags.push(label);
+        return space;
+      }).replace(/\s+/g, ' ').trim();
+      if (!title) {
+        result.skipped.push({ item: 'Task without a title', reason: 'Task has no title' });
+        continue;
+      }
+      if (indent > 1 && current) {
+        current.checklist.push({ title, done: false });
+        continue;
+      }
+      const task = emptyTask(title);
+      task.project = project || null;
+      task.tags = section ? [section, ...tags] : tags;
+      task.summary = cell(row, 'DESCRIPTION');
+      const priority = Number(cell(row, 'PRIORITY'));
+      if (priority >= 1 && priority <= 4) task.priority = mapPriority(priority);
+      setDue(task, cell(row, 'DATE'), result);
+      result.tasks.push(task);
+      current = task;
+    } else if (type === 'note') {
+      if (!current) {
+        result.skipped.push({ item: `Comment "${text.slice(0, 40)}"`, reason: 'Project comments have no task to attach to' });
+        continue;
+      }
+      const task = current;
+      const note = text.replace(INLINE_FILE, (_match, json: string) => {
+        try {
+          addAttachment(task, JSON.parse(json) as TodoistAttachment, baseDir, result);
+        } catch {
+          result.skipped.push({ item: `Attachment on "${task.title}"`, reason: 'Could not read the attachment details' });
+        }
+        return '';
+      }).replace(/[ \t]{2,}/g, ' ').trim();
+      const author = cell(row, 'AUTHOR').replace(/\s*\(\d+\)$/, '');
+      if (note) {
+        task.notes.push({ content: author ? `${author}: ${note}` : note, created_at: null });
+      }
+    } else if (type) {
+      result.skipped.push({ item: `Row "${text.slice(0, 40)}"`, reason: `Unknown row type "${type}"` });
+    }
+  }
+  return result;
+}
+
+// Sync API backups ({ items, projects, sections, notes }) or a plain array of REST tasks.
+// Sub-tasks become checklist items of their top-level task; comments become timeline notes.
+export function parseTodoistJson(data: TodoistBackup | TodoistItem[], baseDir: string): ParsedImport {
+  const result: ParsedImport = { tasks: [], skipped: [] };
+  const backup: TodoistBackup = Array.isArray(data) ? { items: data } : data;
+  const items = (backup.items ?? backup.tasks ?? []).filter((item) => !item.is_deleted);
+  const projects = new Map((backup.projects ?? []).map((project) => [String(project.id), project.name]));
+  const sections = new Map((backup.sections ?? []).map((section) => [String(section.id), section.name]));
+  const itemsById = new Map(items.map((item) => [String(item.id), item]));
+  const tasksById = new Map<string, ImportedTask>();
+
+  const rootOf = (item: TodoistItem): TodoistItem => {
+    let root = item;
+    const seen: string[] = [];
+    while (root.parent_id != null && itemsById.has(String(root.parent_id)) && !seen.includes(String(root.id))) {
+      seen.push(String(root.id));
+      root = itemsById.get(String(root.parent_id))!;
+    }
+    return root;
+  };
+
+  const ordered = [...items].sort((a, b) => (a.child_order ?? 0) - (b.child_order ?? 0));
+  for (const item of ordered) {
+    if (rootOf(item) !== item) continue;
+    const title = item.content.trim();
+    if (!title) {
+      result.skipped.push({ item: `Task ${item.id}`, reason: 'Task has no title' });
+      continue;
+    }
+    const task = emptyTask(title);
+    task.project = item.project_id != null ? projects.get(String(item.project_id)) ?? null : null;
+    const section = item.section_id != null ? sections.get(String(item.section_id)) : undefined;
+    task.tags = [...(section ? [section] : []), ...(item.labels ?? [])];
+    task.summary = (item.description || '').trim();
+    // The API counts up: 4 is p1
+    if (item.priority) task.priority = mapPriority(5 - item.priority);
+    if (item.checked || item.is_completed) task.status = 'DONE';
+    setDue(task, item.due, result);
+    tasksById.set(String(item.id), task);
+    result.tasks.push(task);
+  }
+
+  for (const item of ordered) {
+    const root = rootOf(item);
+    if (root === item) continue;
+    const task = tasksById.get(String(root.id));
+    if (task && item.content.trim()) {
+      task.checklist.push({ title: item.content.trim(), done: !!(item.checked || item.is_completed) });
+    }
+  }
+
+  const notes = [...(backup.notes ?? backup.comments ?? [])]
+    .filter((note) => !note.is_deleted)
+    .sort((a, b) => (Date.parse(a.posted_at ?? '') || 0) - (Date.parse(b.posted_at ?? '') || 0));
+  for (const note of notes) {
+    const itemId = note.item_id ?? note.task_id;
+    const owner = itemId != null ? itemsById.get(String(itemId)) : undefined;
+    const task = owner ? tasksById.get(String(rootOf(owner).id)) : undefined;
+    if (!task) {
+      result.skipped.push({ item: `Comment "${(note.content || '').slice(0, 40)}"`, reason: 'Its task is not in the export' });
+      continue;
+    }
+    if (note.file_attachment) {
+      addAttachment(task, note.file_attachment, baseDir, result);
+    }
+    if (note.content?.trim()) {
+      const postedAt = note.posted_at ? Date.parse(note.posted_at) : NaN;
+      task.notes.push({ content: note.content.trim(), created_at: Number.isNaN(postedAt) ? null : postedAt });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,165 @@
+// Trello board JSON export (Board menu > Print, export and share > Export as JSON)
+import { emptyTask, parseDay, resolveLocalAttachment, type ImportedTask, type ParsedImport } from './shared';
+
+interface TrelloList {
+  id: string;
+  name: string;
+  closed?: boolean;
+}
+
+interface TrelloLabel {
+  name?: string;
+  color?: string | null;
+}
+
+interface TrelloAttachment {
+  name?: string;
+  url?: string;
+}
+
+interface TrelloCard {
+  id: string;
+  name: string;
+  desc?: string;
+  idList: string;
+  closed?: boolean;
+  due?: string | null;
+  start?: string | null;
+  dueComplete?: boolean;
+  labels?: TrelloLabel[];
+  attachments?: TrelloAttachment[];
+}
+
+interface TrelloChecklist {
+  idCard: string;
+  name: string;
+  checkItems?: { name: string; state: string; pos?: number }[];
+}
+
+interface TrelloAction {
+  type: string;
+  date?: string;
+  data?: { text?: string; card?: { id?: string } };
+  memberCreator?: { fullName?: string };
+}
+
+interface TrelloBoard {
+  name: string;
+  lists: TrelloList[];
+  cards: TrelloCard[];
+  checklists?: TrelloChecklist[];
+  actions?: TrelloAction[];
+}
+
+// Trello's JSON export stops at the most recent 1000 actions
+const ACTION_LIMIT = 1000;
+const DONE_LIST = /^(done|complete|completed|finished)$/i;
+const HIGH_LABEL = /^(high|urgent|critical|important|p1)$/i;
+const LOW_LABEL = /^(low|someday|p4)$/i;
+
+export function isTrelloBoard(data: unknown): data is TrelloBoard {
+  const board = data as TrelloBoard | null;
+  return !!board && typeof board === 'object' && Array.isArray(board.cards) && Array.isArray(board.lists);
+}
+
+// Cards become tasks in a project named after the board. Lists and labels become tags,
+// and labels named like a priority set it; cards in a "Done" list or marked complete are done.
+export function parseTrello(board: TrelloBoard, baseDir: string): ParsedImport {
+  const result: ParsedImport = { tasks: [], skipped: [] };
+  const lists = new Map(board.lists.map((list) => [list.id, list]));
+  const tasksByCard = new Map<string, ImportedTask>();
+
+  for (const card of board.cards) {
+    const title = (card.name || '').trim();
+    if (!title) {
+      result.skipped.push({ item: `Card ${card.id}`, reason: 'Card has no title' });
+      continue;
+    }
+    const list = lists.get(card.idList);
+    const task = emptyTask(title);
+    task.project = board.name?.trim() || null;
+    task.summary = (card.desc || '').trim();
+    if (list) {
+      task.tags.push(list.name);
+    }
+
+    for (const label of card.labels || []) {
+      const name = (label.name || '').trim() || label.color;
+      if (!name) continue;
+      if (HIGH_LABEL.test(name)) task.priority = 'HIGH';
+      else if (LOW_LABEL.test(name) && task.priority !== 'HIGH') task.priority = 'LOW';
+      task.tags.push(name);
+    }
+
+    if (card.closed || list?.closed) {
+      task.status = 'ARCHIVED';
+    } else if (card.dueComplete || (list && DONE_LIST.test(list.name))) {
+      task.status = 'DONE';
+    }
+
+    if (card.due) {
+      task.due_at = parseDay(card.due);
+    }
+    if (card.start) {
+      task.start_at = parseDay(card.start);
+    }
+    if (task.start_at !== null && task.due_at !== null && task.start_at > task.due_at) {
+      result.skipped.push({ item: `Start date of "${title}"`, reason: 'Start date is after the due date' });
+      task.start_at = null;
+    }
+
+    for (const attachment of card.attachments || []) {
+      const name = attachment.name || attachment.url || 'attachment';
+      // Files downloaded next to the export are picked up by name
+      const local = (attachment.url && resolveLocalAttachment(attachment.url, baseDir)) ||
+        (attachment.name && resolveLocalAttachment(attachment.name, baseDir)) || null;
+      if (local) {
+        task.attachments.push(local);
+      } else {
+        // Uploaded files are only linked from the export and need a Trello login to download
+        task.notes.push({ content: `Attachment: ${name}${attachment.url ? ` (${attachment.url})` : ''}`, created_at: null });
+        result.skipped.push({ item: `Attachment "${name}" on "${title}"`, reason: 'Not included in the export; kept as a link in a note' });
+      }
+    }
+
+    tasksByCard.set(card.id, task);
+    result.tasks.push(task);
+  }
+
+  // Several checklists on one card are flattened, prefixed with their checklist's name
+  const checklistCounts = new Map<string, number>();
+  for (const checklist of board.checklists || []) {
+    checklistCounts.set(checklist.idCard, (checklistCounts.get(checklist.idCard) || 0) + 1);
+  }
+  for (const checklist of board.checklists || []) {
+    const task = tasksByCard.get(checklist.idCard);
+    if (!task) continue;
+    const items = [...(checklist.checkItems || [])].sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0));
+    for (const item of items) {
+      const prefix = (checklistCounts.get(checklist.idCard) || 0) > 1 ? `${checklist.name}: ` : '';
+      task.checklist.push({ title: `${prefix}${item.name}`, done: item.state === 'complete' });
+    }
+  }
+
+  // Actions are newest first; comments go on the timeline oldest first
+  const actions = board.actions || [];
+  for (const action of [...actions].reverse()) {
+    if (action.type !== 'commentCard' || !action.data?.text) continue;
+    const task = action.data.card?.id ? tasksByCard.get(action.data.card.id) : undefined;
+    if (!task) continue;
+    const author = action.memberCreator?.fullName;
+    const createdAt = action.date ? Date.parse(action.date) : NaN;
+    task.notes.push({
+      content: author ? `${author}: ${action.data.text}` : action.data.text,
+      created_at: Number.isNaN(createdAt) ? null : createdAt,
+    });
+  }
+  if (actions.length >= ACTION_LIMIT) {
+    result.skipped.push({
+      item: 'Older comments',
+      reason: `Trello exports only the latest ${ACTION_LIMIT} actions, so older comments may be missing`,
+    });
+  }
+
+  return result;
+}
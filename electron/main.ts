@@ -1,9 +1,9 @@
 // Main process entry point for TaskVault Electron application
-import { app, BrowserWindow, ipcMain, dialog, Menu } from 'electron';
+import { app, BrowserWindow, ipcMain, dialog, Menu, shell } from 'electron';
 import { EventEmitter } from 'events';
 import { join } from 'path';
-import { existsSync, readFileSync } from 'fs';
-import { initDatabase, getDatabase } from './db/client';
+import { existsSync } from 'fs';
+import { initDatabase } from './db/client';
 import { 
   getTasks, 
   getTaskById, 
@@ -11,21 +11,112 @@ import {
   updateTask, 
   addTimelineEntry,
   updateTimelineEntry,
-  deleteTimelineEntry,
   searchTasks,
   cleanupExpiredTasks,
-  deleteTask
+  getSavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  type TaskSortMode,
+  type ChecklistChange
 } from './db/queries';
-import { timelineEntries } from './db/schema';
-import { eq } from 'drizzle-orm';
-import { processFileAttachment, processImagePaste, getAttachmentAbsolutePath, openAttachment, revealAttachment, copyAttachmentPath } from './file-handler';
+import {
+  getTags,
+  createTag,
+  renameTag,
+  mergeTags,
+  deleteTag,
+  getProjects,
+  createProject,
+  renameProject,
+  mergeProjects,
+  deleteProject,
+} from './db/tags';
+import { getRemindersForTask, createReminder, snoozeReminder, deleteReminder } from './db/reminders';
+import {
+  getChecklistItems,
+  getChecklistProgress,
+  addChecklistItem,
+  renameChecklistItem,
+  setChecklistItemChecked,
+  reorderChecklistItems,
+  deleteChecklistItem,
+} from './db/checklists';
+import { spawnNextOccurrence, getRecurrenceHistory } from './db/recurrence';
+import {
+  getTaskDependencies,
+  getDependentTaskIds,
+  getOpenBlockerTitles,
+  addTaskDependency,
+  removeTaskDependency,
+  syncBlockedStatus,
+  syncDependents,
+} from './db/dependencies';
+import { migrateLegacyAttachments, backfillAttachmentMetadata, setAttachmentCaption } from './db/attachments';
+import { registerAttachmentScheme, handleAttachmentProtocol } from './attachment-protocol';
+import { resolveAttachmentPath, AttachmentPathError } from './attachment-paths';
+import { getAttachmentPreview } from './attachment-preview';
+import {
+  processFileAttachment,
+  processImagePaste,
+  openAttachment,
+  revealAttachment,
+  copyAttachmentPath,
+  clearOpenedCopies,
+} from './file-handler';
 import { updateGamification, checkNecromancerBonus } from './gamification';
+import { deliverDueReminders } from './reminder-scheduler';
+import {
+  startAttachmentIndexer,
+  queueAttachmentText,
+  queueAllPendingAttachments,
+  stopAttachmentIndexer,
+} from './attachment-indexer';
+import {
+  getBackupSettings,
+  updateBackupSettings,
+  listSnapshots,
+  createSnapshot,
+  pruneSnapshots,
+  isSnapshotDue,
+  restoreSnapshot,
+  getDeletedTasksInSnapshot,
+  restoreTaskFromSnapshot,
+  type BackupSettings,
+} from './db/snapshots';
+import {
+  trashTask,
+  trashTimelineEntry,
+  getTrashItems,
+  restoreTrashItem,
+  purgeTrashItem,
+  emptyTrash,
+  getTrashSettings,
+  updateTrashSettings,
+  type TrashSettings,
+} from './db/trash';
+import { getArchiveSettings, updateArchiveSettings, getArchiveExportDir, type ArchiveSettings } from './db/archive';
+import { exportVault, inspectVaultExport, importVault, type VaultImportMode } from './db/vault-export';
+import { fileTimestamp } from './db/backups';
+import { exportTasksToMarkdown } from './markdown-export';
+import { exportTasksToCsv, inspectCsvFile, previewCsvImport, importCsv, type CsvColumnMapping } from './task-csv';
+import { inspectAppImport, importFromApp } from './importers';
+import { exportDossier } from './dossier';
 
 let mainWindow: BrowserWindow | null = null;
 let cleanupInterval: NodeJS.Timeout | null = null;
+let reminderInterval: NodeJS.Timeout | null = null;
+let backupInterval: NodeJS.Timeout | null = null;
+
+const REMINDER_CHECK_INTERVAL_MS = 30 * 1000;
+// Snapshots are daily; checking hourly catches up soon after the machine wakes
+const BACKUP_CHECK_INTERVAL_MS = 60 * 60 * 1000;
 
 const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
 
+// Custom schemes have to be declared before the app is ready
+registerAttachmentScheme();
+
 // Centralized EventEmitter for data updates
 const dataUpdateEmitter = new EventEmitter();
 
@@ -40,6 +131,81 @@ function emitDataUpdated(payload?: { reason: string; taskId?: string }) {
   }
 }
 
+// Handlers for attachment paths from the renderer. Electron only carries the message of a thrown
+// error over IPC, so path errors are returned as { error: { code, message } } instead and the
+// preload rejects with them; anything else still throws.
+function handleAttachment<Args extends unknown[], Result>(channel: string, handler: (...args: Args) => Result | Promise<Result>) {
+  ipcMain.handle(channel, async (_event, ...args: unknown[]) => {
+    try {
+      return { value: await handler(...(args as Args)) };
+    } catch (error) {
+      if (error instanceof AttachmentPathError) {
+        return { error: { code: error.code, message: error.message } };
+      }
+      throw error;
+    }
+  });
+}
+
+// Bring the window forward and open a task (null just shows the window)
+function focusTask(taskId: string | null) {
+  if (!mainWindow || mainWindow.isDestroyed()) {
+    createWindow();
+    if (taskId) {
+      mainWindow!.webContents.once('did-finish-load', () => {
+        mainWindow?.webContents.send('open-task', taskId);
+      });
+    }
+    return;
+  }
+  if (mainWindow.isMinimized()) {
+    mainWindow.restore();
+  }
+  mainWindow.show();
+  mainWindow.focus();
+  if (taskId) {
+    mainWindow.webContents.send('open-task', taskId);
+  }
+}
+
+// Re-evaluate tasks blocked by taskId after its status changed
+async function emitDependentsSynced(taskId: string) {
+  const changed = await syncDependents(taskId);
+  for (const dependentId of changed) {
+    emitDataUpdated({ reason: 'dependency_status_synced', taskId: dependentId });
+  }
+}
+
+async function runCleanup() {
+  const trashed = await cleanupExpiredTasks();
+  for (const taskId of trashed) {
+    emitDataUpdated({ reason: 'task_deleted', taskId });
+  }
+}
+
+async function checkReminders() {
+  try {
+    const delivered = await deliverDueReminders(focusTask);
+    for (const reminder of delivered) {
+      emitDataUpdated({ reason: 'reminder_fired', taskId: reminder.task_id });
+    }
+  } catch (error) {
+    console.error('Failed to deliver reminders:', error);
+  }
+}
+
+async function checkBackups() {
+  try {
+    if (await isSnapshotDue()) {
+      await createSnapshot('scheduled');
+      await pruneSnapshots();
+      emitDataUpdated({ reason: 'backup_created' });
+    }
+  } catch (error) {
+    console.error('Scheduled backup failed:', error);
+  }
+}
+
 function createWindow() {
   // Use absolute path for preload script
   const preloadPath = join(__dirname, 'preload.js');
@@ -61,6 +227,8 @@ function createWindow() {
       contextIsolation: true,
       nodeIntegration: false,
       webSecurity: true,
+      // Chromium's built-in PDF viewer, used for attachment previews
+      plugins: true,
     },
     backgroundColor: '#111827',
     frame: process.platform === 'win32' ? false : true,
@@ -183,15 +351,48 @@ function createWindow() {
 }
 
 app.whenReady().then(async () => {
-  await initDatabase();
+  // Required for native notifications on Windows
+  app.setAppUserModelId('com.taskvault.app');
+  try {
+    await initDatabase();
+  } catch (error) {
+    // Opening the vault failed (e.g. it was written by a newer TaskVault); don't touch it further
+    console.error('Failed to open database:', error);
+    dialog.showErrorBox(
+      'TaskVault cannot open this vault',
+      error instanceof Error ? error.message : String(error)
+    );
+    app.quit();
+    return;
+  }
+  try {
+    // One-off for vaults from before blob storage; a no-op once it has run
+    migrateLegacyAttachments();
+    backfillAttachmentMetadata();
+  } catch (error) {
+    console.error('Failed to migrate attachments:', error);
+  }
+  handleAttachmentProtocol();
+  clearOpenedCopies();
   createWindow();
-  await cleanupExpiredTasks();
+  await runCleanup();
+  // Deliver reminders that came due while the app was closed
+  await checkReminders();
   
   // Schedule cleanup every 24 hours
   cleanupInterval = setInterval(async () => {
-    await cleanupExpiredTasks();
+    await runCleanup();
   }, 24 * 60 * 60 * 1000);
 
+  reminderInterval = setInterval(checkReminders, REMINDER_CHECK_INTERVAL_MS);
+
+  // Not awaited: copying attachments can take a while and shouldn't hold up startup
+  checkBackups();
+  backupInterval = setInterval(checkBackups, BACKUP_CHECK_INTERVAL_MS);
+
+  // Extract text from attachments in the background so their content becomes searchable
+  startAttachmentIndexer(() => emitDataUpdated({ reason: 'attachment_text_extracted' }));
+
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
       createWindow();
@@ -199,25 +400,43 @@ app.whenReady().then(async () => {
   });
 });
 
+app.on('will-quit', () => {
+  stopAttachmentIndexer();
+});
+
 app.on('window-all-closed', () => {
   if (cleanupInterval) {
     clearInterval(cleanupInterval);
   }
+  if (reminderInterval) {
+    clearInterval(reminderInterval);
+  }
+  if (backupInterval) {
+    clearInterval(backupInterval);
+  }
   if (process.platform !== 'darwin') {
     app.quit();
   }
 });
 
 // IPC Handlers
-ipcMain.handle('getTasks', async () => {
-  return getTasks();
+ipcMain.handle('getTasks', async (_event, sort?: TaskSortMode) => {
+  return getTasks(sort);
 });
 
 ipcMain.handle('getTaskById', async (_event, id: string) => {
   return getTaskById(id);
 });
 
-ipcMain.handle('createTask', async (_event, payload: { title: string; priority: string }) => {
+ipcMain.handle('createTask', async (_event, payload: {
+  title: string;
+  priority: string;
+  project_id?: string | null;
+  tags?: string[];
+  due_at?: number | null;
+  start_at?: number | null;
+  recurrence_rule?: string | null;
+}) => {
   const task = await createTask(payload);
   await updateGamification('create_task');
   emitDataUpdated({ reason: 'task_created', taskId: task.id });
@@ -230,9 +449,27 @@ ipcMain.handle('updateTask', async (_event, payload: {
   status?: string;
   priority?: string;
   pinned_summary?: string;
+  project_id?: string | null;
+  tags?: string[];
+  due_at?: number | null;
+  start_at?: number | null;
+  recurrence_rule?: string | null;
   updateTouched?: boolean;
+  reason?: string;
 }) => {
+  if (payload.status === 'DONE') {
+    const openBlockers = await getOpenBlockerTitles(payload.id);
+    if (openBlockers.length > 0) {
+      const names = openBlockers.map((title) => `"${title}"`).join(', ');
+      throw new Error(`This task is still blocked by ${names}`);
+    }
+  }
   const task = await updateTask(payload);
+  // Reopening a task with open blockers puts it straight back to BLOCKED. Setting BLOCKED by
+  // hand is left alone, even without blockers.
+  if (payload.status !== undefined && payload.status !== 'BLOCKED') {
+    await syncBlockedStatus(payload.id);
+  }
   if (payload.status === 'DONE') {
     await updateGamification('complete_task');
   }
@@ -241,9 +478,22 @@ ipcMain.handle('updateTask', async (_event, payload: {
     await checkNecromancerBonus(payload.id);
   }
   emitDataUpdated({ reason: 'task_updated', taskId: payload.id });
+  if (payload.status !== undefined) {
+    await emitDependentsSynced(payload.id);
+  }
+  if (payload.status === 'DONE') {
+    const next = await spawnNextOccurrence(payload.id);
+    if (next) {
+      emitDataUpdated({ reason: 'recurrence_spawned', taskId: next.id });
+    }
+  }
   return task;
 });
 
+ipcMain.handle('getRecurrenceHistory', async (_event, taskId: string) => {
+  return getRecurrenceHistory(taskId);
+});
+
 ipcMain.handle('addTimelineEntry', async (_event, payload: {
   taskId: string;
   type: 'NOTE' | 'IMAGE' | 'FILE' | 'STATUS' | 'GAMIFY';
@@ -277,29 +527,17 @@ ipcMain.handle('updateTimelineEntry', async (_event, entryId: string, content: s
 });
 
 ipcMain.handle('deleteTimelineEntry', async (_event, entryId: string) => {
-  // Get entry first to know which task it belongs to
-  const db = getDatabase();
-  const entry = await db
-    .select()
-    .from(timelineEntries)
-    .where(eq(timelineEntries.id, entryId))
-    .limit(1);
-  
-  if (entry.length === 0) {
-    return false;
+  const result = await trashTimelineEntry(entryId);
+  if (!result) {
+    return null;
   }
-  
-  const taskId = entry[0].task_id;
-  const success = await deleteTimelineEntry(entryId);
-  
-  if (success) {
-    // Update task's touched time when a timeline entry is deleted (context update)
-    await updateTask({ id: taskId, updateTouched: true });
-    await checkNecromancerBonus(taskId);
-    emitDataUpdated({ reason: 'timeline_entry_deleted', taskId });
-  }
-  
-  return success;
+
+  // Update task's touched time when a timeline entry is deleted (context update)
+  await updateTask({ id: result.taskId, updateTouched: true });
+  await checkNecromancerBonus(result.taskId);
+  emitDataUpdated({ reason: 'timeline_entry_deleted', taskId: result.taskId });
+  // The trash id lets the renderer offer an undo
+  return result.trashId;
 });
 
 ipcMain.handle('attachFile', async (_event, taskId: string, filePath: string) => {
@@ -313,12 +551,13 @@ ipcMain.handle('attachFile', async (_event, taskId: string, filePath: string) =>
   await updateGamification('add_content');
   await checkNecromancerBonus(taskId);
   emitDataUpdated({ reason: 'file_attached', taskId });
+  queueAttachmentText([relativePath]);
   return relativePath;
 });
 
-ipcMain.handle('pasteImage', async (_event, taskId: string, imageBuffer: Uint8Array) => {
+ipcMain.handle('pasteImage', async (_event, taskId: string, imageBuffer: Uint8Array, fileName?: string) => {
   const buffer = Buffer.from(imageBuffer);
-  const relativePath = await processImagePaste(taskId, buffer);
+  const relativePath = await processImagePaste(taskId, buffer, fileName);
   await addTimelineEntry({
     taskId,
     type: 'IMAGE',
@@ -328,11 +567,218 @@ ipcMain.handle('pasteImage', async (_event, taskId: string, imageBuffer: Uint8Ar
   await updateGamification('add_content');
   await checkNecromancerBonus(taskId);
   emitDataUpdated({ reason: 'image_pasted', taskId });
+  queueAttachmentText([relativePath]);
   return relativePath;
 });
 
-ipcMain.handle('searchTasks', async (_event, query: string) => {
-  return searchTasks(query);
+ipcMain.handle('searchTasks', async (_event, query: string, sort?: TaskSortMode) => {
+  return searchTasks(query, sort);
+});
+
+ipcMain.handle('getSavedSearches', async () => {
+  return getSavedSearches();
+});
+
+ipcMain.handle('createSavedSearch', async (_event, payload: { name: string; query: string; sort?: string; icon?: string }) => {
+  const savedSearch = await createSavedSearch(payload);
+  emitDataUpdated({ reason: 'saved_search_created' });
+  return savedSearch;
+});
+
+ipcMain.handle('updateSavedSearch', async (_event, payload: {
+  id: string;
+  name?: string;
+  query?: string;
+  sort?: string;
+  icon?: string;
+  position?: number;
+}) => {
+  const savedSearch = await updateSavedSearch(payload);
+  emitDataUpdated({ reason: 'saved_search_updated' });
+  return savedSearch;
+});
+
+ipcMain.handle('deleteSavedSearch', async (_event, id: string) => {
+  const success = await deleteSavedSearch(id);
+  if (success) {
+    emitDataUpdated({ reason: 'saved_search_deleted' });
+  }
+  return success;
+});
+
+ipcMain.handle('getTags', async () => {
+  return getTags();
+});
+
+ipcMain.handle('createTag', async (_event, name: string) => {
+  const tag = await createTag(name);
+  emitDataUpdated({ reason: 'tag_created' });
+  return tag;
+});
+
+ipcMain.handle('renameTag', async (_event, id: string, name: string) => {
+  const tag = await renameTag(id, name);
+  emitDataUpdated({ reason: 'tag_renamed' });
+  return tag;
+});
+
+ipcMain.handle('mergeTags', async (_event, sourceId: string, targetId: string) => {
+  const success = await mergeTags(sourceId, targetId);
+  if (success) {
+    emitDataUpdated({ reason: 'tags_merged' });
+  }
+  return success;
+});
+
+ipcMain.handle('deleteTag', async (_event, id: string) => {
+  const success = await deleteTag(id);
+  if (success) {
+    emitDataUpdated({ reason: 'tag_deleted' });
+  }
+  return success;
+});
+
+ipcMain.handle('setTaskTags', async (_event, taskId: string, names: string[]) => {
+  await updateTask({ id: taskId, tags: names });
+  emitDataUpdated({ reason: 'task_updated', taskId });
+  return true;
+});
+
+ipcMain.handle('getProjects', async () => {
+  return getProjects();
+});
+
+ipcMain.handle('createProject', async (_event, name: string) => {
+  const project = await createProject(name);
+  emitDataUpdated({ reason: 'project_created' });
+  return project;
+});
+
+ipcMain.handle('renameProject', async (_event, id: string, name: string) => {
+  const project = await renameProject(id, name);
+  emitDataUpdated({ reason: 'project_renamed' });
+  return project;
+});
+
+ipcMain.handle('mergeProjects', async (_event, sourceId: string, targetId: string) => {
+  const success = await mergeProjects(sourceId, targetId);
+  if (success) {
+    emitDataUpdated({ reason: 'projects_merged' });
+  }
+  return success;
+});
+
+ipcMain.handle('deleteProject', async (_event, id: string) => {
+  const success = await deleteProject(id);
+  if (success) {
+    emitDataUpdated({ reason: 'project_deleted' });
+  }
+  return success;
+});
+
+ipcMain.handle('getTaskDependencies', async (_event, taskId: string) => {
+  return getTaskDependencies(taskId);
+});
+
+ipcMain.handle('addTaskDependency', async (_event, taskId: string, blockedById: string) => {
+  await addTaskDependency(taskId, blockedById);
+  await syncBlockedStatus(taskId);
+  emitDataUpdated({ reason: 'dependency_added', taskId });
+  return getTaskDependencies(taskId);
+});
+
+ipcMain.handle('removeTaskDependency', async (_event, taskId: string, blockedById: string) => {
+  const removed = await removeTaskDependency(taskId, blockedById);
+  if (removed) {
+    await syncBlockedStatus(taskId);
+    emitDataUpdated({ reason: 'dependency_removed', taskId });
+  }
+  return removed;
+});
+
+ipcMain.handle('getChecklistItems', async (_event, taskId: string) => {
+  return getChecklistItems(taskId);
+});
+
+ipcMain.handle('addChecklistItem', async (_event, taskId: string, title: string) => {
+  const item = await addChecklistItem(taskId, title);
+  await updateTask({ id: taskId, updateTouched: true });
+  emitDataUpdated({ reason: 'checklist_item_added', taskId });
+  return item;
+});
+
+ipcMain.handle('renameChecklistItem', async (_event, id: string, title: string) => {
+  const item = await renameChecklistItem(id, title);
+  if (item) {
+    emitDataUpdated({ reason: 'checklist_item_updated', taskId: item.task_id });
+  }
+  return item;
+});
+
+ipcMain.handle('setChecklistItemChecked', async (_event, id: string, checked: boolean) => {
+  const result = await setChecklistItemChecked(id, checked);
+  if (!result) return null;
+
+  const { item, awardXp } = result;
+  if (checked) {
+    // Record the check in the timeline (this also touches the task)
+    const progress = await getChecklistProgress(item.task_id);
+    const change: ChecklistChange = { field: 'checklist', item: item.title, ...progress };
+    await addTimelineEntry({ taskId: item.task_id, type: 'STATUS', content: JSON.stringify(change) });
+    await checkNecromancerBonus(item.task_id);
+  } else {
+    await updateTask({ id: item.task_id, updateTouched: true });
+  }
+  if (awardXp) {
+    await updateGamification('check_item');
+  }
+
+  emitDataUpdated({ reason: 'checklist_item_updated', taskId: item.task_id });
+  return item;
+});
+
+ipcMain.handle('reorderChecklistItems', async (_event, taskId: string, orderedIds: string[]) => {
+  const items = await reorderChecklistItems(taskId, orderedIds);
+  emitDataUpdated({ reason: 'checklist_reordered', taskId });
+  return items;
+});
+
+ipcMain.handle('deleteChecklistItem', async (_event, id: string) => {
+  const item = await deleteChecklistItem(id);
+  if (item) {
+    emitDataUpdated({ reason: 'checklist_item_deleted', taskId: item.task_id });
+  }
+  return item !== null;
+});
+
+ipcMain.handle('getReminders', async (_event, taskId: string) => {
+  return getRemindersForTask(taskId);
+});
+
+ipcMain.handle('createReminder', async (_event, payload: { taskId: string; remindAt: number; note?: string }) => {
+  const reminder = await createReminder(payload);
+  emitDataUpdated({ reason: 'reminder_created', taskId: payload.taskId });
+  // A reminder set in the past should fire now rather than on the next tick
+  if (reminder.remind_at <= Date.now()) {
+    await checkReminders();
+  }
+  return reminder;
+});
+
+ipcMain.handle('snoozeReminder', async (_event, id: string, remindAt: number) => {
+  const reminder = await snoozeReminder(id, remindAt);
+  if (reminder) {
+    emitDataUpdated({ reason: 'reminder_snoozed', taskId: reminder.task_id });
+  }
+  return reminder;
+});
+
+ipcMain.handle('deleteReminder', async (_event, id: string) => {
+  const reminder = await deleteReminder(id);
+  if (reminder) {
+    emitDataUpdated({ reason: 'reminder_deleted', taskId: reminder.task_id });
+  }
+  return reminder !== null;
 });
 
 ipcMain.handle('getGamification', async () => {
@@ -340,8 +786,11 @@ ipcMain.handle('getGamification', async () => {
   return getGamification();
 });
 
-ipcMain.handle('getAttachmentPath', async (_event, relativePath: string) => {
-  return getAttachmentAbsolutePath(relativePath);
+handleAttachment('setAttachmentCaption', async (relativePath: string, caption: string) => {
+  const { path } = resolveAttachmentPath(relativePath, { mustExist: false });
+  const stored = setAttachmentCaption(path, typeof caption === 'string' ? caption : '');
+  emitDataUpdated({ reason: 'attachment_captioned', taskId: path.split('/')[0] });
+  return stored;
 });
 
 // checkNecromancerBonus is now automatically called in handlers, but keep for backward compatibility
@@ -356,46 +805,283 @@ ipcMain.handle('showFilePicker', async () => {
   return result.canceled ? [] : result.filePaths;
 });
 
-ipcMain.handle('openAttachment', async (_event, relativePath: string) => {
+ipcMain.handle('getBackupSettings', async () => {
+  return getBackupSettings();
+});
+
+ipcMain.handle('updateBackupSettings', async (_event, patch: Partial<BackupSettings>) => {
+  const settings = await updateBackupSettings(patch);
+  emitDataUpdated({ reason: 'backup_settings_updated' });
+  return settings;
+});
+
+ipcMain.handle('chooseBackupFolder', async () => {
+  const result = await dialog.showOpenDialog({
+    title: 'Choose backup folder',
+    properties: ['openDirectory', 'createDirectory'],
+  });
+  return result.canceled ? null : result.filePaths[0];
+});
+
+ipcMain.handle('listSnapshots', async () => {
+  return listSnapshots();
+});
+
+ipcMain.handle('createSnapshot', async () => {
+  const snapshot = await createSnapshot('manual');
+  await pruneSnapshots();
+  emitDataUpdated({ reason: 'backup_created' });
+  return snapshot;
+});
+
+ipcMain.handle('restoreSnapshot', async (_event, id: string) => {
+  await restoreSnapshot(id);
+  queueAllPendingAttachments();
+  // Every view may hold stale data, so start the renderer fresh
+  mainWindow?.reload();
+  return true;
+});
+
+ipcMain.handle('getDeletedTasksInSnapshot', async (_event, id: string) => {
+  return getDeletedTasksInSnapshot(id);
+});
+
+ipcMain.handle('restoreTaskFromSnapshot', async (_event, id: string, taskId: string) => {
+  await restoreTaskFromSnapshot(id, taskId);
+  queueAllPendingAttachments();
+  await syncBlockedStatus(taskId);
+  emitDataUpdated({ reason: 'task_restored', taskId });
+  return true;
+});
+
+handleAttachment('openAttachment', async (relativePath: string) => {
   await openAttachment(relativePath);
 });
 
-ipcMain.handle('revealAttachment', async (_event, relativePath: string) => {
+handleAttachment('getAttachmentPreview', async (relativePath: string) => {
+  return getAttachmentPreview(relativePath);
+});
+
+handleAttachment('revealAttachment', async (relativePath: string) => {
   await revealAttachment(relativePath);
 });
 
-ipcMain.handle('copyAttachmentPath', async (_event, relativePath: string) => {
+handleAttachment('copyAttachmentPath', async (relativePath: string) => {
   await copyAttachmentPath(relativePath);
 });
 
 ipcMain.handle('deleteTask', async (_event, taskId: string) => {
-  const result = await deleteTask(taskId);
-  if (result.success) {
-    // If task was incomplete, subtract XP
-    if (result.wasIncomplete) {
-      await updateGamification('delete_incomplete_task');
+  // Dependency rows cascade away with the task, so collect dependents first
+  const dependentIds = await getDependentTaskIds(taskId);
+  const result = await trashTask(taskId);
+  if (!result) {
+    return null;
+  }
+  // If task was incomplete, subtract XP
+  if (result.wasIncomplete) {
+    await updateGamification('delete_incomplete_task');
+  }
+  emitDataUpdated({ reason: 'task_deleted', taskId });
+  for (const dependentId of dependentIds) {
+    if (await syncBlockedStatus(dependentId)) {
+      emitDataUpdated({ reason: 'dependency_status_synced', taskId: dependentId });
     }
-    emitDataUpdated({ reason: 'task_deleted', taskId });
   }
-  return result.success;
+  return result.trashId;
 });
 
-// Get image as data URL (base64) for secure loading
-ipcMain.handle('getImageDataUrl', async (_event, relativePath: string) => {
-  const absolutePath = getAttachmentAbsolutePath(relativePath);
-  if (existsSync(absolutePath)) {
-    try {
-      const imageBuffer = readFileSync(absolutePath);
-      const base64 = imageBuffer.toString('base64');
-      const ext = relativePath.split('.').pop()?.toLowerCase() || 'png';
-      const mimeType = ext === 'png' ? 'image/png' : ext === 'jpg' || ext === 'jpeg' ? 'image/jpeg' : ext === 'gif' ? 'image/gif' : 'image/png';
-      return `data:${mimeType};base64,${base64}`;
-    } catch (error) {
-      console.error('Failed to read image:', error);
-      return null;
+ipcMain.handle('getTrashItems', async () => {
+  return getTrashItems();
+});
+
+ipcMain.handle('restoreTrashItem', async (_event, id: string) => {
+  const result = await restoreTrashItem(id);
+  if (result.kind === 'TASK') {
+    if (result.wasIncomplete) {
+      await updateGamification('restore_incomplete_task');
     }
+    await syncBlockedStatus(result.taskId);
+    emitDataUpdated({ reason: 'task_restored', taskId: result.taskId });
+    await emitDependentsSynced(result.taskId);
+  } else {
+    await updateTask({ id: result.taskId, updateTouched: true });
+    emitDataUpdated({ reason: 'timeline_entry_restored', taskId: result.taskId });
+  }
+  return result;
+});
+
+ipcMain.handle('purgeTrashItem', async (_event, id: string) => {
+  const success = await purgeTrashItem(id);
+  emitDataUpdated({ reason: 'trash_purged' });
+  return success;
+});
+
+ipcMain.handle('emptyTrash', async () => {
+  const count = await emptyTrash();
+  emitDataUpdated({ reason: 'trash_purged' });
+  return count;
+});
+
+ipcMain.handle('getTrashSettings', async () => {
+  return getTrashSettings();
+});
+
+ipcMain.handle('updateTrashSettings', async (_event, patch: Partial<TrashSettings>) => {
+  const settings = await updateTrashSettings(patch);
+  emitDataUpdated({ reason: 'trash_settings_updated' });
+  return settings;
+});
+
+ipcMain.handle('getArchiveSettings', async () => {
+  return getArchiveSettings();
+});
+
+ipcMain.handle('updateArchiveSettings', async (_event, patch: Partial<ArchiveSettings>) => {
+  const settings = await updateArchiveSettings(patch);
+  // Every archived task's cleanup date may have moved
+  emitDataUpdated({ reason: 'archive_settings_updated' });
+  return settings;
+});
+
+ipcMain.handle('unarchiveTask', async (_event, taskId: string) => {
+  const task = await updateTask({ id: taskId, status: 'OPEN', reason: 'Restored from archive' });
+  // Open blockers put it straight back to BLOCKED
+  await syncBlockedStatus(taskId);
+  emitDataUpdated({ reason: 'task_updated', taskId });
+  await emitDependentsSynced(taskId);
+  return task;
+});
+
+ipcMain.handle('openArchiveExports', async () => {
+  await shell.openPath(getArchiveExportDir());
+});
+
+ipcMain.handle('exportVault', async () => {
+  const result = await dialog.showSaveDialog({
+    title: 'Export vault',
+    defaultPath: `taskvault-export-${fileTimestamp()}.zip`,
+    filters: [{ name: 'TaskVault export', extensions: ['zip'] }],
+  });
+  if (result.canceled || !result.filePath) {
+    return null;
+  }
+  const manifest = await exportVault(result.filePath);
+  return { path: result.filePath, manifest };
+});
+
+// Omitting taskIds exports every task
+ipcMain.handle('exportMarkdown', async (_event, taskIds?: string[]) => {
+  const result = await dialog.showOpenDialog({
+    title: taskIds?.length === 1 ? 'Export task to Markdown' : 'Export tasks to Markdown',
+    buttonLabel: 'Export here',
+    properties: ['openDirectory', 'createDirectory'],
+  });
+  if (result.canceled || result.filePaths.length === 0) {
+    return null;
+  }
+  return exportTasksToMarkdown(result.filePaths[0], taskIds);
+});
+
+// Pick a bundle and validate it, so the renderer can preview it before importing
+ipcMain.handle('chooseVaultImport', async () => {
+  const result = await dialog.showOpenDialog({
+    title: 'Import vault',
+    properties: ['openFile'],
+    filters: [{ name: 'TaskVault export', extensions: ['zip'] }],
+  });
+  if (result.canceled || result.filePaths.length === 0) {
+    return null;
+  }
+  const path = result.filePaths[0];
+  return { path, manifest: await inspectVaultExport(path) };
+});
+
+ipcMain.handle('importVault', async (_event, path: string, mode: VaultImportMode) => {
+  if (mode !== 'merge' && mode !== 'replace') {
+    throw new Error(`Invalid import mode: ${mode}. Must be one of: merge, replace`);
+  }
+  const report = await importVault(path, mode);
+  emitDataUpdated({ reason: 'vault_imported' });
+  queueAllPendingAttachments();
+  return report;
+});
+
+// Export the tasks matching a Dashboard query, in its sort order
+ipcMain.handle('exportTasksCsv', async (_event, query: string, sort?: TaskSortMode) => {
+  const result = await dialog.showSaveDialog({
+    title: 'Export tasks to CSV',
+    defaultPath: `taskvault-tasks-${fileTimestamp()}.csv`,
+    filters: [{ name: 'CSV', extensions: ['csv'] }],
+  });
+  if (result.canceled || !result.filePath) {
+    return null;
   }
-  return null;
+  const count = await exportTasksToCsv(result.filePath, query, sort ?? 'default');
+  return { path: result.filePath, count };
+});
+
+// Pick a CSV file and read its header and first rows for the import wizard
+ipcMain.handle('chooseCsvImport', async () => {
+  const result = await dialog.showOpenDialog({
+    title: 'Import tasks from CSV',
+    properties: ['openFile'],
+    filters: [{ name: 'CSV', extensions: ['csv', 'tsv', 'txt'] }],
+  });
+  if (result.canceled || result.filePaths.length === 0) {
+    return null;
+  }
+  return inspectCsvFile(result.filePaths[0]);
+});
+
+ipcMain.handle('previewCsvImport', async (_event, path: string, mapping: CsvColumnMapping) => {
+  return previewCsvImport(path, mapping);
+});
+
+ipcMain.handle('importCsv', async (_event, path: string, mapping: CsvColumnMapping) => {
+  const result = await importCsv(path, mapping);
+  emitDataUpdated({ reason: 'csv_imported' });
+  return result;
+});
+
+// Save a dossier of the given tasks, in order; the chosen file type picks PDF or HTML
+ipcMain.handle('exportDossier', async (_event, taskIds: string[]) => {
+  if (!Array.isArray(taskIds) || taskIds.length === 0) {
+    throw new Error('Choose at least one task for the dossier');
+  }
+  const result = await dialog.showSaveDialog({
+    title: taskIds.length === 1 ? 'Save task dossier' : `Save dossier of ${taskIds.length} tasks`,
+    defaultPath: `taskvault-dossier-${fileTimestamp()}.pdf`,
+    filters: [
+      { name: 'PDF', extensions: ['pdf'] },
+      { name: 'HTML', extensions: ['html'] },
+    ],
+  });
+  if (result.canceled || !result.filePath) {
+    return null;
+  }
+  return exportDossier(result.filePath, taskIds);
+});
+
+// Pick a Trello, Todoist or todo.txt export and parse it, so the renderer can preview it
+ipcMain.handle('chooseAppImport', async () => {
+  const result = await dialog.showOpenDialog({
+    title: 'Import from Trello, Todoist or todo.txt',
+    properties: ['openFile'],
+    filters: [
+      { name: 'Trello, Todoist or todo.txt export', extensions: ['json', 'csv', 'txt'] },
+    ],
+  });
+  if (result.canceled || result.filePaths.length === 0) {
+    return null;
+  }
+  return inspectAppImport(result.filePaths[0]);
+});
+
+ipcMain.handle('importFromApp', async (_event, path: string) => {
+  const report = await importFromApp(path);
+  emitDataUpdated({ reason: 'app_imported' });
+  queueAllPendingAttachments();
+  return report;
 });
 
 // Window control IPC handlers for custom title bar
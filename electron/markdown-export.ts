@@ -0,0 +1,161 @@
+// Markdown export of tasks (Obsidian-compatible: YAML front-matter, relative attachment links)
+import { join } from 'path';
+import { copyFileSync, existsSync, mkdirSync, writeFileSync } from 'fs';
+import { getTasks, getTaskById, type TaskWithMeta, type StatusChange, type ChecklistChange } from './db/queries';
+import { getChecklistItems } from './db/checklists';
+import { getAttachmentAbsolutePath } from './file-handler';
+import type { TimelineEntry } from './db/schema';
+
+export interface MarkdownExportResult {
+  folder: string;
+  files: string[];
+  attachments: number;
+}
+
+const ATTACHMENTS_DIR = 'attachments';
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function formatDay(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatMinute(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${formatDay(timestamp)} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// Task titles become file names, so drop characters Windows, macOS or Obsidian links can't take
+function toFileBaseName(title: string): string {
+  const cleaned = title.replace(/[<>:"/\\|?*#^[\]\u0000-\u001f]/g, ' ').replace(/\s+/g, ' ').trim().replace(/\.+$/, '');
+  return cleaned.slice(0, 100).trim() || 'Untitled task';
+}
+
+// Double-quoted YAML scalars share JSON's escaping
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function parseJson<T>(content: string): T | null {
+  try {
+    return JSON.parse(content) as T;
+  } catch {
+    return null;
+  }
+}
+
+function describeEntry(entry: TimelineEntry, linkTo: (entry: TimelineEntry) => string | null): string {
+  switch (entry.type) {
+    case 'NOTE':
+      return entry.content;
+    case 'IMAGE': {
+      const link = linkTo(entry);
+      return link ? `![${entry.content.split('/').pop()}](${link})` : `Image (missing): ${entry.content}`;
+    }
+    case 'FILE': {
+      const name = entry.content.split('/').pop();
+      const link = linkTo(entry);
+      return link ? `File: [${name}](${link})` : `File (missing): ${name}`;
+    }
+    case 'STATUS': {
+      const change = parseJson<StatusChange | ChecklistChange>(entry.content);
+      if (change?.field === 'checklist') {
+        return `Checked "${change.item}" (${change.done}/${change.total})`;
+      }
+      if (change?.field === 'status' || change?.field === 'priority') {
+        const label = change.field === 'status' ? 'Status' : 'Priority';
+        return `${label}: ${change.from} → ${change.to}${change.reason ? ` (${change.reason})` : ''}`;
+      }
+      return entry.content;
+    }
+    default:
+      return entry.content;
+  }
+}
+
+async function renderTask(
+  task: TaskWithMeta,
+  recurrenceRule: string | null,
+  timeline: TimelineEntry[],
+  linkTo: (entry: TimelineEntry) => string | null
+): Promise<string> {
+  const frontMatter = [
+    '---',
+    `title: ${yamlString(task.title)}`,
+    `status: ${task.status}`,
+    `priority: ${task.priority}`,
+    `created: ${formatDay(task.created_at)}`,
+    `updated: ${formatDay(task.last_touched_at)}`,
+  ];
+  if (task.start_at !== null) frontMatter.push(`start: ${formatDay(task.start_at)}`);
+  if (task.due_at !== null) frontMatter.push(`due: ${formatDay(task.due_at)}`);
+  if (task.archived_at !== null) frontMatter.push(`archived: ${formatDay(task.archived_at)}`);
+  if (task.projectName) frontMatter.push(`project: ${yamlString(task.projectName)}`);
+  if (task.tags.length > 0) {
+    frontMatter.push('tags:', ...task.tags.map((tag) => `  - ${yamlString(tag)}`));
+  }
+  if (recurrenceRule) frontMatter.push(`recurrence: ${yamlString(recurrenceRule)}`);
+  frontMatter.push(`taskvault_id: ${task.id}`, '---');
+
+  const lines = [...frontMatter, '', `# ${task.title}`, ''];
+  if (task.pinned_summary.trim()) {
+    lines.push('> [!summary] Summary', ...task.pinned_summary.trim().split('\n').map((line) => `> ${line}`), '');
+  }
+
+  const checklist = await getChecklistItems(task.id);
+  if (checklist.length > 0) {
+    lines.push('## Checklist', '', ...checklist.map((item) => `- [${item.checked_at !== null ? 'x' : ' '}] ${item.title}`), '');
+  }
+
+  lines.push('## Timeline', '');
+  if (timeline.length === 0) {
+    lines.push('_No entries_');
+  }
+  for (const entry of timeline) {
+    // Continuation lines are indented so multi-line notes stay inside their list item
+    const [first, ...rest] = describeEntry(entry, linkTo).split('\n');
+    lines.push(`- **${formatMinute(entry.created_at)}** ${first}`, ...rest.map((line) => `  ${line}`));
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+// Write one Markdown file per task into `folder`, with attachments copied to
+// attachments/<file name>/ and linked relatively. Exports every task when taskIds is omitted.
+export async function exportTasksToMarkdown(folder: string, taskIds?: string[]): Promise<MarkdownExportResult> {
+  const all = await getTasks('title');
+  const selected = taskIds ? all.filter((task) => taskIds.includes(task.id)) : all;
+  const result: MarkdownExportResult = { folder, files: [], attachments: 0 };
+  const usedNames = new Set<string>();
+
+  mkdirSync(folder, { recursive: true });
+  for (const task of selected) {
+    const detail = await getTaskById(task.id);
+    if (!detail) continue;
+
+    let baseName = toFileBaseName(task.title);
+    for (let n = 2; usedNames.has(baseName.toLowerCase()); n++) {
+      baseName = `${toFileBaseName(task.title)} (${n})`;
+    }
+    usedNames.add(baseName.toLowerCase());
+
+    const linkTo = (entry: TimelineEntry): string | null => {
+      const source = getAttachmentAbsolutePath(entry.content);
+      if (!existsSync(source)) return null;
+      const fileName = entry.content.split('/').pop()!;
+      const targetDir = join(folder, ATTACHMENTS_DIR, baseName);
+      mkdirSync(targetDir, { recursive: true });
+      copyFileSync(source, join(targetDir, fileName));
+      result.attachments++;
+      return encodeURI(`${ATTACHMENTS_DIR}/${baseName}/${fileName}`);
+    };
+
+    const fileName = `${baseName}.md`;
+    writeFileSync(join(folder, fileName), await renderTask(task, detail.task.recurrence_rule, detail.timeline, linkTo), 'utf8');
+    result.files.push(fileName);
+  }
+  return result;
+}
@@ -11,17 +11,80 @@ export interface Task {
   archived_at: number | null;
   delete_after_at: number | null;
   pinned_summary: string;
+  project_id: string | null;
+  // Local midnight of the due/start day, or null
+  due_at: number | null;
+  start_at: number | null;
+  // RRULE subset (e.g. FREQ=WEEKLY;BYDAY=MO), and links to the series' first and previous occurrence
+  recurrence_rule: string | null;
+  recurrence_series_id: string | null;
+  recurrence_parent_id: string | null;
+  projectName: string | null;
+  tags: string[];
   idleAge: number;
   daysOld: number;
   attachmentCount: number;
   imageCount: number;
   fileCount: number;
+  checklistDone: number;
+  checklistTotal: number;
   lastEntryAt: number | null;
   latestEntryContent: string | null;
   latestEntryType: 'NOTE' | 'IMAGE' | 'FILE' | 'STATUS' | 'GAMIFY' | null;
   latestEntryDate: number | null;
 }
 
+export interface SearchResult extends Task {
+  rank: number | null;
+  match: {
+    kind: 'TITLE' | 'SUMMARY' | 'NOTE' | 'ATTACHMENT' | 'CAPTION' | 'TAG' | 'CONTENT';
+    snippet: string;
+    attachmentName?: string;
+  } | null;
+}
+
+export interface SearchResponse {
+  tasks: SearchResult[];
+  error: { message: string; position: number } | null;
+}
+
+export type TaskSortMode = 'default' | 'idle' | 'created' | 'touched' | 'title' | 'deadline';
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  sort: TaskSortMode;
+  icon: string;
+  position: number;
+  created_at: number;
+  count: number | null;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  created_at: number;
+  taskCount: number;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  created_at: number;
+  taskCount: number;
+}
+
+export interface Reminder {
+  id: string;
+  task_id: string;
+  remind_at: number;
+  note: string;
+  created_at: number;
+  fired_at: number | null;
+  snooze_count: number;
+}
+
 export interface TimelineEntry {
   id: string;
   task_id: string;
@@ -30,9 +93,253 @@ export interface TimelineEntry {
   created_at: number;
 }
 
+export interface StatusChange {
+  field: 'status' | 'priority';
+  from: string;
+  to: string;
+  reason: string | null;
+}
+
+export interface ChecklistChange {
+  field: 'checklist';
+  item: string;
+  done: number;
+  total: number;
+}
+
+export interface ChecklistItem {
+  id: string;
+  task_id: string;
+  title: string;
+  position: number;
+  created_at: number;
+  checked_at: number | null;
+  xp_awarded: boolean;
+}
+
+export interface DependencyTask {
+  id: string;
+  title: string;
+  status: 'OPEN' | 'WAITING' | 'BLOCKED' | 'DONE' | 'ARCHIVED';
+  priority: 'LOW' | 'NORMAL' | 'HIGH';
+}
+
+export interface TaskDependencies {
+  blockedBy: DependencyTask[];
+  blocking: DependencyTask[];
+}
+
+export interface RecurrenceOccurrence {
+  id: string;
+  title: string;
+  status: 'OPEN' | 'WAITING' | 'BLOCKED' | 'DONE' | 'ARCHIVED';
+  due_at: number | null;
+  created_at: number;
+  completed_at: number | null;
+}
+
+export interface BackupSettings {
+  enabled: boolean;
+  // Null means the default folder under userData
+  folder: string | null;
+  keepDaily: number;
+  keepWeekly: number;
+}
+
+export interface SnapshotInfo {
+  id: string;
+  createdAt: number;
+  reason: 'scheduled' | 'manual' | 'pre-restore' | 'pre-import';
+  schemaVersion: number;
+  taskCount: number;
+  attachmentCount: number;
+  sizeBytes: number;
+}
+
+export interface SnapshotTask {
+  id: string;
+  title: string;
+  status: string;
+  created_at: number;
+  last_touched_at: number;
+}
+
+export interface TrashSettings {
+  retentionDays: number;
+}
+
+export interface ArchiveSettings {
+  // Null keeps archived tasks forever
+  retentionDays: number | null;
+}
+
+export type VaultTable =
+  | 'projects' | 'tags' | 'tasks' | 'timeline_entries' | 'checklist_items'
+  | 'reminders' | 'task_tags' | 'task_dependencies' | 'saved_searches' | 'gamification';
+
+export interface VaultManifest {
+  format: string;
+  version: number;
+  exported_at: number;
+  app_version: string;
+  schema_version: number;
+  counts: Record<VaultTable, number>;
+  attachment_count: number;
+}
+
+export type VaultImportMode = 'merge' | 'replace';
+
+export interface VaultImportReport {
+  mode: VaultImportMode;
+  inserted: Record<VaultTable, number>;
+  remapped: number;
+  skipped: number;
+  attachments: number;
+}
+
+export interface MarkdownExportResult {
+  folder: string;
+  files: string[];
+  attachments: number;
+}
+
+export type CsvImportField = 'title' | 'status' | 'priority' | 'project' | 'tags' | 'start' | 'due' | 'summary';
+
+// Which column (by index) feeds each task field; unmapped fields use their defaults
+export type CsvColumnMapping = Partial<Record<CsvImportField, number>>;
+
+export interface CsvFilePreview {
+  path: string;
+  fileName: string;
+  headers: string[];
+  sampleRows: string[][];
+  rowCount: number;
+  mapping: CsvColumnMapping;
+}
+
+export interface CsvImportRow {
+  line: number;
+  title: string;
+  status: Task['status'];
+  priority: Task['priority'];
+  project: string | null;
+  tags: string[];
+  start_at: number | null;
+  due_at: number | null;
+  pinned_summary: string;
+  errors: string[];
+}
+
+export interface CsvImportReport {
+  rowCount: number;
+  validCount: number;
+  invalidCount: number;
+  newProjects: string[];
+  newTags: string[];
+  rows: CsvImportRow[];
+}
+
+export interface CsvImportResult {
+  imported: number;
+  skipped: number;
+  projectsCreated: number;
+  tagsCreated: number;
+}
+
+export interface DossierExportResult {
+  path: string;
+  format: 'html' | 'pdf';
+  tasks: number;
+}
+
+export type AppImportFormat = 'trello' | 'todoist-csv' | 'todoist-json' | 'todo-txt';
+
+export interface ImportSkip {
+  item: string;
+  reason: string;
+}
+
+export interface AppImportPreview {
+  path: string;
+  fileName: string;
+  format: AppImportFormat;
+  formatLabel: string;
+  taskCount: number;
+  noteCount: number;
+  checklistItemCount: number;
+  attachmentCount: number;
+  projects: string[];
+  tags: string[];
+  skipped: ImportSkip[];
+}
+
+export interface AppImportReport {
+  format: AppImportFormat;
+  formatLabel: string;
+  tasksImported: number;
+  notesImported: number;
+  checklistItemsImported: number;
+  attachmentsCopied: number;
+  skipped: ImportSkip[];
+}
+
+export interface TrashItem {
+  id: string;
+  kind: 'TASK' | 'ENTRY';
+  task_id: string;
+  title: string;
+  attachment_count: number;
+  deleted_at: number;
+  purge_at: number;
+}
+
+export interface TrashRestoreResult {
+  kind: 'TASK' | 'ENTRY';
+  taskId: string;
+  wasIncomplete: boolean;
+}
+
+// Stored file behind an IMAGE or FILE entry
+export interface AttachmentInfo {
+  path: string;
+  hash: string;
+  original_name: string;
+  mime: string;
+  size: number;
+  // Pixel size of PNG and JPEG images; null otherwise
+  width: number | null;
+  height: number | null;
+  caption: string;
+  ref_count: number;
+  created_at: number;
+}
+
+export type AttachmentPathErrorCode = 'INVALID_PATH' | 'OUTSIDE_VAULT' | 'UNKNOWN_ATTACHMENT' | 'MISSING_FILE';
+
+// What the attachment calls reject with when the main process refuses a path. A plain object,
+// not an Error: contextBridge drops an Error's own properties, and with them the code.
+export interface AttachmentPathFailure {
+  name: 'AttachmentPathError';
+  code: AttachmentPathErrorCode;
+  message: string;
+}
+
+export type PreviewLanguage = 'plain' | 'json' | 'log' | 'markdown' | 'code';
+
+// What the in-app viewer can show for an attachment; PDFs load from the attachment protocol
+export type AttachmentPreview =
+  | { kind: 'pdf'; size: number }
+  | { kind: 'text'; language: PreviewLanguage; text: string; size: number }
+  // First row is the header; `totalRows` counts the data rows in the file
+  | { kind: 'csv'; rows: string[][]; totalRows: number; size: number }
+  | { kind: 'too-large'; size: number; limit: number }
+  | { kind: 'unsupported'; size: number };
+
 export interface TaskDetail {
   task: Task;
   timeline: TimelineEntry[];
+  // Keyed by the entry's content; entries whose file is missing have no record
+  attachments: Record<string, AttachmentInfo>;
 }
 
 export interface Gamification {
@@ -48,24 +355,48 @@ export interface DataUpdatedPayload {
   taskId?: string;
 }
 
+// Attachment handlers answer { value } or { error: { code, message } } (handleAttachment in main.ts)
+async function invokeAttachment<T>(channel: string, ...args: unknown[]): Promise<T> {
+  const result = await ipcRenderer.invoke(channel, ...args);
+  if (result.error) {
+    const failure: AttachmentPathFailure = { name: 'AttachmentPathError', ...result.error };
+    throw failure;
+  }
+  return result.value;
+}
+
 // Verify we're in the right context
 if (typeof window === 'undefined') {
   console.error('Preload script: window is undefined');
 }
 
 const electronAPI = {
-  getTasks: (): Promise<Task[]> => ipcRenderer.invoke('getTasks'),
+  getTasks: (sort?: TaskSortMode): Promise<Task[]> => ipcRenderer.invoke('getTasks', sort),
   getTaskById: (id: string): Promise<TaskDetail | null> => ipcRenderer.invoke('getTaskById', id),
-  createTask: (payload: { title: string; priority: string }): Promise<Task> => 
-    ipcRenderer.invoke('createTask', payload),
+  createTask: (payload: {
+    title: string;
+    priority: string;
+    project_id?: string | null;
+    tags?: string[];
+    due_at?: number | null;
+    start_at?: number | null;
+    recurrence_rule?: string | null;
+  }): Promise<Task> => ipcRenderer.invoke('createTask', payload),
   updateTask: (payload: {
     id: string;
     title?: string;
     status?: string;
     priority?: string;
     pinned_summary?: string;
+    project_id?: string | null;
+    tags?: string[];
+    due_at?: number | null;
+    start_at?: number | null;
+    recurrence_rule?: string | null;
     updateTouched?: boolean;
+    reason?: string;
   }): Promise<Task> => ipcRenderer.invoke('updateTask', payload),
+  getRecurrenceHistory: (taskId: string): Promise<RecurrenceOccurrence[]> => ipcRenderer.invoke('getRecurrenceHistory', taskId),
   addTimelineEntry: (payload: {
     taskId: string;
     type: 'NOTE' | 'IMAGE' | 'FILE' | 'STATUS' | 'GAMIFY';
@@ -74,27 +405,118 @@ const electronAPI = {
   }): Promise<TimelineEntry> => ipcRenderer.invoke('addTimelineEntry', payload),
   updateTimelineEntry: (entryId: string, content: string): Promise<TimelineEntry | null> => 
     ipcRenderer.invoke('updateTimelineEntry', entryId, content),
-  deleteTimelineEntry: (entryId: string): Promise<boolean> => 
+  // Resolves to the trash item id, or null if the entry was already gone
+  deleteTimelineEntry: (entryId: string): Promise<string | null> => 
     ipcRenderer.invoke('deleteTimelineEntry', entryId),
   attachFile: (taskId: string, filePath: string): Promise<string> => 
     ipcRenderer.invoke('attachFile', taskId, filePath),
-  pasteImage: (taskId: string, imageBuffer: Uint8Array): Promise<string> => 
-    ipcRenderer.invoke('pasteImage', taskId, Buffer.from(imageBuffer)),
-  searchTasks: (query: string): Promise<Task[]> => ipcRenderer.invoke('searchTasks', query),
+  pasteImage: (taskId: string, imageBuffer: Uint8Array, fileName?: string): Promise<string> => 
+    ipcRenderer.invoke('pasteImage', taskId, Buffer.from(imageBuffer), fileName),
+  searchTasks: (query: string, sort?: TaskSortMode): Promise<SearchResponse> => ipcRenderer.invoke('searchTasks', query, sort),
+  getSavedSearches: (): Promise<SavedSearch[]> => ipcRenderer.invoke('getSavedSearches'),
+  createSavedSearch: (payload: { name: string; query: string; sort?: TaskSortMode; icon?: string }): Promise<SavedSearch> =>
+    ipcRenderer.invoke('createSavedSearch', payload),
+  updateSavedSearch: (payload: {
+    id: string;
+    name?: string;
+    query?: string;
+    sort?: TaskSortMode;
+    icon?: string;
+    position?: number;
+  }): Promise<SavedSearch | null> => ipcRenderer.invoke('updateSavedSearch', payload),
+  deleteSavedSearch: (id: string): Promise<boolean> => ipcRenderer.invoke('deleteSavedSearch', id),
+  getTags: (): Promise<Tag[]> => ipcRenderer.invoke('getTags'),
+  createTag: (name: string): Promise<Omit<Tag, 'taskCount'>> => ipcRenderer.invoke('createTag', name),
+  renameTag: (id: string, name: string): Promise<Omit<Tag, 'taskCount'> | null> => ipcRenderer.invoke('renameTag', id, name),
+  mergeTags: (sourceId: string, targetId: string): Promise<boolean> => ipcRenderer.invoke('mergeTags', sourceId, targetId),
+  deleteTag: (id: string): Promise<boolean> => ipcRenderer.invoke('deleteTag', id),
+  setTaskTags: (taskId: string, names: string[]): Promise<boolean> => ipcRenderer.invoke('setTaskTags', taskId, names),
+  getProjects: (): Promise<Project[]> => ipcRenderer.invoke('getProjects'),
+  createProject: (name: string): Promise<Omit<Project, 'taskCount'>> => ipcRenderer.invoke('createProject', name),
+  renameProject: (id: string, name: string): Promise<Omit<Project, 'taskCount'> | null> =>
+    ipcRenderer.invoke('renameProject', id, name),
+  mergeProjects: (sourceId: string, targetId: string): Promise<boolean> =>
+    ipcRenderer.invoke('mergeProjects', sourceId, targetId),
+  deleteProject: (id: string): Promise<boolean> => ipcRenderer.invoke('deleteProject', id),
+  getChecklistItems: (taskId: string): Promise<ChecklistItem[]> => ipcRenderer.invoke('getChecklistItems', taskId),
+  addChecklistItem: (taskId: string, title: string): Promise<ChecklistItem> =>
+    ipcRenderer.invoke('addChecklistItem', taskId, title),
+  renameChecklistItem: (id: string, title: string): Promise<ChecklistItem | null> =>
+    ipcRenderer.invoke('renameChecklistItem', id, title),
+  setChecklistItemChecked: (id: string, checked: boolean): Promise<ChecklistItem | null> =>
+    ipcRenderer.invoke('setChecklistItemChecked', id, checked),
+  reorderChecklistItems: (taskId: string, orderedIds: string[]): Promise<ChecklistItem[]> =>
+    ipcRenderer.invoke('reorderChecklistItems', taskId, orderedIds),
+  deleteChecklistItem: (id: string): Promise<boolean> => ipcRenderer.invoke('deleteChecklistItem', id),
+  getTaskDependencies: (taskId: string): Promise<TaskDependencies> => ipcRenderer.invoke('getTaskDependencies', taskId),
+  addTaskDependency: (taskId: string, blockedById: string): Promise<TaskDependencies> =>
+    ipcRenderer.invoke('addTaskDependency', taskId, blockedById),
+  removeTaskDependency: (taskId: string, blockedById: string): Promise<boolean> =>
+    ipcRenderer.invoke('removeTaskDependency', taskId, blockedById),
+  getReminders: (taskId: string): Promise<Reminder[]> => ipcRenderer.invoke('getReminders', taskId),
+  createReminder: (payload: { taskId: string; remindAt: number; note?: string }): Promise<Reminder> =>
+    ipcRenderer.invoke('createReminder', payload),
+  snoozeReminder: (id: string, remindAt: number): Promise<Reminder | null> =>
+    ipcRenderer.invoke('snoozeReminder', id, remindAt),
+  deleteReminder: (id: string): Promise<boolean> => ipcRenderer.invoke('deleteReminder', id),
   getGamification: (): Promise<Gamification | null> => ipcRenderer.invoke('getGamification'),
-  getAttachmentPath: (relativePath: string): Promise<string> => ipcRenderer.invoke('getAttachmentPath', relativePath),
   checkNecromancerBonus: (taskId: string): Promise<number> => ipcRenderer.invoke('checkNecromancerBonus', taskId),
-  openAttachment: (relativePath: string): Promise<void> => ipcRenderer.invoke('openAttachment', relativePath),
-  revealAttachment: (relativePath: string): Promise<void> => ipcRenderer.invoke('revealAttachment', relativePath),
-  copyAttachmentPath: (relativePath: string): Promise<void> => ipcRenderer.invoke('copyAttachmentPath', relativePath),
+  openAttachment: (relativePath: string): Promise<void> => invokeAttachment('openAttachment', relativePath),
+  getAttachmentPreview: (relativePath: string): Promise<AttachmentPreview> =>
+    invokeAttachment('getAttachmentPreview', relativePath),
+  revealAttachment: (relativePath: string): Promise<void> => invokeAttachment('revealAttachment', relativePath),
+  copyAttachmentPath: (relativePath: string): Promise<void> => invokeAttachment('copyAttachmentPath', relativePath),
+  setAttachmentCaption: (relativePath: string, caption: string): Promise<string> =>
+    invokeAttachment('setAttachmentCaption', relativePath, caption),
+  getBackupSettings: (): Promise<BackupSettings> => ipcRenderer.invoke('getBackupSettings'),
+  updateBackupSettings: (patch: Partial<BackupSettings>): Promise<BackupSettings> =>
+    ipcRenderer.invoke('updateBackupSettings', patch),
+  chooseBackupFolder: (): Promise<string | null> => ipcRenderer.invoke('chooseBackupFolder'),
+  listSnapshots: (): Promise<SnapshotInfo[]> => ipcRenderer.invoke('listSnapshots'),
+  createSnapshot: (): Promise<SnapshotInfo> => ipcRenderer.invoke('createSnapshot'),
+  restoreSnapshot: (id: string): Promise<boolean> => ipcRenderer.invoke('restoreSnapshot', id),
+  getDeletedTasksInSnapshot: (id: string): Promise<SnapshotTask[]> => ipcRenderer.invoke('getDeletedTasksInSnapshot', id),
+  restoreTaskFromSnapshot: (id: string, taskId: string): Promise<boolean> =>
+    ipcRenderer.invoke('restoreTaskFromSnapshot', id, taskId),
   showFilePicker: (): Promise<string[]> => ipcRenderer.invoke('showFilePicker'),
-  getImageDataUrl: (relativePath: string): Promise<string | null> => ipcRenderer.invoke('getImageDataUrl', relativePath),
-  deleteTask: (taskId: string): Promise<boolean> => ipcRenderer.invoke('deleteTask', taskId),
+  deleteTask: (taskId: string): Promise<string | null> => ipcRenderer.invoke('deleteTask', taskId),
+  getTrashItems: (): Promise<TrashItem[]> => ipcRenderer.invoke('getTrashItems'),
+  restoreTrashItem: (id: string): Promise<TrashRestoreResult> => ipcRenderer.invoke('restoreTrashItem', id),
+  purgeTrashItem: (id: string): Promise<boolean> => ipcRenderer.invoke('purgeTrashItem', id),
+  emptyTrash: (): Promise<number> => ipcRenderer.invoke('emptyTrash'),
+  getTrashSettings: (): Promise<TrashSettings> => ipcRenderer.invoke('getTrashSettings'),
+  updateTrashSettings: (patch: Partial<TrashSettings>): Promise<TrashSettings> =>
+    ipcRenderer.invoke('updateTrashSettings', patch),
+  getArchiveSettings: (): Promise<ArchiveSettings> => ipcRenderer.invoke('getArchiveSettings'),
+  updateArchiveSettings: (patch: Partial<ArchiveSettings>): Promise<ArchiveSettings> =>
+    ipcRenderer.invoke('updateArchiveSettings', patch),
+  unarchiveTask: (taskId: string): Promise<Task> => ipcRenderer.invoke('unarchiveTask', taskId),
+  openArchiveExports: (): Promise<void> => ipcRenderer.invoke('openArchiveExports'),
+  exportVault: (): Promise<{ path: string; manifest: VaultManifest } | null> => ipcRenderer.invoke('exportVault'),
+  exportMarkdown: (taskIds?: string[]): Promise<MarkdownExportResult | null> => ipcRenderer.invoke('exportMarkdown', taskIds),
+  chooseVaultImport: (): Promise<{ path: string; manifest: VaultManifest } | null> => ipcRenderer.invoke('chooseVaultImport'),
+  importVault: (path: string, mode: VaultImportMode): Promise<VaultImportReport> =>
+    ipcRenderer.invoke('importVault', path, mode),
+  exportTasksCsv: (query: string, sort?: TaskSortMode): Promise<{ path: string; count: number } | null> =>
+    ipcRenderer.invoke('exportTasksCsv', query, sort),
+  chooseCsvImport: (): Promise<CsvFilePreview | null> => ipcRenderer.invoke('chooseCsvImport'),
+  previewCsvImport: (path: string, mapping: CsvColumnMapping): Promise<CsvImportReport> =>
+    ipcRenderer.invoke('previewCsvImport', path, mapping),
+  importCsv: (path: string, mapping: CsvColumnMapping): Promise<CsvImportResult> =>
+    ipcRenderer.invoke('importCsv', path, mapping),
+  exportDossier: (taskIds: string[]): Promise<DossierExportResult | null> => ipcRenderer.invoke('exportDossier', taskIds),
+  chooseAppImport: (): Promise<AppImportPreview | null> => ipcRenderer.invoke('chooseAppImport'),
+  importFromApp: (path: string): Promise<AppImportReport> => ipcRenderer.invoke('importFromApp', path),
   onDataUpdated: (callback: (payload?: DataUpdatedPayload) => void) => {
     const subscription = (_event: Electron.IpcRendererEvent, payload?: DataUpdatedPayload) => callback(payload);
     ipcRenderer.on('data-updated', subscription);
     return () => ipcRenderer.removeListener('data-updated', subscription);
   },
+  onOpenTask: (callback: (taskId: string) => void) => {
+    const subscription = (_event: Electron.IpcRendererEvent, taskId: string) => callback(taskId);
+    ipcRenderer.on('open-task', subscription);
+    return () => ipcRenderer.removeListener('open-task', subscription);
+  },
   windowMinimize: (): Promise<void> => ipcRenderer.invoke('window-minimize'),
   windowMaximize: (): Promise<void> => ipcRenderer.invoke('window-maximize'),
   windowClose: (): Promise<void> => ipcRenderer.invoke('window-close'),
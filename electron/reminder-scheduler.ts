@@ -0,0 +1,63 @@
+// Reminder delivery via native notifications
+import { Notification } from 'electron';
+import { getDueReminders, markReminderFired, type DueReminder } from './db/reminders';
+
+// When catching up after downtime, collapse bursts into one summary notification
+const MAX_INDIVIDUAL_NOTIFICATIONS = 3;
+
+// Notifications must stay referenced or they can be garbage-collected before they're clicked
+const activeNotifications = new Set<Notification>();
+
+function showNotification(title: string, body: string, onClick: () => void) {
+  const notification = new Notification({ title, body });
+  activeNotifications.add(notification);
+  notification.on('click', () => {
+    activeNotifications.delete(notification);
+    onClick();
+  });
+  notification.on('close', () => {
+    activeNotifications.delete(notification);
+  });
+  notification.show();
+}
+
+// Fire every pending reminder that is due. Reminders for completed tasks are marked
+// fired without a notification. Returns the reminders that were delivered.
+export async function deliverDueReminders(onOpenTask: (taskId: string | null) => void): Promise<DueReminder[]> {
+  const due = await getDueReminders();
+  if (due.length === 0) return [];
+
+  const now = Date.now();
+  const deliverable: DueReminder[] = [];
+  for (const reminder of due) {
+    await markReminderFired(reminder.id, now);
+    if (reminder.taskStatus !== 'DONE' && reminder.taskStatus !== 'ARCHIVED') {
+      deliverable.push(reminder);
+    }
+  }
+
+  if (!Notification.isSupported()) {
+    console.warn('Notifications are not supported on this system; reminders marked as fired');
+    return deliverable;
+  }
+
+  if (deliverable.length > MAX_INDIVIDUAL_NOTIFICATIONS) {
+    const titles = deliverable.slice(0, MAX_INDIVIDUAL_NOTIFICATIONS).map((r: DueReminder) => r.taskTitle);
+    const more = deliverable.length - titles.length;
+    showNotification(
+      `${deliverable.length} reminders due`,
+      `${titles.join(', ')}${more > 0 ? ` and ${more} more` : ''}`,
+      () => onOpenTask(null)
+    );
+    return deliverable;
+  }
+
+  for (const reminder of deliverable) {
+    showNotification(
+      reminder.taskTitle,
+      reminder.note || 'Reminder',
+      () => onOpenTask(reminder.task_id)
+    );
+  }
+  return deliverable;
+}
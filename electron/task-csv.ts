@@ -0,0 +1,359 @@
+// CSV export of Dashboard results, and the CSV import wizard's mapping, dry run and insert
+import { basename } from 'path';
+import { readFileSync, statSync, writeFileSync } from 'fs';
+import { parseCsv, formatCsv } from './csv';
+import {
+  searchTasks,
+  createTask,
+  updateTask,
+  TASK_STATUSES,
+  TASK_PRIORITIES,
+  type TaskSortMode,
+} from './db/queries';
+import { getProjects, getTags, createProject, normalizeName } from './db/tags';
+import { createSnapshot } from './db/snapshots';
+
+export const CSV_IMPORT_FIELDS = ['title', 'status', 'priority', 'project', 'tags', 'start', 'due', 'summary'] as const;
+export type CsvImportField = typeof CSV_IMPORT_FIELDS[number];
+
+// Which column (by index) feeds each task field; unmapped fields use their defaults
+export type CsvColumnMapping = Partial<Record<CsvImportField, number>>;
+
+export interface CsvFilePreview {
+  path: string;
+  fileName: string;
+  headers: string[];
+  sampleRows: string[][];
+  rowCount: number;
+  mapping: CsvColumnMapping;
+}
+
+export interface CsvImportRow {
+  // Spreadsheet row number (the header is row 1), so problems can be found in the source file
+  line: number;
+  title: string;
+  status: typeof TASK_STATUSES[number];
+  priority: typeof TASK_PRIORITIES[number];
+  project: string | null;
+  tags: string[];
+  start_at: number | null;
+  due_at: number | null;
+  pinned_summary: string;
+  errors: string[];
+}
+
+export interface CsvImportReport {
+  rowCount: number;
+  validCount: number;
+  invalidCount: number;
+  // Names that don't exist yet and will be created by the import
+  newProjects: string[];
+  newTags: string[];
+  rows: CsvImportRow[];
+}
+
+export interface CsvImportResult {
+  imported: number;
+  skipped: number;
+  projectsCreated: number;
+  tagsCreated: number;
+}
+
+const MAX_CSV_BYTES = 20 * 1024 * 1024;
+const SAMPLE_ROWS = 5;
+
+// Header names (lowercased, letters and digits only) recognised for each field.
+// Includes the columns written by exportTasksToCsv so exports re-import without remapping.
+const FIELD_ALIASES: Record<CsvImportField, string[]> = {
+  title: ['title', 'name', 'task', 'taskname', 'subject'],
+  status: ['status', 'state'],
+  priority: ['priority', 'prio'],
+  project: ['project', 'projectname', 'list'],
+  tags: ['tags', 'tag', 'labels', 'label'],
+  start: ['start', 'startat', 'startdate'],
+  due: ['due', 'dueat', 'duedate', 'deadline'],
+  summary: ['summary', 'pinnedsummary', 'description', 'notes', 'note'],
+};
+
+const EXPORT_COLUMNS = [
+  'id', 'title', 'status', 'priority', 'projectName', 'tags', 'created_at', 'last_touched_at', 'start_at', 'due_at',
+  'archived_at', 'pinned_summary', 'idleAge', 'daysOld', 'attachmentCount', 'imageCount', 'fileCount',
+  'checklistDone', 'checklistTotal', 'lastEntryAt',
+];
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function formatDay(timestamp: number | null): string | null {
+  if (timestamp === null) return null;
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatMinute(timestamp: number | null): string | null {
+  if (timestamp === null) return null;
+  const date = new Date(timestamp);
+  return `${formatDay(timestamp)} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// Write the tasks a Dashboard search returns, in its sort order. Returns the number of rows.
+export async function exportTasksToCsv(path: string, query: string, sort: TaskSortMode): Promise<number> {
+  const response = await searchTasks(query, sort);
+  if (response.error) {
+    throw new Error(`Invalid search query: ${response.error.message}`);
+  }
+  const rows = response.tasks.map((task) => [
+    task.id,
+    task.title,
+    task.status,
+    task.priority,
+    task.projectName,
+    task.tags.join(', '),
+    formatMinute(task.created_at),
+    formatMinute(task.last_touched_at),
+    formatDay(task.start_at),
+    formatDay(task.due_at),
+    formatMinute(task.archived_at),
+    task.pinned_summary,
+    task.idleAge,
+    task.daysOld,
+    task.attachmentCount,
+    task.imageCount,
+    task.fileCount,
+    task.checklistDone,
+    task.checklistTotal,
+    formatMinute(task.lastEntryAt),
+  ]);
+  writeFileSync(path, formatCsv([EXPORT_COLUMNS, ...rows]), 'utf8');
+  return rows.length;
+}
+
+function readCsvFile(path: string): string[][] {
+  if (statSync(path).size > MAX_CSV_BYTES) {
+    throw new Error('CSV file is too large (over 20 MB)');
+  }
+  const rows = parseCsv(readFileSync(path, 'utf8'));
+  if (rows.length === 0) {
+    throw new Error('CSV file is empty');
+  }
+  return rows;
+}
+
+function suggestMapping(headers: string[]): CsvColumnMapping {
+  const keys = headers.map((header) => header.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  const mapping: CsvColumnMapping = {};
+  const used: number[] = [];
+  for (const field of CSV_IMPORT_FIELDS) {
+    const index = keys.findIndex((key, i) => !used.includes(i) && FIELD_ALIASES[field].includes(key));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.push(index);
+    }
+  }
+  return mapping;
+}
+
+// Read a CSV file's header row and first rows for the wizard's mapping step.
+// The first row is always treated as the header.
+export function inspectCsvFile(path: string): CsvFilePreview {
+  const [headers, ...rows] = readCsvFile(path);
+  return {
+    path,
+    fileName: basename(path),
+    headers,
+    sampleRows: rows.slice(0, SAMPLE_ROWS),
+    rowCount: rows.length,
+    mapping: suggestMapping(headers),
+  };
+}
+
+// Dates are stored as local midnight. Accepts YYYY-MM-DD (optionally followed by a time,
+// as in our own export) and falls back to whatever Date.parse understands.
+function parseDateCell(value: string, label: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T].*)?$/.exec(trimmed);
+  let year: number;
+  let month: number;
+  let day: number;
+  if (iso) {
+    year = Number(iso[1]);
+    month = Number(iso[2]) - 1;
+    day = Number(iso[3]);
+  } else {
+    const parsed = Date.parse(trimmed);
+    if (Number.isNaN(parsed)) {
+      throw new Error(`Invalid ${label} date: "${trimmed}". Use YYYY-MM-DD`);
+    }
+    const date = new Date(parsed);
+    year = date.getFullYear();
+    month = date.getMonth();
+    day = date.getDate();
+  }
+  const date = new Date(year, month, day);
+  // Reject dates that roll over, like 2024-02-31
+  if (date.getMonth() !== month || date.getDate() !== day) {
+    throw new Error(`Invalid ${label} date: "${trimmed}". Use YYYY-MM-DD`);
+  }
+  return date.getTime();
+}
+
+function validateMapping(mapping: CsvColumnMapping, headers: string[]) {
+  if (mapping.title === undefined) {
+    throw new Error('Choose the column that holds the task title');
+  }
+  for (const field of CSV_IMPORT_FIELDS) {
+    const index = mapping[field];
+    if (index !== undefined && (!Number.isInteger(index) || index < 0 || index >= headers.length)) {
+      throw new Error(`Invalid column for ${field}: ${index}. Must be one of the file's ${headers.length} columns`);
+    }
+  }
+}
+
+function buildRow(cells: string[], line: number, mapping: CsvColumnMapping): CsvImportRow {
+  const cell = (field: CsvImportField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (cells[index] ?? '').trim();
+  };
+  const row: CsvImportRow = {
+    line,
+    title: cell('title'),
+    status: 'OPEN',
+    priority: 'NORMAL',
+    project: null,
+    tags: [],
+    start_at: null,
+    due_at: null,
+    pinned_summary: cell('summary'),
+    errors: [],
+  };
+  // Collect every problem with the row rather than stopping at the first
+  const check = (apply: () => void) => {
+    try {
+      apply();
+    } catch (error) {
+      row.errors.push(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  if (!row.title) {
+    row.errors.push('Title is required');
+  }
+  check(() => {
+    const status = cell('status').toUpperCase();
+    if (!status) return;
+    const match = TASK_STATUSES.find((value) => value === status);
+    if (!match) {
+      throw new Error(`Invalid status: ${cell('status')}. Must be one of: ${TASK_STATUSES.join(', ')}`);
+    }
+    row.status = match;
+  });
+  check(() => {
+    const priority = cell('priority').toUpperCase();
+    if (!priority) return;
+    const match = TASK_PRIORITIES.find((value) => value === priority);
+    if (!match) {
+      throw new Error(`Invalid priority: ${cell('priority')}. Must be one of: ${TASK_PRIORITIES.join(', ')}`);
+    }
+    row.priority = match;
+  });
+  check(() => {
+    if (cell('project')) row.project = normalizeName(cell('project'), 'Project');
+  });
+  check(() => {
+    // Tag names can't contain commas, so both commas and semicolons separate them
+    for (const name of cell('tags').split(/[,;]/)) {
+      if (!name.trim()) continue;
+      const tag = normalizeName(name, 'Tag');
+      if (!row.tags.some((existing) => existing.toLowerCase() === tag.toLowerCase())) {
+        row.tags.push(tag);
+      }
+    }
+  });
+  check(() => {
+    row.start_at = parseDateCell(cell('start'), 'start');
+  });
+  check(() => {
+    row.due_at = parseDateCell(cell('due'), 'due');
+  });
+  if (row.start_at !== null && row.due_at !== null && row.start_at > row.due_at) {
+    row.errors.push('Invalid dates: start date must be on or before the due date');
+  }
+  return row;
+}
+
+function newNames(names: string[], existing: string[]): string[] {
+  const known = existing.map((name) => name.toLowerCase());
+  const result: string[] = [];
+  for (const name of names) {
+    if (!known.includes(name.toLowerCase())) {
+      known.push(name.toLowerCase());
+      result.push(name);
+    }
+  }
+  return result;
+}
+
+// Dry run: validate every row against the mapping without writing anything
+export async function previewCsvImport(path: string, mapping: CsvColumnMapping): Promise<CsvImportReport> {
+  const [headers, ...cells] = readCsvFile(path);
+  validateMapping(mapping, headers);
+  const rows = cells.map((rowCells, i) => buildRow(rowCells, i + 2, mapping));
+  const valid = rows.filter((row) => row.errors.length === 0);
+  const [projects, tags] = await Promise.all([getProjects(), getTags()]);
+
+  return {
+    rowCount: rows.length,
+    validCount: valid.length,
+    invalidCount: rows.length - valid.length,
+    newProjects: newNames(
+      valid.map((row) => row.project).filter((name): name is string => name !== null),
+      projects.map((project) => project.name)
+    ),
+    newTags: newNames(
+      valid.reduce<string[]>((all, row) => all.concat(row.tags), []),
+      tags.map((tag) => tag.name)
+    ),
+    rows,
+  };
+}
+
+// Create a task for every valid row; rows the dry run flagged are skipped.
+// A snapshot is taken first so a bad import can be rolled back from Backups.
+export async function importCsv(path: string, mapping: CsvColumnMapping): Promise<CsvImportResult> {
+  const report = await previewCsvImport(path, mapping);
+  const rows = report.rows.filter((row) => row.errors.length === 0);
+  if (rows.length === 0) {
+    throw new Error('No valid rows to import');
+  }
+
+  await createSnapshot('pre-import');
+  for (const row of rows) {
+    const project = row.project ? await createProject(row.project) : null;
+    const task = await createTask({
+      title: row.title,
+      priority: row.priority,
+      project_id: project?.id ?? null,
+      tags: row.tags,
+      start_at: row.start_at,
+      due_at: row.due_at,
+    });
+    if (row.status !== 'OPEN' || row.pinned_summary) {
+      await updateTask({
+        id: task.id,
+        status: row.status !== 'OPEN' ? row.status : undefined,
+        pinned_summary: row.pinned_summary || undefined,
+        reason: 'Imported from CSV',
+        updateTouched: false,
+      });
+    }
+  }
+
+  return {
+    imported: rows.length,
+    skipped: report.invalidCount,
+    projectsCreated: report.newProjects.length,
+    tagsCreated: report.newTags.length,
+  };
+}
@@ -0,0 +1,65 @@
+// Shared setup for main-process tests: an in-memory vault with the full schema and a temporary
+// data folder, swapped in for the Electron-backed getters. Call close() after each test.
+import Database from 'better-sqlite3';
+import { drizzle } from 'drizzle-orm/better-sqlite3';
+import { mock } from 'node:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import * as client from './db/client';
+import * as schema from './db/schema';
+import * as fileHandler from './file-handler';
+import { runMigrations } from './db/migrator';
+
+export interface TestVault {
+  sqlite: Database.Database;
+  attachmentsRoot: string;
+  // Write a file under the attachments folder (creating parent folders)
+  writeAttachmentFile(relativePath: string, content: string | Buffer): string;
+  addTask(id: string): void;
+  addEntry(id: string, taskId: string, type: 'NOTE' | 'IMAGE' | 'FILE', content: string): void;
+  close(): void;
+}
+
+export function createTestVault(): TestVault {
+  const sqlite = new Database(':memory:');
+  runMigrations(sqlite, { backup: false });
+  sqlite.pragma('foreign_keys = ON');
+
+  const dataRoot = mkdtempSync(join(tmpdir(), 'taskvault-test-'));
+  const attachmentsRoot = join(dataRoot, 'attachments');
+  mkdirSync(attachmentsRoot, { recursive: true });
+  const db = drizzle(sqlite, { schema });
+  mock.method(client, 'getSqlite', () => sqlite);
+  mock.method(client, 'getDatabase', () => db);
+  mock.method(fileHandler, 'getAttachmentsRoot', () => attachmentsRoot);
+  mock.method(fileHandler, 'getThumbnailsRoot', () => join(dataRoot, 'thumbnails'));
+  mock.method(fileHandler, 'getSharedCopiesRoot', () => join(dataRoot, 'shared'));
+  mock.method(fileHandler, 'getTrashRoot', () => join(dataRoot, 'trash'));
+
+  return {
+    sqlite,
+    attachmentsRoot,
+    writeAttachmentFile(relativePath, content) {
+      const path = join(attachmentsRoot, relativePath);
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, content);
+      return path;
+    },
+    addTask(id) {
+      sqlite.prepare(`
+        INSERT INTO tasks (id, title, status, priority, created_at, last_touched_at)
+        VALUES (?, ?, 'OPEN', 'NORMAL', 0, 0)
+      `).run(id, `Task ${id}`);
+    },
+    addEntry(id, taskId, type, content) {
+      sqlite.prepare(`INSERT INTO timeline_entries (id, task_id, type, content, created_at) VALUES (?, ?, ?, ?, 0)`)
+        .run(id, taskId, type, content);
+    },
+    close() {
+      mock.restoreAll();
+      sqlite.close();
+      rmSync(dataRoot, { recursive: true, force: true });
+    },
+  };
+}
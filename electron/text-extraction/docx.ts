@@ -0,0 +1,53 @@
+// Plain text from Word (.docx) files: the document body plus headers, footers, footnotes and
+// comments, one paragraph per line
+import { readZip } from '../zip';
+
+const PARTS = /^word\/(document|header\d*|footer\d*|footnotes|endnotes|comments)\.xml$/;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+// Malformed references past U+10FFFF become U+FFFD rather than failing the whole document
+function fromCodePoint(codePoint: number): string {
+  return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '\ufffd';
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, name: string) => {
+    if (name.startsWith('#x')) return fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return fromCodePoint(parseInt(name.slice(1), 10));
+    return ENTITIES[name] ?? entity;
+  });
+}
+
+// Text runs (<w:t>), tabs and breaks in document order; paragraphs end with a newline
+function partText(xml: string): string {
+  const pieces: string[] = [];
+  const tokens = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>|<\/w:p>/g;
+  let match: RegExpExecArray | null;
+  while ((match = tokens.exec(xml)) !== null) {
+    if (match[1] !== undefined) pieces.push(decodeEntities(match[1]));
+    else if (match[2] === 'tab') pieces.push('\t');
+    else pieces.push('\n');
+  }
+  return pieces.join('');
+}
+
+// `path` is the file on disk; the zip reader reads entries from it one at a time
+export async function extractDocxText(path: string): Promise<string> {
+  const archive = await readZip(path);
+  try {
+    const parts = archive.names.filter((name) => PARTS.test(name));
+    if (!parts.includes('word/document.xml')) {
+      throw new Error('Not a Word document');
+    }
+    // Body first, then headers, footers and notes
+    parts.sort((a, b) => (a === 'word/document.xml' ? -1 : b === 'word/document.xml' ? 1 : a.localeCompare(b)));
+    const texts: string[] = [];
+    for (const name of parts) {
+      texts.push(partText((await archive.read(name)).toString('utf8')));
+    }
+    return texts.join('\n');
+  } finally {
+    await archive.close();
+  }
+}
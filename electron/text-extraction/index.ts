@@ -0,0 +1,117 @@
+// Plain text from attachment files, for the search index. Each format has its own reader;
+// files of any other type have no text as far as search is concerned. Runs in the extraction
+// utility process (worker.ts), never in the main process.
+import { extname } from 'path';
+import { readFile, stat } from 'fs/promises';
+import type { AttachmentTextStatus } from '../db/attachments';
+import { extractPdfText } from './pdf';
+import { extractDocxText } from './docx';
+
+// Files larger than this aren't read at all
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+// Text past this many characters is left out of the index
+const MAX_TEXT_LENGTH = 1024 * 1024;
+
+// One blob to read; `fileName` is a name it was attached under, since blobs are named by hash
+export interface TextRequest {
+  hash: string;
+  absolutePath: string;
+  fileName: string;
+  mime: string;
+}
+
+export interface TextResult {
+  hash: string;
+  status: AttachmentTextStatus;
+  content: string;
+}
+
+const PLAIN_TEXT_EXTENSIONS = ['.txt', '.text', '.md', '.markdown', '.csv', '.json'];
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+type Format = 'text' | 'json' | 'pdf' | 'docx';
+
+function formatOf(fileName: string, mime: string): Format | null {
+  const extension = extname(fileName).toLowerCase();
+  if (mime === 'application/pdf' || extension === '.pdf') return 'pdf';
+  if (mime === DOCX_MIME || extension === '.docx') return 'docx';
+  if (mime === 'application/json' || extension === '.json') return 'json';
+  if (PLAIN_TEXT_EXTENSIONS.includes(extension) || mime === 'text/plain' || mime === 'text/markdown' || mime === 'text/csv') {
+    return 'text';
+  }
+  return null;
+}
+
+function decodeText(data: Buffer): string {
+  const text = data.toString('utf8');
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+// Keys and string values, one per line, so search doesn't match on braces and quotes. Files
+// that don't parse are indexed as they are.
+function jsonText(text: string): string {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return text;
+  }
+  const lines: string[] = [];
+  const walk = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(walk);
+    } else if (node !== null && typeof node === 'object') {
+      for (const [key, child] of Object.entries(node)) {
+        lines.push(key);
+        walk(child);
+      }
+    } else if (node !== null) {
+      lines.push(String(node));
+    }
+  };
+  walk(value);
+  return lines.join('\n');
+}
+
+function canExtractText(fileName: string, mime: string): boolean {
+  return formatOf(fileName, mime) !== null;
+}
+
+// Text of the file at `absolutePath` (whose bytes are `data`), or null if its type has none.
+// `fileName` is the name it was attached under, since blobs have no meaningful name of their
+// own. Throws when a supported file can't be read, e.g. a damaged or encrypted PDF.
+async function extractText(absolutePath: string, data: Buffer, fileName: string, mime: string): Promise<string | null> {
+  switch (formatOf(fileName, mime)) {
+    case 'text':
+      // Binary files renamed to .txt and the like: a NUL in the first few KB gives them away
+      return data.subarray(0, 8192).includes(0) ? null : decodeText(data);
+    case 'json':
+      return jsonText(decodeText(data));
+    case 'pdf':
+      return extractPdfText(data);
+    case 'docx':
+      return extractDocxText(absolutePath);
+    default:
+      return null;
+  }
+}
+
+// Read a blob and extract its text, within the size caps. Never throws: unreadable files come
+// back FAILED.
+export async function readAttachmentText(request: TextRequest): Promise<TextResult> {
+  const result = (status: AttachmentTextStatus, content = ''): TextResult => ({ hash: request.hash, status, content });
+  if (!canExtractText(request.fileName, request.mime)) {
+    return result('UNSUPPORTED');
+  }
+  try {
+    if ((await stat(request.absolutePath)).size > MAX_FILE_BYTES) {
+      return result('TOO_LARGE');
+    }
+    const data = await readFile(request.absolutePath);
+    const text = await extractText(request.absolutePath, data, request.fileName, request.mime);
+    return text === null ? result('UNSUPPORTED') : result('DONE', text.slice(0, MAX_TEXT_LENGTH).trim());
+  } catch (error) {
+    console.error(`Failed to extract text from attachment ${request.fileName}:`, error);
+    return result('FAILED');
+  }
+}
@@ -0,0 +1,370 @@
+// Plain text from PDF files, for search only. Reads every object (including compressed object
+// streams), inflates Flate-encoded content streams and collects the strings shown by the text
+// operators, decoded through each font's ToUnicode map when it has one. Layout is approximated
+// with spaces and line breaks; scanned PDFs without a text layer yield nothing.
+import { inflateSync, constants } from 'zlib';
+
+interface PdfObject {
+  dict: string;
+  stream: Buffer | null;
+}
+
+// Character codes of one font to text, with how many bytes make up a code
+interface CMap {
+  codeLength: number;
+  map: Map<number, string>;
+}
+
+// Decoded streams larger than this are skipped (images and fonts that slipped through)
+const MAX_STREAM_BYTES = 20 * 1024 * 1024;
+
+// Inflation stops at the cap, so a small compression bomb can't fill memory
+function inflate(data: Buffer): Buffer | null {
+  try {
+    return inflateSync(data, { maxOutputLength: MAX_STREAM_BYTES });
+  } catch (error) {
+    // Over the cap: skip the stream
+    if (error instanceof RangeError) return null;
+    // Many writers leave a truncated or unterminated stream; take what inflates
+    try {
+      return inflateSync(data, { maxOutputLength: MAX_STREAM_BYTES, finishFlush: constants.Z_SYNC_FLUSH });
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Stream contents after its filters, or null for filters we don't decode (images mostly)
+function decodeStream(object: PdfObject): Buffer | null {
+  if (!object.stream) return null;
+  const filters = (object.dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] ?? '').match(/\/\w+/g) ?? [];
+  if (filters.some((filter) => filter !== '/FlateDecode' && filter !== '/Fl')) return null;
+  const decoded = filters.length > 0 ? inflate(object.stream) : object.stream;
+  return decoded && decoded.length <= MAX_STREAM_BYTES ? decoded : null;
+}
+
+// The dictionary at the start of an object body, with nested dictionaries kept whole
+function leadingDict(body: string): string {
+  const start = body.indexOf('<<');
+  if (start < 0 || body.slice(0, start).trim() !== '') return '';
+  let depth = 0;
+  for (let i = start; i < body.length - 1; i++) {
+    if (body[i] === '<' && body[i + 1] === '<') {
+      depth++;
+      i++;
+    } else if (body[i] === '>' && body[i + 1] === '>') {
+      depth--;
+      i++;
+      if (depth === 0) return body.slice(start, i + 1);
+    }
+  }
+  return body.slice(start);
+}
+
+// Every "N 0 obj ... endobj" in the file, plus the objects packed into object streams
+function readObjects(data: Buffer): Map<number, PdfObject> {
+  const text = data.toString('latin1');
+  const objects = new Map<number, PdfObject>();
+  const header = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+  while ((match = header.exec(text)) !== null) {
+    const start = match.index + match[0].length;
+    const end = text.indexOf('endobj', start);
+    if (end < 0) break;
+    const body = text.slice(start, end);
+    const dict = leadingDict(body);
+    const dictEnd = dict ? body.indexOf('<<') + dict.length : 0;
+    let stream: Buffer | null = null;
+    const streamAt = body.indexOf('stream', dictEnd);
+    if (streamAt >= 0 && body.slice(dictEnd, streamAt).trim() === '') {
+      let dataStart = streamAt + 'stream'.length;
+      if (body[dataStart] === '\r') dataStart++;
+      if (body[dataStart] === '\n') dataStart++;
+      const length = Number(dict.match(/\/Length\s+(\d+)(?![\d\s]*R)/)?.[1]);
+      const dataEnd = Number.isFinite(length) && dataStart + length <= body.length
+        ? dataStart + length
+        : body.lastIndexOf('endstream');
+      stream = data.subarray(start + dataStart, start + Math.max(dataStart, dataEnd));
+    }
+    objects.set(Number(match[1]), { dict, stream });
+    header.lastIndex = end;
+  }
+
+  for (const object of Array.from(objects.values())) {
+    if (!/\/Type\s*\/ObjStm/.test(object.dict)) continue;
+    const decoded = decodeStream(object);
+    const first = Number(object.dict.match(/\/First\s+(\d+)/)?.[1]);
+    if (!decoded || !Number.isFinite(first)) continue;
+    const content = decoded.toString('latin1');
+    const numbers = content.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i + 1 < numbers.length; i += 2) {
+      const from = first + numbers[i + 1];
+      const to = i + 3 < numbers.length ? first + numbers[i + 3] : content.length;
+      if (!objects.has(numbers[i])) {
+        objects.set(numbers[i], { dict: leadingDict(content.slice(from, to)), stream: null });
+      }
+    }
+  }
+  return objects;
+}
+
+function hexToBytes(hex: string): number[] {
+  const digits = hex.replace(/[^0-9a-fA-F]/g, '');
+  const padded = digits.length % 2 ? `${digits}0` : digits;
+  const bytes: number[] = [];
+  for (let i = 0; i < padded.length; i += 2) {
+    bytes.push(parseInt(padded.slice(i, i + 2), 16));
+  }
+  return bytes;
+}
+
+function utf16beToString(bytes: number[]): string {
+  let result = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    result += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+  }
+  return result;
+}
+
+function bytesToNumber(bytes: number[]): number {
+  return bytes.reduce((value, byte) => value * 256 + byte, 0);
+}
+
+// bfchar and bfrange entries of a ToUnicode CMap
+function parseCMap(source: string): CMap {
+  const map = new Map<number, string>();
+  let codeLength = 0;
+  const hex = (value: string) => hexToBytes(value);
+
+  for (const block of source.match(/beginbfchar[\s\S]*?endbfchar/g) ?? []) {
+    for (const [, from, to] of Array.from(block.matchAll(/<([0-9a-fA-F\s]+)>\s*<([0-9a-fA-F\s]*)>/g))) {
+      const code = hex(from);
+      codeLength = Math.max(codeLength, code.length);
+      map.set(bytesToNumber(code), utf16beToString(hex(to)));
+    }
+  }
+  for (const block of source.match(/beginbfrange[\s\S]*?endbfrange/g) ?? []) {
+    const ranges = /<([0-9a-fA-F\s]+)>\s*<([0-9a-fA-F\s]+)>\s*(<[0-9a-fA-F\s]*>|\[[^\]]*\])/g;
+    for (const [, low, high, target] of Array.from(block.matchAll(ranges))) {
+      const lowCode = hex(low);
+      codeLength = Math.max(codeLength, lowCode.length);
+      const first = bytesToNumber(lowCode);
+      const last = Math.min(bytesToNumber(hex(high)), first + 0xffff);
+      if (target.startsWith('[')) {
+        const targets = target.match(/<([0-9a-fA-F\s]*)>/g) ?? [];
+        targets.forEach((value, index) => {
+          if (first + index <= last) map.set(first + index, utf16beToString(hex(value.slice(1, -1))));
+        });
+      } else {
+        const base = hex(target.slice(1, -1));
+        for (let code = first; code <= last; code++) {
+          // The last byte counts up through the range
+          const bytes = base.slice();
+          bytes[bytes.length - 1] += code - first;
+          map.set(code, utf16beToString(bytes));
+        }
+      }
+    }
+  }
+  return { codeLength: codeLength || 1, map };
+}
+
+// Font resource names ("/F1") to the CMap of the font they refer to. Names are collected from
+// every resource dictionary in the file, which is right for nearly all writers even though a
+// name may in theory mean different fonts on different pages.
+function readFontMaps(objects: Map<number, PdfObject>): Map<string, CMap> {
+  const cmaps = new Map<number, CMap>();
+  // Two-byte fonts without a ToUnicode map only have glyph ids, which read as noise
+  const unreadable: CMap = { codeLength: 2, map: new Map() };
+  const cmapOf = (fontNumber: number): CMap | undefined => {
+    const dict = objects.get(fontNumber)?.dict ?? '';
+    const ref = dict.match(/\/ToUnicode\s+(\d+)\s+\d+\s+R/)?.[1];
+    if (!ref) return /\/Subtype\s*\/Type0/.test(dict) ? unreadable : undefined;
+    if (!cmaps.has(Number(ref))) {
+      const object = objects.get(Number(ref));
+      const decoded = object ? decodeStream(object) : null;
+      if (!decoded) return undefined;
+      cmaps.set(Number(ref), parseCMap(decoded.toString('latin1')));
+    }
+    return cmaps.get(Number(ref));
+  };
+
+  const fonts = new Map<string, CMap>();
+  const addEntries = (entries: string) => {
+    for (const [, name, ref] of Array.from(entries.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g))) {
+      const cmap = cmapOf(Number(ref));
+      if (cmap) fonts.set(name, cmap);
+    }
+  };
+  for (const { dict } of Array.from(objects.values())) {
+    for (const [, inline, ref] of Array.from(dict.matchAll(/\/Font\s*(?:<<([^>]*)>>|(\d+)\s+\d+\s+R)/g))) {
+      if (inline !== undefined) addEntries(inline);
+      else addEntries(objects.get(Number(ref))?.dict ?? '');
+    }
+  }
+  return fonts;
+}
+
+type Operand = number | string | number[] | { name: string } | Operand[];
+
+// Text shown by one content stream
+function readContentStream(content: string, fonts: Map<string, CMap>): string {
+  let output = '';
+  let cmap: CMap | undefined;
+  const stack: Operand[] = [];
+  const arrays: Operand[][] = [];
+  const push = (operand: Operand) => (arrays.length > 0 ? arrays[arrays.length - 1] : stack).push(operand);
+
+  const show = (bytes: number[]) => {
+    if (cmap) {
+      for (let i = 0; i + cmap.codeLength <= bytes.length; i += cmap.codeLength) {
+        output += cmap.map.get(bytesToNumber(bytes.slice(i, i + cmap.codeLength))) ?? '';
+      }
+    } else if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+      output += utf16beToString(bytes.slice(2));
+    } else {
+      output += Buffer.from(bytes).toString('latin1');
+    }
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const char = content[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+    } else if (char === '(') {
+      // Literal string: balanced parentheses, backslash escapes
+      const bytes: number[] = [];
+      let depth = 1;
+      i++;
+      while (i < content.length && depth > 0) {
+        const c = content[i];
+        if (c === '\\') {
+          const next = content[i + 1];
+          const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+          if (next in escapes) {
+            bytes.push(escapes[next]);
+            i += 2;
+          } else if (/[0-7]/.test(next)) {
+            const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+            bytes.push(parseInt(octal, 8) & 0xff);
+            i += 1 + octal.length;
+          } else if (next === '\r' || next === '\n') {
+            i += next === '\r' && content[i + 2] === '\n' ? 3 : 2;
+          } else {
+            bytes.push(next.charCodeAt(0));
+            i += 2;
+          }
+          continue;
+        }
+        if (c === '(') depth++;
+        if (c === ')') depth--;
+        if (depth > 0) bytes.push(c.charCodeAt(0));
+        i++;
+      }
+      push(bytes);
+    } else if (char === '<' && content[i + 1] === '<') {
+      i += 2;
+    } else if (char === '>' && content[i + 1] === '>') {
+      i += 2;
+    } else if (char === '<') {
+      const end = content.indexOf('>', i);
+      push(hexToBytes(content.slice(i + 1, end < 0 ? content.length : end)));
+      i = end < 0 ? content.length : end + 1;
+    } else if (char === '[') {
+      arrays.push([]);
+      i++;
+    } else if (char === ']') {
+      const array = arrays.pop() ?? [];
+      push(array);
+      i++;
+    } else if (char === '/') {
+      const name = content.slice(i + 1).match(/^[^\s/<>[\]()%{}]*/)![0];
+      push({ name });
+      i += 1 + name.length;
+    } else if (/[\d.+-]/.test(char)) {
+      const number = content.slice(i).match(/^[+-]?(\d+\.?\d*|\.\d+)/)?.[0] ?? char;
+      push(Number(number) || 0);
+      i += number.length;
+    } else {
+      const operator = content.slice(i).match(/^[A-Za-z'"*]+/)?.[0] ?? char;
+      i += operator.length;
+      switch (operator) {
+        case 'Tf': {
+          const name = stack[stack.length - 2];
+          cmap = typeof name === 'object' && !Array.isArray(name) ? fonts.get(name.name) : undefined;
+          break;
+        }
+        case 'Tj':
+          show(stack[stack.length - 1] as number[]);
+          break;
+        case "'":
+        case '"':
+          output += '\n';
+          show(stack[stack.length - 1] as number[]);
+          break;
+        case 'TJ':
+          for (const part of (stack[stack.length - 1] as Operand[]) ?? []) {
+            if (typeof part === 'number') {
+              // Kerning this wide is a word gap
+              if (part < -180) output += ' ';
+            } else if (Array.isArray(part)) {
+              show(part as number[]);
+            }
+          }
+          break;
+        case 'Td':
+        case 'TD':
+          output += stack[stack.length - 1] !== 0 ? '\n' : ' ';
+          break;
+        case 'T*':
+        case 'ET':
+          output += '\n';
+          break;
+        case 'Tm':
+          output += ' ';
+          break;
+        case 'BI': {
+          // Inline image data is binary; skip to its end marker
+          const end = content.slice(i).search(/\sEI(\s|$)/);
+          i = end < 0 ? content.length : i + end + 3;
+          break;
+        }
+      }
+      stack.length = 0;
+    }
+  }
+  return output;
+}
+
+// Fonts, images and other binary streams never hold page text
+function isContentCandidate(dict: string): boolean {
+  return !/\/(Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType|XML)|Type\s*\/(ObjStm|XRef|Metadata|EmbeddedFile)|Length1|Length2|Length3)\b/.test(dict);
+}
+
+export function extractPdfText(data: Buffer): string {
+  const head = data.subarray(0, 1024).toString('latin1');
+  if (!head.includes('%PDF-')) {
+    throw new Error('Not a PDF file');
+  }
+  const objects = readObjects(data);
+  if (Array.from(objects.values()).some(({ dict }) => /\/Filter\s*\/Standard\b/.test(dict))) {
+    throw new Error('The PDF is encrypted');
+  }
+  const fonts = readFontMaps(objects);
+
+  const parts: string[] = [];
+  const numbers = Array.from(objects.keys()).sort((a, b) => a - b);
+  for (const number of numbers) {
+    const object = objects.get(number)!;
+    if (!object.stream || !isContentCandidate(object.dict)) continue;
+    const decoded = decodeStream(object);
+    if (!decoded) continue;
+    const content = decoded.toString('latin1');
+    if (!/\bBT\b/.test(content)) continue;
+    parts.push(readContentStream(content, fonts));
+  }
+  return parts.join('\n');
+}
@@ -0,0 +1,8 @@
+// Entry point of the utility process that attachment-indexer.ts starts: it reads one attachment
+// per message and answers with its text, so parsing large PDFs and Word files never blocks the
+// main process
+import { readAttachmentText, type TextRequest } from './index';
+
+process.parentPort.on('message', async (event) => {
+  process.parentPort.postMessage(await readAttachmentText(event.data as TextRequest));
+});
@@ -0,0 +1,71 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { readZip, writeZip } from './zip';
+
+describe('zip', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'taskvault-zip-'));
+    path = join(dir, 'test.zip');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Overwrite the declared uncompressed size of the only entry, in its local and central headers
+  function setDeclaredSize(size: number) {
+    const data = readFileSync(path);
+    data.writeUInt32LE(size, 22);
+    data.writeUInt32LE(size, data.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+    writeFileSync(path, data);
+  }
+
+  it('reads back what it wrote', async () => {
+    const text = Buffer.from('hello '.repeat(1000));
+    await writeZip(path, [{ name: 'a.txt', read: () => text }, { name: 'dir/b.bin', read: () => Buffer.from([1, 2, 3]) }]);
+    const archive = await readZip(path);
+    try {
+      assert.deepEqual(archive.names, ['a.txt', 'dir/b.bin']);
+      assert.deepEqual(await archive.read('a.txt'), text);
+      assert.deepEqual(await archive.read('dir/b.bin'), Buffer.from([1, 2, 3]));
+    } finally {
+      await archive.close();
+    }
+  });
+
+  it('stops inflating at the declared size', async () => {
+    await writeZip(path, [{ name: 'bomb.txt', read: () => Buffer.alloc(8 * 1024 * 1024) }]);
+    setDeclaredSize(1024);
+    const archive = await readZip(path);
+    try {
+      await assert.rejects(() => archive.read('bomb.txt'), /Corrupt zip entry: bomb\.txt/);
+    } finally {
+      await archive.close();
+    }
+  });
+
+  it('rejects entries whose data runs past the end of the file', async () => {
+    await writeZip(path, [{ name: 'a.txt', read: () => Buffer.from('abc') }]);
+    const data = readFileSync(path);
+    data.writeUInt32LE(0x7fffffff, data.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 20);
+    writeFileSync(path, data);
+    const archive = await readZip(path);
+    try {
+      await assert.rejects(() => archive.read('a.txt'), /Corrupt zip entry/);
+    } finally {
+      await archive.close();
+    }
+  });
+
+  it('rejects zip64 archives with a clear error', async () => {
+    await writeZip(path, [{ name: 'a.txt', read: () => Buffer.from('abc') }]);
+    setDeclaredSize(0xffffffff);
+    await assert.rejects(() => readZip(path), /zip64/);
+  });
+});
@@ -0,0 +1,281 @@
+// Minimal zip reading and writing (deflate or stored, no zip64) for vault exports. File access
+// and compression are asynchronous, so exporting or importing a large vault doesn't freeze the
+// window.
+import { open } from 'fs/promises';
+import { deflateRaw, inflateRaw, type ZlibOptions } from 'zlib';
+
+export interface ZipSource {
+  name: string;
+  // Called once while writing, so large files are read one at a time
+  read: () => Buffer | Promise<Buffer>;
+}
+
+export interface ZipArchive {
+  names: string[];
+  read: (name: string) => Promise<Buffer>;
+  close: () => Promise<void>;
+}
+
+interface CentralRecord {
+  name: string;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  dosTime: number;
+  dosDate: number;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIR = 0x06054b50;
+const ZIP64_END_LOCATOR = 0x07064b50;
+const UTF8_FLAG = 0x0800;
+const STORED = 0;
+const DEFLATED = 8;
+const MAX_UINT32 = 0xffffffff;
+const MAX_UINT16 = 0xffff;
+const ZIP64_ERROR = 'This zip file needs zip64 (over 4 GB or 65,535 files), which TaskVault does not support';
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function deflateRawAsync(data: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    deflateRaw(data, (error, result) => (error ? reject(error) : resolve(result)));
+  });
+}
+
+function inflateRawAsync(data: Buffer, options: ZlibOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    inflateRaw(data, options, (error, result) => (error ? reject(error) : resolve(result)));
+  });
+}
+
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  return {
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+// Entry names must be relative, forward-slashed and stay inside the archive
+export function isSafeEntryName(name: string): boolean {
+  return name.length > 0 &&
+    !name.startsWith('/') &&
+    !name.includes('\\') &&
+    !/^[a-zA-Z]:/.test(name) &&
+    name.split('/').every((part) => part !== '..' && part !== '.');
+}
+
+export async function writeZip(path: string, sources: ZipSource[]): Promise<void> {
+  const file = await open(path, 'w');
+  const records: CentralRecord[] = [];
+  let offset = 0;
+  const write = async (buffer: Buffer) => {
+    await file.write(buffer);
+    offset += buffer.length;
+  };
+
+  try {
+    const { dosTime, dosDate } = toDosDateTime(new Date());
+    for (const source of sources) {
+      if (!isSafeEntryName(source.name)) {
+        throw new Error(`Invalid zip entry name: ${source.name}`);
+      }
+      const data = await source.read();
+      const deflated = await deflateRawAsync(data);
+      // Already-compressed files (images, archives) are stored as-is
+      const method = deflated.length < data.length ? DEFLATED : STORED;
+      const body = method === DEFLATED ? deflated : data;
+      if (offset > MAX_UINT32 || body.length > MAX_UINT32) {
+        throw new Error('Export is too large (over 4 GB)');
+      }
+
+      const name = Buffer.from(source.name, 'utf8');
+      const record: CentralRecord = {
+        name: source.name, method, crc: crc32(data), compressedSize: body.length, size: data.length, offset, dosTime, dosDate,
+      };
+      const header = Buffer.alloc(30);
+      header.writeUInt32LE(LOCAL_HEADER, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(UTF8_FLAG, 6);
+      header.writeUInt16LE(method, 8);
+      header.writeUInt16LE(dosTime, 10);
+      header.writeUInt16LE(dosDate, 12);
+      header.writeUInt32LE(record.crc, 14);
+      header.writeUInt32LE(record.compressedSize, 18);
+      header.writeUInt32LE(record.size, 22);
+      header.writeUInt16LE(name.length, 26);
+      header.writeUInt16LE(0, 28);
+      await write(header);
+      await write(name);
+      await write(body);
+      records.push(record);
+    }
+
+    const centralStart = offset;
+    for (const record of records) {
+      const name = Buffer.from(record.name, 'utf8');
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_HEADER, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(UTF8_FLAG, 8);
+      header.writeUInt16LE(record.method, 10);
+      header.writeUInt16LE(record.dosTime, 12);
+      header.writeUInt16LE(record.dosDate, 14);
+      header.writeUInt32LE(record.crc, 16);
+      header.writeUInt32LE(record.compressedSize, 20);
+      header.writeUInt32LE(record.size, 24);
+      header.writeUInt16LE(name.length, 28);
+      header.writeUInt32LE(record.offset, 42);
+      await write(header);
+      await write(name);
+    }
+
+    if (records.length > MAX_UINT16) {
+      throw new Error('Export has too many files');
+    }
+    // Past these the end record would need zip64; its offsets would wrap around
+    if (centralStart > MAX_UINT32 || offset - centralStart > MAX_UINT32) {
+      throw new Error('Export is too large (over 4 GB)');
+    }
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIR, 0);
+    end.writeUInt16LE(records.length, 8);
+    end.writeUInt16LE(records.length, 10);
+    end.writeUInt32LE(offset - centralStart, 12);
+    end.writeUInt32LE(centralStart, 16);
+    await write(end);
+  } finally {
+    await file.close();
+  }
+}
+
+export async function readZip(path: string): Promise<ZipArchive> {
+  const file = await open(path, 'r');
+  const readAt = async (position: number, length: number) => {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await file.read(buffer, 0, length, position);
+    if (bytesRead !== length) {
+      throw new Error('Not a valid zip file: unexpected end of file');
+    }
+    return buffer;
+  };
+
+  try {
+    // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+    const { size } = await file.stat();
+    const tailLength = Math.min(size, 22 + 0xffff);
+    const tail = await readAt(size - tailLength, tailLength);
+    let endIndex = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIR) {
+        endIndex = i;
+        break;
+      }
+    }
+    if (endIndex < 0) {
+      throw new Error('Not a valid zip file');
+    }
+
+    const count = tail.readUInt16LE(endIndex + 10);
+    const centralSize = tail.readUInt32LE(endIndex + 12);
+    const centralStart = tail.readUInt32LE(endIndex + 16);
+    // Zip64 archives max out these fields and keep the real values in a zip64 end record
+    const hasZip64Locator = endIndex >= 20 && tail.readUInt32LE(endIndex - 20) === ZIP64_END_LOCATOR;
+    if (hasZip64Locator || count === MAX_UINT16 || centralSize === MAX_UINT32 || centralStart === MAX_UINT32) {
+      throw new Error(ZIP64_ERROR);
+    }
+    if (centralStart + centralSize > size) {
+      throw new Error('Not a valid zip file: unexpected end of file');
+    }
+    const central = await readAt(centralStart, centralSize);
+    const records = new Map<string, CentralRecord>();
+    let position = 0;
+    for (let i = 0; i < count; i++) {
+      if (central.readUInt32LE(position) !== CENTRAL_HEADER) {
+        throw new Error('Not a valid zip file: corrupt central directory');
+      }
+      const nameLength = central.readUInt16LE(position + 28);
+      const extraLength = central.readUInt16LE(position + 30);
+      const commentLength = central.readUInt16LE(position + 32);
+      const name = central.toString('utf8', position + 46, position + 46 + nameLength);
+      const record: CentralRecord = {
+        name,
+        method: central.readUInt16LE(position + 10),
+        dosTime: central.readUInt16LE(position + 12),
+        dosDate: central.readUInt16LE(position + 14),
+        crc: central.readUInt32LE(position + 16),
+        compressedSize: central.readUInt32LE(position + 20),
+        size: central.readUInt32LE(position + 24),
+        offset: central.readUInt32LE(position + 42),
+      };
+      if (record.compressedSize === MAX_UINT32 || record.size === MAX_UINT32 || record.offset === MAX_UINT32) {
+        throw new Error(ZIP64_ERROR);
+      }
+      records.set(name, record);
+      position += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return {
+      names: Array.from(records.keys()).filter((name) => !name.endsWith('/')),
+      read: async (name: string) => {
+        const record = records.get(name);
+        if (!record) {
+          throw new Error(`Missing from zip: ${name}`);
+        }
+        const local = await readAt(record.offset, 30);
+        if (local.readUInt32LE(0) !== LOCAL_HEADER) {
+          throw new Error(`Corrupt zip entry: ${name}`);
+        }
+        const dataStart = record.offset + 30 + local.readUInt16LE(26) + local.readUInt16LE(28);
+        // Checked before allocating, since the sizes come from the file
+        if (dataStart + record.compressedSize > size) {
+          throw new Error(`Corrupt zip entry: ${name}`);
+        }
+        const body = await readAt(dataStart, record.compressedSize);
+        let data: Buffer;
+        if (record.method === STORED) {
+          data = body;
+        } else if (record.method === DEFLATED) {
+          // Never inflate past the declared size, so a small entry can't expand to fill memory
+          try {
+            data = await inflateRawAsync(body, { maxOutputLength: Math.max(record.size, 1) });
+          } catch {
+            throw new Error(`Corrupt zip entry: ${name}`);
+          }
+        } else {
+          throw new Error(`Unsupported compression in zip entry: ${name}`);
+        }
+        if (data.length !== record.size || crc32(data) !== record.crc) {
+          throw new Error(`Corrupt zip entry: ${name}`);
+        }
+        return data;
+      },
+      close: () => file.close(),
+    };
+  } catch (error) {
+    await file.close();
+    throw error;
+  }
+}
@@ -0,0 +1,21 @@
+// Runs the compiled main-process tests (dist-test) with Node's test runner inside Electron's
+// Node, the runtime better-sqlite3 is rebuilt for on install
+const { spawnSync } = require('child_process');
+const { readdirSync, statSync } = require('fs');
+const { join } = require('path');
+const electron = require('electron');
+
+function findTests(dir) {
+  return readdirSync(dir).flatMap((name) => {
+    const path = join(dir, name);
+    if (statSync(path).isDirectory()) return findTests(path);
+    return name.endsWith('.test.js') ? [path] : [];
+  });
+}
+
+const files = findTests(join(__dirname, '..', 'dist-test', 'electron'));
+const result = spawnSync(electron, ['--test', ...files], {
+  stdio: 'inherit',
+  env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' },
+});
+process.exit(result.status ?? 1);
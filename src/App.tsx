@@ -1,23 +1,37 @@
 import { useState, useEffect } from 'react';
 import { Dashboard } from './components/Dashboard';
 import { TaskDetail } from './components/TaskDetail';
+import { BackupsScreen } from './components/BackupsScreen';
+import { TrashScreen } from './components/TrashScreen';
+import { ArchiveScreen } from './components/ArchiveScreen';
 import type { Task, TaskDetail as TaskDetailType } from '../electron/preload';
 
 export const App = () => {
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
   const [taskDetail, setTaskDetail] = useState<TaskDetailType | null>(null);
   const [darkMode, setDarkMode] = useState(true);
+  // Full-screen views reachable from the dashboard header
+  const [screen, setScreen] = useState<'main' | 'backups' | 'trash' | 'archive'>('main');
 
   useEffect(() => {
     document.documentElement.classList.toggle('dark', darkMode);
   }, [darkMode]);
 
   const handleTaskSelect = async (taskId: string) => {
+    setScreen('main');
     setSelectedTaskId(taskId);
     const detail = await window.electronAPI.getTaskById(taskId);
     setTaskDetail(detail);
   };
 
+  // Clicking a reminder notification opens its task
+  useEffect(() => {
+    if (!window.electronAPI) return;
+    return window.electronAPI.onOpenTask((taskId) => {
+      handleTaskSelect(taskId);
+    });
+  }, []);
+
   const handleTaskUpdate = async () => {
     if (selectedTaskId) {
       const detail = await window.electronAPI.getTaskById(selectedTaskId);
@@ -25,19 +39,40 @@ export const App = () => {
     }
   };
 
+  if (screen === 'backups') {
+    return <BackupsScreen onBack={() => setScreen('main')} />;
+  }
+
+  if (screen === 'archive') {
+    return <ArchiveScreen onBack={() => setScreen('main')} onTaskSelect={handleTaskSelect} />;
+  }
+
+  if (screen === 'trash') {
+    return <TrashScreen onBack={() => setScreen('main')} onTaskSelect={handleTaskSelect} />;
+  }
+
   if (selectedTaskId && taskDetail) {
     return (
       <TaskDetail
+        key={taskDetail.task.id}
         taskDetail={taskDetail}
         onBack={() => {
           setSelectedTaskId(null);
           setTaskDetail(null);
         }}
         onUpdate={handleTaskUpdate}
+        onTaskSelect={handleTaskSelect}
       />
     );
   }
 
-  return <Dashboard onTaskSelect={handleTaskSelect} />;
+  return (
+    <Dashboard
+      onTaskSelect={handleTaskSelect}
+      onOpenBackups={() => setScreen('backups')}
+      onOpenTrash={() => setScreen('trash')}
+      onOpenArchive={() => setScreen('archive')}
+    />
+  );
 };
 
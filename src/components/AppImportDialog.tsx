@@ -0,0 +1,143 @@
+// Preview and run an import from Trello, Todoist or todo.txt, then show what was skipped
+import { useState, useEffect } from 'react';
+import { X, AlertTriangle, CheckCircle } from 'lucide-react';
+import type { AppImportPreview, AppImportReport, ImportSkip } from '../../electron/preload';
+import { toast } from './ui/toast';
+
+interface AppImportDialogProps {
+  // The parsed file; the dialog is closed while null
+  preview: AppImportPreview | null;
+  onClose: () => void;
+}
+
+const SkippedList = ({ skipped }: { skipped: ImportSkip[] }) => (
+  <div>
+    <div className="flex items-center gap-1 text-sm text-yellow-400 mb-2">
+      <AlertTriangle className="w-4 h-4" />
+      {skipped.length} {skipped.length === 1 ? 'item was' : 'items were'} skipped or only partly imported
+    </div>
+    <ul className="max-h-64 overflow-y-auto border border-gray-700/50 rounded-lg divide-y divide-gray-700/50 text-xs">
+      {skipped.map((skip, index) => (
+        <li key={index} className="px-3 py-1.5">
+          <span className="text-gray-200">{skip.item}</span>
+          <span className="text-gray-400"> — {skip.reason}</span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export const AppImportDialog = ({ preview, onClose }: AppImportDialogProps) => {
+  const [report, setReport] = useState<AppImportReport | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    setReport(null);
+  }, [preview]);
+
+  if (!preview) return null;
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const result = await window.electronAPI.importFromApp(preview.path);
+      setReport(result);
+      toast.success(`Imported ${result.tasksImported} tasks from ${result.formatLabel}`);
+    } catch (error) {
+      console.error('Import failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-800 border border-gray-700 rounded-lg p-6 max-w-2xl w-full mx-4 shadow-xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-100">
+            Import {preview.formatLabel} <span className="text-sm font-normal text-gray-400">{preview.fileName}</span>
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-200 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          {!report && (
+            <>
+              <ul className="text-sm text-gray-300 space-y-1">
+                <li>{preview.taskCount} tasks</li>
+                <li>{preview.noteCount} comments as timeline notes</li>
+                <li>{preview.checklistItemCount} checklist items</li>
+                <li>{preview.attachmentCount} attachments to copy</li>
+              </ul>
+              {preview.projects.length > 0 && (
+                <div className="text-xs text-gray-400">Projects: {preview.projects.join(', ')}</div>
+              )}
+              {preview.tags.length > 0 && (
+                <div className="text-xs text-gray-400">Tags: {preview.tags.join(', ')}</div>
+              )}
+              {preview.skipped.length > 0 && <SkippedList skipped={preview.skipped} />}
+              <div className="text-xs text-gray-500">
+                Everything is added as new tasks. A snapshot is taken first, so the import can be undone from Backups.
+              </div>
+            </>
+          )}
+
+          {report && (
+            <>
+              <div className="flex items-center gap-1 text-sm text-green-400">
+                <CheckCircle className="w-4 h-4" />
+                Imported {report.tasksImported} tasks, {report.notesImported} notes, {report.checklistItemsImported} checklist
+                items and {report.attachmentsCopied} attachments
+              </div>
+              {report.skipped.length > 0 ? (
+                <SkippedList skipped={report.skipped} />
+              ) : (
+                <div className="text-sm text-gray-400">Nothing was skipped.</div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-3 justify-end mt-6">
+          {report ? (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white transition-colors"
+            >
+              Done
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-200 transition-colors"
+                disabled={isImporting}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleImport}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={isImporting || preview.taskCount === 0}
+              >
+                {isImporting ? 'Importing...' : `Import ${preview.taskCount} tasks`}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
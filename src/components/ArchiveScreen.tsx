@@ -0,0 +1,185 @@
+// Archived tasks with their cleanup countdown and archive retention
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ArrowLeft, Archive, ArchiveRestore, FolderOpen, Search } from 'lucide-react';
+import type { ArchiveSettings, Task } from '../../electron/preload';
+import { formatDate, getDaysUntil } from '../lib/utils';
+import { useDataUpdated } from '../hooks/useDataUpdated';
+import { toast } from './ui/toast';
+
+interface ArchiveScreenProps {
+  onBack: () => void;
+  onTaskSelect: (taskId: string) => void;
+}
+
+function getCountdown(deleteAfterAt: number | null): { label: string; className: string } {
+  if (deleteAfterAt === null) {
+    return { label: 'Kept forever', className: 'text-gray-400' };
+  }
+  const days = getDaysUntil(deleteAfterAt);
+  if (days <= 0) {
+    return { label: 'Moves to trash at next cleanup', className: 'text-red-400' };
+  }
+  return {
+    label: `Moves to trash in ${days} day${days === 1 ? '' : 's'}`,
+    className: days <= 3 ? 'text-red-400' : days <= 7 ? 'text-yellow-400' : 'text-gray-400',
+  };
+}
+
+export const ArchiveScreen = ({ onBack, onTaskSelect }: ArchiveScreenProps) => {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [settings, setSettings] = useState<ArchiveSettings | null>(null);
+  const [filter, setFilter] = useState('');
+
+  const loadData = useCallback(async () => {
+    if (!window.electronAPI) return;
+    try {
+      const [allTasks, loadedSettings] = await Promise.all([
+        window.electronAPI.getTasks(),
+        window.electronAPI.getArchiveSettings(),
+      ]);
+      setTasks(allTasks.filter((task) => task.status === 'ARCHIVED'));
+      setSettings(loadedSettings);
+    } catch (error) {
+      console.error('Failed to load archive:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  useDataUpdated(loadData);
+
+  // Soonest cleanup first; tasks kept forever go last
+  const visibleTasks = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    return tasks
+      .filter((task) => !needle || task.title.toLowerCase().includes(needle))
+      .sort((a, b) => (a.delete_after_at ?? Infinity) - (b.delete_after_at ?? Infinity));
+  }, [tasks, filter]);
+
+  const saveSettings = async (patch: Partial<ArchiveSettings>) => {
+    try {
+      setSettings(await window.electronAPI.updateArchiveSettings(patch));
+    } catch (error) {
+      console.error('Failed to update archive settings:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update archive settings');
+    }
+  };
+
+  const handleUnarchive = async (task: Task) => {
+    try {
+      await window.electronAPI.unarchiveTask(task.id);
+      toast.success(`Un-archived "${task.title}"`);
+    } catch (error) {
+      console.error('Failed to un-archive task:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to un-archive task');
+    }
+  };
+
+  return (
+    <div className="h-screen flex flex-col bg-gray-900 text-gray-100">
+      <header className="border-b border-gray-800/50 px-6 py-4 bg-gray-900/60 backdrop-blur-xl">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={onBack}
+            className="flex items-center gap-2 text-gray-400 hover:text-gray-200 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            Back
+          </button>
+          <button
+            onClick={() => window.electronAPI.openArchiveExports()}
+            className="flex items-center gap-2 px-3 py-1 bg-gray-700/40 text-gray-300 border border-gray-600/40 rounded-lg hover:bg-gray-700/60 transition-colors"
+            title="JSON copies written by cleanup before archived tasks go to the trash"
+          >
+            <FolderOpen className="w-4 h-4" />
+            Last-chance exports
+          </button>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-y-auto p-6 max-w-4xl w-full mx-auto">
+        <h1 className="text-2xl font-bold mb-6">Archive</h1>
+
+        {settings && (
+          <div className="mb-8 p-4 bg-gray-800/40 border border-gray-700/50 rounded-lg space-y-3">
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={settings.retentionDays === null}
+                onChange={(e) => saveSettings({ retentionDays: e.target.checked ? null : 30 })}
+                className="w-4 h-4 accent-blue-500"
+              />
+              Keep archived tasks forever
+            </label>
+            {settings.retentionDays !== null && (
+              <label className="block text-sm text-gray-400">
+                Move archived tasks to the trash after
+                <input
+                  type="number"
+                  min={1}
+                  max={3650}
+                  defaultValue={settings.retentionDays}
+                  key={`retention-${settings.retentionDays}`}
+                  onBlur={(e) => {
+                    const value = Number(e.target.value);
+                    if (value !== settings.retentionDays) saveSettings({ retentionDays: value });
+                  }}
+                  className="mx-2 w-20 px-2 py-1 bg-gray-900/60 border border-gray-700/50 rounded text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                />
+                days
+              </label>
+            )}
+          </div>
+        )}
+
+        <div className="relative mb-4">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-4 h-4 pointer-events-none" />
+          <input
+            type="text"
+            placeholder="Filter archived tasks"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="w-full pl-9 pr-3 py-2 bg-gray-800/40 border border-gray-700/50 rounded-lg text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          />
+        </div>
+
+        {visibleTasks.length === 0 && (
+          <div className="flex flex-col items-center py-12 text-gray-500">
+            <Archive className="w-10 h-10 mb-3" />
+            <div className="text-sm">{tasks.length === 0 ? 'No archived tasks' : 'No archived tasks match'}</div>
+          </div>
+        )}
+        <ul className="space-y-2">
+          {visibleTasks.map((task) => {
+            const countdown = getCountdown(task.delete_after_at);
+            return (
+              <li key={task.id} className="flex items-center gap-3 px-4 py-3 bg-gray-800/40 border border-gray-700/50 rounded-lg">
+                <div className="flex-1 min-w-0">
+                  <button
+                    onClick={() => onTaskSelect(task.id)}
+                    className="block max-w-full text-left text-sm font-medium truncate hover:text-blue-400"
+                  >
+                    {task.title}
+                  </button>
+                  <div className="text-xs text-gray-400">
+                    {task.archived_at !== null && `Archived ${formatDate(task.archived_at)} · `}
+                    <span className={countdown.className}>{countdown.label}</span>
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleUnarchive(task)}
+                  className="flex items-center gap-1 px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded"
+                >
+                  <ArchiveRestore className="w-3 h-3" />
+                  Un-archive
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
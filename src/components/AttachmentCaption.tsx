@@ -0,0 +1,70 @@
+// Inline-editable caption under an image or file in the timeline
+import { useState } from 'react';
+import { toast } from './ui/toast';
+import { attachmentErrorMessage } from '../lib/utils';
+
+interface AttachmentCaptionProps {
+  path: string;
+  caption: string;
+  // Called after the caption is saved, so the parent can reload the attachment metadata
+  onSaved: () => void;
+}
+
+export const AttachmentCaption = ({ path, caption, onSaved }: AttachmentCaptionProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(caption);
+
+  const startEditing = () => {
+    setDraft(caption);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!isEditing) return;
+    setIsEditing(false);
+    if (draft.trim() === caption) return;
+    try {
+      await window.electronAPI.setAttachmentCaption(path, draft);
+      onSaved();
+    } catch (error) {
+      console.error('Failed to save caption:', error);
+      toast.error(attachmentErrorMessage(error, 'Failed to save caption'));
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={handleSave}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') handleSave();
+          if (e.key === 'Escape') setIsEditing(false);
+        }}
+        placeholder="Describe this attachment"
+        maxLength={500}
+        className="w-full mt-2 px-2 py-1 bg-gray-800/60 border border-gray-700/50 rounded text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+        autoFocus
+      />
+    );
+  }
+
+  return caption ? (
+    <div
+      onClick={startEditing}
+      className="mt-2 text-sm text-gray-300 italic cursor-text break-words"
+      title="Click to edit caption"
+    >
+      {caption}
+    </div>
+  ) : (
+    <button
+      onClick={startEditing}
+      className="mt-2 text-xs text-gray-500 hover:text-gray-300 transition-colors"
+    >
+      Add caption
+    </button>
+  );
+};
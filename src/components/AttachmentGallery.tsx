@@ -1,46 +1,24 @@
 ﻿// Attachment gallery component with memoization to prevent flickering
-import React, { useMemo, useState, useEffect } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Image as ImageIcon, FileText } from 'lucide-react';
-import type { TimelineEntry } from '../../electron/preload';
+import type { TimelineEntry, AttachmentInfo } from '../../electron/preload';
+import { thumbnailUrl, describeAttachment } from '../lib/utils';
 
 interface AttachmentGalleryProps {
   timeline: TimelineEntry[];
+  // Stored metadata by entry content (original name, type, size, caption)
+  attachments: Record<string, AttachmentInfo>;
   onSelectAttachment: (entry: TimelineEntry) => void;
-  getAttachmentPath: (relativePath: string) => Promise<string>;
 }
 
-export const AttachmentGallery = React.memo(({ timeline, onSelectAttachment, getAttachmentPath }: AttachmentGalleryProps) => {
+export const AttachmentGallery = React.memo(({ timeline, attachments, onSelectAttachment }: AttachmentGalleryProps) => {
   const attachmentEntries = useMemo(() => 
     timeline.filter(e => e.type === 'IMAGE' || e.type === 'FILE'),
     [timeline]
   );
 
-  const [imageDataUrls, setImageDataUrls] = useState<Record<string, string>>({});
-
-  useEffect(() => {
-    const imageEntries = attachmentEntries.filter(e => e.type === 'IMAGE');
-    const loadImages = async () => {
-      const newDataUrls: Record<string, string> = {};
-      for (const entry of imageEntries) {
-        if (!imageDataUrls[entry.content] && entry.content) {
-          try {
-            const dataUrl = await window.electronAPI.getImageDataUrl(entry.content);
-            if (dataUrl) {
-              newDataUrls[entry.content] = dataUrl;
-            }
-          } catch (error) {
-            console.error('Failed to load image preview:', error);
-          }
-        }
-      }
-      if (Object.keys(newDataUrls).length > 0) {
-        setImageDataUrls(prev => ({ ...prev, ...newDataUrls }));
-      }
-    };
-    if (imageEntries.length > 0) {
-      loadImages();
-    }
-  }, [attachmentEntries, imageDataUrls]);
+  // Thumbnails that failed to load (e.g. the file is missing) fall back to an icon
+  const [brokenImages, setBrokenImages] = useState<Record<string, boolean>>({});
 
   if (attachmentEntries.length === 0) {
     return (
@@ -57,39 +35,53 @@ export const AttachmentGallery = React.memo(({ timeline, onSelectAttachment, get
       <div className="text-sm font-semibold text-gray-300 mb-3">Attachments ({attachmentEntries.length})</div>
       <div className="grid grid-cols-3 gap-2">
         {displayEntries.map((entry) => {
+          const info = attachments[entry.content];
+          const fileName = info?.original_name ?? (entry.content.split('/').pop() || 'File');
+          // Shown on hover: name, type and size, then the caption if there is one
+          const tooltip = [`${fileName} (${describeAttachment(fileName, info)})`, info?.caption, 'Click to scroll to entry']
+            .filter(Boolean)
+            .join('\n');
           if (entry.type === 'IMAGE') {
-            const dataUrl = imageDataUrls[entry.content];
             return (
               <div
                 key={entry.id}
                 onClick={() => onSelectAttachment(entry)}
                 className="relative aspect-square rounded-lg overflow-hidden border border-gray-700/50 hover:border-blue-500/50 cursor-pointer transition-colors bg-gray-800/40"
-                title="Click to scroll to entry"
+                title={tooltip}
               >
-                {dataUrl ? (
+                {!brokenImages[entry.content] ? (
                   <img
-                    src={dataUrl}
-                    alt="Attachment"
+                    src={thumbnailUrl(entry.content)}
+                    alt={info?.caption || fileName}
+                    loading="lazy"
                     className="w-full h-full object-cover"
+                    onError={() => setBrokenImages(prev => ({ ...prev, [entry.content]: true }))}
                   />
                 ) : (
                   <div className="w-full h-full flex items-center justify-center bg-gray-800/60">
                     <ImageIcon className="w-6 h-6 text-gray-500" />
                   </div>
                 )}
+                {info?.caption && (
+                  <div className="absolute inset-x-0 bottom-0 px-1 py-0.5 bg-black/60 text-[10px] text-gray-200 truncate">
+                    {info.caption}
+                  </div>
+                )}
               </div>
             );
           } else {
-            const fileName = entry.content.split('/').pop() || 'File';
             return (
               <div
                 key={entry.id}
                 onClick={() => onSelectAttachment(entry)}
                 className="flex flex-col items-center justify-center p-2 rounded-lg border border-gray-700/50 hover:border-blue-500/50 cursor-pointer transition-colors bg-gray-800/40 min-h-[60px]"
-                title={`${fileName} - Click to scroll to entry`}
+                title={tooltip}
               >
                 <FileText className="w-5 h-5 text-gray-400 mb-1" />
                 <span className="text-xs text-gray-500 truncate w-full text-center">{fileName}</span>
+                {info && (
+                  <span className="text-[10px] text-gray-600 truncate w-full text-center">{describeAttachment(fileName, info)}</span>
+                )}
               </div>
             );
           }
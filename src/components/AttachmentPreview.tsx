@@ -0,0 +1,200 @@
+// In-app viewer for non-image attachments: PDFs, highlighted text and code, and CSV tables
+import { useEffect, useMemo, useState } from 'react';
+import { X, ExternalLink, ArrowUp, ArrowDown } from 'lucide-react';
+import type { AttachmentPreview as AttachmentPreviewData } from '../../electron/preload';
+import { attachmentUrl, formatBytes, cn, attachmentErrorMessage, isAttachmentPathFailure } from '../lib/utils';
+import { highlight, type TokenKind } from '../lib/highlight';
+
+interface AttachmentPreviewProps {
+  path: string; // Attachment path relative to the attachments folder
+  name: string;
+  description?: string;
+  onClose: () => void;
+  onOpenExternal: () => void;
+}
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  plain: '',
+  comment: 'text-gray-500 italic',
+  string: 'text-green-400',
+  number: 'text-orange-300',
+  keyword: 'text-purple-400',
+  key: 'text-blue-300',
+  literal: 'text-orange-300',
+  heading: 'text-blue-300 font-semibold',
+  timestamp: 'text-gray-500',
+  error: 'text-red-400 font-semibold',
+  warning: 'text-yellow-400 font-semibold',
+  info: 'text-blue-400',
+};
+
+const TextView = ({ preview }: { preview: Extract<AttachmentPreviewData, { kind: 'text' }> }) => {
+  const tokens = useMemo(() => highlight(preview.text, preview.language), [preview]);
+  return (
+    <pre className="h-full overflow-auto p-4 text-xs font-mono text-gray-200 whitespace-pre-wrap break-words">
+      {tokens.map((token, index) => (
+        <span key={index} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+      ))}
+    </pre>
+  );
+};
+
+const CsvView = ({ preview }: { preview: Extract<AttachmentPreviewData, { kind: 'csv' }> }) => {
+  const [sort, setSort] = useState<{ column: number; descending: boolean } | null>(null);
+  const header = preview.rows[0] ?? [];
+  const body = useMemo(() => preview.rows.slice(1), [preview]);
+
+  // Numeric-aware, so "10" sorts after "9" and amounts line up
+  const sortedRows = useMemo(() => {
+    if (!sort) return body;
+    const direction = sort.descending ? -1 : 1;
+    return [...body].sort((a, b) =>
+      direction * (a[sort.column] ?? '').localeCompare(b[sort.column] ?? '', undefined, { numeric: true, sensitivity: 'base' }));
+  }, [body, sort]);
+
+  const handleSort = (column: number) => {
+    setSort((current) =>
+      current?.column === column ? { column, descending: !current.descending } : { column, descending: false });
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex-1 overflow-auto">
+        <table className="text-xs text-gray-200 border-collapse">
+          <thead className="sticky top-0 bg-gray-800">
+            <tr>
+              {header.map((cell, column) => (
+                <th
+                  key={column}
+                  onClick={() => handleSort(column)}
+                  className="px-3 py-2 text-left font-semibold border-b border-gray-700 cursor-pointer select-none whitespace-nowrap hover:text-blue-300"
+                  title="Sort by this column"
+                >
+                  <span className="inline-flex items-center gap-1">
+                    {cell || `Column ${column + 1}`}
+                    {sort?.column === column && (sort.descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sortedRows.map((row, index) => (
+              <tr key={index} className="odd:bg-gray-800/40">
+                {header.map((_, column) => (
+                  <td key={column} className="px-3 py-1 border-b border-gray-700/50 whitespace-nowrap">{row[column] ?? ''}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {body.length < preview.totalRows && (
+        <div className="px-4 py-2 text-xs text-gray-500 border-t border-gray-700">
+          Showing the first {body.length} of {preview.totalRows} rows; sorting applies to these only
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const AttachmentPreview = ({ path, name, description, onClose, onOpenExternal }: AttachmentPreviewProps) => {
+  const [preview, setPreview] = useState<AttachmentPreviewData | null>(null);
+  const [error, setError] = useState<{ message: string; canOpen: boolean } | null>(null);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPreview(null);
+    setError(null);
+    window.electronAPI.getAttachmentPreview(path)
+      .then((result) => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch((err) => {
+        console.error('Failed to load preview:', err);
+        // A refused or missing file won't open externally either
+        if (!cancelled) setError({ message: attachmentErrorMessage(err, 'Failed to load preview'), canOpen: !isAttachmentPathFailure(err) });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  const fallback = (message: string, canOpen = true) => (
+    <div className="h-full flex flex-col items-center justify-center gap-3 text-sm text-gray-400">
+      {message}
+      {canOpen && (
+        <button
+          onClick={onOpenExternal}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white transition-colors flex items-center gap-2"
+        >
+          <ExternalLink className="w-4 h-4" />
+          Open externally
+        </button>
+      )}
+    </div>
+  );
+
+  const renderBody = () => {
+    if (error) return fallback(error.message, error.canOpen);
+    if (!preview) return <div className="h-full flex items-center justify-center text-gray-400">Loading preview...</div>;
+    switch (preview.kind) {
+      case 'pdf':
+        return <iframe src={attachmentUrl(path)} title={name} className="w-full h-full border-0 bg-white" />;
+      case 'text':
+        return <TextView preview={preview} />;
+      case 'csv':
+        return <CsvView preview={preview} />;
+      case 'too-large':
+        return fallback(`This file is ${formatBytes(preview.size)}; previews of this type are limited to ${formatBytes(preview.limit)}.`);
+      case 'unsupported':
+        return fallback('There is no in-app preview for this type of file.');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-lg shadow-xl w-[90vw] h-[90vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-gray-700">
+          <div className="min-w-0">
+            <div className="text-gray-100 font-medium truncate" title={name}>{name}</div>
+            {description && <div className="text-xs text-gray-500">{description}</div>}
+          </div>
+          <div className="flex gap-2 flex-shrink-0">
+            <button
+              onClick={onOpenExternal}
+              className="p-2 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors"
+              title="Open externally"
+            >
+              <ExternalLink className="w-5 h-5" />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors"
+              title="Close (Esc)"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+        <div className={cn('flex-1 min-h-0', preview?.kind === 'pdf' ? 'bg-white' : 'bg-gray-900')}>
+          {renderBody()}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,424 @@
+// Backup settings and snapshot restore
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, DatabaseBackup, FolderOpen, RotateCcw, Undo2, ChevronDown, ChevronRight, Download, Upload } from 'lucide-react';
+import type { BackupSettings, SnapshotInfo, SnapshotTask, VaultManifest, VaultImportMode } from '../../electron/preload';
+import { formatDateTime, formatBytes, cn } from '../lib/utils';
+import { useDataUpdated } from '../hooks/useDataUpdated';
+import { ConfirmDialog } from './ConfirmDialog';
+import { toast } from './ui/toast';
+
+const REASON_LABELS: Record<SnapshotInfo['reason'], string> = {
+  scheduled: 'Scheduled',
+  manual: 'Manual',
+  'pre-restore': 'Before restore',
+  'pre-import': 'Before import',
+};
+
+interface BackupsScreenProps {
+  onBack: () => void;
+}
+
+export const BackupsScreen = ({ onBack }: BackupsScreenProps) => {
+  const [settings, setSettings] = useState<BackupSettings | null>(null);
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [deletedTasks, setDeletedTasks] = useState<SnapshotTask[]>([]);
+  const [restoreTarget, setRestoreTarget] = useState<SnapshotInfo | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ path: string; manifest: VaultManifest } | null>(null);
+  const [importMode, setImportMode] = useState<VaultImportMode>('merge');
+  const [showReplaceConfirm, setShowReplaceConfirm] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const loadData = useCallback(async () => {
+    if (!window.electronAPI) return;
+    try {
+      const [loadedSettings, loadedSnapshots] = await Promise.all([
+        window.electronAPI.getBackupSettings(),
+        window.electronAPI.listSnapshots(),
+      ]);
+      setSettings(loadedSettings);
+      setSnapshots(loadedSnapshots);
+    } catch (error) {
+      console.error('Failed to load backups:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  useDataUpdated(loadData);
+
+  const saveSettings = async (patch: Partial<BackupSettings>) => {
+    try {
+      setSettings(await window.electronAPI.updateBackupSettings(patch));
+    } catch (error) {
+      console.error('Failed to update backup settings:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update backup settings');
+    }
+  };
+
+  const handleChooseFolder = async () => {
+    const folder = await window.electronAPI.chooseBackupFolder();
+    if (folder) {
+      await saveSettings({ folder });
+    }
+  };
+
+  const handleBackupNow = async () => {
+    setIsBackingUp(true);
+    try {
+      const snapshot = await window.electronAPI.createSnapshot();
+      toast.success(`Backed up ${snapshot.taskCount} tasks (${formatBytes(snapshot.sizeBytes)})`);
+    } catch (error) {
+      console.error('Backup failed:', error);
+      toast.error('Backup failed');
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleToggleSnapshot = async (snapshot: SnapshotInfo) => {
+    if (expandedId === snapshot.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(snapshot.id);
+    setDeletedTasks([]);
+    try {
+      setDeletedTasks(await window.electronAPI.getDeletedTasksInSnapshot(snapshot.id));
+    } catch (error) {
+      console.error('Failed to read snapshot:', error);
+      toast.error('Failed to read snapshot');
+    }
+  };
+
+  const handleRestoreTask = async (snapshot: SnapshotInfo, task: SnapshotTask) => {
+    try {
+      await window.electronAPI.restoreTaskFromSnapshot(snapshot.id, task.id);
+      setDeletedTasks((tasks) => tasks.filter((t) => t.id !== task.id));
+      toast.success(`Restored "${task.title}"`);
+    } catch (error) {
+      console.error('Failed to restore task:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore task');
+    }
+  };
+
+  const handleRestoreSnapshot = async () => {
+    const snapshot = restoreTarget;
+    setRestoreTarget(null);
+    if (!snapshot) return;
+    try {
+      // The window reloads once the restore completes
+      await window.electronAPI.restoreSnapshot(snapshot.id);
+    } catch (error) {
+      console.error('Failed to restore snapshot:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore snapshot');
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const result = await window.electronAPI.exportVault();
+      if (result) {
+        toast.success(`Exported ${result.manifest.counts.tasks} tasks and ${result.manifest.attachment_count} attachments`);
+      }
+    } catch (error) {
+      console.error('Export failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleChooseImport = async () => {
+    try {
+      const result = await window.electronAPI.chooseVaultImport();
+      if (result) {
+        setPendingImport(result);
+        setImportMode('merge');
+      }
+    } catch (error) {
+      console.error('Failed to read export:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read export');
+    }
+  };
+
+  const handleImport = async () => {
+    setShowReplaceConfirm(false);
+    if (!pendingImport) return;
+    setIsImporting(true);
+    try {
+      const report = await window.electronAPI.importVault(pendingImport.path, importMode);
+      const remapped = report.remapped > 0 ? `, ${report.remapped} renumbered` : '';
+      toast.success(`Imported ${report.inserted.tasks} tasks and ${report.attachments} attachments${remapped}`);
+      setPendingImport(null);
+    } catch (error) {
+      console.error('Import failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="h-screen flex flex-col bg-gray-900 text-gray-100">
+      <header className="border-b border-gray-800/50 px-6 py-4 bg-gray-900/60 backdrop-blur-xl">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={onBack}
+            className="flex items-center gap-2 text-gray-400 hover:text-gray-200 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            Back
+          </button>
+          <button
+            onClick={handleBackupNow}
+            disabled={isBackingUp}
+            className="flex items-center gap-2 px-3 py-1 bg-blue-600/20 text-blue-400 border border-blue-600/30 rounded-lg hover:bg-blue-600/30 transition-colors disabled:opacity-50"
+          >
+            <DatabaseBackup className="w-4 h-4" />
+            {isBackingUp ? 'Backing up...' : 'Back up now'}
+          </button>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-y-auto p-6 max-w-4xl w-full mx-auto">
+        <h1 className="text-2xl font-bold mb-6">Backups</h1>
+
+        {settings && (
+          <div className="mb-8 p-4 bg-gray-800/40 border border-gray-700/50 rounded-lg space-y-4">
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={(e) => saveSettings({ enabled: e.target.checked })}
+                className="w-4 h-4 accent-blue-500"
+              />
+              Back up automatically once a day (database and attachments)
+            </label>
+
+            <div>
+              <label className="text-sm text-gray-400">Backup folder</label>
+              <div className="mt-1 flex items-center gap-2">
+                <div className="flex-1 px-2 py-1.5 bg-gray-900/60 border border-gray-700/50 rounded text-sm font-mono text-gray-300 truncate">
+                  {settings.folder ?? 'Default (app data folder)'}
+                </div>
+                <button
+                  onClick={handleChooseFolder}
+                  className="flex items-center gap-1 px-2 py-1.5 text-xs bg-gray-700 hover:bg-gray-600 rounded"
+                >
+                  <FolderOpen className="w-3.5 h-3.5" />
+                  Change...
+                </button>
+                {settings.folder && (
+                  <button
+                    onClick={() => saveSettings({ folder: null })}
+                    className="px-2 py-1.5 text-xs bg-gray-700 hover:bg-gray-600 rounded"
+                  >
+                    Use default
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="flex gap-6">
+              <label className="text-sm text-gray-400">
+                Keep daily
+                <input
+                  type="number"
+                  min={0}
+                  max={365}
+                  defaultValue={settings.keepDaily}
+                  key={`daily-${settings.keepDaily}`}
+                  onBlur={(e) => {
+                    const value = Number(e.target.value);
+                    if (value !== settings.keepDaily) saveSettings({ keepDaily: value });
+                  }}
+                  className="ml-2 w-16 px-2 py-1 bg-gray-900/60 border border-gray-700/50 rounded text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                />
+              </label>
+              <label className="text-sm text-gray-400">
+                Keep weekly
+                <input
+                  type="number"
+                  min={0}
+                  max={365}
+                  defaultValue={settings.keepWeekly}
+                  key={`weekly-${settings.keepWeekly}`}
+                  onBlur={(e) => {
+                    const value = Number(e.target.value);
+                    if (value !== settings.keepWeekly) saveSettings({ keepWeekly: value });
+                  }}
+                  className="ml-2 w-16 px-2 py-1 bg-gray-900/60 border border-gray-700/50 rounded text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                />
+              </label>
+            </div>
+          </div>
+        )}
+
+        <h2 className="text-lg font-semibold mb-3">Export & import</h2>
+        <div className="mb-8 p-4 bg-gray-800/40 border border-gray-700/50 rounded-lg space-y-3">
+          <div className="text-sm text-gray-400">
+            A zip with every task, timeline entry, checklist, tag, project, smart list, your XP and all attachments.
+            Use it to move to another machine or to keep an auditable copy.
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleExport}
+              disabled={isExporting}
+              className="flex items-center gap-1 px-2 py-1.5 text-xs bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+            >
+              <Download className="w-3.5 h-3.5" />
+              {isExporting ? 'Exporting...' : 'Export vault...'}
+            </button>
+            <button
+              onClick={handleChooseImport}
+              disabled={isImporting}
+              className="flex items-center gap-1 px-2 py-1.5 text-xs bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+            >
+              <Upload className="w-3.5 h-3.5" />
+              Import...
+            </button>
+          </div>
+
+          {pendingImport && (
+            <div className="p-3 bg-gray-900/60 border border-gray-700/50 rounded space-y-2">
+              <div className="text-sm text-gray-200 font-mono truncate">{pendingImport.path}</div>
+              <div className="text-xs text-gray-400">
+                Exported {formatDateTime(pendingImport.manifest.exported_at)} from TaskVault {pendingImport.manifest.app_version}
+                {' · '}{pendingImport.manifest.counts.tasks} tasks
+                {' · '}{pendingImport.manifest.counts.timeline_entries} timeline entries
+                {' · '}{pendingImport.manifest.attachment_count} attachments
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="radio"
+                  checked={importMode === 'merge'}
+                  onChange={() => setImportMode('merge')}
+                  className="accent-blue-500"
+                />
+                Merge: add to the current vault (clashing ids get new ones)
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="radio"
+                  checked={importMode === 'replace'}
+                  onChange={() => setImportMode('replace')}
+                  className="accent-blue-500"
+                />
+                Replace: swap the current vault for this export
+              </label>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => (importMode === 'replace' ? setShowReplaceConfirm(true) : handleImport())}
+                  disabled={isImporting}
+                  className="px-2 py-1 text-xs bg-blue-600/20 text-blue-400 border border-blue-600/30 rounded hover:bg-blue-600/30 disabled:opacity-50"
+                >
+                  {isImporting ? 'Importing...' : 'Import'}
+                </button>
+                <button
+                  onClick={() => setPendingImport(null)}
+                  disabled={isImporting}
+                  className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <h2 className="text-lg font-semibold mb-3">Snapshots</h2>
+        {snapshots.length === 0 && (
+          <div className="text-sm text-gray-500">No snapshots yet</div>
+        )}
+        <ul className="space-y-2">
+          {snapshots.map((snapshot) => (
+            <li key={snapshot.id} className="bg-gray-800/40 border border-gray-700/50 rounded-lg">
+              <div className="flex items-center gap-3 px-4 py-3">
+                <button
+                  onClick={() => handleToggleSnapshot(snapshot)}
+                  className="text-gray-400 hover:text-gray-200"
+                  title="Show deleted tasks in this snapshot"
+                >
+                  {expandedId === snapshot.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                </button>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium">{formatDateTime(snapshot.createdAt)}</div>
+                  <div className="text-xs text-gray-400">
+                    {snapshot.taskCount} tasks · {snapshot.attachmentCount} attachments · {formatBytes(snapshot.sizeBytes)}
+                  </div>
+                </div>
+                <span
+                  className={cn(
+                    "px-2 py-0.5 text-xs rounded border",
+                    snapshot.reason === 'pre-restore' || snapshot.reason === 'pre-import'
+                      ? "bg-yellow-500/10 text-yellow-400 border-yellow-500/30"
+                      : "bg-gray-700/40 text-gray-400 border-gray-600/40"
+                  )}
+                >
+                  {REASON_LABELS[snapshot.reason]}
+                </span>
+                <button
+                  onClick={() => setRestoreTarget(snapshot)}
+                  className="flex items-center gap-1 px-2 py-1 text-xs bg-orange-600/20 text-orange-400 border border-orange-600/30 rounded hover:bg-orange-600/30"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  Restore all
+                </button>
+              </div>
+
+              {expandedId === snapshot.id && (
+                <div className="px-4 pb-3 border-t border-gray-700/50">
+                  <div className="mt-2 mb-1 text-xs text-gray-400">Tasks deleted since this snapshot</div>
+                  {deletedTasks.length === 0 ? (
+                    <div className="text-xs text-gray-500">None</div>
+                  ) : (
+                    <ul className="space-y-1">
+                      {deletedTasks.map((task) => (
+                        <li key={task.id} className="flex items-center gap-2 text-sm">
+                          <span className="flex-1 truncate text-gray-200">{task.title}</span>
+                          <span className="text-xs font-mono text-gray-500">{task.status}</span>
+                          <button
+                            onClick={() => handleRestoreTask(snapshot, task)}
+                            className="flex items-center gap-1 px-2 py-0.5 text-xs bg-gray-700 hover:bg-gray-600 rounded"
+                          >
+                            <Undo2 className="w-3 h-3" />
+                            Restore
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <ConfirmDialog
+        isOpen={restoreTarget !== null}
+        title="Restore snapshot"
+        message={restoreTarget
+          ? `Replace all tasks and attachments with the snapshot from ${formatDateTime(restoreTarget.createdAt)}? Your current data is backed up first, so this can be undone.`
+          : ''}
+        confirmText="Restore"
+        onConfirm={handleRestoreSnapshot}
+        onCancel={() => setRestoreTarget(null)}
+      />
+      <ConfirmDialog
+        isOpen={showReplaceConfirm}
+        title="Replace vault"
+        message="Replace all tasks and attachments with this export? Your current data is snapshotted first, so this can be undone from the snapshot list."
+        confirmText="Replace"
+        onConfirm={handleImport}
+        onCancel={() => setShowReplaceConfirm(false)}
+      />
+    </div>
+  );
+};
@@ -3,7 +3,7 @@ import { useEffect, useState } from 'react';
 import { Command } from 'cmdk';
 import { 
   Plus, CheckCircle, Archive, ArrowUp, ArrowDown, 
-  FileText, Paperclip, Edit, Search
+  FileText, Paperclip, Edit, Search, FileDown, FileUp, Table, Import, Printer
 } from 'lucide-react';
 
 interface CommandPaletteProps {
@@ -17,6 +17,13 @@ interface CommandPaletteProps {
   onAttachFile?: () => void;
   onFocusSummary?: () => void;
   onFocusSearch?: () => void;
+  onExportTaskMarkdown?: () => void;
+  onExportAllMarkdown?: () => void;
+  onExportTaskDossier?: () => void;
+  onExportDossier?: () => void;
+  onExportCsv?: () => void;
+  onImportCsv?: () => void;
+  onImportFromApp?: () => void;
   currentTaskId?: string | null;
 }
 
@@ -31,6 +38,13 @@ export const CommandPalette = ({
   onAttachFile,
   onFocusSummary,
   onFocusSearch,
+  onExportTaskMarkdown,
+  onExportAllMarkdown,
+  onExportTaskDossier,
+  onExportDossier,
+  onExportCsv,
+  onImportCsv,
+  onImportFromApp,
   currentTaskId,
 }: CommandPaletteProps) => {
   const [search, setSearch] = useState('');
@@ -91,6 +105,75 @@ export const CommandPalette = ({
             </Command.Item>
           </Command.Group>
 
+          {(onExportAllMarkdown || onExportDossier || onExportCsv || onImportCsv || onImportFromApp ||
+            (currentTaskId && (onExportTaskMarkdown || onExportTaskDossier))) && (
+            <Command.Group heading="Import & Export">
+              {currentTaskId && onExportTaskMarkdown && (
+                <Command.Item
+                  onSelect={() => handleSelect(onExportTaskMarkdown)}
+                  className="flex items-center gap-2 px-3 py-2 rounded cursor-pointer hover:bg-gray-800"
+                >
+                  <FileDown className="w-4 h-4" />
+                  <span>Export Task to Markdown</span>
+                </Command.Item>
+              )}
+              {onExportAllMarkdown && (
+                <Command.Item
+                  onSelect={() => handleSelect(onExportAllMarkdown)}
+                  className="flex items-center gap-2 px-3 py-2 rounded cursor-pointer hover:bg-gray-800"
+                >
+                  <FileDown className="w-4 h-4" />
+                  <span>Export All Tasks to Markdown</span>
+                </Command.Item>
+              )}
+              {currentTaskId && onExportTaskDossier && (
+                <Command.Item
+                  onSelect={() => handleSelect(onExportTaskDossier)}
+                  className="flex items-center gap-2 px-3 py-2 rounded cursor-pointer hover:bg-gray-800"
+                >
+                  <Printer className="w-4 h-4" />
+                  <span>Save Task Dossier (PDF/HTML)</span>
+                </Command.Item>
+              )}
+              {onExportDossier && (
+                <Command.Item
+                  onSelect={() => handleSelect(onExportDossier)}
+                  className="flex items-center gap-2 px-3 py-2 rounded cursor-pointer hover:bg-gray-800"
+                >
+                  <Printer className="w-4 h-4" />
+                  <span>Save Dossier of Results (PDF/HTML)</span>
+                </Command.Item>
+              )}
+              {onExportCsv && (
+                <Command.Item
+                  onSelect={() => handleSelect(onExportCsv)}
+                  className="flex items-center gap-2 px-3 py-2 rounded cursor-pointer hover:bg-gray-800"
+                >
+                  <Table className="w-4 h-4" />
+                  <span>Export Results to CSV</span>
+                </Command.Item>
+              )}
+              {onImportCsv && (
+                <Command.Item
+                  onSelect={() => handleSelect(onImportCsv)}
+                  className="flex items-center gap-2 px-3 py-2 rounded cursor-pointer hover:bg-gray-800"
+                >
+                  <FileUp className="w-4 h-4" />
+                  <span>Import Tasks from CSV</span>
+                </Command.Item>
+              )}
+              {onImportFromApp && (
+                <Command.Item
+                  onSelect={() => handleSelect(onImportFromApp)}
+                  className="flex items-center gap-2 px-3 py-2 rounded cursor-pointer hover:bg-gray-800"
+                >
+                  <Import className="w-4 h-4" />
+                  <span>Import from Trello, Todoist or todo.txt</span>
+                </Command.Item>
+              )}
+            </Command.Group>
+          )}
+
           {currentTaskId && (
             <>
               <Command.Group heading="Task Actions">
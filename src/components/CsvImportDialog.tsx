@@ -0,0 +1,276 @@
+// CSV import wizard: map columns to task fields, review the dry-run report, then import
+import { useState, useEffect } from 'react';
+import { X, AlertTriangle, CheckCircle } from 'lucide-react';
+import type { CsvFilePreview, CsvColumnMapping, CsvImportField, CsvImportReport } from '../../electron/preload';
+import { formatDate } from '../lib/utils';
+import { toast } from './ui/toast';
+
+interface CsvImportDialogProps {
+  // The chosen file; the dialog is closed while null
+  file: CsvFilePreview | null;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<CsvImportField, string> = {
+  title: 'Title (required)',
+  status: 'Status',
+  priority: 'Priority',
+  project: 'Project',
+  tags: 'Tags',
+  start: 'Start date',
+  due: 'Due date',
+  summary: 'Summary',
+};
+
+const FIELD_HINTS: Partial<Record<CsvImportField, string>> = {
+  status: 'OPEN, WAITING, BLOCKED, DONE or ARCHIVED; blank is OPEN',
+  priority: 'LOW, NORMAL or HIGH; blank is NORMAL',
+  tags: 'Separated by commas or semicolons',
+  start: 'YYYY-MM-DD',
+  due: 'YYYY-MM-DD',
+};
+
+// Rows listed in the review step; the import itself covers every row
+const REVIEW_LIMIT = 100;
+
+export const CsvImportDialog = ({ file, onClose }: CsvImportDialogProps) => {
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [report, setReport] = useState<CsvImportReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (file) {
+      setMapping(file.mapping);
+      setReport(null);
+    }
+  }, [file]);
+
+  if (!file) return null;
+
+  const setColumn = (field: CsvImportField, value: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    try {
+      setReport(await window.electronAPI.previewCsvImport(file.path, mapping));
+    } catch (error) {
+      console.error('CSV dry run failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to check CSV file');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const result = await window.electronAPI.importCsv(file.path, mapping);
+      toast.success(
+        `Imported ${result.imported} tasks` + (result.skipped > 0 ? `, skipped ${result.skipped} rows with problems` : '')
+      );
+      onClose();
+    } catch (error) {
+      console.error('CSV import failed:', error);
+      toast.error(error instanceof Error ? error.message : 'CSV import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Problem rows first so they're visible without scrolling
+  const reviewRows = report
+    ? [...report.rows].sort((a, b) => Number(b.errors.length > 0) - Number(a.errors.length > 0)).slice(0, REVIEW_LIMIT)
+    : [];
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-800 border border-gray-700 rounded-lg p-6 max-w-4xl w-full mx-4 shadow-xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-100">
+            Import CSV <span className="text-sm font-normal text-gray-400">{file.fileName} · {file.rowCount} rows</span>
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-200 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          {!report && (
+            <>
+              <div className="text-sm text-gray-400">
+                Choose which column fills each task field. The first row is treated as the header.
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                {(Object.keys(FIELD_LABELS) as CsvImportField[]).map((field) => (
+                  <label key={field} className="block">
+                    <span className="block text-sm font-medium text-gray-300 mb-1">{FIELD_LABELS[field]}</span>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => setColumn(field, e.target.value)}
+                      className="w-full px-3 py-1.5 bg-gray-700/60 border border-gray-600/50 rounded-lg text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                    >
+                      <option value="">Don't import</option>
+                      {file.headers.map((header, index) => (
+                        <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                      ))}
+                    </select>
+                    {FIELD_HINTS[field] && <span className="block text-xs text-gray-500 mt-1">{FIELD_HINTS[field]}</span>}
+                  </label>
+                ))}
+              </div>
+
+              <div>
+                <div className="text-sm font-medium text-gray-300 mb-2">First rows</div>
+                <div className="overflow-x-auto border border-gray-700/50 rounded-lg">
+                  <table className="w-full text-xs">
+                    <thead className="bg-gray-900/60">
+                      <tr>
+                        {file.headers.map((header, index) => (
+                          <th key={index} className="text-left px-2 py-1.5 font-semibold text-gray-300 whitespace-nowrap">
+                            {header || `Column ${index + 1}`}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {file.sampleRows.map((row, rowIndex) => (
+                        <tr key={rowIndex} className="border-t border-gray-700/50">
+                          {file.headers.map((_header, index) => (
+                            <td key={index} className="px-2 py-1.5 text-gray-400 max-w-[12rem] truncate">{row[index] ?? ''}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+
+          {report && (
+            <>
+              <div className="flex flex-wrap gap-4 text-sm">
+                <span className="flex items-center gap-1 text-green-400">
+                  <CheckCircle className="w-4 h-4" />
+                  {report.validCount} of {report.rowCount} rows ready to import
+                </span>
+                {report.invalidCount > 0 && (
+                  <span className="flex items-center gap-1 text-yellow-400">
+                    <AlertTriangle className="w-4 h-4" />
+                    {report.invalidCount} rows have problems and will be skipped
+                  </span>
+                )}
+              </div>
+              {report.newProjects.length > 0 && (
+                <div className="text-xs text-gray-400">New projects: {report.newProjects.join(', ')}</div>
+              )}
+              {report.newTags.length > 0 && (
+                <div className="text-xs text-gray-400">New tags: {report.newTags.join(', ')}</div>
+              )}
+
+              <div className="overflow-x-auto border border-gray-700/50 rounded-lg">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-900/60">
+                    <tr>
+                      <th className="text-left px-2 py-1.5 font-semibold text-gray-300">Row</th>
+                      <th className="text-left px-2 py-1.5 font-semibold text-gray-300">Title</th>
+                      <th className="text-left px-2 py-1.5 font-semibold text-gray-300">Status</th>
+                      <th className="text-left px-2 py-1.5 font-semibold text-gray-300">Priority</th>
+                      <th className="text-left px-2 py-1.5 font-semibold text-gray-300">Project</th>
+                      <th className="text-left px-2 py-1.5 font-semibold text-gray-300">Tags</th>
+                      <th className="text-left px-2 py-1.5 font-semibold text-gray-300">Due</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reviewRows.map((row) => (
+                      <tr key={row.line} className="border-t border-gray-700/50 align-top">
+                        <td className="px-2 py-1.5 text-gray-500">{row.line}</td>
+                        {row.errors.length > 0 ? (
+                          <td colSpan={6} className="px-2 py-1.5">
+                            <div className="text-gray-300 truncate">{row.title || '(no title)'}</div>
+                            {row.errors.map((error, index) => (
+                              <div key={index} className="text-red-400">{error}</div>
+                            ))}
+                          </td>
+                        ) : (
+                          <>
+                            <td className="px-2 py-1.5 text-gray-200 max-w-[16rem] truncate">{row.title}</td>
+                            <td className="px-2 py-1.5 text-gray-400">{row.status}</td>
+                            <td className="px-2 py-1.5 text-gray-400">{row.priority}</td>
+                            <td className="px-2 py-1.5 text-gray-400">{row.project ?? ''}</td>
+                            <td className="px-2 py-1.5 text-gray-400">{row.tags.join(', ')}</td>
+                            <td className="px-2 py-1.5 text-gray-400">{row.due_at !== null ? formatDate(row.due_at) : ''}</td>
+                          </>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {report.rowCount > REVIEW_LIMIT && (
+                <div className="text-xs text-gray-500">Showing {REVIEW_LIMIT} of {report.rowCount} rows</div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-3 justify-end mt-6">
+          {report ? (
+            <>
+              <button
+                onClick={() => setReport(null)}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-200 transition-colors"
+                disabled={isImporting}
+              >
+                Back
+              </button>
+              <button
+                onClick={handleImport}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={isImporting || report.validCount === 0}
+              >
+                {isImporting ? 'Importing...' : `Import ${report.validCount} tasks`}
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCheck}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={isChecking || mapping.title === undefined}
+              >
+                {isChecking ? 'Checking...' : 'Check rows'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
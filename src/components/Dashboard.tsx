@@ -1,31 +1,53 @@
 // Dashboard component with event-driven updates, glassmorphism, and animations
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { Plus, Search, Ghost, Image as ImageIcon, FileText, Trash2, Clock, AlertTriangle, CheckCircle, Archive, Circle, Pencil } from 'lucide-react';
+import { Plus, Search, Ghost, Image as ImageIcon, FileText, Trash2, Clock, AlertTriangle, CheckCircle, Archive, Circle, Pencil, Star, Folder, ListChecks, Repeat, DatabaseBackup, Trash, FileUp, Table, Import, Printer } from 'lucide-react';
 import { useHotkeys } from 'react-hotkeys-hook';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { Task } from '../../electron/preload';
-import { getIdleAgeColor, getIdleAgeBadge, cn } from '../lib/utils';
+import type { Task, SearchResult, SavedSearch, TaskSortMode, CsvFilePreview, AppImportPreview } from '../../electron/preload';
+import { getIdleAgeColor, getIdleAgeBadge, cn, splitSnippet, thumbnailUrl } from '../lib/utils';
 import { GamificationWidget } from './GamificationWidget';
 import { CommandPalette } from './CommandPalette';
 import { ParticleBackground } from './ParticleBackground';
 import { ConfirmDialog } from './ConfirmDialog';
 import { EditTaskDialog } from './EditTaskDialog';
 import { TitleBar } from './TitleBar';
-import { toast } from './ui/toast';
+import { SmartListSidebar } from './SmartListSidebar';
+import { SaveSearchDialog } from './SaveSearchDialog';
+import { CsvImportDialog } from './CsvImportDialog';
+import { AppImportDialog } from './AppImportDialog';
+import { TagInput } from './TagInput';
+import { ProjectSelect } from './ProjectSelect';
+import { DueBadge } from './DueBadge';
+import { toast, toastMovedToTrash } from './ui/toast';
 import { useDataUpdated } from '../hooks/useDataUpdated';
 
 interface DashboardProps {
   onTaskSelect: (taskId: string) => void;
+  onOpenBackups: () => void;
+  onOpenTrash: () => void;
+  onOpenArchive: () => void;
 }
 
-export const Dashboard = ({ onTaskSelect }: DashboardProps) => {
-  const [tasks, setTasks] = useState<Task[]>([]);
+const tabQueries: Record<'active' | 'completed' | 'all', string> = {
+  active: 'status:active',
+  completed: 'status:completed',
+  all: '',
+};
+
+export const Dashboard = ({ onTaskSelect, onOpenBackups, onOpenTrash, onOpenArchive }: DashboardProps) => {
+  const [tasks, setTasks] = useState<(Task | SearchResult)[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
-  const [activeTab, setActiveTab] = useState<'active' | 'completed'>('active');
+  const [activeTab, setActiveTab] = useState<'active' | 'completed' | 'all'>('active');
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [sortMode, setSortMode] = useState<TaskSortMode>('default');
+  const [activeSmartListId, setActiveSmartListId] = useState<string | null>(null);
+  const [isSaveSearchOpen, setIsSaveSearchOpen] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [newTaskPriority, setNewTaskPriority] = useState<'LOW' | 'NORMAL' | 'HIGH'>('NORMAL');
+  const [newTaskProjectId, setNewTaskProjectId] = useState<string | null>(null);
+  const [newTaskTags, setNewTaskTags] = useState<string[]>([]);
   const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState<{ isOpen: boolean; taskId: string | null }>({
     isOpen: false,
@@ -35,7 +57,10 @@ export const Dashboard = ({ onTaskSelect }: DashboardProps) => {
     isOpen: false,
     task: null,
   });
-  const [imagePreviews, setImagePreviews] = useState<Record<string, string>>({});
+  const [csvImportFile, setCsvImportFile] = useState<CsvFilePreview | null>(null);
+  const [appImportPreview, setAppImportPreview] = useState<AppImportPreview | null>(null);
+  // Thumbnails that failed to load fall back to the generic image label
+  const [brokenPreviews, setBrokenPreviews] = useState<Record<string, boolean>>({});
   const searchInputRef = useRef<HTMLInputElement>(null);
 
   // Debounce search query (200ms)
@@ -53,42 +78,25 @@ export const Dashboard = ({ onTaskSelect }: DashboardProps) => {
     }
     
     try {
-      let allTasks: Task[];
-      if (debouncedSearchQuery.trim()) {
-        allTasks = await window.electronAPI.searchTasks(debouncedSearchQuery);
-      } else {
-        allTasks = await window.electronAPI.getTasks();
-      }
-      
-      // Filter tasks based on active tab
-      const filteredTasks = activeTab === 'active'
-        ? allTasks.filter(t => ['OPEN', 'WAITING', 'BLOCKED'].includes(t.status))
-        : allTasks.filter(t => ['DONE', 'ARCHIVED'].includes(t.status));
-      
-      setTasks(filteredTasks);
-      
-      // Load image previews for tasks with image entries
-      const imageTasks = filteredTasks.filter(t => t.latestEntryType === 'IMAGE' && t.latestEntryContent);
-      const newPreviews: Record<string, string> = {};
-      for (const task of imageTasks) {
-        if (!imagePreviews[task.latestEntryContent!] && task.latestEntryContent) {
-          try {
-            const dataUrl = await window.electronAPI.getImageDataUrl(task.latestEntryContent);
-            if (dataUrl) {
-              newPreviews[task.latestEntryContent] = dataUrl;
-            }
-          } catch (error) {
-            console.error('Failed to load image preview:', error);
-          }
-        }
-      }
-      if (Object.keys(newPreviews).length > 0) {
-        setImagePreviews(prev => ({ ...prev, ...newPreviews }));
+      // Tabs are preset filters combined with whatever is typed in the search box
+      const tabQuery = tabQueries[activeTab];
+      const fullQuery = [tabQuery, debouncedSearchQuery.trim()].filter(Boolean).join(' ');
+      const response = await window.electronAPI.searchTasks(fullQuery, sortMode);
+
+      if (response.error) {
+        // Report the position relative to what the user typed, not the tab prefix
+        const offset = tabQuery ? tabQuery.length + 1 : 0;
+        const column = Math.max(0, response.error.position - offset) + 1;
+        setSearchError(`${response.error.message} (at character ${column})`);
+        return;
       }
+      setSearchError(null);
+
+      setTasks(response.tasks);
     } catch (error) {
       console.error('Error loading tasks:', error);
     }
-  }, [debouncedSearchQuery, activeTab]);
+  }, [debouncedSearchQuery, activeTab, sortMode]);
 
   useEffect(() => {
     loadTasks();
@@ -124,10 +132,14 @@ export const Dashboard = ({ onTaskSelect }: DashboardProps) => {
       await window.electronAPI.createTask({
         title: newTaskTitle,
         priority: newTaskPriority,
+        project_id: newTaskProjectId,
+        tags: newTaskTags,
       });
       
       setNewTaskTitle('');
       setNewTaskPriority('NORMAL');
+      setNewTaskProjectId(null);
+      setNewTaskTags([]);
       setIsCreating(false);
       await loadTasks();
       toast.success('Task created');
@@ -150,10 +162,10 @@ export const Dashboard = ({ onTaskSelect }: DashboardProps) => {
     }
 
     try {
-      const success = await window.electronAPI.deleteTask(deleteConfirm.taskId);
-      if (success) {
+      const trashId = await window.electronAPI.deleteTask(deleteConfirm.taskId);
+      if (trashId) {
         await loadTasks();
-        toast.success('Task deleted');
+        toastMovedToTrash('Task moved to trash', trashId);
       } else {
         toast.error('Failed to delete task');
       }
@@ -168,6 +180,72 @@ export const Dashboard = ({ onTaskSelect }: DashboardProps) => {
     }
   };
 
+  const handleExportAllMarkdown = async () => {
+    try {
+      const result = await window.electronAPI.exportMarkdown();
+      if (result) {
+        toast.success(`Exported ${result.files.length} tasks and ${result.attachments} attachments to Markdown`);
+      }
+    } catch (error) {
+      console.error('Markdown export failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Markdown export failed');
+    }
+  };
+
+  // Exports exactly what the list shows: current tab, search and sort
+  const handleExportCsv = async () => {
+    try {
+      const result = await window.electronAPI.exportTasksCsv(currentQuery, sortMode);
+      if (result) {
+        toast.success(`Exported ${result.count} tasks to CSV`);
+      }
+    } catch (error) {
+      console.error('CSV export failed:', error);
+      toast.error(error instanceof Error ? error.message : 'CSV export failed');
+    }
+  };
+
+  // One dossier covering every task in the current results, in list order
+  const handleExportDossier = async () => {
+    if (tasks.length === 0) {
+      toast.info('No tasks to include in the dossier');
+      return;
+    }
+    try {
+      const result = await window.electronAPI.exportDossier(tasks.map((task) => task.id));
+      if (result) {
+        toast.success(`Saved ${result.format.toUpperCase()} dossier of ${result.tasks} tasks`);
+      }
+    } catch (error) {
+      console.error('Dossier export failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Dossier export failed');
+    }
+  };
+
+  const handleImportCsv = async () => {
+    try {
+      const file = await window.electronAPI.chooseCsvImport();
+      if (file) {
+        setCsvImportFile(file);
+      }
+    } catch (error) {
+      console.error('Failed to read CSV file:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read CSV file');
+    }
+  };
+
+  const handleImportFromApp = async () => {
+    try {
+      const preview = await window.electronAPI.chooseAppImport();
+      if (preview) {
+        setAppImportPreview(preview);
+      }
+    } catch (error) {
+      console.error('Failed to read export:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read export');
+    }
+  };
+
   const handleDeleteCancel = () => {
     setDeleteConfirm({ isOpen: false, taskId: null });
     setTimeout(() => {
@@ -181,7 +259,16 @@ export const Dashboard = ({ onTaskSelect }: DashboardProps) => {
     setEditTask({ isOpen: true, task });
   };
 
-  const handleEditSave = async (updates: { title?: string; priority?: string; status?: string }) => {
+  const handleEditSave = async (updates: {
+    title?: string;
+    priority?: string;
+    status?: string;
+    reason?: string;
+    project_id?: string | null;
+    tags?: string[];
+    due_at?: number | null;
+    start_at?: number | null;
+  }) => {
     if (!editTask.task || !window.electronAPI) return;
     
     try {
@@ -193,7 +280,7 @@ export const Dashboard = ({ onTaskSelect }: DashboardProps) => {
       toast.success('Task updated');
     } catch (error) {
       console.error('Error updating task:', error);
-      toast.error('Failed to update task');
+      toast.error(error instanceof Error ? error.message : 'Failed to update task');
       throw error;
     }
   };
@@ -202,6 +289,38 @@ export const Dashboard = ({ onTaskSelect }: DashboardProps) => {
     setEditTask({ isOpen: false, task: null });
   };
 
+  // Quote names containing spaces so they survive the query tokenizer
+  const filterValue = (name: string) => (/\s/.test(name) ? `"${name}"` : name);
+
+  const handleFilterClick = (filter: string, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setSearchQuery(filter);
+    setActiveSmartListId(null);
+  };
+
+  const currentQuery = [tabQueries[activeTab], searchQuery.trim()].filter(Boolean).join(' ');
+
+  const handleSmartListSelect = (savedSearch: SavedSearch) => {
+    // Saved queries already carry their own status filters
+    setActiveTab('all');
+    setSearchQuery(savedSearch.query);
+    setSortMode(savedSearch.sort);
+    setActiveSmartListId(savedSearch.id);
+  };
+
+  const handleSaveSearch = async (payload: { name: string; query: string; sort: TaskSortMode; icon: string }) => {
+    try {
+      const savedSearch = await window.electronAPI.createSavedSearch(payload);
+      setActiveSmartListId(savedSearch.id);
+      toast.success(`Saved "${savedSearch.name}"`);
+    } catch (error) {
+      console.error('Error saving search:', error);
+      toast.error('Failed to save search');
+      throw error;
+    }
+  };
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'HIGH': return 'bg-red-500/20 text-red-400 border-red-500/40 shadow-[0_0_15px_rgba(239,68,68,0.5)]';
@@ -253,6 +372,21 @@ export const Dashboard = ({ onTaskSelect }: DashboardProps) => {
     return content.replace(/\n/g, ' ').trim().substring(0, maxLength) + (content.length > maxLength ? '...' : '');
   };
 
+  const matchKindLabels: Record<NonNullable<SearchResult['match']>['kind'], string> = {
+    TITLE: 'Title',
+    SUMMARY: 'Summary',
+    NOTE: 'Note',
+    ATTACHMENT: 'Attachment',
+    CAPTION: 'Caption',
+    TAG: 'Tag',
+    CONTENT: 'File content',
+  };
+
+  const matchLabel = (match: NonNullable<SearchResult['match']>) =>
+    match.kind === 'CONTENT' && match.attachmentName
+      ? `Matched inside ${match.attachmentName}`
+      : matchKindLabels[match.kind];
+
   const handleRowKeyDown = (e: React.KeyboardEvent, taskId: string) => {
     if (e.key === 'Enter' || e.key === ' ') {
       e.preventDefault();
@@ -274,19 +408,61 @@ export const Dashboard = ({ onTaskSelect }: DashboardProps) => {
             <div className="flex-shrink-0">
               <GamificationWidget />
             </div>
+            <button
+              onClick={onOpenBackups}
+              className="p-2 text-gray-400 hover:text-gray-200 hover:bg-gray-800/60 rounded-lg transition-all flex-shrink-0"
+              title="Backups & restore"
+            >
+              <DatabaseBackup className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onOpenArchive}
+              className="p-2 text-gray-400 hover:text-gray-200 hover:bg-gray-800/60 rounded-lg transition-all flex-shrink-0"
+              title="Archive"
+            >
+              <Archive className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onOpenTrash}
+              className="p-2 text-gray-400 hover:text-gray-200 hover:bg-gray-800/60 rounded-lg transition-all flex-shrink-0"
+              title="Trash"
+            >
+              <Trash className="w-4 h-4" />
+            </button>
             <div className="relative flex-shrink-0">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4 pointer-events-none" />
               <input
                 ref={searchInputRef}
                 type="text"
-                placeholder="Search tasks... (Ctrl+F)"
+                placeholder="Search or filter, e.g. status:blocked idle:>7 (Ctrl+F)"
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10 pr-4 py-2 bg-gray-800/60 backdrop-blur-sm border border-gray-700/50 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all w-64"
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  setActiveSmartListId(null);
+                }}
+                className={cn(
+                  "pl-10 pr-4 py-2 bg-gray-800/60 backdrop-blur-sm border border-gray-700/50 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all w-96",
+                  searchError && "border-red-500/60 focus:ring-red-500/50 focus:border-red-500/60"
+                )}
                 autoComplete="off"
                 spellCheck="false"
+                title="Filters: status: priority: tag: project: due: start: idle: age: created: touched: has: — use &quot;quotes&quot; for phrases and -term to exclude"
               />
+              {searchError && (
+                <div className="absolute left-0 top-full mt-1 w-96 text-xs text-red-400 bg-gray-900/95 border border-red-500/30 rounded px-2 py-1 z-30">
+                  {searchError}
+                </div>
+              )}
             </div>
+            {searchQuery.trim() && !searchError && !activeSmartListId && (
+              <button
+                onClick={() => setIsSaveSearchOpen(true)}
+                className="p-2 text-yellow-400 hover:text-yellow-300 hover:bg-yellow-500/10 rounded-lg transition-all flex-shrink-0"
+                title="Save as smart list"
+              >
+                <Star className="w-4 h-4" />
+              </button>
+            )}
             {!isCreating && (
               <motion.button
                 onClick={() => setIsCreating(true)}
@@ -332,6 +508,12 @@ export const Dashboard = ({ onTaskSelect }: DashboardProps) => {
                 <option value="NORMAL">Normal Priority</option>
                 <option value="HIGH">High Priority</option>
               </select>
+              <ProjectSelect
+                value={newTaskProjectId}
+                onChange={setNewTaskProjectId}
+                className="w-48 py-1"
+              />
+              <TagInput value={newTaskTags} onChange={setNewTaskTags} className="flex-1" />
               <motion.button
                 onClick={handleCreateTask}
                 whileHover={{ scale: 1.05 }}
@@ -356,12 +538,17 @@ export const Dashboard = ({ onTaskSelect }: DashboardProps) => {
         )}
       </header>
 
+      <div className="flex-1 flex overflow-hidden">
+      <SmartListSidebar activeId={activeSmartListId} onSelect={handleSmartListSelect} />
       <div className="flex-1 overflow-auto">
         {/* Tab Navigation */}
-        <div className="border-b border-gray-800/50 px-6 py-3 bg-gray-900/60 backdrop-blur-xl">
+        <div className="border-b border-gray-800/50 px-6 py-3 bg-gray-900/60 backdrop-blur-xl flex items-center justify-between">
           <div className="flex gap-2">
             <button
-              onClick={() => setActiveTab('active')}
+              onClick={() => {
+                setActiveTab('active');
+                setActiveSmartListId(null);
+              }}
               className={cn(
                 "px-4 py-2 rounded-lg text-sm font-medium transition-all",
                 activeTab === 'active'
@@ -372,7 +559,10 @@ export const Dashboard = ({ onTaskSelect }: DashboardProps) => {
               Active
             </button>
             <button
-              onClick={() => setActiveTab('completed')}
+              onClick={() => {
+                setActiveTab('completed');
+                setActiveSmartListId(null);
+              }}
               className={cn(
                 "px-4 py-2 rounded-lg text-sm font-medium transition-all",
                 activeTab === 'completed'
@@ -382,6 +572,63 @@ export const Dashboard = ({ onTaskSelect }: DashboardProps) => {
             >
               Completed
             </button>
+            <button
+              onClick={() => {
+                setActiveTab('all');
+                setActiveSmartListId(null);
+              }}
+              className={cn(
+                "px-4 py-2 rounded-lg text-sm font-medium transition-all",
+                activeTab === 'all'
+                  ? "bg-blue-600/80 text-white shadow-[0_0_8px_rgba(59,130,246,0.3)]"
+                  : "bg-gray-800/60 text-gray-400 hover:bg-gray-700/60 hover:text-gray-300"
+              )}
+            >
+              All
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleImportCsv}
+              className="p-2 text-gray-400 hover:text-gray-200 hover:bg-gray-800/60 rounded-lg transition-all"
+              title="Import tasks from CSV"
+            >
+              <FileUp className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleImportFromApp}
+              className="p-2 text-gray-400 hover:text-gray-200 hover:bg-gray-800/60 rounded-lg transition-all"
+              title="Import from Trello, Todoist or todo.txt"
+            >
+              <Import className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleExportDossier}
+              className="p-2 text-gray-400 hover:text-gray-200 hover:bg-gray-800/60 rounded-lg transition-all"
+              title="Save a PDF or HTML dossier of these results"
+            >
+              <Printer className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleExportCsv}
+              className="p-2 text-gray-400 hover:text-gray-200 hover:bg-gray-800/60 rounded-lg transition-all"
+              title="Export these results to CSV"
+            >
+              <Table className="w-4 h-4" />
+            </button>
+            <select
+              value={sortMode}
+              onChange={(e) => setSortMode(e.target.value as TaskSortMode)}
+              className="px-3 py-1.5 bg-gray-800/60 border border-gray-700/50 rounded-lg text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+              title="Sort order"
+            >
+              <option value="default">Sort: Relevance / Priority</option>
+              <option value="idle">Sort: Most idle</option>
+              <option value="touched">Sort: Recently touched</option>
+              <option value="created">Sort: Newest</option>
+              <option value="title">Sort: Title</option>
+              <option value="deadline">Sort: Deadline</option>
+            </select>
           </div>
         </div>
 
@@ -440,7 +687,62 @@ export const Dashboard = ({ onTaskSelect }: DashboardProps) => {
                         <Ghost className={cn("w-4 h-4", getIdleAgeColor(task.idleAge))} />
                       )}
                       <span className="font-medium">{task.title}</span>
+                      {task.recurrence_rule && (
+                        <span title={`Repeats (${task.recurrence_rule})`}>
+                          <Repeat className="w-3 h-3 text-gray-400" />
+                        </span>
+                      )}
+                      {task.checklistTotal > 0 && (
+                        <span
+                          className={cn(
+                            "flex items-center gap-1 text-xs font-mono",
+                            task.checklistDone === task.checklistTotal ? "text-green-400" : "text-gray-400"
+                          )}
+                          title="Checklist progress"
+                        >
+                          <ListChecks className="w-3 h-3" />
+                          {task.checklistDone}/{task.checklistTotal}
+                        </span>
+                      )}
                     </div>
+                    {(task.projectName || task.tags.length > 0) && (
+                      <div className="mt-1 flex flex-wrap items-center gap-1.5">
+                        {task.projectName && (
+                          <button
+                            type="button"
+                            onClick={(e) => handleFilterClick(`project:${filterValue(task.projectName!)}`, e)}
+                            className="flex items-center gap-1 px-1.5 py-0.5 rounded text-xs bg-teal-500/20 text-teal-300 border border-teal-500/30 hover:bg-teal-500/30 transition-colors"
+                            title={`Show tasks in ${task.projectName}`}
+                          >
+                            <Folder className="w-3 h-3" />
+                            {task.projectName}
+                          </button>
+                        )}
+                        {task.tags.map((tag) => (
+                          <button
+                            key={tag}
+                            type="button"
+                            onClick={(e) => handleFilterClick(`tag:${filterValue(tag)}`, e)}
+                            className="px-1.5 py-0.5 rounded text-xs bg-purple-500/20 text-purple-300 border border-purple-500/30 hover:bg-purple-500/30 transition-colors"
+                            title={`Show tasks tagged ${tag}`}
+                          >
+                            {tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {'match' in task && task.match && task.match.kind !== 'TITLE' && (
+                      <div className="mt-1 text-xs text-gray-400 truncate max-w-[420px]">
+                        <span className="text-gray-500 mr-1">{matchLabel(task.match)}:</span>
+                        {splitSnippet(task.match.snippet).map((part, i) => (
+                          part.highlight ? (
+                            <mark key={i} className="bg-yellow-500/30 text-yellow-200 rounded px-0.5">{part.text}</mark>
+                          ) : (
+                            <span key={i}>{part.text}</span>
+                          )
+                        ))}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4">
                     <span className={cn("px-2 py-1 rounded text-xs border flex items-center gap-1.5 w-fit", getStatusColor(task.status))}>
@@ -459,9 +761,12 @@ export const Dashboard = ({ onTaskSelect }: DashboardProps) => {
                     </span>
                   </td>
                   <td className="px-6 py-4">
-                    <span className={cn("text-sm font-medium font-mono", getIdleAgeColor(task.idleAge))}>
-                      {getIdleAgeBadge(task.idleAge)}
-                    </span>
+                    <div className="flex items-center gap-2">
+                      <span className={cn("text-sm font-medium font-mono", getIdleAgeColor(task.idleAge))}>
+                        {getIdleAgeBadge(task.idleAge)}
+                      </span>
+                      <DueBadge dueAt={task.due_at} status={task.status} />
+                    </div>
                   </td>
                   <td className="px-6 py-4">
                     {task.latestEntryType ? (
@@ -477,12 +782,14 @@ export const Dashboard = ({ onTaskSelect }: DashboardProps) => {
                           )}
                           {task.latestEntryType === 'IMAGE' && (
                             <>
-                              {imagePreviews[task.latestEntryContent || ''] ? (
+                              {task.latestEntryContent && !brokenPreviews[task.latestEntryContent] ? (
                                 <img
-                                  src={imagePreviews[task.latestEntryContent || '']}
+                                  src={thumbnailUrl(task.latestEntryContent)}
                                   alt="Preview"
                                   className="object-cover rounded border border-gray-700/50 hover:border-blue-500/50 transition-colors cursor-pointer"
                                   style={{ maxWidth: '60px', maxHeight: '40px' }}
+                                  loading="lazy"
+                                  onError={() => setBrokenPreviews(prev => ({ ...prev, [task.latestEntryContent!]: true }))}
                                   onClick={(e) => {
                                     e.stopPropagation();
                                     onTaskSelect(task.id);
@@ -569,21 +876,36 @@ export const Dashboard = ({ onTaskSelect }: DashboardProps) => {
         </table>
       </div>
       </div>
+      </div>
       <CommandPalette
         isOpen={isCommandPaletteOpen}
         onClose={() => setIsCommandPaletteOpen(false)}
         onNewTask={() => setIsCreating(true)}
         onFocusSearch={() => searchInputRef.current?.focus()}
+        onExportAllMarkdown={handleExportAllMarkdown}
+        onExportDossier={handleExportDossier}
+        onExportCsv={handleExportCsv}
+        onImportCsv={handleImportCsv}
+        onImportFromApp={handleImportFromApp}
       />
+      <CsvImportDialog file={csvImportFile} onClose={() => setCsvImportFile(null)} />
+      <AppImportDialog preview={appImportPreview} onClose={() => setAppImportPreview(null)} />
       <ConfirmDialog
         isOpen={deleteConfirm.isOpen}
         title="Delete Task"
-        message="Are you sure you want to delete this task? This action cannot be undone."
+        message="Move this task to the trash? You can restore it from the trash later."
         confirmText="Delete"
         cancelText="Cancel"
         onConfirm={handleDeleteConfirm}
         onCancel={handleDeleteCancel}
       />
+      <SaveSearchDialog
+        isOpen={isSaveSearchOpen}
+        query={currentQuery}
+        sort={sortMode}
+        onClose={() => setIsSaveSearchOpen(false)}
+        onSave={handleSaveSearch}
+      />
       <EditTaskDialog
         isOpen={editTask.isOpen}
         task={editTask.task}
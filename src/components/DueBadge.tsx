@@ -0,0 +1,22 @@
+// Overdue / Due today / Upcoming indicator for tasks with a due date
+import { getDueState, getDueColor, getDueBadge, formatDate, cn } from '../lib/utils';
+
+interface DueBadgeProps {
+  dueAt: number | null;
+  status: string;
+  className?: string;
+}
+
+export const DueBadge = ({ dueAt, status, className }: DueBadgeProps) => {
+  const dueState = getDueState(dueAt, status);
+  if (dueState === null || dueAt === null) return null;
+
+  return (
+    <span
+      className={cn("px-1.5 py-0.5 rounded text-xs border whitespace-nowrap", getDueColor(dueState), className)}
+      title={`Due ${formatDate(dueAt)}`}
+    >
+      {getDueBadge(dueAt)}
+    </span>
+  );
+};
@@ -2,18 +2,35 @@
 import { useState, useEffect } from 'react';
 import { X } from 'lucide-react';
 import type { Task } from '../../electron/preload';
+import { TagInput } from './TagInput';
+import { ProjectSelect } from './ProjectSelect';
+import { toDateInputValue, fromDateInputValue } from '../lib/utils';
 
 interface EditTaskDialogProps {
   isOpen: boolean;
   task: Task | null;
   onClose: () => void;
-  onSave: (updates: { title?: string; priority?: string; status?: string }) => Promise<void>;
+  onSave: (updates: {
+    title?: string;
+    priority?: string;
+    status?: string;
+    reason?: string;
+    project_id?: string | null;
+    tags?: string[];
+    due_at?: number | null;
+    start_at?: number | null;
+  }) => Promise<void>;
 }
 
 export const EditTaskDialog = ({ isOpen, task, onClose, onSave }: EditTaskDialogProps) => {
   const [title, setTitle] = useState('');
   const [priority, setPriority] = useState<'LOW' | 'NORMAL' | 'HIGH'>('NORMAL');
   const [status, setStatus] = useState<'OPEN' | 'WAITING' | 'BLOCKED' | 'DONE' | 'ARCHIVED'>('OPEN');
+  const [reason, setReason] = useState('');
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [startDate, setStartDate] = useState('');
+  const [dueDate, setDueDate] = useState('');
   const [isSaving, setIsSaving] = useState(false);
 
   useEffect(() => {
@@ -21,11 +38,23 @@ export const EditTaskDialog = ({ isOpen, task, onClose, onSave }: EditTaskDialog
       setTitle(task.title);
       setPriority(task.priority);
       setStatus(task.status);
+      setReason('');
+      setProjectId(task.project_id);
+      setTags(task.tags);
+      setStartDate(toDateInputValue(task.start_at));
+      setDueDate(toDateInputValue(task.due_at));
     }
   }, [task]);
 
   if (!isOpen || !task) return null;
 
+  // Reason is only recorded alongside a status or priority transition
+  const hasTransition = priority !== task.priority || status !== task.status;
+  const startAt = fromDateInputValue(startDate);
+  const dueAt = fromDateInputValue(dueDate);
+  const datesInvalid = startAt !== null && dueAt !== null && startAt > dueAt;
+  const tagsChanged = tags.length !== task.tags.length || tags.some((tag, i) => tag !== task.tags[i]);
+
   const handleSave = async () => {
     setIsSaving(true);
     try {
@@ -33,6 +62,11 @@ export const EditTaskDialog = ({ isOpen, task, onClose, onSave }: EditTaskDialog
         title: title !== task.title ? title : undefined,
         priority: priority !== task.priority ? priority : undefined,
         status: status !== task.status ? status : undefined,
+        reason: hasTransition && reason.trim() ? reason.trim() : undefined,
+        project_id: projectId !== task.project_id ? projectId : undefined,
+        tags: tagsChanged ? tags : undefined,
+        start_at: startAt !== task.start_at ? startAt : undefined,
+        due_at: dueAt !== task.due_at ? dueAt : undefined,
       });
       onClose();
     } catch (error) {
@@ -100,6 +134,53 @@ export const EditTaskDialog = ({ isOpen, task, onClose, onSave }: EditTaskDialog
               <option value="ARCHIVED">Archived</option>
             </select>
           </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Start date</label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="w-full px-3 py-2 bg-gray-700/60 border border-gray-600/50 rounded-lg text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50 [color-scheme:dark]"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Due date</label>
+              <input
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                className="w-full px-3 py-2 bg-gray-700/60 border border-gray-600/50 rounded-lg text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50 [color-scheme:dark]"
+              />
+            </div>
+            {datesInvalid && (
+              <div className="col-span-2 text-xs text-red-400">Start date must be on or before the due date</div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Project</label>
+            <ProjectSelect value={projectId} onChange={setProjectId} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Tags</label>
+            <TagInput value={tags} onChange={setTags} />
+          </div>
+
+          {hasTransition && (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Reason (optional)</label>
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Why is this changing?"
+                className="w-full px-3 py-2 bg-gray-700/60 border border-gray-600/50 rounded-lg text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+              />
+            </div>
+          )}
         </div>
 
         <div className="flex gap-3 justify-end mt-6">
@@ -113,7 +194,7 @@ export const EditTaskDialog = ({ isOpen, task, onClose, onSave }: EditTaskDialog
           <button
             onClick={handleSave}
             className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            disabled={isSaving}
+            disabled={isSaving || datesInvalid}
           >
             {isSaving ? 'Saving...' : 'Save'}
           </button>
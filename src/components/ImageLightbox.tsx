@@ -1,15 +1,17 @@
 // Full-screen image lightbox modal
 import { X, ExternalLink } from 'lucide-react';
 import { useEffect, useState } from 'react';
+import { attachmentUrl } from '../lib/utils';
 
 interface ImageLightboxProps {
-  imagePath: string; // Can be data URL or relative path
+  imagePath: string; // Attachment path relative to the attachments folder
+  caption?: string;
   onClose: () => void;
   onOpenExternal?: () => void;
 }
 
-export const ImageLightbox = ({ imagePath, onClose, onOpenExternal }: ImageLightboxProps) => {
-  const [imageSrc, setImageSrc] = useState<string>('');
+export const ImageLightbox = ({ imagePath, caption, onClose, onOpenExternal }: ImageLightboxProps) => {
+  const [isLoaded, setIsLoaded] = useState(false);
 
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
@@ -20,40 +22,22 @@ export const ImageLightbox = ({ imagePath, onClose, onOpenExternal }: ImageLight
   }, [onClose]);
 
   useEffect(() => {
-    // If it's already a data URL, use it directly
-    if (imagePath.startsWith('data:')) {
-      setImageSrc(imagePath);
-    } else {
-      // Otherwise, load it as data URL
-      window.electronAPI.getImageDataUrl(imagePath).then(dataUrl => {
-        if (dataUrl) setImageSrc(dataUrl);
-      }).catch(err => {
-        console.error('Failed to load image for lightbox:', err);
-      });
-    }
+    setIsLoaded(false);
   }, [imagePath]);
 
-  if (!imageSrc) {
-    return (
-      <div 
-        className="fixed inset-0 z-50 bg-black/90 flex items-center justify-center"
-        onClick={onClose}
-      >
-        <div className="text-gray-400">Loading image...</div>
-      </div>
-    );
-  }
-
   return (
     <div 
       className="fixed inset-0 z-50 bg-black/90 flex items-center justify-center"
       onClick={onClose}
     >
+      {!isLoaded && <div className="absolute text-gray-400">Loading image...</div>}
       <div className="relative max-w-[90vw] max-h-[90vh]">
+        {/* The full-size file, streamed from the attachment protocol */}
         <img
-          src={imageSrc}
+          src={attachmentUrl(imagePath)}
           alt="Preview"
           className="max-w-full max-h-[90vh] object-contain"
+          onLoad={() => setIsLoaded(true)}
           onClick={(e) => e.stopPropagation()}
         />
         <div className="absolute top-4 right-4 flex gap-2">
@@ -80,6 +64,14 @@ export const ImageLightbox = ({ imagePath, onClose, onOpenExternal }: ImageLight
             <X className="w-5 h-5" />
           </button>
         </div>
+        {caption && (
+          <div
+            className="mt-2 text-center text-sm text-gray-200"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {caption}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,9 +1,13 @@
 // Isolated note composer component to prevent TaskDetail rerenders on keystroke
 import { useState, useRef } from 'react';
-import { Paperclip, FileEdit, Phone, DollarSign, Truck, Clock } from 'lucide-react';
+import { Paperclip, FileEdit, Phone, DollarSign, Truck, Clock, Bell } from 'lucide-react';
+import { REMINDER_PRESETS } from './TaskReminders';
+
+const WAITING_PREFIX = 'Waiting on: ';
 
 interface NewNoteComposerProps {
-  onAddNote: (content: string) => Promise<void>;
+  // followUpAt is set when a "Waiting on" note should schedule a follow-up reminder
+  onAddNote: (content: string, followUpAt?: number) => Promise<void>;
   onInsertPreset: (preset: string) => void;
   onFileAttach: (filePath: string) => Promise<void>;
   onFilePicker: () => Promise<void>;
@@ -11,12 +15,15 @@ interface NewNoteComposerProps {
 
 export const NewNoteComposer = ({ onAddNote, onInsertPreset, onFileAttach, onFilePicker }: NewNoteComposerProps) => {
   const [newNote, setNewNote] = useState('');
+  // Index into REMINDER_PRESETS, or -1 for no follow-up; defaults to "In 3 days"
+  const [followUpPreset, setFollowUpPreset] = useState(2);
   const noteInputRef = useRef<HTMLInputElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleAddNote = async () => {
     if (!newNote.trim()) return;
-    await onAddNote(newNote);
+    const followUpAt = isWaitingNote && followUpPreset >= 0 ? REMINDER_PRESETS[followUpPreset].at() : undefined;
+    await onAddNote(newNote, followUpAt);
     setNewNote('');
   };
 
@@ -43,12 +50,14 @@ export const NewNoteComposer = ({ onAddNote, onInsertPreset, onFileAttach, onFil
       call: 'Call: ',
       quote: 'Quote: $',
       shipping: 'Shipping: ',
-      waiting: 'Waiting on: ',
+      waiting: WAITING_PREFIX,
     };
     setNewNote(presets[preset] || '');
     noteInputRef.current?.focus();
   };
 
+  const isWaitingNote = newNote.startsWith(WAITING_PREFIX);
+
   return (
     <div className="border-b border-gray-800/50 p-4 bg-gray-900/40 backdrop-blur-sm">
       <div className="flex items-center gap-2 mb-3">
@@ -87,6 +96,22 @@ export const NewNoteComposer = ({ onAddNote, onInsertPreset, onFileAttach, onFil
           Attach
         </button>
       </div>
+      {isWaitingNote && (
+        <div className="flex items-center gap-2 mb-3 text-xs text-gray-400">
+          <Bell className="w-3 h-3 text-blue-400" />
+          <span>Follow up:</span>
+          <select
+            value={followUpPreset}
+            onChange={(e) => setFollowUpPreset(Number(e.target.value))}
+            className="px-2 py-0.5 bg-gray-800/60 border border-gray-700/50 rounded text-xs text-gray-200 focus:outline-none"
+          >
+            <option value={-1}>No reminder</option>
+            {REMINDER_PRESETS.map((preset, index) => (
+              <option key={preset.label} value={index}>{preset.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
       <div className="flex items-center gap-2 flex-wrap">
         <span className="text-xs text-gray-500">Presets:</span>
         <button
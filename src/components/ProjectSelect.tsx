@@ -0,0 +1,96 @@
+// Project picker with inline creation of new projects
+import { useState, useEffect } from 'react';
+import type { Project } from '../../electron/preload';
+import { cn } from '../lib/utils';
+import { toast } from './ui/toast';
+
+const NEW_PROJECT_VALUE = '__new__';
+
+interface ProjectSelectProps {
+  value: string | null;
+  onChange: (projectId: string | null) => void;
+  className?: string;
+}
+
+export const ProjectSelect = ({ value, onChange, className }: ProjectSelectProps) => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+    window.electronAPI.getProjects()
+      .then(setProjects)
+      .catch((error) => console.error('Failed to load projects:', error));
+  }, []);
+
+  const handleCreate = async () => {
+    if (!newName.trim()) {
+      setIsAdding(false);
+      return;
+    }
+    try {
+      const project = await window.electronAPI.createProject(newName);
+      setProjects((prev) => (
+        prev.some((p) => p.id === project.id) ? prev : [...prev, { ...project, taskCount: 0 }]
+      ));
+      onChange(project.id);
+      setIsAdding(false);
+      setNewName('');
+    } catch (error) {
+      console.error('Failed to create project:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create project');
+    }
+  };
+
+  const inputClassName = cn(
+    "w-full px-3 py-2 bg-gray-700/60 border border-gray-600/50 rounded-lg text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50",
+    className
+  );
+
+  if (isAdding) {
+    return (
+      <input
+        type="text"
+        value={newName}
+        onChange={(e) => setNewName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            e.stopPropagation();
+            handleCreate();
+          }
+          if (e.key === 'Escape') {
+            e.stopPropagation();
+            setIsAdding(false);
+            setNewName('');
+          }
+        }}
+        onBlur={handleCreate}
+        placeholder="New project name..."
+        className={inputClassName}
+        autoFocus
+      />
+    );
+  }
+
+  return (
+    <select
+      value={value ?? ''}
+      onChange={(e) => {
+        if (e.target.value === NEW_PROJECT_VALUE) {
+          setIsAdding(true);
+        } else {
+          onChange(e.target.value || null);
+        }
+      }}
+      className={inputClassName}
+    >
+      <option value="">No project</option>
+      {projects.map((project) => (
+        <option key={project.id} value={project.id}>{project.name}</option>
+      ))}
+      <option value={NEW_PROJECT_VALUE}>New project…</option>
+    </select>
+  );
+};
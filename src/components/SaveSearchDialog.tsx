@@ -0,0 +1,127 @@
+// Dialog for saving the current Dashboard search as a smart list
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import type { TaskSortMode } from '../../electron/preload';
+import { cn } from '../lib/utils';
+import { SMART_LIST_ICONS } from './SmartListSidebar';
+
+interface SaveSearchDialogProps {
+  isOpen: boolean;
+  query: string;
+  sort: TaskSortMode;
+  onClose: () => void;
+  onSave: (payload: { name: string; query: string; sort: TaskSortMode; icon: string }) => Promise<void>;
+}
+
+export const SaveSearchDialog = ({ isOpen, query, sort, onClose, onSave }: SaveSearchDialogProps) => {
+  const [name, setName] = useState('');
+  const [icon, setIcon] = useState('list');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName('');
+      setIcon('list');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setIsSaving(true);
+    try {
+      await onSave({ name: name.trim(), query, sort, icon });
+      onClose();
+    } catch (error) {
+      console.error('Failed to save search:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-800 border border-gray-700 rounded-lg p-6 max-w-md w-full mx-4 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-100">Save Smart List</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-200 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave();
+                if (e.key === 'Escape') onClose();
+              }}
+              placeholder="e.g. High priority idle > 7 days"
+              className="w-full px-3 py-2 bg-gray-700/60 border border-gray-600/50 rounded-lg text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Query</label>
+            <div className="px-3 py-2 bg-gray-900/60 border border-gray-700/50 rounded-lg text-sm font-mono text-gray-300 break-all">
+              {query}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Icon</label>
+            <div className="flex gap-2 flex-wrap">
+              {Object.entries(SMART_LIST_ICONS).map(([key, Icon]) => (
+                <button
+                  key={key}
+                  onClick={() => setIcon(key)}
+                  className={cn(
+                    "p-2 rounded-lg border transition-colors",
+                    icon === key
+                      ? "bg-blue-600/80 border-blue-500/60 text-white"
+                      : "bg-gray-700/60 border-gray-600/50 text-gray-400 hover:text-gray-200"
+                  )}
+                  title={key}
+                >
+                  <Icon className="w-4 h-4" />
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex gap-3 justify-end mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-200 transition-colors"
+            disabled={isSaving}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={isSaving || !name.trim()}
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
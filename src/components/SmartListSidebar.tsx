@@ -0,0 +1,104 @@
+// Sidebar of saved searches ("smart lists") with live match counts
+import { useState, useEffect, useCallback } from 'react';
+import { List, Star, Flame, Clock, AlertTriangle, Inbox, Search, Ghost, Trash2 } from 'lucide-react';
+import type { SavedSearch } from '../../electron/preload';
+import { cn } from '../lib/utils';
+import { useDataUpdated } from '../hooks/useDataUpdated';
+import { toast } from './ui/toast';
+
+export const SMART_LIST_ICONS: Record<string, typeof List> = {
+  list: List,
+  star: Star,
+  flame: Flame,
+  clock: Clock,
+  alert: AlertTriangle,
+  inbox: Inbox,
+  search: Search,
+  ghost: Ghost,
+};
+
+interface SmartListSidebarProps {
+  activeId: string | null;
+  onSelect: (savedSearch: SavedSearch) => void;
+}
+
+export const SmartListSidebar = ({ activeId, onSelect }: SmartListSidebarProps) => {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+
+  const loadSavedSearches = useCallback(async () => {
+    if (!window.electronAPI) return;
+    try {
+      const data = await window.electronAPI.getSavedSearches();
+      setSavedSearches(data);
+    } catch (error) {
+      console.error('Failed to load saved searches:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSavedSearches();
+  }, [loadSavedSearches]);
+
+  // Counts depend on task data, so refresh on every data-updated event
+  useDataUpdated(loadSavedSearches);
+
+  const handleDelete = async (savedSearch: SavedSearch, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      const success = await window.electronAPI.deleteSavedSearch(savedSearch.id);
+      if (success) {
+        toast.success(`Removed "${savedSearch.name}"`);
+      }
+    } catch (error) {
+      console.error('Failed to delete saved search:', error);
+      toast.error('Failed to delete saved search');
+    }
+  };
+
+  return (
+    <aside className="w-56 flex-shrink-0 border-r border-gray-800/50 bg-gray-900/60 backdrop-blur-xl overflow-auto p-3">
+      <div className="text-xs font-semibold uppercase tracking-wide text-gray-500 px-2 mb-2">Smart Lists</div>
+      {savedSearches.length === 0 ? (
+        <div className="text-xs text-gray-500 px-2">
+          Type a search or filter, then click the star to save it here.
+        </div>
+      ) : (
+        <ul className="space-y-1">
+          {savedSearches.map((savedSearch) => {
+            const Icon = SMART_LIST_ICONS[savedSearch.icon] ?? List;
+            return (
+              <li key={savedSearch.id}>
+                <button
+                  onClick={() => onSelect(savedSearch)}
+                  title={savedSearch.query}
+                  className={cn(
+                    "w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm transition-all group",
+                    activeId === savedSearch.id
+                      ? "bg-blue-600/80 text-white shadow-[0_0_8px_rgba(59,130,246,0.3)]"
+                      : "text-gray-300 hover:bg-gray-800/60"
+                  )}
+                >
+                  <Icon className="w-4 h-4 flex-shrink-0" />
+                  <span className="truncate flex-1 text-left">{savedSearch.name}</span>
+                  <span
+                    onClick={(e) => handleDelete(savedSearch, e)}
+                    className="hidden group-hover:inline-flex p-0.5 text-gray-400 hover:text-red-400"
+                    title="Remove smart list"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </span>
+                  <span className={cn(
+                    "text-xs font-mono",
+                    savedSearch.count === null ? "text-red-400" : "text-gray-500 group-hover:hidden"
+                  )}>
+                    {savedSearch.count === null ? '!' : savedSearch.count}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </aside>
+  );
+};
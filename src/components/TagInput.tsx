@@ -0,0 +1,107 @@
+// Tag chip input with suggestions from existing tags
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import type { Tag } from '../../electron/preload';
+import { cn } from '../lib/utils';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  className?: string;
+}
+
+export const TagInput = ({ value, onChange, className }: TagInputProps) => {
+  const [input, setInput] = useState('');
+  const [allTags, setAllTags] = useState<Tag[]>([]);
+  const [isFocused, setIsFocused] = useState(false);
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+    window.electronAPI.getTags()
+      .then(setAllTags)
+      .catch((error) => console.error('Failed to load tags:', error));
+  }, []);
+
+  const hasTag = (name: string) => value.some((tag) => tag.toLowerCase() === name.toLowerCase());
+
+  const addTag = (raw: string) => {
+    const name = raw.trim().replace(/\s+/g, ' ');
+    setInput('');
+    if (!name || hasTag(name)) return;
+    // Reuse the existing tag's casing so "Work" and "work" don't look like different tags
+    const existing = allTags.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+    onChange([...value, existing ? existing.name : name]);
+  };
+
+  const removeTag = (name: string) => {
+    onChange(value.filter((tag) => tag !== name));
+  };
+
+  const suggestions = allTags
+    .filter((tag) => !hasTag(tag.name) && tag.name.toLowerCase().includes(input.trim().toLowerCase()))
+    .slice(0, 6);
+
+  return (
+    <div className={cn("relative", className)}>
+      <div className="flex flex-wrap items-center gap-1.5 px-2 py-1.5 bg-gray-700/60 border border-gray-600/50 rounded-lg focus-within:ring-2 focus-within:ring-blue-500/50">
+        {value.map((tag) => (
+          <span
+            key={tag}
+            className="flex items-center gap-1 px-2 py-0.5 rounded bg-purple-500/20 text-purple-300 border border-purple-500/30 text-xs"
+          >
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="text-purple-300/70 hover:text-purple-200"
+              title={`Remove ${tag}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value.replace(',', ''))}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              e.stopPropagation();
+              addTag(input);
+            } else if (e.key === 'Backspace' && input === '' && value.length > 0) {
+              removeTag(value[value.length - 1]);
+            }
+          }}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (input.trim()) addTag(input);
+          }}
+          placeholder={value.length === 0 ? 'Add tags...' : ''}
+          className="flex-1 min-w-[80px] bg-transparent text-sm text-gray-100 focus:outline-none py-0.5"
+        />
+      </div>
+      {isFocused && suggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 top-full mt-1 z-30 bg-gray-800 border border-gray-700 rounded-lg shadow-xl overflow-hidden">
+          {suggestions.map((tag) => (
+            <li key={tag.id}>
+              <button
+                type="button"
+                // mousedown fires before the input blurs and closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTag(tag.name);
+                }}
+                className="w-full flex items-center justify-between px-3 py-1.5 text-sm text-gray-200 hover:bg-gray-700/60"
+              >
+                <span>{tag.name}</span>
+                <span className="text-xs text-gray-500 font-mono">{tag.taskCount}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
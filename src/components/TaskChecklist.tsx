@@ -0,0 +1,203 @@
+// Ordered checklist of sub-steps inside a task
+import { useState, useEffect, useCallback } from 'react';
+import { ChevronUp, ChevronDown, X, Plus } from 'lucide-react';
+import type { ChecklistItem } from '../../electron/preload';
+import { cn } from '../lib/utils';
+import { useDataUpdated } from '../hooks/useDataUpdated';
+import { toast } from './ui/toast';
+
+interface TaskChecklistProps {
+  taskId: string;
+  // Called after changes that write timeline entries, so the parent can refresh its timeline
+  onChange: () => void;
+}
+
+export const TaskChecklist = ({ taskId, onChange }: TaskChecklistProps) => {
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [newTitle, setNewTitle] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const loadItems = useCallback(async () => {
+    if (!window.electronAPI) return;
+    try {
+      setItems(await window.electronAPI.getChecklistItems(taskId));
+    } catch (error) {
+      console.error('Failed to load checklist:', error);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  useDataUpdated(loadItems);
+
+  const done = items.filter((item) => item.checked_at !== null).length;
+
+  const handleAdd = async () => {
+    if (!newTitle.trim()) return;
+    try {
+      await window.electronAPI.addChecklistItem(taskId, newTitle);
+      setNewTitle('');
+    } catch (error) {
+      console.error('Failed to add checklist item:', error);
+      toast.error('Failed to add checklist item');
+    }
+  };
+
+  const handleToggle = async (item: ChecklistItem) => {
+    const checked = item.checked_at === null;
+    try {
+      await window.electronAPI.setChecklistItemChecked(item.id, checked);
+      onChange();
+      if (checked && !item.xp_awarded) {
+        toast.success('Checked off: +3 XP');
+      }
+    } catch (error) {
+      console.error('Failed to update checklist item:', error);
+      toast.error('Failed to update checklist item');
+    }
+  };
+
+  const handleRename = async () => {
+    if (!editingId) return;
+    const item = items.find((i) => i.id === editingId);
+    setEditingId(null);
+    if (!item || !editingTitle.trim() || editingTitle.trim() === item.title) return;
+    try {
+      await window.electronAPI.renameChecklistItem(item.id, editingTitle);
+    } catch (error) {
+      console.error('Failed to rename checklist item:', error);
+      toast.error('Failed to rename checklist item');
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return;
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    // Optimistic update; the data-updated event reloads the canonical order
+    setItems(reordered);
+    try {
+      await window.electronAPI.reorderChecklistItems(taskId, reordered.map((i) => i.id));
+    } catch (error) {
+      console.error('Failed to reorder checklist:', error);
+      toast.error('Failed to reorder checklist');
+      loadItems();
+    }
+  };
+
+  const handleDelete = async (item: ChecklistItem) => {
+    try {
+      await window.electronAPI.deleteChecklistItem(item.id);
+    } catch (error) {
+      console.error('Failed to delete checklist item:', error);
+      toast.error('Failed to delete checklist item');
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-semibold text-gray-300">Checklist</label>
+        {items.length > 0 && (
+          <span className="text-xs font-mono text-gray-400">{done}/{items.length}</span>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <div className="h-1.5 mb-3 bg-gray-800 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-green-500/70 transition-all"
+            style={{ width: `${(done / items.length) * 100}%` }}
+          />
+        </div>
+      )}
+
+      <ul className="space-y-1">
+        {items.map((item, index) => (
+          <li key={item.id} className="flex items-center gap-2 group">
+            <input
+              type="checkbox"
+              checked={item.checked_at !== null}
+              onChange={() => handleToggle(item)}
+              className="w-4 h-4 accent-green-500 flex-shrink-0 cursor-pointer"
+            />
+            {editingId === item.id ? (
+              <input
+                type="text"
+                value={editingTitle}
+                onChange={(e) => setEditingTitle(e.target.value)}
+                onBlur={handleRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="flex-1 px-2 py-0.5 bg-gray-800/60 border border-gray-700/50 rounded text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                autoFocus
+              />
+            ) : (
+              <span
+                onDoubleClick={() => {
+                  setEditingId(item.id);
+                  setEditingTitle(item.title);
+                }}
+                className={cn(
+                  "flex-1 text-sm cursor-text break-words",
+                  item.checked_at !== null ? "text-gray-500 line-through" : "text-gray-200"
+                )}
+                title="Double-click to rename"
+              >
+                {item.title}
+              </span>
+            )}
+            <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                onClick={() => handleMove(index, -1)}
+                disabled={index === 0}
+                className="p-0.5 text-gray-500 hover:text-gray-200 disabled:opacity-30"
+                title="Move up"
+              >
+                <ChevronUp className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => handleMove(index, 1)}
+                disabled={index === items.length - 1}
+                className="p-0.5 text-gray-500 hover:text-gray-200 disabled:opacity-30"
+                title="Move down"
+              >
+                <ChevronDown className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => handleDelete(item)}
+                className="p-0.5 text-gray-500 hover:text-red-400"
+                title="Delete item"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center gap-2 mt-2">
+        <Plus className="w-4 h-4 text-gray-500 flex-shrink-0" />
+        <input
+          type="text"
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder="Add an item... (Enter)"
+          className="flex-1 px-2 py-1 bg-transparent border-b border-gray-700/50 text-sm text-gray-200 focus:outline-none focus:border-blue-500/50"
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,213 @@
+// "Blocked by" / "Blocking" relations for a single task
+import { useState, useEffect, useCallback } from 'react';
+import { Link2, ArrowUpRight, ArrowDownRight, X, Plus } from 'lucide-react';
+import type { DependencyTask, TaskDependencies as TaskDependenciesType, SearchResult } from '../../electron/preload';
+import { cn } from '../lib/utils';
+import { useDataUpdated } from '../hooks/useDataUpdated';
+import { toast } from './ui/toast';
+
+const STATUS_TEXT_COLORS: Record<DependencyTask['status'], string> = {
+  OPEN: 'text-blue-400',
+  WAITING: 'text-yellow-400',
+  BLOCKED: 'text-red-400',
+  DONE: 'text-green-400',
+  ARCHIVED: 'text-gray-500',
+};
+
+interface TaskDependenciesProps {
+  taskId: string;
+  onTaskSelect: (taskId: string) => void;
+  // Called after changes that may flip this task's status, so the parent can refresh
+  onChange: () => void;
+}
+
+export const TaskDependencies = ({ taskId, onTaskSelect, onChange }: TaskDependenciesProps) => {
+  const [dependencies, setDependencies] = useState<TaskDependenciesType>({ blockedBy: [], blocking: [] });
+  const [isAdding, setIsAdding] = useState(false);
+  const [query, setQuery] = useState('');
+  const [candidates, setCandidates] = useState<SearchResult[]>([]);
+
+  const loadDependencies = useCallback(async () => {
+    if (!window.electronAPI) return;
+    try {
+      setDependencies(await window.electronAPI.getTaskDependencies(taskId));
+    } catch (error) {
+      console.error('Failed to load dependencies:', error);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    loadDependencies();
+  }, [loadDependencies]);
+
+  useDataUpdated(loadDependencies);
+
+  useEffect(() => {
+    if (!isAdding || !query.trim()) {
+      setCandidates([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await window.electronAPI.searchTasks(query);
+        if (cancelled) return;
+        const existing = new Set(dependencies.blockedBy.map((t) => t.id));
+        setCandidates(
+          response.tasks
+            .filter((t) => t.id !== taskId && !existing.has(t.id) && t.status !== 'ARCHIVED')
+            .slice(0, 8)
+        );
+      } catch (error) {
+        console.error('Failed to search tasks:', error);
+      }
+    }, 150);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isAdding, query, taskId, dependencies.blockedBy]);
+
+  const closePicker = () => {
+    setIsAdding(false);
+    setQuery('');
+    setCandidates([]);
+  };
+
+  const handleAdd = async (blocker: SearchResult) => {
+    try {
+      setDependencies(await window.electronAPI.addTaskDependency(taskId, blocker.id));
+      closePicker();
+      onChange();
+    } catch (error) {
+      console.error('Failed to add dependency:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add dependency');
+    }
+  };
+
+  const handleRemove = async (blocker: DependencyTask) => {
+    try {
+      await window.electronAPI.removeTaskDependency(taskId, blocker.id);
+      onChange();
+    } catch (error) {
+      console.error('Failed to remove dependency:', error);
+      toast.error('Failed to remove dependency');
+    }
+  };
+
+  const renderLink = (dep: DependencyTask, onRemove?: () => void) => (
+    <li key={dep.id} className="flex items-center gap-2 group">
+      <button
+        onClick={() => onTaskSelect(dep.id)}
+        className={cn(
+          "flex-1 text-left text-sm truncate hover:underline",
+          dep.status === 'DONE' || dep.status === 'ARCHIVED' ? "text-gray-500 line-through" : "text-gray-200"
+        )}
+        title="Open task"
+      >
+        {dep.title}
+      </button>
+      <span className={cn("text-[10px] font-mono", STATUS_TEXT_COLORS[dep.status])}>{dep.status}</span>
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-400 transition-opacity"
+          title="Remove blocker"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-semibold text-gray-300">Dependencies</label>
+        {!isAdding && (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="flex items-center gap-1 px-2 py-1 text-xs bg-blue-600/20 text-blue-400 border border-blue-600/30 rounded hover:bg-blue-600/30"
+          >
+            <Link2 className="w-3 h-3" />
+            Add blocker
+          </button>
+        )}
+      </div>
+
+      {isAdding && (
+        <div className="p-3 mb-2 bg-gray-800/60 border border-gray-700/50 rounded-lg">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') closePicker();
+                if (e.key === 'Enter' && candidates.length > 0) {
+                  e.preventDefault();
+                  handleAdd(candidates[0]);
+                }
+              }}
+              placeholder="Search for the blocking task..."
+              className="flex-1 px-2 py-1.5 bg-gray-700/60 border border-gray-600/50 rounded text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+              autoFocus
+            />
+            <button onClick={closePicker} className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded">
+              Cancel
+            </button>
+          </div>
+          {candidates.length > 0 && (
+            <ul className="mt-2 space-y-0.5">
+              {candidates.map((candidate) => (
+                <li key={candidate.id}>
+                  <button
+                    onClick={() => handleAdd(candidate)}
+                    className="w-full flex items-center gap-2 px-2 py-1 text-left text-sm text-gray-200 rounded hover:bg-gray-700/60"
+                  >
+                    <Plus className="w-3.5 h-3.5 text-gray-500 flex-shrink-0" />
+                    <span className="flex-1 truncate">{candidate.title}</span>
+                    <span className={cn("text-[10px] font-mono", STATUS_TEXT_COLORS[candidate.status])}>
+                      {candidate.status}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {query.trim() && candidates.length === 0 && (
+            <div className="mt-2 text-xs text-gray-500">No matching tasks</div>
+          )}
+        </div>
+      )}
+
+      {dependencies.blockedBy.length === 0 && dependencies.blocking.length === 0 && !isAdding && (
+        <div className="text-xs text-gray-500">No dependencies</div>
+      )}
+
+      {dependencies.blockedBy.length > 0 && (
+        <div className="mb-2">
+          <div className="flex items-center gap-1 mb-1 text-xs text-gray-400">
+            <ArrowUpRight className="w-3 h-3" />
+            Blocked by
+          </div>
+          <ul className="space-y-1 pl-4">
+            {dependencies.blockedBy.map((dep) => renderLink(dep, () => handleRemove(dep)))}
+          </ul>
+        </div>
+      )}
+
+      {dependencies.blocking.length > 0 && (
+        <div>
+          <div className="flex items-center gap-1 mb-1 text-xs text-gray-400">
+            <ArrowDownRight className="w-3 h-3" />
+            Blocking
+          </div>
+          <ul className="space-y-1 pl-4">
+            {dependencies.blocking.map((dep) => renderLink(dep))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,32 +2,41 @@
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import {
   ArrowLeft, Save, Image as ImageIcon, FileText, CheckCircle, Archive, Trash2,
-  ExternalLink, FolderOpen, Copy, Ghost, AlertTriangle, Sparkles, FileEdit
+  ExternalLink, FolderOpen, Copy, Ghost, AlertTriangle, Sparkles, FileEdit, ArrowRight, CheckSquare, FileDown, Printer, Eye
 } from 'lucide-react';
 import { useHotkeys } from 'react-hotkeys-hook';
 import type { TaskDetail as TaskDetailType, TimelineEntry } from '../../electron/preload';
-import { formatDateTime, cn, getIdleAgeColor } from '../lib/utils';
+import { formatDateTime, cn, getIdleAgeColor, parseStatusChange, parseChecklistChange, toDateInputValue, fromDateInputValue, thumbnailUrl, describeAttachment, attachmentErrorMessage } from '../lib/utils';
 import { AttachmentGallery } from './AttachmentGallery';
+import { AttachmentCaption } from './AttachmentCaption';
 import { ImageLightbox } from './ImageLightbox';
+import { AttachmentPreview } from './AttachmentPreview';
 import { CommandPalette } from './CommandPalette';
 import { ConfirmDialog } from './ConfirmDialog';
 import { NewNoteComposer } from './NewNoteComposer';
-import { toast } from './ui/toast';
+import { DueBadge } from './DueBadge';
+import { TaskReminders } from './TaskReminders';
+import { TaskChecklist } from './TaskChecklist';
+import { TaskDependencies } from './TaskDependencies';
+import { TaskRecurrence } from './TaskRecurrence';
+import { toast, toastMovedToTrash } from './ui/toast';
 
 interface TaskDetailProps {
   taskDetail: TaskDetailType;
   onBack: () => void;
   onUpdate: () => void;
+  onTaskSelect: (taskId: string) => void;
 }
 
-export const TaskDetail = ({ taskDetail, onBack, onUpdate }: TaskDetailProps) => {
+export const TaskDetail = ({ taskDetail, onBack, onUpdate, onTaskSelect }: TaskDetailProps) => {
   const [task, setTask] = useState(taskDetail.task);
   const [timeline, setTimeline] = useState(taskDetail.timeline);
+  const [attachments, setAttachments] = useState(taskDetail.attachments);
   const [pinnedSummary, setPinnedSummary] = useState(task.pinned_summary);
   const [isEditingSummary, setIsEditingSummary] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [lightboxImage, setLightboxImage] = useState<string | null>(null);
-  const [lightboxImagePath, setLightboxImagePath] = useState<string>('');
+  const [previewEntry, setPreviewEntry] = useState<TimelineEntry | null>(null);
   const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleteAttachmentConfirm, setDeleteAttachmentConfirm] = useState<{ isOpen: boolean; entryId: string | null }>({
@@ -36,7 +45,6 @@ export const TaskDetail = ({ taskDetail, onBack, onUpdate }: TaskDetailProps) =>
   });
   const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
   const [editingNoteContent, setEditingNoteContent] = useState<string>('');
-  const [attachmentPaths, setAttachmentPaths] = useState<Record<string, string>>({});
   const dropZoneRef = useRef<HTMLDivElement>(null);
   const summaryTextareaRef = useRef<HTMLTextAreaElement>(null);
   const timelineRefs = useRef<Record<string, HTMLDivElement>>({});
@@ -79,7 +87,7 @@ export const TaskDetail = ({ taskDetail, onBack, onUpdate }: TaskDetailProps) =>
           if (file.type.startsWith('image/')) {
             const arrayBuffer = await file.arrayBuffer();
             const uint8Array = new Uint8Array(arrayBuffer);
-            await handleImagePaste(uint8Array);
+            await handleImagePaste(uint8Array, file.name);
           } else {
             const filePath = (file as any).path;
             if (filePath) await handleFileAttach(filePath);
@@ -105,9 +113,9 @@ export const TaskDetail = ({ taskDetail, onBack, onUpdate }: TaskDetailProps) =>
   });
   // Note: Ctrl+Enter handled by NewNoteComposer component
 
-  const handleImagePaste = async (buffer: Uint8Array) => {
+  const handleImagePaste = async (buffer: Uint8Array, fileName?: string) => {
     try {
-      await window.electronAPI.pasteImage(task.id, buffer);
+      await window.electronAPI.pasteImage(task.id, buffer, fileName);
       await refreshTask();
       toast.success('Image pasted');
     } catch (error) {
@@ -144,6 +152,7 @@ export const TaskDetail = ({ taskDetail, onBack, onUpdate }: TaskDetailProps) =>
     if (updated) {
       setTask(updated.task);
       setTimeline(updated.timeline);
+      setAttachments(updated.attachments);
       setPinnedSummary(updated.task.pinned_summary);
       onUpdate();
     }
@@ -160,7 +169,7 @@ export const TaskDetail = ({ taskDetail, onBack, onUpdate }: TaskDetailProps) =>
     toast.success('Summary saved');
   };
 
-  const handleAddNote = useCallback(async (content: string) => {
+  const handleAddNote = useCallback(async (content: string, followUpAt?: number) => {
     if (!content.trim()) return;
     await window.electronAPI.addTimelineEntry({
       taskId: task.id,
@@ -168,38 +177,62 @@ export const TaskDetail = ({ taskDetail, onBack, onUpdate }: TaskDetailProps) =>
       content,
       updateTouched: true,
     });
+    if (followUpAt !== undefined) {
+      await window.electronAPI.createReminder({ taskId: task.id, remindAt: followUpAt, note: content });
+    }
     await refreshTask();
-    toast.success('Note added');
+    toast.success(followUpAt !== undefined ? `Note added, follow-up set for ${formatDateTime(followUpAt)}` : 'Note added');
   }, [task.id, refreshTask]);
 
-  const handleStatusChange = async (status: 'OPEN' | 'WAITING' | 'BLOCKED' | 'DONE' | 'ARCHIVED') => {
-    await window.electronAPI.updateTask({
-      id: task.id,
-      status,
-      updateTouched: true,
-    });
-    await refreshTask();
-    toast.success(`Task marked as ${status}`);
+  const handleStatusChange = async (status: 'OPEN' | 'WAITING' | 'BLOCKED' | 'DONE' | 'ARCHIVED', reason?: string) => {
+    try {
+      await window.electronAPI.updateTask({
+        id: task.id,
+        status,
+        updateTouched: true,
+        reason,
+      });
+      await refreshTask();
+      toast.success(`Task marked as ${status}`);
+    } catch (error) {
+      console.error('Failed to change status:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to change status');
+    }
   };
 
-  const handlePriorityChange = async (priority: 'LOW' | 'NORMAL' | 'HIGH') => {
+  const handlePriorityChange = async (priority: 'LOW' | 'NORMAL' | 'HIGH', reason?: string) => {
     await window.electronAPI.updateTask({
       id: task.id,
       priority,
+      reason,
     });
     await refreshTask();
     toast.success(`Priority set to ${priority}`);
   };
 
+  const handleDateChange = async (field: 'start_at' | 'due_at', value: string) => {
+    try {
+      await window.electronAPI.updateTask({
+        id: task.id,
+        [field]: fromDateInputValue(value),
+      });
+      await refreshTask();
+      toast.success(field === 'due_at' ? 'Due date updated' : 'Start date updated');
+    } catch (error) {
+      console.error('Failed to update date:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update date');
+    }
+  };
+
   const handleDeleteClick = () => {
     setShowDeleteConfirm(true);
   };
 
   const handleDeleteConfirm = async () => {
     try {
-      const success = await window.electronAPI.deleteTask(task.id);
-      if (success) {
-        toast.success('Task deleted');
+      const trashId = await window.electronAPI.deleteTask(task.id);
+      if (trashId) {
+        toastMovedToTrash('Task moved to trash', trashId);
         onBack();
       } else {
         toast.error('Failed to delete task');
@@ -212,28 +245,48 @@ export const TaskDetail = ({ taskDetail, onBack, onUpdate }: TaskDetailProps) =>
     }
   };
 
+  const handleExportMarkdown = async (taskIds?: string[]) => {
+    try {
+      const result = await window.electronAPI.exportMarkdown(taskIds);
+      if (result) {
+        toast.success(taskIds
+          ? `Exported "${result.files[0]}" with ${result.attachments} attachments`
+          : `Exported ${result.files.length} tasks and ${result.attachments} attachments to Markdown`);
+      }
+    } catch (error) {
+      console.error('Markdown export failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Markdown export failed');
+    }
+  };
+
+  const handleExportDossier = async () => {
+    try {
+      const result = await window.electronAPI.exportDossier([task.id]);
+      if (result) {
+        toast.success(`Saved ${result.format.toUpperCase()} dossier`);
+      }
+    } catch (error) {
+      console.error('Dossier export failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Dossier export failed');
+    }
+  };
+
   const handleDeleteCancel = () => {
     setShowDeleteConfirm(false);
   };
 
-  const getAttachmentPath = useCallback(async (relativePath: string): Promise<string> => {
-    if (attachmentPaths[relativePath]) return attachmentPaths[relativePath];
-    const absolutePath = await window.electronAPI.getAttachmentPath(relativePath);
-    setAttachmentPaths(prev => ({ ...prev, [relativePath]: absolutePath }));
-    return absolutePath;
-  }, [attachmentPaths]);
-
-  const handleOpenImage = async (entry: TimelineEntry) => {
-    const dataUrl = await window.electronAPI.getImageDataUrl(entry.content);
-    if (dataUrl) {
-      setLightboxImage(entry.content);
-      setLightboxImagePath(dataUrl);
-    }
+  const handleOpenImage = (entry: TimelineEntry) => {
+    setLightboxImage(entry.content);
   };
 
   const handleOpenImageExternal = async () => {
     if (lightboxImage) {
-      await window.electronAPI.openAttachment(lightboxImage);
+      try {
+        await window.electronAPI.openAttachment(lightboxImage);
+      } catch (error) {
+        console.error('Failed to open image:', error);
+        toast.error(attachmentErrorMessage(error, 'Failed to open image'));
+      }
     }
   };
 
@@ -251,7 +304,7 @@ export const TaskDetail = ({ taskDetail, onBack, onUpdate }: TaskDetailProps) =>
       }
     } catch (error) {
       console.error('File action failed:', error);
-      toast.error('Action failed');
+      toast.error(attachmentErrorMessage(error, 'Action failed'));
     }
   };
 
@@ -307,10 +360,10 @@ Prices/quotes:`;
 
   const handleDeleteNote = useCallback(async (entryId: string) => {
     try {
-      const success = await window.electronAPI.deleteTimelineEntry(entryId);
-      if (success) {
+      const trashId = await window.electronAPI.deleteTimelineEntry(entryId);
+      if (trashId) {
         await refreshTask();
-        toast.success('Note deleted');
+        toastMovedToTrash('Note moved to trash', trashId);
       } else {
         toast.error('Failed to delete note');
       }
@@ -331,10 +384,10 @@ Prices/quotes:`;
     }
 
     try {
-      const success = await window.electronAPI.deleteTimelineEntry(deleteAttachmentConfirm.entryId);
-      if (success) {
+      const trashId = await window.electronAPI.deleteTimelineEntry(deleteAttachmentConfirm.entryId);
+      if (trashId) {
         await refreshTask();
-        toast.success('Attachment deleted');
+        toastMovedToTrash('Attachment moved to trash', trashId);
       } else {
         toast.error('Failed to delete attachment');
       }
@@ -357,15 +410,10 @@ Prices/quotes:`;
   );
 
   const ImageEntry = ({ entry }: { entry: TimelineEntry }) => {
-    const [imageDataUrl, setImageDataUrl] = useState<string>('');
-
-    useEffect(() => {
-      window.electronAPI.getImageDataUrl(entry.content).then(dataUrl => {
-        if (dataUrl) setImageDataUrl(dataUrl);
-      }).catch(err => {
-        console.error('Failed to load image:', err);
-      });
-    }, [entry.content]);
+    // A missing file hides the preview rather than showing a broken image
+    const [isBroken, setIsBroken] = useState(false);
+    const info = attachments[entry.content];
+    const filename = info?.original_name ?? (entry.content.split('/').pop() || '');
 
     return (
       <div 
@@ -373,9 +421,12 @@ Prices/quotes:`;
         className="p-4 bg-gray-800/60 backdrop-blur-sm rounded-lg border border-gray-700/50 group"
       >
         <div className="text-sm text-gray-400 mb-2 flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <ImageIcon className="w-4 h-4" />
+          <div className="flex items-center gap-2 min-w-0">
+            <ImageIcon className="w-4 h-4 flex-shrink-0" />
             {formatDateTime(entry.created_at)}
+            <span className="text-gray-500 truncate min-w-0" title={filename}>
+              {filename} · {describeAttachment(filename, info)}
+            </span>
           </div>
           <button
             onClick={() => handleDeleteAttachmentClick(entry.id)}
@@ -385,13 +436,15 @@ Prices/quotes:`;
             <Trash2 className="w-4 h-4" />
           </button>
         </div>
-        {imageDataUrl && (
+        {!isBroken && (
           <div className="mt-2">
             <img
-              src={imageDataUrl}
-              alt="Attachment"
+              src={thumbnailUrl(entry.content)}
+              alt={info?.caption || filename}
+              loading="lazy"
               className="max-w-md h-auto rounded-lg cursor-pointer hover:opacity-90 transition-opacity"
               onClick={() => handleOpenImage(entry)}
+              onError={() => setIsBroken(true)}
             />
             <div className="flex gap-2 mt-2">
               <button
@@ -403,8 +456,13 @@ Prices/quotes:`;
               </button>
               <button
                 onClick={async () => {
-                  await window.electronAPI.openAttachment(entry.content);
-                  toast.success('Image opened');
+                  try {
+                    await window.electronAPI.openAttachment(entry.content);
+                    toast.success('Image opened');
+                  } catch (error) {
+                    console.error('Failed to open image:', error);
+                    toast.error(attachmentErrorMessage(error, 'Failed to open image'));
+                  }
                 }}
                 className="text-xs text-gray-400 hover:text-gray-300 flex items-center gap-1"
               >
@@ -413,20 +471,14 @@ Prices/quotes:`;
             </div>
           </div>
         )}
+        {info && <AttachmentCaption path={entry.content} caption={info.caption} onSaved={refreshTask} />}
       </div>
     );
   };
 
   const FileEntry = ({ entry }: { entry: TimelineEntry }) => {
-    const filename = entry.content.split('/').pop() || '';
-    const ext = filename.split('.').pop()?.toLowerCase() || '';
-    const getFileTypeLabel = () => {
-      if (['pdf'].includes(ext)) return 'PDF';
-      if (['doc', 'docx'].includes(ext)) return 'DOC';
-      if (['xls', 'xlsx'].includes(ext)) return 'XLS';
-      if (['zip', 'rar', '7z'].includes(ext)) return 'ZIP';
-      return ext.toUpperCase() || 'FILE';
-    };
+    const info = attachments[entry.content];
+    const filename = info?.original_name ?? (entry.content.split('/').pop() || '');
 
     return (
       <div 
@@ -441,11 +493,24 @@ Prices/quotes:`;
           <div className="flex items-center gap-2">
             <FileText className="w-5 h-5 text-gray-400" />
             <div>
-              <div className="text-gray-200 font-medium">{filename}</div>
-              <div className="text-xs text-gray-500">{getFileTypeLabel()}</div>
+              <button
+                onClick={() => setPreviewEntry(entry)}
+                className="text-gray-200 font-medium break-all text-left hover:text-blue-300 transition-colors"
+                title="Preview"
+              >
+                {filename}
+              </button>
+              <div className="text-xs text-gray-500">{describeAttachment(filename, info)}</div>
             </div>
           </div>
           <div className="flex gap-1">
+            <button
+              onClick={() => setPreviewEntry(entry)}
+              className="p-1.5 text-gray-400 hover:text-gray-200 hover:bg-gray-700/50 rounded transition-colors"
+              title="Preview"
+            >
+              <Eye className="w-4 h-4" />
+            </button>
             <button
               onClick={() => handleFileAction(entry, 'open')}
               className="p-1.5 text-gray-400 hover:text-gray-200 hover:bg-gray-700/50 rounded transition-colors"
@@ -476,6 +541,7 @@ Prices/quotes:`;
             </button>
           </div>
         </div>
+        {info && <AttachmentCaption path={entry.content} caption={info.caption} onSaved={refreshTask} />}
       </div>
     );
   };
@@ -552,16 +618,48 @@ Prices/quotes:`;
         return <ImageEntry key={entry.id} entry={entry} />;
       case 'FILE':
         return <FileEntry key={entry.id} entry={entry} />;
-      case 'STATUS':
-        return (
-          <div 
-            ref={(el) => { if (el) timelineRefs.current[entry.id] = el; }}
-            className="p-4 bg-gray-800/60 backdrop-blur-sm rounded-lg border border-gray-700/50"
-          >
-            <div className="text-sm text-gray-400">{formatDateTime(entry.created_at)}</div>
-            <div className="text-gray-300 mt-1">Status changed: {entry.content}</div>
-          </div>
-        );
+      case 'STATUS': {
+          const checklistChange = parseChecklistChange(entry.content);
+          if (checklistChange) {
+            return (
+              <div
+                ref={(el) => { if (el) timelineRefs.current[entry.id] = el; }}
+                className="p-4 bg-gray-800/60 backdrop-blur-sm rounded-lg border border-gray-700/50"
+              >
+                <div className="text-sm text-gray-400">{formatDateTime(entry.created_at)}</div>
+                <div className="text-gray-300 mt-1 flex items-center gap-2">
+                  <CheckSquare className="w-4 h-4 text-green-400" />
+                  <span>Checked off: {checklistChange.item}</span>
+                  <span className="text-xs font-mono text-gray-500">({checklistChange.done}/{checklistChange.total})</span>
+                </div>
+              </div>
+            );
+          }
+          const change = parseStatusChange(entry.content);
+          return (
+            <div 
+              ref={(el) => { if (el) timelineRefs.current[entry.id] = el; }}
+              className="p-4 bg-gray-800/60 backdrop-blur-sm rounded-lg border border-gray-700/50"
+            >
+              <div className="text-sm text-gray-400">{formatDateTime(entry.created_at)}</div>
+              {change ? (
+                <>
+                  <div className="text-gray-300 mt-1 flex items-center gap-2">
+                    <span>{change.field === 'status' ? 'Status' : 'Priority'} changed:</span>
+                    <span className="font-mono text-gray-400">{change.from}</span>
+                    <ArrowRight className="w-3 h-3 text-gray-500" />
+                    <span className="font-mono text-gray-200">{change.to}</span>
+                  </div>
+                  {change.reason && (
+                    <div className="text-sm text-gray-400 italic mt-1">{change.reason}</div>
+                  )}
+                </>
+              ) : (
+                <div className="text-gray-300 mt-1">Status changed: {entry.content}</div>
+              )}
+            </div>
+          );
+      }
       case 'GAMIFY':
         return (
           <div 
@@ -608,6 +706,22 @@ Prices/quotes:`;
               <Archive className="w-4 h-4" />
               Archive
             </button>
+            <button
+              onClick={() => handleExportMarkdown([task.id])}
+              className="flex items-center gap-2 px-3 py-1 bg-gray-600/20 text-gray-400 border border-gray-600/30 rounded-lg hover:bg-gray-600/30 transition-colors"
+              title="Export this task as a Markdown file with its attachments"
+            >
+              <FileDown className="w-4 h-4" />
+              Export
+            </button>
+            <button
+              onClick={handleExportDossier}
+              className="flex items-center gap-2 px-3 py-1 bg-gray-600/20 text-gray-400 border border-gray-600/30 rounded-lg hover:bg-gray-600/30 transition-colors"
+              title="Save a PDF or HTML dossier with the summary, status history, notes and images"
+            >
+              <Printer className="w-4 h-4" />
+              Dossier
+            </button>
             <button
               onClick={handleDeleteClick}
               className="flex items-center gap-2 px-3 py-1 bg-red-600/20 text-red-400 border border-red-600/30 rounded-lg hover:bg-red-600/30 transition-colors"
@@ -639,7 +753,7 @@ Prices/quotes:`;
               Mark Done
             </button>
             <button
-              onClick={() => handlePriorityChange('NORMAL')}
+              onClick={() => handlePriorityChange('NORMAL', 'Lowered from neglect warning')}
               className="px-2 py-1 text-xs bg-red-600/20 text-red-400 border border-red-600/30 rounded hover:bg-red-600/30"
             >
               Lower Priority
@@ -687,6 +801,27 @@ Prices/quotes:`;
                 </div>
               </div>
               
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="text-sm text-gray-400">Start Date</label>
+                  <input
+                    type="date"
+                    value={toDateInputValue(task.start_at)}
+                    onChange={(e) => handleDateChange('start_at', e.target.value)}
+                    className="mt-1 w-full px-3 py-1.5 bg-gray-800/60 border border-gray-700/50 rounded-lg text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 [color-scheme:dark]"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm text-gray-400">Due Date</label>
+                  <input
+                    type="date"
+                    value={toDateInputValue(task.due_at)}
+                    onChange={(e) => handleDateChange('due_at', e.target.value)}
+                    className="mt-1 w-full px-3 py-1.5 bg-gray-800/60 border border-gray-700/50 rounded-lg text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 [color-scheme:dark]"
+                  />
+                </div>
+              </div>
+
               <div>
                 <label className="text-sm text-gray-400">Idle Age</label>
                 <div className="mt-1 flex items-center gap-2">
@@ -694,6 +829,7 @@ Prices/quotes:`;
                   <span className={cn("text-sm font-medium font-mono", getIdleAgeColor(idleAge))}>
                     {idleAge === 0 ? 'Fresh' : idleAge === 1 ? '1 day' : `${idleAge} days`}
                   </span>
+                  <DueBadge dueAt={task.due_at} status={task.status} />
                 </div>
               </div>
               
@@ -714,6 +850,14 @@ Prices/quotes:`;
             </div>
           </div>
 
+          <TaskChecklist taskId={task.id} onChange={refreshTask} />
+
+          <TaskDependencies taskId={task.id} onTaskSelect={onTaskSelect} onChange={refreshTask} />
+
+          <TaskRecurrence task={task} onTaskSelect={onTaskSelect} onChange={refreshTask} />
+
+          <TaskReminders taskId={task.id} />
+
           <div className="mb-4">
             <div className="flex items-center justify-between mb-2">
               <label className="text-sm font-semibold text-gray-300">Pinned Summary</label>
@@ -779,8 +923,8 @@ Prices/quotes:`;
 
           <AttachmentGallery
             timeline={attachmentEntries}
+            attachments={attachments}
             onSelectAttachment={(entry) => scrollToTimelineEntry(entry.id)}
-            getAttachmentPath={getAttachmentPath}
           />
         </div>
 
@@ -817,22 +961,33 @@ Prices/quotes:`;
 
       {lightboxImage && (
         <ImageLightbox
-          imagePath={lightboxImagePath}
-          onClose={() => {
-            setLightboxImage(null);
-            setLightboxImagePath('');
-          }}
+          imagePath={lightboxImage}
+          caption={attachments[lightboxImage]?.caption}
+          onClose={() => setLightboxImage(null)}
           onOpenExternal={handleOpenImageExternal}
         />
       )}
 
+      {previewEntry && (
+        <AttachmentPreview
+          path={previewEntry.content}
+          name={attachments[previewEntry.content]?.original_name ?? (previewEntry.content.split('/').pop() || '')}
+          description={describeAttachment(previewEntry.content, attachments[previewEntry.content])}
+          onClose={() => setPreviewEntry(null)}
+          onOpenExternal={() => handleFileAction(previewEntry, 'open')}
+        />
+      )}
+
       <CommandPalette
         isOpen={isCommandPaletteOpen}
         onClose={() => setIsCommandPaletteOpen(false)}
         onNewTask={() => {}}
-        onToggleDone={() => handleStatusChange(task.status === 'DONE' ? 'OPEN' : 'DONE')}
-        onArchive={() => handleStatusChange('ARCHIVED')}
-        onSetPriority={handlePriorityChange}
+        onToggleDone={() => handleStatusChange(task.status === 'DONE' ? 'OPEN' : 'DONE', 'Changed via command palette')}
+        onArchive={() => handleStatusChange('ARCHIVED', 'Changed via command palette')}
+        onExportTaskMarkdown={() => handleExportMarkdown([task.id])}
+        onExportAllMarkdown={() => handleExportMarkdown()}
+        onExportTaskDossier={handleExportDossier}
+        onSetPriority={(priority) => handlePriorityChange(priority, 'Changed via command palette')}
         onAddNote={() => {}}
         onAttachFile={async () => {
           try {
@@ -853,7 +1008,7 @@ Prices/quotes:`;
       <ConfirmDialog
         isOpen={showDeleteConfirm}
         title="Delete Task"
-        message="Are you sure you want to delete this task? This action cannot be undone."
+        message="Move this task to the trash? You can restore it from the trash later."
         confirmText="Delete"
         cancelText="Cancel"
         onConfirm={handleDeleteConfirm}
@@ -862,7 +1017,7 @@ Prices/quotes:`;
       <ConfirmDialog
         isOpen={deleteAttachmentConfirm.isOpen}
         title="Delete Attachment"
-        message="Are you sure you want to delete this attachment? This action cannot be undone."
+        message="Move this attachment to the trash? You can restore it from the trash later."
         confirmText="Delete"
         cancelText="Cancel"
         onConfirm={handleDeleteAttachmentConfirm}
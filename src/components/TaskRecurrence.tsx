@@ -0,0 +1,232 @@
+// Repeat settings and past occurrences of a recurring task
+import { useState, useEffect, useCallback } from 'react';
+import { Repeat, CheckCircle2, Circle } from 'lucide-react';
+import type { Task, RecurrenceOccurrence } from '../../electron/preload';
+import {
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  describeRecurrenceRule,
+  WEEKDAY_CODES,
+  type RecurrenceRule,
+  type RecurrenceFrequency,
+} from '../../electron/db/recurrence-rule';
+import { cn, formatDate } from '../lib/utils';
+import { useDataUpdated } from '../hooks/useDataUpdated';
+import { toast } from './ui/toast';
+
+// Monday-first for display
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+function safeParse(rule: string | null): RecurrenceRule | null {
+  if (!rule) return null;
+  try {
+    return parseRecurrenceRule(rule);
+  } catch {
+    return null;
+  }
+}
+
+interface TaskRecurrenceProps {
+  task: Pick<Task, 'id' | 'due_at' | 'recurrence_rule'>;
+  onTaskSelect: (taskId: string) => void;
+  onChange: () => void;
+}
+
+export const TaskRecurrence = ({ task, onTaskSelect, onChange }: TaskRecurrenceProps) => {
+  const current = safeParse(task.recurrence_rule);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<RecurrenceRule | null>(current);
+  const [history, setHistory] = useState<RecurrenceOccurrence[]>([]);
+
+  const loadHistory = useCallback(async () => {
+    if (!window.electronAPI) return;
+    try {
+      setHistory(await window.electronAPI.getRecurrenceHistory(task.id));
+    } catch (error) {
+      console.error('Failed to load recurrence history:', error);
+    }
+  }, [task.id]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  useDataUpdated(loadHistory);
+
+  // Defaults for a new rule follow the due date, or today when there is none
+  const anchor = new Date(task.due_at ?? Date.now());
+
+  const setFrequency = (freq: RecurrenceFrequency | '') => {
+    if (!freq) {
+      setDraft(null);
+      return;
+    }
+    setDraft({
+      freq,
+      interval: draft?.interval ?? 1,
+      byWeekday: freq === 'WEEKLY' ? [anchor.getDay()] : [],
+      byMonthDay: freq === 'MONTHLY' ? anchor.getDate() : null,
+    });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!draft) return;
+    const byWeekday = draft.byWeekday.includes(day)
+      ? draft.byWeekday.filter((d) => d !== day)
+      : [...draft.byWeekday, day].sort((a, b) => a - b);
+    setDraft({ ...draft, byWeekday });
+  };
+
+  const handleSave = async () => {
+    try {
+      await window.electronAPI.updateTask({
+        id: task.id,
+        recurrence_rule: draft ? formatRecurrenceRule(draft) : null,
+      });
+      setIsEditing(false);
+      onChange();
+      toast.success(draft ? `Repeats: ${describeRecurrenceRule(draft)}` : 'Task no longer repeats');
+    } catch (error) {
+      console.error('Failed to update recurrence:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update recurrence');
+    }
+  };
+
+  const pastOccurrences = history.filter((occurrence) => occurrence.id !== task.id);
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-semibold text-gray-300">Repeat</label>
+        {!isEditing && (
+          <button
+            onClick={() => {
+              setDraft(current);
+              setIsEditing(true);
+            }}
+            className="flex items-center gap-1 px-2 py-1 text-xs bg-blue-600/20 text-blue-400 border border-blue-600/30 rounded hover:bg-blue-600/30"
+          >
+            <Repeat className="w-3 h-3" />
+            {current ? 'Edit' : 'Set repeat'}
+          </button>
+        )}
+      </div>
+
+      {!isEditing && (
+        <div className="text-xs text-gray-400">
+          {current ? describeRecurrenceRule(current) : task.recurrence_rule ? task.recurrence_rule : 'Does not repeat'}
+        </div>
+      )}
+
+      {isEditing && (
+        <div className="p-3 mb-2 bg-gray-800/60 border border-gray-700/50 rounded-lg space-y-2">
+          <div className="flex items-center gap-2">
+            <select
+              value={draft?.freq ?? ''}
+              onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency | '')}
+              className="px-2 py-1 bg-gray-700/60 border border-gray-600/50 rounded text-sm text-gray-100 focus:outline-none"
+            >
+              <option value="">Does not repeat</option>
+              <option value="DAILY">Daily</option>
+              <option value="WEEKLY">Weekly</option>
+              <option value="MONTHLY">Monthly</option>
+            </select>
+            {draft && (
+              <>
+                <span className="text-xs text-gray-400">every</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={draft.interval}
+                  onChange={(e) => setDraft({ ...draft, interval: Math.max(1, Number(e.target.value) || 1) })}
+                  className="w-14 px-2 py-1 bg-gray-700/60 border border-gray-600/50 rounded text-sm text-gray-100 focus:outline-none"
+                />
+                <span className="text-xs text-gray-400">
+                  {{ DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[draft.freq]}{draft.interval === 1 ? '' : 's'}
+                </span>
+              </>
+            )}
+          </div>
+
+          {draft?.freq === 'WEEKLY' && (
+            <div className="flex gap-1">
+              {WEEKDAY_ORDER.map((day) => (
+                <button
+                  key={day}
+                  onClick={() => toggleWeekday(day)}
+                  className={cn(
+                    "w-8 py-1 text-xs rounded border",
+                    draft.byWeekday.includes(day)
+                      ? "bg-blue-600/30 text-blue-300 border-blue-500/50"
+                      : "bg-gray-700/40 text-gray-400 border-gray-600/40 hover:bg-gray-700"
+                  )}
+                >
+                  {WEEKDAY_CODES[day].charAt(0) + WEEKDAY_CODES[day].charAt(1).toLowerCase()}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {draft?.freq === 'MONTHLY' && (
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-400">on day</span>
+              <select
+                value={draft.byMonthDay ?? anchor.getDate()}
+                onChange={(e) => setDraft({ ...draft, byMonthDay: Number(e.target.value) })}
+                className="px-2 py-1 bg-gray-700/60 border border-gray-600/50 rounded text-sm text-gray-100 focus:outline-none"
+              >
+                {Array.from({ length: 31 }, (_, i) => i + 1).map((day) => (
+                  <option key={day} value={day}>{day}</option>
+                ))}
+                <option value={-1}>Last day</option>
+              </select>
+            </div>
+          )}
+
+          {draft && <div className="text-xs text-gray-400">{describeRecurrenceRule(draft)}</div>}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              className="px-2 py-1 text-xs bg-blue-600 hover:bg-blue-700 rounded"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => setIsEditing(false)}
+              className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {pastOccurrences.length > 0 && (
+        <div className="mt-2">
+          <div className="mb-1 text-xs text-gray-400">Other occurrences</div>
+          <ul className="space-y-1">
+            {pastOccurrences.map((occurrence) => (
+              <li key={occurrence.id} className="flex items-center gap-2 text-xs">
+                {occurrence.status === 'DONE'
+                  ? <CheckCircle2 className="w-3.5 h-3.5 text-green-400 flex-shrink-0" />
+                  : <Circle className="w-3.5 h-3.5 text-gray-500 flex-shrink-0" />}
+                <button
+                  onClick={() => onTaskSelect(occurrence.id)}
+                  className="flex-1 text-left text-gray-300 truncate hover:underline"
+                  title="Open occurrence"
+                >
+                  {occurrence.due_at !== null ? `Due ${formatDate(occurrence.due_at)}` : formatDate(occurrence.created_at)}
+                </button>
+                <span className="font-mono text-gray-500">
+                  {occurrence.status === 'DONE' && occurrence.completed_at !== null ? `Done ${formatDate(occurrence.completed_at)}` : occurrence.status}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
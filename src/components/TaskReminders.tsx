@@ -0,0 +1,217 @@
+// Reminder list and quick scheduling for a single task
+import { useState, useEffect, useCallback } from 'react';
+import { Bell, BellRing, X, AlarmClock } from 'lucide-react';
+import type { Reminder } from '../../electron/preload';
+import { formatDateTime, cn } from '../lib/utils';
+import { useDataUpdated } from '../hooks/useDataUpdated';
+import { toast } from './ui/toast';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Next occurrence of 9:00 local time, `days` days from today
+function morningIn(days: number): number {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  date.setHours(9, 0, 0, 0);
+  return date.getTime();
+}
+
+export const REMINDER_PRESETS: { label: string; at: () => number }[] = [
+  { label: 'In 1 hour', at: () => Date.now() + HOUR_MS },
+  { label: 'Tomorrow 9:00', at: () => morningIn(1) },
+  { label: 'In 3 days', at: () => morningIn(3) },
+  { label: 'Next week', at: () => morningIn(7) },
+];
+
+// <input type="datetime-local"> values are YYYY-MM-DDTHH:mm in local time
+function toDateTimeInputValue(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+interface TaskRemindersProps {
+  taskId: string;
+}
+
+export const TaskReminders = ({ taskId }: TaskRemindersProps) => {
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [note, setNote] = useState('');
+  const [customAt, setCustomAt] = useState('');
+
+  const loadReminders = useCallback(async () => {
+    if (!window.electronAPI) return;
+    try {
+      setReminders(await window.electronAPI.getReminders(taskId));
+    } catch (error) {
+      console.error('Failed to load reminders:', error);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    loadReminders();
+  }, [loadReminders]);
+
+  useDataUpdated(loadReminders);
+
+  const handleCreate = async (remindAt: number) => {
+    try {
+      await window.electronAPI.createReminder({ taskId, remindAt, note });
+      setIsAdding(false);
+      setNote('');
+      setCustomAt('');
+      toast.success(`Reminder set for ${formatDateTime(remindAt)}`);
+    } catch (error) {
+      console.error('Failed to create reminder:', error);
+      toast.error('Failed to set reminder');
+    }
+  };
+
+  const handleSnooze = async (reminder: Reminder, remindAt: number) => {
+    try {
+      await window.electronAPI.snoozeReminder(reminder.id, remindAt);
+      toast.success(`Snoozed until ${formatDateTime(remindAt)}`);
+    } catch (error) {
+      console.error('Failed to snooze reminder:', error);
+      toast.error('Failed to snooze reminder');
+    }
+  };
+
+  const handleDelete = async (reminder: Reminder) => {
+    try {
+      await window.electronAPI.deleteReminder(reminder.id);
+    } catch (error) {
+      console.error('Failed to delete reminder:', error);
+      toast.error('Failed to delete reminder');
+    }
+  };
+
+  const pending = reminders.filter((r) => r.fired_at === null);
+  const fired = reminders.filter((r) => r.fired_at !== null);
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-semibold text-gray-300">Reminders</label>
+        {!isAdding && (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="flex items-center gap-1 px-2 py-1 text-xs bg-blue-600/20 text-blue-400 border border-blue-600/30 rounded hover:bg-blue-600/30"
+          >
+            <Bell className="w-3 h-3" />
+            Remind me
+          </button>
+        )}
+      </div>
+
+      {isAdding && (
+        <div className="p-3 mb-2 bg-gray-800/60 border border-gray-700/50 rounded-lg space-y-2">
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="What to follow up on (optional)"
+            className="w-full px-2 py-1.5 bg-gray-700/60 border border-gray-600/50 rounded text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            autoFocus
+          />
+          <div className="flex flex-wrap gap-1.5">
+            {REMINDER_PRESETS.map((preset) => (
+              <button
+                key={preset.label}
+                onClick={() => handleCreate(preset.at())}
+                className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded"
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="datetime-local"
+              value={customAt}
+              min={toDateTimeInputValue(Date.now())}
+              onChange={(e) => setCustomAt(e.target.value)}
+              className="flex-1 px-2 py-1 bg-gray-700/60 border border-gray-600/50 rounded text-xs text-gray-100 focus:outline-none [color-scheme:dark]"
+            />
+            <button
+              onClick={() => handleCreate(new Date(customAt).getTime())}
+              disabled={!customAt}
+              className="px-2 py-1 text-xs bg-blue-600 hover:bg-blue-700 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Set
+            </button>
+            <button
+              onClick={() => {
+                setIsAdding(false);
+                setNote('');
+                setCustomAt('');
+              }}
+              className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {reminders.length === 0 && !isAdding && (
+        <div className="text-xs text-gray-500">No reminders</div>
+      )}
+
+      <ul className="space-y-1.5">
+        {pending.map((reminder) => (
+          <li key={reminder.id} className="flex items-center gap-2 text-sm group">
+            <AlarmClock className="w-3.5 h-3.5 text-blue-400 flex-shrink-0" />
+            <span className="font-mono text-xs text-gray-300">{formatDateTime(reminder.remind_at)}</span>
+            <span className="text-xs text-gray-400 truncate flex-1">{reminder.note}</span>
+            <button
+              onClick={() => handleDelete(reminder)}
+              className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-400 transition-opacity"
+              title="Cancel reminder"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </li>
+        ))}
+        {fired.map((reminder) => (
+          <li
+            key={reminder.id}
+            className={cn(
+              "flex flex-wrap items-center gap-2 text-sm px-2 py-1.5 rounded",
+              "bg-yellow-500/10 border border-yellow-500/20"
+            )}
+          >
+            <BellRing className="w-3.5 h-3.5 text-yellow-400 flex-shrink-0" />
+            <span className="text-xs text-yellow-200 truncate flex-1">
+              {reminder.note || 'Reminder'} · {formatDateTime(reminder.remind_at)}
+            </span>
+            <div className="flex gap-1">
+              <button
+                onClick={() => handleSnooze(reminder, REMINDER_PRESETS[0].at())}
+                className="px-1.5 py-0.5 text-xs bg-gray-700 hover:bg-gray-600 rounded"
+                title="Snooze for 1 hour"
+              >
+                1h
+              </button>
+              <button
+                onClick={() => handleSnooze(reminder, REMINDER_PRESETS[1].at())}
+                className="px-1.5 py-0.5 text-xs bg-gray-700 hover:bg-gray-600 rounded"
+                title="Snooze until tomorrow 9:00"
+              >
+                Tomorrow
+              </button>
+              <button
+                onClick={() => handleDelete(reminder)}
+                className="px-1.5 py-0.5 text-xs text-gray-400 hover:text-gray-200"
+                title="Dismiss"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
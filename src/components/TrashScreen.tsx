@@ -0,0 +1,191 @@
+// Trash bin: restore or permanently delete trashed tasks and timeline entries
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, Trash, Trash2, Undo2, FileText, Paperclip } from 'lucide-react';
+import type { TrashItem, TrashSettings } from '../../electron/preload';
+import { formatDateTime, formatDate } from '../lib/utils';
+import { useDataUpdated } from '../hooks/useDataUpdated';
+import { ConfirmDialog } from './ConfirmDialog';
+import { toast } from './ui/toast';
+
+interface TrashScreenProps {
+  onBack: () => void;
+  onTaskSelect: (taskId: string) => void;
+}
+
+export const TrashScreen = ({ onBack, onTaskSelect }: TrashScreenProps) => {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [settings, setSettings] = useState<TrashSettings | null>(null);
+  const [purgeTarget, setPurgeTarget] = useState<TrashItem | null>(null);
+  const [showEmptyConfirm, setShowEmptyConfirm] = useState(false);
+
+  const loadData = useCallback(async () => {
+    if (!window.electronAPI) return;
+    try {
+      const [loadedItems, loadedSettings] = await Promise.all([
+        window.electronAPI.getTrashItems(),
+        window.electronAPI.getTrashSettings(),
+      ]);
+      setItems(loadedItems);
+      setSettings(loadedSettings);
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  useDataUpdated(loadData);
+
+  const saveRetention = async (retentionDays: number) => {
+    try {
+      setSettings(await window.electronAPI.updateTrashSettings({ retentionDays }));
+    } catch (error) {
+      console.error('Failed to update trash settings:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update trash settings');
+    }
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      const result = await window.electronAPI.restoreTrashItem(item.id);
+      toast.success(`Restored "${item.title}"`);
+      if (result.kind === 'TASK') {
+        onTaskSelect(result.taskId);
+      }
+    } catch (error) {
+      console.error('Failed to restore from trash:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore from trash');
+    }
+  };
+
+  const handlePurge = async () => {
+    const item = purgeTarget;
+    setPurgeTarget(null);
+    if (!item) return;
+    try {
+      await window.electronAPI.purgeTrashItem(item.id);
+      toast.success(`Permanently deleted "${item.title}"`);
+    } catch (error) {
+      console.error('Failed to delete from trash:', error);
+      toast.error('Failed to delete from trash');
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    setShowEmptyConfirm(false);
+    try {
+      const count = await window.electronAPI.emptyTrash();
+      toast.success(`Permanently deleted ${count} item${count === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Failed to empty trash:', error);
+      toast.error('Failed to empty trash');
+    }
+  };
+
+  return (
+    <div className="h-screen flex flex-col bg-gray-900 text-gray-100">
+      <header className="border-b border-gray-800/50 px-6 py-4 bg-gray-900/60 backdrop-blur-xl">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={onBack}
+            className="flex items-center gap-2 text-gray-400 hover:text-gray-200 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            Back
+          </button>
+          <button
+            onClick={() => setShowEmptyConfirm(true)}
+            disabled={items.length === 0}
+            className="flex items-center gap-2 px-3 py-1 bg-red-600/20 text-red-400 border border-red-600/30 rounded-lg hover:bg-red-600/30 transition-colors disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" />
+            Empty trash
+          </button>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-y-auto p-6 max-w-4xl w-full mx-auto">
+        <h1 className="text-2xl font-bold mb-6">Trash</h1>
+
+        {settings && (
+          <div className="mb-8 p-4 bg-gray-800/40 border border-gray-700/50 rounded-lg">
+            <label className="text-sm text-gray-400">
+              Permanently delete items after
+              <input
+                type="number"
+                min={1}
+                max={365}
+                defaultValue={settings.retentionDays}
+                key={`retention-${settings.retentionDays}`}
+                onBlur={(e) => {
+                  const value = Number(e.target.value);
+                  if (value !== settings.retentionDays) saveRetention(value);
+                }}
+                className="mx-2 w-16 px-2 py-1 bg-gray-900/60 border border-gray-700/50 rounded text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+              />
+              days in the trash
+            </label>
+          </div>
+        )}
+
+        {items.length === 0 && (
+          <div className="flex flex-col items-center py-12 text-gray-500">
+            <Trash className="w-10 h-10 mb-3" />
+            <div className="text-sm">The trash is empty</div>
+          </div>
+        )}
+        <ul className="space-y-2">
+          {items.map((item) => (
+            <li key={item.id} className="flex items-center gap-3 px-4 py-3 bg-gray-800/40 border border-gray-700/50 rounded-lg">
+              {item.kind === 'TASK'
+                ? <FileText className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                : <Paperclip className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium truncate">{item.title}</div>
+                <div className="text-xs text-gray-400">
+                  {item.kind === 'TASK' ? 'Task' : 'Timeline entry'}
+                  {item.attachment_count > 0 && ` · ${item.attachment_count} attachment${item.attachment_count === 1 ? '' : 's'}`}
+                  {' · '}deleted {formatDateTime(item.deleted_at)}
+                  {' · '}purged {formatDate(item.purge_at)}
+                </div>
+              </div>
+              <button
+                onClick={() => handleRestore(item)}
+                className="flex items-center gap-1 px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded"
+              >
+                <Undo2 className="w-3 h-3" />
+                Restore
+              </button>
+              <button
+                onClick={() => setPurgeTarget(item)}
+                className="flex items-center gap-1 px-2 py-1 text-xs bg-red-600/20 text-red-400 border border-red-600/30 rounded hover:bg-red-600/30"
+              >
+                <Trash2 className="w-3 h-3" />
+                Delete forever
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <ConfirmDialog
+        isOpen={purgeTarget !== null}
+        title="Delete forever"
+        message={purgeTarget ? `Permanently delete "${purgeTarget.title}"? This cannot be undone.` : ''}
+        confirmText="Delete"
+        onConfirm={handlePurge}
+        onCancel={() => setPurgeTarget(null)}
+      />
+      <ConfirmDialog
+        isOpen={showEmptyConfirm}
+        title="Empty trash"
+        message={`Permanently delete all ${items.length} items in the trash? This cannot be undone.`}
+        confirmText="Empty trash"
+        onConfirm={handleEmptyTrash}
+        onCancel={() => setShowEmptyConfirm(false)}
+      />
+    </div>
+  );
+};
@@ -6,8 +6,27 @@ export const toast = {
   error: (message: string) => sonnerToast.error(message),
   info: (message: string) => sonnerToast.info(message),
   warning: (message: string) => sonnerToast.warning(message),
+  // Only the most recent destructive action can be undone, so each undo toast replaces the last
+  undo: (message: string, onUndo: () => void) =>
+    sonnerToast.success(message, {
+      id: 'undo',
+      duration: 8000,
+      action: { label: 'Undo', onClick: onUndo },
+    }),
 };
 
+// Undo toast for something that was just moved to the trash
+export const toastMovedToTrash = (message: string, trashId: string) =>
+  toast.undo(message, async () => {
+    try {
+      await window.electronAPI.restoreTrashItem(trashId);
+      toast.success('Restored from trash');
+    } catch (error) {
+      console.error('Failed to restore from trash:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore from trash');
+    }
+  });
+
 export const Toaster = () => (
   <SonnerToaster 
     position='top-right'
@@ -1,20 +1,35 @@
 // Type definitions for Electron API exposed via preload script
-import type { Task, TaskDetail, TimelineEntry, Gamification, DataUpdatedPayload } from '../electron/preload';
+import type { Task, TaskDetail, TimelineEntry, Gamification, DataUpdatedPayload, SearchResponse, SavedSearch, TaskSortMode, Tag, Project, Reminder, ChecklistItem, TaskDependencies, RecurrenceOccurrence, BackupSettings, SnapshotInfo, SnapshotTask, TrashSettings, TrashItem, TrashRestoreResult, ArchiveSettings, VaultManifest, VaultImportMode, VaultImportReport, MarkdownExportResult, CsvColumnMapping, CsvFilePreview, CsvImportReport, CsvImportResult, AppImportPreview, AppImportReport, DossierExportResult, AttachmentPreview } from '../electron/preload';
 
 declare global {
   interface Window {
     electronAPI: {
-      getTasks: () => Promise<Task[]>;
+      getTasks: (sort?: TaskSortMode) => Promise<Task[]>;
       getTaskById: (id: string) => Promise<TaskDetail | null>;
-      createTask: (payload: { title: string; priority: string }) => Promise<Task>;
+      createTask: (payload: {
+        title: string;
+        priority: string;
+        project_id?: string | null;
+        tags?: string[];
+        due_at?: number | null;
+        start_at?: number | null;
+        recurrence_rule?: string | null;
+      }) => Promise<Task>;
       updateTask: (payload: {
         id: string;
         title?: string;
         status?: string;
         priority?: string;
         pinned_summary?: string;
+        project_id?: string | null;
+        tags?: string[];
+        due_at?: number | null;
+        start_at?: number | null;
+        recurrence_rule?: string | null;
         updateTouched?: boolean;
+        reason?: string;
       }) => Promise<Task>;
+      getRecurrenceHistory: (taskId: string) => Promise<RecurrenceOccurrence[]>;
       addTimelineEntry: (payload: {
         taskId: string;
         type: 'NOTE' | 'IMAGE' | 'FILE' | 'STATUS' | 'GAMIFY';
@@ -22,20 +37,85 @@ declare global {
         updateTouched?: boolean;
       }) => Promise<TimelineEntry>;
       updateTimelineEntry: (entryId: string, content: string) => Promise<TimelineEntry | null>;
-      deleteTimelineEntry: (entryId: string) => Promise<boolean>;
+      deleteTimelineEntry: (entryId: string) => Promise<string | null>;
       attachFile: (taskId: string, filePath: string) => Promise<string>;
-      pasteImage: (taskId: string, imageBuffer: Uint8Array) => Promise<string>;
-      searchTasks: (query: string) => Promise<Task[]>;
+      pasteImage: (taskId: string, imageBuffer: Uint8Array, fileName?: string) => Promise<string>;
+      searchTasks: (query: string, sort?: TaskSortMode) => Promise<SearchResponse>;
+      getSavedSearches: () => Promise<SavedSearch[]>;
+      createSavedSearch: (payload: { name: string; query: string; sort?: TaskSortMode; icon?: string }) => Promise<SavedSearch>;
+      updateSavedSearch: (payload: {
+        id: string;
+        name?: string;
+        query?: string;
+        sort?: TaskSortMode;
+        icon?: string;
+        position?: number;
+      }) => Promise<SavedSearch | null>;
+      deleteSavedSearch: (id: string) => Promise<boolean>;
+      getTags: () => Promise<Tag[]>;
+      createTag: (name: string) => Promise<Omit<Tag, 'taskCount'>>;
+      renameTag: (id: string, name: string) => Promise<Omit<Tag, 'taskCount'> | null>;
+      mergeTags: (sourceId: string, targetId: string) => Promise<boolean>;
+      deleteTag: (id: string) => Promise<boolean>;
+      setTaskTags: (taskId: string, names: string[]) => Promise<boolean>;
+      getProjects: () => Promise<Project[]>;
+      createProject: (name: string) => Promise<Omit<Project, 'taskCount'>>;
+      renameProject: (id: string, name: string) => Promise<Omit<Project, 'taskCount'> | null>;
+      mergeProjects: (sourceId: string, targetId: string) => Promise<boolean>;
+      deleteProject: (id: string) => Promise<boolean>;
+      getChecklistItems: (taskId: string) => Promise<ChecklistItem[]>;
+      addChecklistItem: (taskId: string, title: string) => Promise<ChecklistItem>;
+      renameChecklistItem: (id: string, title: string) => Promise<ChecklistItem | null>;
+      setChecklistItemChecked: (id: string, checked: boolean) => Promise<ChecklistItem | null>;
+      reorderChecklistItems: (taskId: string, orderedIds: string[]) => Promise<ChecklistItem[]>;
+      deleteChecklistItem: (id: string) => Promise<boolean>;
+      getTaskDependencies: (taskId: string) => Promise<TaskDependencies>;
+      addTaskDependency: (taskId: string, blockedById: string) => Promise<TaskDependencies>;
+      removeTaskDependency: (taskId: string, blockedById: string) => Promise<boolean>;
+      getReminders: (taskId: string) => Promise<Reminder[]>;
+      createReminder: (payload: { taskId: string; remindAt: number; note?: string }) => Promise<Reminder>;
+      snoozeReminder: (id: string, remindAt: number) => Promise<Reminder | null>;
+      deleteReminder: (id: string) => Promise<boolean>;
       getGamification: () => Promise<Gamification | null>;
-      getAttachmentPath: (relativePath: string) => Promise<string>;
       checkNecromancerBonus: (taskId: string) => Promise<number>;
       openAttachment: (relativePath: string) => Promise<void>;
+      getAttachmentPreview: (relativePath: string) => Promise<AttachmentPreview>;
       revealAttachment: (relativePath: string) => Promise<void>;
       copyAttachmentPath: (relativePath: string) => Promise<void>;
+      setAttachmentCaption: (relativePath: string, caption: string) => Promise<string>;
+      getBackupSettings: () => Promise<BackupSettings>;
+      updateBackupSettings: (patch: Partial<BackupSettings>) => Promise<BackupSettings>;
+      chooseBackupFolder: () => Promise<string | null>;
+      listSnapshots: () => Promise<SnapshotInfo[]>;
+      createSnapshot: () => Promise<SnapshotInfo>;
+      restoreSnapshot: (id: string) => Promise<boolean>;
+      getDeletedTasksInSnapshot: (id: string) => Promise<SnapshotTask[]>;
+      restoreTaskFromSnapshot: (id: string, taskId: string) => Promise<boolean>;
       showFilePicker: () => Promise<string[]>;
-      getImageDataUrl: (relativePath: string) => Promise<string | null>;
-      deleteTask: (taskId: string) => Promise<boolean>;
+      deleteTask: (taskId: string) => Promise<string | null>;
+      getTrashItems: () => Promise<TrashItem[]>;
+      restoreTrashItem: (id: string) => Promise<TrashRestoreResult>;
+      purgeTrashItem: (id: string) => Promise<boolean>;
+      emptyTrash: () => Promise<number>;
+      getTrashSettings: () => Promise<TrashSettings>;
+      updateTrashSettings: (patch: Partial<TrashSettings>) => Promise<TrashSettings>;
+      getArchiveSettings: () => Promise<ArchiveSettings>;
+      updateArchiveSettings: (patch: Partial<ArchiveSettings>) => Promise<ArchiveSettings>;
+      unarchiveTask: (taskId: string) => Promise<Task>;
+      openArchiveExports: () => Promise<void>;
+      exportVault: () => Promise<{ path: string; manifest: VaultManifest } | null>;
+      exportMarkdown: (taskIds?: string[]) => Promise<MarkdownExportResult | null>;
+      chooseVaultImport: () => Promise<{ path: string; manifest: VaultManifest } | null>;
+      importVault: (path: string, mode: VaultImportMode) => Promise<VaultImportReport>;
+      exportTasksCsv: (query: string, sort?: TaskSortMode) => Promise<{ path: string; count: number } | null>;
+      chooseCsvImport: () => Promise<CsvFilePreview | null>;
+      previewCsvImport: (path: string, mapping: CsvColumnMapping) => Promise<CsvImportReport>;
+      importCsv: (path: string, mapping: CsvColumnMapping) => Promise<CsvImportResult>;
+      exportDossier: (taskIds: string[]) => Promise<DossierExportResult | null>;
+      chooseAppImport: () => Promise<AppImportPreview | null>;
+      importFromApp: (path: string) => Promise<AppImportReport>;
       onDataUpdated: (callback: (payload?: DataUpdatedPayload) => void) => () => void;
+      onOpenTask: (callback: (taskId: string) => void) => () => void;
       windowMinimize: () => Promise<void>;
       windowMaximize: () => Promise<void>;
       windowClose: () => Promise<void>;
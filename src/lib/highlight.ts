@@ -0,0 +1,116 @@
+// Small regex-based syntax highlighter for attachment previews. It only tells comments,
+// strings, numbers and keywords apart (plus log levels and Markdown headings), which is
+// enough to make a file readable without pulling in a full grammar library.
+import type { PreviewLanguage } from '../../electron/preload';
+
+export type TokenKind =
+  | 'plain'
+  | 'comment'
+  | 'string'
+  | 'number'
+  | 'keyword'
+  | 'key'
+  | 'literal'
+  | 'heading'
+  | 'timestamp'
+  | 'error'
+  | 'warning'
+  | 'info';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+// Longer files are shown unhighlighted; thousands of spans per screen make scrolling sluggish
+export const MAX_HIGHLIGHT_LENGTH = 200 * 1024;
+
+// Common to most C-like languages, Python, shell and SQL; an approximation, not a grammar
+const KEYWORDS = new Set([
+  'abstract', 'and', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'def',
+  'default', 'delete', 'do', 'elif', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'fn', 'for',
+  'from', 'func', 'function', 'if', 'implements', 'import', 'in', 'interface', 'is', 'lambda', 'let', 'match',
+  'new', 'nil', 'None', 'not', 'null', 'or', 'package', 'pass', 'private', 'protected', 'pub', 'public',
+  'raise', 'return', 'self', 'static', 'struct', 'super', 'switch', 'this', 'throw', 'true', 'True', 'False',
+  'try', 'type', 'typeof', 'undefined', 'use', 'var', 'void', 'while', 'with', 'yield', 'then', 'fi', 'done',
+  'echo', 'select', 'insert', 'update', 'where', 'join', 'into', 'values', 'create', 'table',
+]);
+
+const STRING = `"(?:[^"\\\\\\n]|\\\\.)*"|'(?:[^'\\\\\\n]|\\\\.)*'`;
+
+// Patterns per language, tried left to right at each position; "word" matches are keywords
+// when listed above and plain text otherwise
+const RULES: Record<PreviewLanguage, { flags: string; rules: [TokenKind | 'word', string][] }> = {
+  plain: { flags: 'g', rules: [] },
+  code: {
+    flags: 'g',
+    rules: [
+      ['comment', `\\/\\/[^\\n]*|\\/\\*[\\s\\S]*?\\*\\/|<!--[\\s\\S]*?-->|#[^\\n]*`],
+      ['string', `${STRING}|\`(?:[^\`\\\\]|\\\\.)*\``],
+      ['number', `\\b(?:0[xX][0-9a-fA-F]+|\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)\\b`],
+      ['word', `[A-Za-z_$][\\w$]*`],
+    ],
+  },
+  json: {
+    flags: 'g',
+    rules: [
+      ['key', `"(?:[^"\\\\\\n]|\\\\.)*"(?=\\s*:)`],
+      ['string', `"(?:[^"\\\\\\n]|\\\\.)*"`],
+      ['number', `-?\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?`],
+      ['literal', `\\b(?:true|false|null)\\b`],
+    ],
+  },
+  log: {
+    flags: 'gi',
+    rules: [
+      ['timestamp', `\\b\\d{4}-\\d{2}-\\d{2}[T ]\\d{2}:\\d{2}(?::\\d{2}(?:[.,]\\d+)?)?(?:Z|[+-]\\d{2}:?\\d{2})?|\\b\\d{2}:\\d{2}:\\d{2}(?:[.,]\\d+)?\\b`],
+      ['error', `\\b(?:error|err|fatal|critical|severe|exception|traceback)\\b`],
+      ['warning', `\\b(?:warn|warning)\\b`],
+      ['info', `\\b(?:info|debug|trace)\\b`],
+      ['string', `"(?:[^"\\\\\\n]|\\\\.)*"`],
+    ],
+  },
+  markdown: {
+    flags: 'gm',
+    rules: [
+      ['heading', `^#{1,6} [^\\n]*`],
+      ['string', '`[^`\\n]+`'],
+      ['keyword', `\\*\\*[^*\\n]+\\*\\*`],
+      ['literal', `\\[[^\\]\\n]+\\]\\([^)\\n]+\\)`],
+    ],
+  },
+};
+
+// Split `text` into tokens; joined back together they give the original text
+export function highlight(text: string, language: PreviewLanguage): Token[] {
+  const { flags, rules } = RULES[language];
+  if (rules.length === 0 || text.length > MAX_HIGHLIGHT_LENGTH) {
+    return [{ kind: 'plain', text }];
+  }
+
+  const pattern = new RegExp(rules.map(([, source]) => `(${source})`).join('|'), flags);
+  const tokens: Token[] = [];
+  const pushPlain = (value: string) => {
+    if (!value) return;
+    const last = tokens[tokens.length - 1];
+    if (last?.kind === 'plain') last.text += value;
+    else tokens.push({ kind: 'plain', text: value });
+  };
+
+  let offset = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    pushPlain(text.slice(offset, match.index));
+    const group = match.slice(1).findIndex((value) => value !== undefined);
+    const kind = rules[group][0];
+    if (kind === 'word') {
+      if (KEYWORDS.has(match[0])) tokens.push({ kind: 'keyword', text: match[0] });
+      else pushPlain(match[0]);
+    } else {
+      tokens.push({ kind, text: match[0] });
+    }
+    offset = match.index + match[0].length;
+  }
+  pushPlain(text.slice(offset));
+  return tokens;
+}
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { StatusChange, ChecklistChange, AttachmentInfo, AttachmentPathErrorCode, AttachmentPathFailure } from '../../electron/preload';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -37,6 +38,141 @@ export function getIdleAgeBadge(idleAge: number): string {
   return `${idleAge} days`;
 }
 
+export type DueState = 'OVERDUE' | 'DUE_TODAY' | 'UPCOMING';
+
+// Whole calendar days from today until the given day (negative when in the past)
+export function getDaysUntil(timestamp: number, now: number = Date.now()): number {
+  const target = new Date(timestamp).setHours(0, 0, 0, 0);
+  const today = new Date(now).setHours(0, 0, 0, 0);
+  // Round rather than floor so DST shifts don't lose a day
+  return Math.round((target - today) / 86400000);
+}
+
+// Completed tasks are never overdue
+export function getDueState(dueAt: number | null, status: string): DueState | null {
+  if (dueAt === null || status === 'DONE' || status === 'ARCHIVED') return null;
+  const days = getDaysUntil(dueAt);
+  if (days < 0) return 'OVERDUE';
+  if (days === 0) return 'DUE_TODAY';
+  return 'UPCOMING';
+}
+
+export function getDueColor(state: DueState): string {
+  switch (state) {
+    case 'OVERDUE': return 'bg-red-500/20 text-red-400 border-red-500/40';
+    case 'DUE_TODAY': return 'bg-orange-500/20 text-orange-400 border-orange-500/40';
+    default: return 'bg-sky-500/20 text-sky-400 border-sky-500/30';
+  }
+}
+
+export function getDueBadge(dueAt: number): string {
+  const days = getDaysUntil(dueAt);
+  if (days < -1) return `Overdue ${-days} days`;
+  if (days === -1) return 'Overdue 1 day';
+  if (days === 0) return 'Due today';
+  if (days === 1) return 'Due tomorrow';
+  if (days <= 14) return `Due in ${days} days`;
+  return `Due ${formatDate(dueAt)}`;
+}
+
+// <input type="date"> values are YYYY-MM-DD in local time
+export function toDateInputValue(timestamp: number | null): string {
+  if (timestamp === null) return '';
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function fromDateInputValue(value: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+}
+
+// URLs for the main process's taskvault-attachment:// protocol (electron/attachment-protocol.ts)
+function attachmentProtocolUrl(kind: 'file' | 'thumb', relativePath: string): string {
+  return `taskvault-attachment://${kind}/${relativePath.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+// The full file, streamed; use for the lightbox and downloads
+export function attachmentUrl(relativePath: string): string {
+  return attachmentProtocolUrl('file', relativePath);
+}
+
+// A downsized copy for lists and previews (the original for small or non-image files)
+export function thumbnailUrl(relativePath: string): string {
+  return attachmentProtocolUrl('thumb', relativePath);
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+}
+
+// Short type label for an attachment; the detected mime type wins over the file extension
+const MIME_LABELS: Record<string, string> = {
+  'image/png': 'PNG',
+  'image/jpeg': 'JPEG',
+  'image/gif': 'GIF',
+  'image/webp': 'WEBP',
+  'image/svg+xml': 'SVG',
+  'application/pdf': 'PDF',
+  'text/plain': 'TXT',
+  'text/markdown': 'MD',
+  'text/csv': 'CSV',
+  'application/json': 'JSON',
+  'text/html': 'HTML',
+  'application/zip': 'ZIP',
+  'application/msword': 'DOC',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'DOC',
+  'application/vnd.ms-excel': 'XLS',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'XLS',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'PPT',
+};
+
+export function getAttachmentTypeLabel(fileName: string, mime?: string): string {
+  if (mime && MIME_LABELS[mime]) return MIME_LABELS[mime];
+  const ext = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+  if (['doc', 'docx'].includes(ext)) return 'DOC';
+  if (['xls', 'xlsx'].includes(ext)) return 'XLS';
+  if (['zip', 'rar', '7z'].includes(ext)) return 'ZIP';
+  return ext.toUpperCase() || 'FILE';
+}
+
+// "PNG · 1920×1080 · 340 KB"; just the type when the stored file has no record
+export function describeAttachment(fileName: string, info?: AttachmentInfo): string {
+  if (!info) return getAttachmentTypeLabel(fileName);
+  const parts = [getAttachmentTypeLabel(info.original_name, info.mime)];
+  if (info.width && info.height) parts.push(`${info.width}×${info.height}`);
+  parts.push(formatBytes(info.size));
+  return parts.join(' · ');
+}
+
+const ATTACHMENT_PATH_MESSAGES: Record<AttachmentPathErrorCode, string> = {
+  INVALID_PATH: 'This attachment path is not valid',
+  OUTSIDE_VAULT: 'This attachment points outside the vault',
+  UNKNOWN_ATTACHMENT: 'This attachment is no longer part of the task',
+  MISSING_FILE: 'The file for this attachment is missing from the vault',
+};
+
+export function isAttachmentPathFailure(error: unknown): error is AttachmentPathFailure {
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AttachmentPathError';
+}
+
+// Toast text for a failed attachment call: refused paths by their code, other errors as they are
+export function attachmentErrorMessage(error: unknown, fallback: string): string {
+  if (isAttachmentPathFailure(error)) return ATTACHMENT_PATH_MESSAGES[error.code] ?? error.message;
+  return error instanceof Error ? error.message : fallback;
+}
+
 export function getFileTypeIcon(ext: string): string {
   if (['pdf'].includes(ext)) return '📄';
   if (['doc', 'docx'].includes(ext)) return '📝';
@@ -45,3 +181,46 @@ export function getFileTypeIcon(ext: string): string {
   return '📎';
 }
 
+// STATUS entries hold JSON; older entries may contain plain text
+export function parseStatusChange(content: string): StatusChange | null {
+  try {
+    const parsed = JSON.parse(content);
+    if (parsed && (parsed.field === 'status' || parsed.field === 'priority')) {
+      return parsed as StatusChange;
+    }
+  } catch {
+    // Not JSON, fall through
+  }
+  return null;
+}
+
+export function parseChecklistChange(content: string): ChecklistChange | null {
+  try {
+    const parsed = JSON.parse(content);
+    if (parsed && parsed.field === 'checklist') {
+      return parsed as ChecklistChange;
+    }
+  } catch {
+    // Not JSON, fall through
+  }
+  return null;
+}
+
+// Split an FTS snippet (terms wrapped in \u0002...\u0003) into plain and highlighted parts
+export function splitSnippet(snippet: string): { text: string; highlight: boolean }[] {
+  const parts: { text: string; highlight: boolean }[] = [];
+  const pattern = /\u0002([^\u0003]*)\u0003/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(snippet)) !== null) {
+    if (match.index > lastIndex) {
+      parts.push({ text: snippet.slice(lastIndex, match.index), highlight: false });
+    }
+    parts.push({ text: match[1], highlight: true });
+    lastIndex = pattern.lastIndex;
+  }
+  if (lastIndex < snippet.length) {
+    parts.push({ text: snippet.slice(lastIndex), highlight: false });
+  }
+  return parts;
+}